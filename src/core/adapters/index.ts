@@ -8,4 +8,6 @@ export {
   OpenAIProvider,
   GeminiProvider,
   GrokProvider,
+  LocalProvider,
+  createProvider,
 } from './llm';
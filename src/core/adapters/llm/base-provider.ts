@@ -5,15 +5,104 @@
  * Evergreen Note Cultivator - Socratic Challenger 패턴 재사용
  */
 
-import { requestUrl, RequestUrlParam } from 'obsidian';
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
 import type {
   ILLMProvider,
   LLMMessage,
   LLMResponse,
   LLMGenerateOptions,
   LLMProviderType,
+  LLMErrorCode,
 } from '../../domain/interfaces/llm-provider.interface';
 import { AI_PROVIDERS } from '../../domain/constants/model-configs';
+import type { AIProviderType } from '../../domain/constants/model-configs';
+import type { StreamEvent } from './stream-events';
+
+interface NormalizedError {
+  message: string;
+  code: LLMErrorCode;
+  retryAfterMs?: number;
+}
+
+// Parts of an HTTP error response used for classification
+interface HttpErrorResponse {
+  status: number;
+  headers: Record<string, string>;
+  text: string;
+}
+
+export interface StreamRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+const NETWORK_ERROR_PATTERN = /net::ERR_|ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|Failed to fetch/i;
+
+const CANCELLED_ERROR: NormalizedError = { message: '요청이 취소되었습니다.', code: 'CANCELLED' };
+
+// fetch could not reach the server at all (e.g. blocked by CORS); use a regular request instead
+const STREAM_UNAVAILABLE = new Error('Streaming unavailable');
+
+/**
+ * Stop waiting for a request once the signal aborts.
+ * requestUrl cannot be aborted, so the response is still received and discarded.
+ */
+function abortable<T>(request: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return request;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(CANCELLED_ERROR);
+    signal.addEventListener('abort', onAbort);
+    request.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+function isNormalizedError(error: unknown): error is NormalizedError {
+  return typeof error === 'object' && error !== null && 'message' in error && 'code' in error;
+}
+
+function getHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+/**
+ * Retry-After: delay in seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Provider error message from an error response body (falls back to the raw text)
+ */
+function extractErrorMessage(response: HttpErrorResponse): string {
+  try {
+    const body = JSON.parse(response.text) as { error?: { message?: string } | string; message?: string };
+    const message = typeof body.error === 'string' ? body.error : body.error?.message ?? body.message;
+    if (message) return message;
+  } catch {
+    // Not JSON
+  }
+  return response.text.slice(0, 200);
+}
 
 export abstract class BaseProvider implements ILLMProvider {
   protected apiKey: string = '';
@@ -26,8 +115,9 @@ export abstract class BaseProvider implements ILLMProvider {
     return this.model || this.config.defaultModel;
   }
 
+  // Shared cloud provider config (the local provider overrides everything that uses it)
   protected get config() {
-    return AI_PROVIDERS[this.providerType];
+    return AI_PROVIDERS[this.providerType as AIProviderType];
   }
 
   setApiKey(apiKey: string): void {
@@ -44,12 +134,122 @@ export abstract class BaseProvider implements ILLMProvider {
 
   /**
    * HTTP request wrapper using Obsidian's requestUrl
+   * (HTTP errors keep their status and Retry-After for the retry policy)
+   */
+  protected async makeRequest<T>(options: RequestUrlParam, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) throw CANCELLED_ERROR;
+
+    let response: RequestUrlResponse;
+    try {
+      response = await abortable(requestUrl({ ...options, throw: false }), signal);
+    } catch (error) {
+      if (error === CANCELLED_ERROR) throw error;
+      throw this.normalizeError(error);
+    }
+
+    if (response.status >= 400) {
+      throw this.normalizeHttpError(response);
+    }
+    return response.json as T;
+  }
+
+  /**
+   * Streaming request (server-sent events) using fetch.
+   * Text arrives through onText; the full content and usage are returned at the end.
+   * Falls back to generate() when the server cannot be reached with fetch.
+   */
+  protected async streamCompletion(
+    request: StreamRequest,
+    parseEvent: (data: string) => StreamEvent,
+    messages: LLMMessage[],
+    options: LLMGenerateOptions | undefined,
+    onText: (delta: string) => void
+  ): Promise<LLMResponse> {
+    const signal = options?.signal;
+    let content = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    try {
+      await this.readEventStream(request, signal, (data) => {
+        const event = parseEvent(data);
+        if (event.error) throw { message: event.error, code: 'UNKNOWN' } as NormalizedError;
+        if (event.inputTokens !== undefined) inputTokens = event.inputTokens;
+        if (event.outputTokens !== undefined) outputTokens = event.outputTokens;
+        if (event.text) {
+          content += event.text;
+          onText(event.text);
+        }
+      });
+    } catch (error) {
+      if (error === STREAM_UNAVAILABLE) return this.generate(messages, options);
+      return this.handleError(error);
+    }
+
+    return {
+      success: true,
+      content,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+    };
+  }
+
+  /**
+   * Read an SSE response and pass each event's data payload to onData
    */
-  protected async makeRequest<T>(options: RequestUrlParam): Promise<T> {
+  private async readEventStream(
+    request: StreamRequest,
+    signal: AbortSignal | undefined,
+    onData: (data: string) => void
+  ): Promise<void> {
+    if (signal?.aborted) throw CANCELLED_ERROR;
+
+    let response: Response;
+    try {
+      response = await fetch(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: request.body,
+        signal,
+      });
+    } catch {
+      if (signal?.aborted) throw CANCELLED_ERROR;
+      throw STREAM_UNAVAILABLE;
+    }
+
+    if (!response.ok) {
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+      throw this.normalizeHttpError({ status: response.status, headers, text: await response.text() });
+    }
+    if (!response.body) throw STREAM_UNAVAILABLE;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const flushLine = (line: string) => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) return;
+      const data = trimmed.slice('data:'.length).trim();
+      if (data && data !== '[DONE]') onData(data);
+    };
+
     try {
-      const response = await requestUrl(options);
-      return response.json as T;
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.forEach(flushLine);
+      }
+      flushLine(buffer);
     } catch (error) {
+      if (signal?.aborted) throw CANCELLED_ERROR;
+      if (isNormalizedError(error)) throw error;
       throw this.normalizeError(error);
     }
   }
@@ -58,26 +258,49 @@ export abstract class BaseProvider implements ILLMProvider {
    * Handle errors and return normalized response
    */
   protected handleError(error: unknown): LLMResponse {
-    // Check if already normalized (from makeRequest throwing normalizeError result)
-    if (typeof error === 'object' && error !== null && 'message' in error && 'code' in error) {
-      return {
-        success: false,
-        content: '',
-        error: (error as { message: string }).message,
-      };
-    }
-    const normalized = this.normalizeError(error);
+    // Already normalized (thrown by makeRequest)
+    const normalized = isNormalizedError(error) ? error : this.normalizeError(error);
     return {
       success: false,
       content: '',
       error: normalized.message,
+      errorCode: normalized.code,
+      retryAfterMs: normalized.retryAfterMs,
     };
   }
 
+  /**
+   * Classify an HTTP error response
+   */
+  private normalizeHttpError(response: HttpErrorResponse): NormalizedError {
+    const { status } = response;
+    console.error('[Evergreen Cultivator] API Error:', status, response.text);
+
+    const retryAfterMs = parseRetryAfter(getHeader(response.headers, 'retry-after'));
+
+    if (status === 429) {
+      return { message: '요청 한도를 초과했습니다. 잠시 후 다시 시도해주세요.', code: 'RATE_LIMIT', retryAfterMs };
+    }
+    if (status === 401 || status === 403) {
+      return { message: 'API 키가 유효하지 않거나 권한이 없습니다.', code: 'AUTH_ERROR' };
+    }
+    if (status === 408 || status === 504) {
+      return { message: '요청 시간이 초과되었습니다. 다시 시도해주세요.', code: 'TIMEOUT', retryAfterMs };
+    }
+    if (status >= 500) {
+      return {
+        message: `프로바이더 서버가 일시적으로 응답하지 않습니다 (HTTP ${status}).`,
+        code: 'SERVER_ERROR',
+        retryAfterMs,
+      };
+    }
+    return { message: `요청이 거부되었습니다 (HTTP ${status}): ${extractErrorMessage(response)}`, code: 'UNKNOWN' };
+  }
+
   /**
    * Normalize various error types to standard format
    */
-  private normalizeError(error: unknown): { message: string; code: string } {
+  private normalizeError(error: unknown): NormalizedError {
     // Log full error for debugging
     console.error('[Evergreen Cultivator] API Error:', error);
 
@@ -91,6 +314,9 @@ export abstract class BaseProvider implements ILLMProvider {
       if (error.message.includes('timeout') || error.message.includes('ETIMEDOUT')) {
         return { message: '요청 시간이 초과되었습니다. 다시 시도해주세요.', code: 'TIMEOUT' };
       }
+      if (NETWORK_ERROR_PATTERN.test(error.message)) {
+        return { message: '프로바이더 서버에 연결할 수 없습니다.', code: 'NETWORK' };
+      }
       return { message: error.message, code: 'UNKNOWN' };
     }
     return { message: '알 수 없는 오류가 발생했습니다.', code: 'UNKNOWN' };
@@ -6,6 +6,7 @@
  */
 
 import { BaseProvider } from './base-provider';
+import { parseAnthropicStreamEvent } from './stream-events';
 import type { LLMProviderType } from '../../domain/interfaces/llm-provider.interface';
 import type { LLMMessage, LLMResponse, LLMGenerateOptions } from '../../domain/interfaces/llm-provider.interface';
 import { buildAnthropicBody, parseAnthropicResponse } from 'obsidian-llm-shared';
@@ -57,7 +58,7 @@ export class ClaudeProvider extends BaseProvider {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(body),
-      });
+      }, options?.signal);
 
       const result = parseAnthropicResponse(json);
       if (!result.success) {
@@ -77,4 +78,37 @@ export class ClaudeProvider extends BaseProvider {
       return this.handleError(error);
     }
   }
+
+  async generateStream(
+    messages: LLMMessage[],
+    options: LLMGenerateOptions | undefined,
+    onText: (delta: string) => void
+  ): Promise<LLMResponse> {
+    if (!this.isAvailable()) {
+      return { success: false, content: '', error: 'API 키가 설정되지 않았습니다.' };
+    }
+
+    const body = buildAnthropicBody(messages, this.modelId, {
+      maxTokens: options?.maxTokens,
+      temperature: options?.temperature,
+    });
+
+    return this.streamCompletion(
+      {
+        url: `${this.config.endpoint}/messages`,
+        headers: {
+          'x-api-key': this.apiKey,
+          'anthropic-version': '2023-06-01',
+          // Required for requests made with fetch from the app
+          'anthropic-dangerous-direct-browser-access': 'true',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...body, stream: true }),
+      },
+      parseAnthropicStreamEvent,
+      messages,
+      options,
+      onText
+    );
+  }
 }
@@ -3,6 +3,7 @@
  */
 
 import { BaseProvider } from './base-provider';
+import { parseGeminiStreamEvent } from './stream-events';
 import type { LLMProviderType } from '../../domain/interfaces/llm-provider.interface';
 import type { LLMMessage, LLMResponse, LLMGenerateOptions } from '../../domain/interfaces/llm-provider.interface';
 import { buildGeminiBody, parseGeminiResponse, getGeminiGenerateUrl } from 'obsidian-llm-shared';
@@ -49,7 +50,7 @@ export class GeminiProvider extends BaseProvider {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(body),
-      });
+      }, options?.signal);
 
       const result = parseGeminiResponse(json);
       if (!result.success) {
@@ -69,4 +70,35 @@ export class GeminiProvider extends BaseProvider {
       return this.handleError(error);
     }
   }
+
+  async generateStream(
+    messages: LLMMessage[],
+    options: LLMGenerateOptions | undefined,
+    onText: (delta: string) => void
+  ): Promise<LLMResponse> {
+    if (!this.isAvailable()) {
+      return { success: false, content: '', error: 'API 키가 설정되지 않았습니다.' };
+    }
+
+    const body = buildGeminiBody(messages, this.modelId, {
+      maxTokens: options?.maxTokens,
+      temperature: options?.temperature,
+    });
+
+    // Same endpoint as generateContent, streamed as server-sent events
+    const url = getGeminiGenerateUrl(this.modelId, this.apiKey, this.config.endpoint)
+      .replace(':generateContent', ':streamGenerateContent');
+
+    return this.streamCompletion(
+      {
+        url: `${url}${url.includes('?') ? '&' : '?'}alt=sse`,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      },
+      parseGeminiStreamEvent,
+      messages,
+      options,
+      onText
+    );
+  }
 }
@@ -3,3 +3,5 @@ export { ClaudeProvider } from './claude-provider';
 export { OpenAIProvider } from './openai-provider';
 export { GeminiProvider } from './gemini-provider';
 export { GrokProvider } from './grok-provider';
+export { LocalProvider } from './local-provider';
+export { createProvider } from './provider-factory';
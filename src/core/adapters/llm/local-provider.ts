@@ -0,0 +1,203 @@
+/**
+ * Local Provider — OpenAI 호환 로컬 서버 (Ollama, llama.cpp, LM Studio)
+ *
+ * - Base URL 설정 (예: http://localhost:11434/v1), API 키는 선택
+ * - 모델 목록은 서버의 /models 엔드포인트에서 조회
+ * - 시스템 프롬프트를 무시하는 모델을 위해 사용자 메시지에 합쳐 보내는 옵션
+ * - 응답의 <think> 블록(추론 과정)은 제거 (스트리밍 중에도 표시하지 않음)
+ */
+
+import { BaseProvider } from './base-provider';
+import { parseOpenAIStreamEvent } from './stream-events';
+import type { LLMProviderType } from '../../domain/interfaces/llm-provider.interface';
+import type { LLMMessage, LLMResponse, LLMGenerateOptions } from '../../domain/interfaces/llm-provider.interface';
+import { DEFAULT_LOCAL_BASE_URL, LOCAL_PROVIDER_DISPLAY_NAME } from '../../domain/constants/model-configs';
+
+interface OpenAICompatibleResponse {
+  choices?: { message?: { content?: string } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+  error?: { message?: string } | string;
+}
+
+interface OpenAICompatibleModelList {
+  data?: { id?: string }[];
+}
+
+const THINK_BLOCK_PATTERN = /<think>[\s\S]*?<\/think>\s*/g;
+const OPEN_THINK_BLOCK_PATTERN = /<think>[\s\S]*$/;
+
+export class LocalProvider extends BaseProvider {
+  readonly providerType: LLMProviderType = 'local';
+  readonly name = LOCAL_PROVIDER_DISPLAY_NAME;
+
+  private baseUrl: string = DEFAULT_LOCAL_BASE_URL;
+  private systemPromptAsUser: boolean = false;
+
+  get modelId(): string {
+    return this.model;
+  }
+
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl.trim().replace(/\/+$/, '');
+  }
+
+  /**
+   * Send system prompts inside the first user message
+   * (for models whose chat template drops the system role)
+   */
+  setSystemPromptAsUser(enabled: boolean): void {
+    this.systemPromptAsUser = enabled;
+  }
+
+  /**
+   * No API key needed; a server URL and a model are
+   */
+  isAvailable(): boolean {
+    return !!this.baseUrl && !!this.model;
+  }
+
+  /**
+   * Model ids served by the server
+   */
+  async listModels(apiKey: string = this.apiKey): Promise<string[]> {
+    const json = await this.makeRequest<OpenAICompatibleModelList>({
+      url: `${this.baseUrl}/models`,
+      method: 'GET',
+      headers: this.buildHeaders(apiKey),
+    });
+    return (json.data ?? [])
+      .map((model) => model.id ?? '')
+      .filter((id) => id.length > 0)
+      .sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Connection test: the server answers /models with the given key
+   */
+  async testApiKey(apiKey: string): Promise<boolean> {
+    try {
+      await this.listModels(apiKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async generate(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
+    if (!this.isAvailable()) {
+      return { success: false, content: '', error: '로컬 서버 주소와 모델을 설정해주세요.' };
+    }
+
+    try {
+      const json = await this.makeRequest<OpenAICompatibleResponse>({
+        url: `${this.baseUrl}/chat/completions`,
+        method: 'POST',
+        headers: { ...this.buildHeaders(this.apiKey), 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.model,
+          messages: this.systemPromptAsUser ? mergeSystemIntoUser(messages) : messages,
+          max_tokens: options?.maxTokens,
+          temperature: options?.temperature,
+          top_p: options?.topP,
+          stop: options?.stopSequences,
+          stream: false,
+        }),
+      }, options?.signal);
+
+      if (json.error) {
+        const message = typeof json.error === 'string' ? json.error : json.error.message;
+        return { success: false, content: '', error: message ?? '로컬 서버 오류가 발생했습니다.' };
+      }
+
+      const content = json.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        return { success: false, content: '', error: '로컬 서버 응답에 내용이 없습니다.' };
+      }
+
+      const inputTokens = json.usage?.prompt_tokens ?? 0;
+      const outputTokens = json.usage?.completion_tokens ?? 0;
+      return {
+        success: true,
+        content: content.replace(THINK_BLOCK_PATTERN, '').trim(),
+        usage: {
+          inputTokens,
+          outputTokens,
+          totalTokens: json.usage?.total_tokens ?? inputTokens + outputTokens,
+          cost: 0,
+        },
+      };
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async generateStream(
+    messages: LLMMessage[],
+    options: LLMGenerateOptions | undefined,
+    onText: (delta: string) => void
+  ): Promise<LLMResponse> {
+    if (!this.isAvailable()) {
+      return { success: false, content: '', error: '로컬 서버 주소와 모델을 설정해주세요.' };
+    }
+
+    // Pass on only text outside <think> blocks, including one still open
+    let raw = '';
+    let visible = '';
+    const onVisibleText = (delta: string) => {
+      raw += delta;
+      const next = raw.replace(THINK_BLOCK_PATTERN, '').replace(OPEN_THINK_BLOCK_PATTERN, '');
+      if (next.length > visible.length && next.startsWith(visible)) {
+        onText(next.slice(visible.length));
+        visible = next;
+      }
+    };
+
+    const response = await this.streamCompletion(
+      {
+        url: `${this.baseUrl}/chat/completions`,
+        headers: { ...this.buildHeaders(this.apiKey), 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.model,
+          messages: this.systemPromptAsUser ? mergeSystemIntoUser(messages) : messages,
+          max_tokens: options?.maxTokens,
+          temperature: options?.temperature,
+          top_p: options?.topP,
+          stop: options?.stopSequences,
+          stream: true,
+          stream_options: { include_usage: true },
+        }),
+      },
+      parseOpenAIStreamEvent,
+      messages,
+      options,
+      onVisibleText
+    );
+
+    if (!response.success) return response;
+    return {
+      ...response,
+      content: response.content.replace(THINK_BLOCK_PATTERN, '').trim(),
+      usage: response.usage ? { ...response.usage, cost: 0 } : undefined,
+    };
+  }
+
+  private buildHeaders(apiKey: string): Record<string, string> {
+    return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+  }
+}
+
+/**
+ * System messages become an instruction block at the top of the first user message
+ */
+function mergeSystemIntoUser(messages: LLMMessage[]): LLMMessage[] {
+  const system = messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n');
+  const rest = messages.filter((m) => m.role !== 'system');
+  if (!system) return rest;
+
+  const firstUser = rest.findIndex((m) => m.role === 'user');
+  if (firstUser < 0) return [{ role: 'user', content: system }, ...rest];
+
+  return rest.map((m, i) => (i === firstUser
+    ? { role: 'user', content: `[Instructions]\n${system}\n\n[Request]\n${m.content}` }
+    : m));
+}
@@ -5,6 +5,7 @@
  */
 
 import { BaseProvider } from './base-provider';
+import { parseOpenAIStreamEvent } from './stream-events';
 import type { LLMProviderType } from '../../domain/interfaces/llm-provider.interface';
 import type { LLMMessage, LLMResponse, LLMGenerateOptions } from '../../domain/interfaces/llm-provider.interface';
 import { buildOpenAIBody, parseOpenAIResponse } from 'obsidian-llm-shared';
@@ -48,7 +49,7 @@ export class OpenAIProvider extends BaseProvider {
         method: 'POST',
         headers: { Authorization: `Bearer ${this.apiKey}`, 'Content-Type': 'application/json' },
         body: JSON.stringify(body),
-      });
+      }, options?.signal);
 
       const result = parseOpenAIResponse(json);
       if (!result.success) {
@@ -68,4 +69,31 @@ export class OpenAIProvider extends BaseProvider {
       return this.handleError(error);
     }
   }
+
+  async generateStream(
+    messages: LLMMessage[],
+    options: LLMGenerateOptions | undefined,
+    onText: (delta: string) => void
+  ): Promise<LLMResponse> {
+    if (!this.isAvailable()) {
+      return { success: false, content: '', error: 'API 키가 설정되지 않았습니다.' };
+    }
+
+    const body = buildOpenAIBody(messages, this.modelId, {
+      maxTokens: options?.maxTokens,
+      temperature: options?.temperature,
+    });
+
+    return this.streamCompletion(
+      {
+        url: `${this.config.endpoint}/chat/completions`,
+        headers: { Authorization: `Bearer ${this.apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, stream: true, stream_options: { include_usage: true } }),
+      },
+      parseOpenAIStreamEvent,
+      messages,
+      options,
+      onText
+    );
+  }
 }
@@ -0,0 +1,29 @@
+/**
+ * Provider Factory
+ * 프로바이더 타입별 새 인스턴스 생성 (폴백 체인의 모델별 인스턴스용)
+ */
+
+import { BaseProvider } from './base-provider';
+import { ClaudeProvider } from './claude-provider';
+import { OpenAIProvider } from './openai-provider';
+import { GeminiProvider } from './gemini-provider';
+import { GrokProvider } from './grok-provider';
+import { LocalProvider } from './local-provider';
+import type { LLMProviderType } from '../../domain/interfaces/llm-provider.interface';
+
+export function createProvider(type: LLMProviderType): BaseProvider | undefined {
+  switch (type) {
+    case 'claude':
+      return new ClaudeProvider();
+    case 'openai':
+      return new OpenAIProvider();
+    case 'gemini':
+      return new GeminiProvider();
+    case 'grok':
+      return new GrokProvider();
+    case 'local':
+      return new LocalProvider();
+    default:
+      return undefined;
+  }
+}
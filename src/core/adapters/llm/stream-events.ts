@@ -0,0 +1,102 @@
+/**
+ * Stream Events — 프로바이더별 SSE 이벤트 파서
+ *
+ * 각 파서는 이벤트 data(JSON 문자열) 하나를 공통 형식으로 변환합니다.
+ * 토큰 수는 마지막으로 받은 값이 최종값입니다.
+ */
+
+export interface StreamEvent {
+  text?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  error?: string;
+}
+
+function parseData(data: string): Record<string, unknown> | null {
+  try {
+    const json = JSON.parse(data);
+    return json !== null && typeof json === 'object' ? json as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+function errorMessage(error: unknown): string | undefined {
+  if (!error) return undefined;
+  if (typeof error === 'string') return error;
+  const message = (error as { message?: unknown }).message;
+  return typeof message === 'string' ? message : '스트리밍 중 오류가 발생했습니다.';
+}
+
+/**
+ * OpenAI Chat Completions 형식 (OpenAI, Grok, 로컬 OpenAI 호환 서버)
+ */
+export function parseOpenAIStreamEvent(data: string): StreamEvent {
+  const json = parseData(data) as {
+    choices?: { delta?: { content?: string | null } }[];
+    usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+    error?: unknown;
+  } | null;
+  if (!json) return {};
+
+  return {
+    text: json.choices?.[0]?.delta?.content ?? undefined,
+    inputTokens: json.usage?.prompt_tokens,
+    outputTokens: json.usage?.completion_tokens,
+    error: errorMessage(json.error),
+  };
+}
+
+/**
+ * Anthropic Messages 형식 (thinking 조각은 무시)
+ */
+export function parseAnthropicStreamEvent(data: string): StreamEvent {
+  const json = parseData(data) as {
+    type?: string;
+    message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+    delta?: { type?: string; text?: string };
+    usage?: { output_tokens?: number };
+    error?: unknown;
+  } | null;
+  if (!json) return {};
+
+  switch (json.type) {
+    case 'message_start':
+      return {
+        inputTokens: json.message?.usage?.input_tokens,
+        outputTokens: json.message?.usage?.output_tokens,
+      };
+    case 'content_block_delta':
+      return json.delta?.type === 'text_delta' ? { text: json.delta.text } : {};
+    case 'message_delta':
+      return { outputTokens: json.usage?.output_tokens };
+    case 'error':
+      return { error: errorMessage(json.error) };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Gemini streamGenerateContent 형식 (thought 파트는 무시)
+ */
+export function parseGeminiStreamEvent(data: string): StreamEvent {
+  const json = parseData(data) as {
+    candidates?: { content?: { parts?: { text?: string; thought?: boolean }[] } }[];
+    usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+    error?: unknown;
+  } | null;
+  if (!json) return {};
+
+  const text = (json.candidates?.[0]?.content?.parts ?? [])
+    .filter((part) => !part.thought && typeof part.text === 'string')
+    .map((part) => part.text)
+    .join('');
+
+  return {
+    text: text || undefined,
+    inputTokens: json.usageMetadata?.promptTokenCount,
+    outputTokens: json.usageMetadata?.candidatesTokenCount,
+    error: errorMessage(json.error),
+  };
+}
@@ -13,15 +13,26 @@ import type {
   NoteSummary,
   NoteSearchOptions,
 } from '../../domain/interfaces/note-repository.interface';
-import { MaturityLevel, type MaturityLevelEnum } from '../../domain/value-objects/maturity-level';
+import { MaturityLevel } from '../../domain/value-objects/maturity-level';
 
 /**
- * Frontmatter에서 사용하는 성숙도 키
+ * Frontmatter에서 사용하는 기본 성숙도 키
  */
-const MATURITY_KEY = 'growth-stage';
+const DEFAULT_MATURITY_KEY = 'growth-stage';
 
 export class ObsidianNoteRepository implements INoteRepository {
-  constructor(private readonly app: App) {}
+  private maturityKey: string;
+
+  constructor(private readonly app: App, maturityKey: string = DEFAULT_MATURITY_KEY) {
+    this.maturityKey = maturityKey || DEFAULT_MATURITY_KEY;
+  }
+
+  /**
+   * 성숙도 Frontmatter 키 설정 (플러그인 설정 변경 시)
+   */
+  setMaturityKey(key: string): void {
+    this.maturityKey = key || DEFAULT_MATURITY_KEY;
+  }
 
   /**
    * 노트 ID로 조회 (Obsidian에서는 path가 ID)
@@ -56,7 +67,8 @@ export class ObsidianNoteRepository implements INoteRepository {
    */
   async getAllNotes(): Promise<NoteSummary[]> {
     const files = this.app.vault.getMarkdownFiles();
-    return Promise.all(files.map(file => this.fileToNoteSummary(file)));
+    const backlinkCounts = this.countAllBacklinks();
+    return Promise.all(files.map(file => this.fileToNoteSummary(file, backlinkCounts)));
   }
 
   /**
@@ -84,16 +96,24 @@ export class ObsidianNoteRepository implements INoteRepository {
     if (options.maturityLevel) {
       files = files.filter(f => {
         const cache = this.app.metadataCache.getFileCache(f);
-        const stage = cache?.frontmatter?.[MATURITY_KEY];
-        return stage === options.maturityLevel;
+        return this.extractMaturityLevel(cache).level === options.maturityLevel;
+      });
+    }
+
+    // Frontmatter 키 존재 필터
+    if (options.metadataKey) {
+      const key = options.metadataKey;
+      files = files.filter(f => {
+        const frontmatter = this.app.metadataCache.getFileCache(f)?.frontmatter;
+        return !!frontmatter && Object.prototype.hasOwnProperty.call(frontmatter, key);
       });
     }
 
     // 백링크 존재 필터
     if (options.hasBacklinks !== undefined) {
+      const backlinkCounts = this.countAllBacklinks();
       files = files.filter(f => {
-        const backlinkCount = this.countBacklinks(f.path);
-        const hasBacklinks = backlinkCount > 0;
+        const hasBacklinks = (backlinkCounts.get(f.path) ?? 0) > 0;
         return options.hasBacklinks === hasBacklinks;
       });
     }
@@ -109,7 +129,8 @@ export class ObsidianNoteRepository implements INoteRepository {
       files = files.slice(0, options.limit);
     }
 
-    return Promise.all(files.map(file => this.fileToNoteSummary(file)));
+    const backlinkCounts = this.countAllBacklinks();
+    return Promise.all(files.map(file => this.fileToNoteSummary(file, backlinkCounts)));
   }
 
   /**
@@ -150,6 +171,20 @@ export class ObsidianNoteRepository implements INoteRepository {
     return backlinkPaths;
   }
 
+  /**
+   * 모든 노트의 아웃링크 (resolvedLinks 한 번 순회)
+   */
+  async getAllOutlinks(): Promise<Map<string, string[]>> {
+    const resolvedLinks = this.app.metadataCache.resolvedLinks;
+    const outlinks = new Map<string, string[]>();
+
+    for (const [sourcePath, links] of Object.entries(resolvedLinks)) {
+      outlinks.set(sourcePath, Object.keys(links));
+    }
+
+    return outlinks;
+  }
+
   /**
    * 노트 Frontmatter 업데이트
    */
@@ -167,10 +202,26 @@ export class ObsidianNoteRepository implements INoteRepository {
    */
   async updateMaturityLevel(noteId: string, level: MaturityLevel): Promise<void> {
     await this.updateMetadata(noteId, {
-      [MATURITY_KEY]: level.level,
+      [this.maturityKey]: level.level,
     } as Partial<NoteMetadata>);
   }
 
+  /**
+   * Frontmatter 키 이름 변경 (값 유지)
+   */
+  async renameMetadataKey(noteId: string, oldKey: string, newKey: string): Promise<void> {
+    const file = this.getFileByPath(noteId);
+    if (!file) throw new Error(`Note not found: ${noteId}`);
+
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      if (!Object.prototype.hasOwnProperty.call(frontmatter, oldKey)) return;
+      if (frontmatter[newKey] === undefined) {
+        frontmatter[newKey] = frontmatter[oldKey];
+      }
+      delete frontmatter[oldKey];
+    });
+  }
+
   /**
    * 노트 내용 업데이트
    */
@@ -187,6 +238,14 @@ export class ObsidianNoteRepository implements INoteRepository {
   async createNote(path: string, content: string, metadata?: NoteMetadata): Promise<NoteData> {
     const normalizedPath = normalizePath(path);
 
+    // 상위 폴더가 없으면 생성
+    const folder = normalizedPath.includes('/')
+      ? normalizedPath.slice(0, normalizedPath.lastIndexOf('/'))
+      : '';
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+
     // Frontmatter 포함한 내용 생성
     let fullContent = content;
     if (metadata) {
@@ -214,6 +273,16 @@ export class ObsidianNoteRepository implements INoteRepository {
     }
   }
 
+  /**
+   * 노트 삭제 (사용자 설정에 따른 휴지통으로 이동)
+   */
+  async deleteNote(noteId: string): Promise<void> {
+    const file = this.getFileByPath(noteId);
+    if (!file) throw new Error(`Note not found: ${noteId}`);
+
+    await this.app.fileManager.trashFile(file);
+  }
+
   /**
    * 노트 존재 여부 확인 (cross-platform safe with adapter fallback)
    */
@@ -250,9 +319,8 @@ export class ObsidianNoteRepository implements INoteRepository {
    * 경로로 파일 가져오기 (cross-platform safe)
    */
   private getFileByPath(path: string): TFile | null {
-    const normalizedPath = normalizePath(path);
-    const files = this.app.vault.getMarkdownFiles();
-    return files.find(f => f.path === normalizedPath) ?? null;
+    const file = this.app.vault.getAbstractFileByPath(normalizePath(path));
+    return file instanceof TFile && file.extension === 'md' ? file : null;
   }
 
   /**
@@ -279,13 +347,13 @@ export class ObsidianNoteRepository implements INoteRepository {
   /**
    * TFile을 NoteSummary로 변환
    */
-  private async fileToNoteSummary(file: TFile): Promise<NoteSummary> {
+  private async fileToNoteSummary(file: TFile, backlinkCounts: Map<string, number>): Promise<NoteSummary> {
     const cache = this.app.metadataCache.getFileCache(file);
     const tags = this.extractTags(cache);
     const maturityLevel = this.extractMaturityLevel(cache);
 
     const outlinks = cache?.links?.length ?? 0;
-    const backlinkCount = this.countBacklinks(file.path);
+    const backlinkCount = backlinkCounts.get(file.path) ?? 0;
 
     return {
       id: file.path,
@@ -295,23 +363,24 @@ export class ObsidianNoteRepository implements INoteRepository {
       maturityLevel,
       linkCount: outlinks,
       backlinkCount,
+      modifiedAt: file.stat.mtime,
     };
   }
 
   /**
-   * 파일의 백링크 수 계산
+   * 모든 파일의 백링크 수 계산 (resolvedLinks 한 번 순회)
    */
-  private countBacklinks(filePath: string): number {
+  private countAllBacklinks(): Map<string, number> {
     const resolvedLinks = this.app.metadataCache.resolvedLinks;
-    let count = 0;
+    const counts = new Map<string, number>();
 
     for (const links of Object.values(resolvedLinks)) {
-      if (links[filePath] !== undefined) {
-        count++;
+      for (const targetPath of Object.keys(links)) {
+        counts.set(targetPath, (counts.get(targetPath) ?? 0) + 1);
       }
     }
 
-    return count;
+    return counts;
   }
 
   /**
@@ -322,12 +391,13 @@ export class ObsidianNoteRepository implements INoteRepository {
 
     return {
       title: frontmatter.title ?? file.basename,
-      tags: this.extractTags(cache),
       aliases: frontmatter.aliases ?? [],
       created: frontmatter.created ?? file.stat.ctime.toString(),
       modified: frontmatter.modified ?? file.stat.mtime.toString(),
-      growthStage: frontmatter[MATURITY_KEY],
+      growthStage: frontmatter[this.maturityKey],
       ...frontmatter,
+      // After the spread so frontmatter `tags` does not drop inline tags
+      tags: this.extractTags(cache),
     };
   }
 
@@ -359,11 +429,8 @@ export class ObsidianNoteRepository implements INoteRepository {
    * 캐시에서 성숙도 추출
    */
   private extractMaturityLevel(cache: CachedMetadata | null): MaturityLevel {
-    const stage = cache?.frontmatter?.[MATURITY_KEY] as MaturityLevelEnum | undefined;
-    if (stage && ['seed', 'sprout', 'tree', 'evergreen'].includes(stage)) {
-      return MaturityLevel.create(stage);
-    }
-    return MaturityLevel.default(); // 기본값: seed
+    const stage = cache?.frontmatter?.[this.maturityKey] as string | undefined;
+    return MaturityLevel.fromFrontmatter(stage); // 없거나 알 수 없으면 첫 단계
   }
 
   /**
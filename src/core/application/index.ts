@@ -1,10 +1,31 @@
 // Use Cases
 export {
   AssessNoteQualityUseCase,
+  MIN_ASSESSABLE_LENGTH,
   SuggestConnectionsUseCase,
   UpdateMaturityUseCase,
   GetGrowthGuideUseCase,
   GetDimensionImprovementUseCase,
+  GetGardenOverviewUseCase,
+  MigrateFrontmatterKeyUseCase,
+  RemapMaturityStagesUseCase,
+  GetWiltingNotesUseCase,
+  DowngradeWiltingNotesUseCase,
+  PreAssessNoteUseCase,
+  GetCultivationQueueUseCase,
+  PlanNoteSplitUseCase,
+  PerformNoteSplitUseCase,
+  UndoNoteSplitUseCase,
+  DraftImprovementEditUseCase,
+  ApplyNoteEditUseCase,
+  UndoNoteEditUseCase,
+  CoachNoteUseCase,
+  SaveCoachingTranscriptUseCase,
+  buildCoachingCallout,
+  buildTranscriptNoteContent,
+  COACHING_CALLOUT_TYPE,
+  buildSplitParentContent,
+  sanitizeNoteTitle,
 } from './use-cases';
 export type {
   AssessNoteQualityInput,
@@ -15,9 +36,51 @@ export type {
   UpdateMaturityOutput,
   GetGrowthGuideInput,
   GetGrowthGuideOutput,
+  GrowthGuideStep,
   DimensionImprovementInput,
   DimensionImprovementOutput,
   DimensionImprovementAction,
+  GardenOverviewInput,
+  GardenOverview,
+  GardenMaturityCount,
+  GardenDimensionAverage,
+  GardenNoteEntry,
+  GardenUpgradeCandidate,
+  MigrateFrontmatterKeyInput,
+  MigrateFrontmatterKeyOutput,
+  FrontmatterKeyMigrationEntry,
+  RemapMaturityStagesInput,
+  RemapMaturityStagesOutput,
+  MaturityStageRemapEntry,
+  GetWiltingNotesInput,
+  WiltingNoteEntry,
+  DowngradeWiltingNotesInput,
+  DowngradeWiltingNotesOutput,
+  PreAssessNoteInput,
+  PreAssessNoteOutput,
+  GetCultivationQueueInput,
+  CultivationQueueEntry,
+  PlanNoteSplitInput,
+  PlanNoteSplitOutput,
+  NoteSplitPlan,
+  NoteSplitPart,
+  PerformNoteSplitInput,
+  PerformNoteSplitOutput,
+  NoteSplitOperation,
+  UndoNoteSplitOutput,
+  DraftImprovementEditInput,
+  DraftImprovementEditOutput,
+  ImprovementEditDraft,
+  ApplyNoteEditInput,
+  ApplyNoteEditOutput,
+  NoteEditOperation,
+  UndoNoteEditOutput,
+  CoachNoteInput,
+  CoachNoteOutput,
+  CoachingTurn,
+  SaveCoachingTranscriptInput,
+  SaveCoachingTranscriptOutput,
+  CoachingTranscriptTarget,
 } from './use-cases';
 
 // Services
@@ -28,5 +91,62 @@ export {
   updateAIServiceSettings,
   resetAIService,
   AssessmentHistoryService,
+  BatchAssessmentService,
+  ConnectionCandidateRanker,
+  UsageLedgerService,
+  MaturityAuditService,
+  ReviewScheduleService,
+  AutoAssessService,
+  isInExcludedFolder,
+  MeteredLLMProvider,
+  ConfiguredLLMProvider,
+  resolveGenerationOptions,
+  GENERATION_PURPOSES,
+  ResilientLLMProvider,
+  computeRetryDelay,
+  DEFAULT_RETRY_POLICY,
+  ResponseCacheService,
+  hashContent,
+  hashNoteBody,
+  NoteContentPreparer,
+  estimateTokens,
+  splitIntoSections,
+  formatPreparedContent,
+  describeCondensation,
+  DEFAULT_NOTE_TOKEN_BUDGET,
+  diffLines,
+  applyHunks,
+  generateStructured,
+  parseLenientJson,
+  validateResponse,
+  describeValidationErrors,
+  extractStreamedItems,
+  streamArrayItems,
+} from './services';
+export type {
+  AISettings,
+  BudgetStatus,
+  BudgetWarning,
+  FallbackTarget,
+  ProviderFactory,
+  UsageMeter,
+  GenerationOverride,
+  GenerationPurpose,
+  GenerationSettings,
+  RetryPolicy,
+  ResponseCacheEntry,
+  ResponseCacheKeyParts,
+  ResponseCacheLimits,
+  BatchRunOptions,
+  RankedConnectionCandidate,
+  RankCandidatesOptions,
+  ResponseValidator,
+  StructuredRequest,
+  StructuredResponse,
+  ValidationResult,
+  AutoAssessSkipReason,
+  ContentCondensation,
+  PreparedNoteContent,
+  PrepareNoteContentOptions,
+  DiffHunk,
 } from './services';
-export type { AISettings } from './services';
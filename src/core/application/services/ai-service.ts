@@ -5,6 +5,7 @@
  * Socratic Challenger와 동일한 패턴 재사용
  */
 
+import { calculateCost } from '../../domain';
 import type {
   ILLMProvider,
   LLMMessage,
@@ -12,27 +13,100 @@ import type {
   LLMGenerateOptions,
   LLMProviderType,
 } from '../../domain';
+import { ConfiguredLLMProvider, type GenerationSettings } from './generation-options';
+import { MeteredLLMProvider, type UsageMeter } from './metered-llm-provider';
+import { DEFAULT_RETRY_POLICY, ResilientLLMProvider, type RetryPolicy } from './resilient-llm-provider';
+import type { UsageLedgerService } from './usage-ledger-service';
+
+/**
+ * 기본 프로바이더 실패 시 순서대로 시도할 프로바이더/모델
+ */
+export interface FallbackTarget {
+  provider: LLMProviderType;
+  model: string;
+}
+
+/**
+ * 폴백용 프로바이더 인스턴스 생성 (API 키·모델 설정 포함, 지원하지 않으면 undefined)
+ */
+export type ProviderFactory = (type: LLMProviderType, model: string) => ILLMProvider | undefined;
 
 export interface AISettings {
   provider: LLMProviderType;
   apiKeys: Partial<Record<LLMProviderType, string>>;
   models: Partial<Record<LLMProviderType, string>>;
   budgetLimit?: number;
+  budgetWarningThresholds?: number[];
+  retry?: RetryPolicy;
+  fallbacks?: FallbackTarget[];
+  // Applied to every request (capped per answering model)
+  generation?: GenerationSettings;
+}
+
+/**
+ * 월 예산 상태
+ */
+export interface BudgetStatus {
+  limit: number | null;
+  spent: number;
+  percentUsed: number | null;
+  exhausted: boolean;
+}
+
+/**
+ * 예산 경고 (설정된 비율을 넘어선 경우)
+ */
+export interface BudgetWarning {
+  threshold: number;
+  spent: number;
+  limit: number;
+  exhausted: boolean;
 }
 
-export class AIService {
+type BudgetWarningListener = (warning: BudgetWarning) => void;
+
+export class AIService implements UsageMeter {
   private providers: Map<LLMProviderType, ILLMProvider> = new Map();
   private settings: AISettings;
+  private usageLedger: UsageLedgerService | null = null;
+  private warningListeners: Set<BudgetWarningListener> = new Set();
+  private providerFactory: ProviderFactory | null = null;
+  // Wrapped provider chain, rebuilt after settings or provider changes
+  private currentProvider: ILLMProvider | null = null;
 
   constructor(settings: AISettings) {
     this.settings = settings;
   }
 
+  /**
+   * 사용량 장부 연결 (연결 전에는 사용량이 기록되지 않음)
+   */
+  setUsageLedger(ledger: UsageLedgerService): void {
+    this.usageLedger = ledger;
+  }
+
+  /**
+   * 예산 경고 구독
+   */
+  onBudgetWarning(listener: BudgetWarningListener): () => void {
+    this.warningListeners.add(listener);
+    return () => this.warningListeners.delete(listener);
+  }
+
   /**
    * 프로바이더 등록
    */
   registerProvider(type: LLMProviderType, provider: ILLMProvider): void {
     this.providers.set(type, provider);
+    this.currentProvider = null;
+  }
+
+  /**
+   * 폴백 프로바이더 생성기 등록 (등록 전에는 폴백 없이 재시도만 수행)
+   */
+  setProviderFactory(factory: ProviderFactory): void {
+    this.providerFactory = factory;
+    this.currentProvider = null;
   }
 
   /**
@@ -40,13 +114,41 @@ export class AIService {
    */
   updateSettings(settings: AISettings): void {
     this.settings = settings;
+    this.currentProvider = null;
   }
 
   /**
-   * 현재 프로바이더 가져오기
+   * 현재 프로바이더 가져오기 (예산 확인, 사용량 기록, 재시도 및 폴백 포함)
+   * 폴백 체인은 설정·프로바이더가 바뀔 때까지 재사용
    */
   getCurrentProvider(): ILLMProvider | undefined {
-    return this.providers.get(this.settings.provider);
+    if (this.currentProvider) return this.currentProvider;
+
+    const provider = this.providers.get(this.settings.provider);
+    if (!provider) return undefined;
+
+    const generation = this.settings.generation;
+    const chain = [provider, ...this.getFallbackProviders(provider)]
+      .map((p) => new MeteredLLMProvider(generation ? new ConfiguredLLMProvider(p, generation) : p, this));
+    this.currentProvider = new ResilientLLMProvider(chain, this.settings.retry ?? DEFAULT_RETRY_POLICY);
+    return this.currentProvider;
+  }
+
+  /**
+   * 폴백 프로바이더 (기본 프로바이더와 같은 모델은 제외)
+   */
+  private getFallbackProviders(primary: ILLMProvider): ILLMProvider[] {
+    const factory = this.providerFactory;
+    if (!factory) return [];
+
+    const providers: ILLMProvider[] = [];
+    (this.settings.fallbacks ?? []).forEach((target) => {
+      if (target.provider === this.settings.provider && target.model === primary.modelId) return;
+
+      const provider = factory(target.provider, target.model);
+      if (provider) providers.push(provider);
+    });
+    return providers;
   }
 
   /**
@@ -64,12 +166,91 @@ export class AIService {
   }
 
   /**
-   * 프로바이더가 사용 가능한지 확인
+   * 프로바이더가 사용 가능한지 확인 (API 키 등 필요한 설정은 프로바이더가 판단)
    */
   isAvailable(): boolean {
     const provider = this.getCurrentProvider();
-    const apiKey = this.getCurrentApiKey();
-    return !!provider && !!apiKey;
+    return !!provider && provider.isAvailable();
+  }
+
+  /**
+   * 이번 달 예산 상태
+   */
+  getBudgetStatus(): BudgetStatus {
+    const spent = this.usageLedger?.getMonthlySpend() ?? 0;
+    const limit = this.settings.budgetLimit && this.settings.budgetLimit > 0
+      ? this.settings.budgetLimit
+      : null;
+
+    return {
+      limit,
+      spent,
+      percentUsed: limit !== null ? (spent / limit) * 100 : null,
+      exhausted: limit !== null && spent >= limit,
+    };
+  }
+
+  /**
+   * 예산 소진 시 오류 메시지 반환
+   */
+  checkBudget(): string | null {
+    const status = this.getBudgetStatus();
+    if (!status.exhausted || status.limit === null) return null;
+
+    return `이번 달 예산($${status.limit.toFixed(2)})을 모두 사용했습니다. ` +
+      `설정에서 예산을 늘리거나 다음 달까지 기다려주세요.`;
+  }
+
+  /**
+   * 응답 사용량을 장부에 기록하고 예산 경고 발생
+   */
+  async recordUsage(
+    provider: ILLMProvider,
+    purpose: string,
+    response: LLMResponse
+  ): Promise<void> {
+    if (!this.usageLedger || !response.usage) return;
+
+    const { inputTokens, outputTokens } = response.usage;
+    const cost = response.usage.cost ??
+      calculateCost(provider.modelId, inputTokens, outputTokens) ??
+      0;
+
+    const before = this.getBudgetStatus();
+    await this.usageLedger.addRecord({
+      timestamp: Date.now(),
+      purpose,
+      provider: provider.name,
+      model: provider.modelId,
+      inputTokens,
+      outputTokens,
+      cost,
+    });
+    const after = this.getBudgetStatus();
+
+    this.emitCrossedThresholds(before, after);
+  }
+
+  private emitCrossedThresholds(before: BudgetStatus, after: BudgetStatus): void {
+    if (after.limit === null || after.percentUsed === null) return;
+
+    const previousPercent = before.percentUsed ?? 0;
+    const currentPercent = after.percentUsed;
+    const thresholds = [...(this.settings.budgetWarningThresholds ?? []), 100]
+      .filter((t) => t > 0 && t <= 100);
+
+    const crossed = thresholds
+      .filter((t) => previousPercent < t && currentPercent >= t)
+      .sort((a, b) => b - a)[0];
+    if (crossed === undefined) return;
+
+    const warning: BudgetWarning = {
+      threshold: crossed,
+      spent: after.spent,
+      limit: after.limit,
+      exhausted: after.exhausted,
+    };
+    this.warningListeners.forEach((listener) => listener(warning));
   }
 
   /**
@@ -93,7 +274,7 @@ export class AIService {
       return {
         success: false,
         content: '',
-        error: 'API 키가 설정되지 않았습니다.',
+        error: '프로바이더 설정(API 키 또는 서버)이 완료되지 않았습니다.',
       };
     }
 
@@ -134,7 +315,7 @@ export class AIService {
    * 프로바이더가 구성되었는지 확인
    */
   isProviderConfigured(provider: LLMProviderType): boolean {
-    return !!this.settings.apiKeys[provider];
+    return this.providers.get(provider)?.isAvailable() ?? false;
   }
 }
 
@@ -6,9 +6,12 @@
 
 import type { AssessmentRecord, ScoreDelta } from '../../domain';
 
+type HistoryChangeListener = (notePath: string) => void;
+
 export class AssessmentHistoryService {
   private history: Map<string, AssessmentRecord[]> = new Map();
   private initialized = false;
+  private listeners: Set<HistoryChangeListener> = new Set();
 
   constructor(
     private maxPerNote: number,
@@ -44,6 +47,30 @@ export class AssessmentHistoryService {
 
     this.history.set(record.notePath, records);
     await this.persist();
+    this.notify(record.notePath);
+  }
+
+  /**
+   * Move history to a renamed note path
+   */
+  async renameNote(oldPath: string, newPath: string): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    const records = this.history.get(oldPath);
+    if (!records) return;
+
+    this.history.delete(oldPath);
+    this.history.set(
+      newPath,
+      records.map((r) => ({ ...r, notePath: newPath })),
+    );
+    await this.persist();
+    this.notify(newPath);
+  }
+
+  subscribe(listener: HistoryChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
   }
 
   getLatestRecord(notePath: string): AssessmentRecord | null {
@@ -59,7 +86,19 @@ export class AssessmentHistoryService {
   calculateDelta(notePath: string, current: AssessmentRecord): ScoreDelta | null {
     const previous = this.getLatestRecord(notePath);
     if (!previous) return null;
+    return this.diff(previous, current);
+  }
 
+  /**
+   * Delta between the last two recorded assessments of a note
+   */
+  getLatestDelta(notePath: string): ScoreDelta | null {
+    const records = this.getHistory(notePath);
+    if (records.length < 2) return null;
+    return this.diff(records[records.length - 2], records[records.length - 1]);
+  }
+
+  private diff(previous: AssessmentRecord, current: AssessmentRecord): ScoreDelta {
     const dimensionDeltas: Partial<Record<string, number>> = {};
     for (const [dim, score] of Object.entries(current.dimensionScores)) {
       const prevScore = previous.dimensionScores[dim as keyof typeof previous.dimensionScores];
@@ -75,6 +114,10 @@ export class AssessmentHistoryService {
     };
   }
 
+  private notify(notePath: string): void {
+    this.listeners.forEach((listener) => listener(notePath));
+  }
+
   private async persist(): Promise<void> {
     const data: Record<string, AssessmentRecord[]> = {};
     for (const [notePath, records] of this.history.entries()) {
@@ -0,0 +1,64 @@
+/**
+ * AutoAssessService
+ * Decides whether a note should be assessed automatically (on open or after editing).
+ * Remembers the body hash of the last assessed version per note; recorded history
+ * is consulted through a lookup callback so the check survives restarts.
+ */
+
+import { hashNoteBody } from './response-cache-service';
+import { MIN_ASSESSABLE_LENGTH } from '../use-cases/assess-note-quality';
+
+export type AutoAssessSkipReason = 'excluded' | 'too-short' | 'unchanged';
+
+/**
+ * 폴더 제외 여부 (하위 폴더 포함)
+ */
+export function isInExcludedFolder(notePath: string, excludedFolders: readonly string[]): boolean {
+  return excludedFolders.some((folder) => {
+    const normalized = folder.trim().replace(/^\/+|\/+$/g, '');
+    return normalized.length > 0 && (notePath === normalized || notePath.startsWith(`${normalized}/`));
+  });
+}
+
+export class AutoAssessService {
+  private assessedHashes: Map<string, string> = new Map();
+
+  /**
+   * @param getRecordedHash 이력에 기록된 마지막 평가의 본문 해시
+   */
+  constructor(
+    private readonly getRecordedHash: (notePath: string) => string | null,
+  ) {}
+
+  /**
+   * 자동 평가를 건너뛸 사유 (평가해야 하면 null)
+   */
+  getSkipReason(
+    notePath: string,
+    content: string,
+    excludedFolders: readonly string[]
+  ): AutoAssessSkipReason | null {
+    if (isInExcludedFolder(notePath, excludedFolders)) return 'excluded';
+    if (content.trim().length < MIN_ASSESSABLE_LENGTH) return 'too-short';
+
+    const hash = hashNoteBody(content);
+    if (hash === this.assessedHashes.get(notePath) || hash === this.getRecordedHash(notePath)) {
+      return 'unchanged';
+    }
+    return null;
+  }
+
+  /**
+   * 평가 완료 기록 (이력을 끈 경우나 캐시된 결과도 포함)
+   */
+  markAssessed(notePath: string, content: string): void {
+    this.assessedHashes.set(notePath, hashNoteBody(content));
+  }
+
+  renameNote(oldPath: string, newPath: string): void {
+    const hash = this.assessedHashes.get(oldPath);
+    if (hash === undefined) return;
+    this.assessedHashes.delete(oldPath);
+    this.assessedHashes.set(newPath, hash);
+  }
+}
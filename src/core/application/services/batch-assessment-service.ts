@@ -0,0 +1,326 @@
+/**
+ * BatchAssessmentService
+ * Runs quality assessment over many notes with bounded concurrency.
+ * The job queue is persisted after every item so an interrupted run
+ * (e.g. Obsidian restart) can resume where it left off.
+ */
+
+import { getBatchJobProgress } from '../../domain';
+import type {
+  AssessmentProfile,
+  BatchJob,
+  BatchJobItem,
+  BatchJobScope,
+  BatchJobProgress,
+  ILLMProvider,
+  INoteRepository,
+  NoteData,
+  NoteSearchOptions,
+  OutputLanguage,
+  QualityRubric,
+} from '../../domain';
+import { AssessNoteQualityUseCase, MIN_ASSESSABLE_LENGTH } from '../use-cases/assess-note-quality';
+import type { AssessmentHistoryService } from './assessment-history-service';
+import type { ResponseCacheService } from './response-cache-service';
+
+export interface BatchRunOptions {
+  concurrency: number;
+  recordHistory: boolean;
+  responseCache?: ResponseCacheService | null;
+  outputLanguage?: OutputLanguage;
+  rubric?: QualityRubric;
+  resolveProfile?: (note: NoteData) => AssessmentProfile | null;
+  heuristicWeight?: number;
+  noteTokenBudget?: number;
+}
+
+type BatchJobListener = (job: BatchJob, progress: BatchJobProgress) => void;
+
+export class BatchAssessmentService {
+  private job: BatchJob | null = null;
+  private running = false;
+  private stopRequested = false;
+  // Aborts in-flight requests when the run is paused, suspended or cancelled
+  private abortController: AbortController | null = null;
+  // Current run, settled once its workers have stopped and the job is saved
+  private activeRun: Promise<void> | null = null;
+  private listeners: Set<BatchJobListener> = new Set();
+  private persistQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly noteRepository: INoteRepository,
+    private readonly historyService: AssessmentHistoryService,
+    private loadData: () => Promise<BatchJob | null>,
+    private saveData: (job: BatchJob | null) => Promise<void>,
+  ) {}
+
+  async initialize(): Promise<void> {
+    this.job = await this.loadData();
+
+    // Items that were in flight when the app closed go back to the queue
+    if (this.job) {
+      for (const item of this.job.items) {
+        if (item.status === 'running') item.status = 'pending';
+      }
+    }
+  }
+
+  getJob(): BatchJob | null {
+    return this.job;
+  }
+
+  getProgress(): BatchJobProgress | null {
+    return this.job ? getBatchJobProgress(this.job) : null;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * A job exists that was neither completed nor cancelled
+   */
+  hasUnfinishedJob(): boolean {
+    return !!this.job && (this.job.status === 'running' || this.job.status === 'paused');
+  }
+
+  /**
+   * Was the job running when the plugin was last unloaded?
+   */
+  wasInterrupted(): boolean {
+    return !!this.job && this.job.status === 'running' && !this.running;
+  }
+
+  subscribe(listener: BatchJobListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Enqueue all notes in scope as a new job (replaces any previous job)
+   */
+  async createJob(scope: BatchJobScope): Promise<BatchJob> {
+    if (this.running) {
+      throw new Error('A batch assessment is already running.');
+    }
+
+    const notes = await this.noteRepository.searchNotes(this.toSearchOptions(scope));
+    const now = Date.now();
+
+    this.job = {
+      id: `batch_${now}_${Math.random().toString(36).substring(2, 9)}`,
+      scope,
+      status: 'paused',
+      items: notes.map((n) => ({ notePath: n.path, status: 'pending' })),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.persist();
+    this.notify();
+    return this.job;
+  }
+
+  /**
+   * Process pending items until the queue is empty or the job is paused/cancelled.
+   * Resuming right after a pause waits for the paused run to wind down first.
+   */
+  async run(provider: ILLMProvider, options: BatchRunOptions): Promise<void> {
+    if (this.running && this.stopRequested) {
+      await this.activeRun;
+    }
+
+    const job = this.job;
+    if (!job || this.running) return;
+    if (job.status === 'completed' || job.status === 'cancelled') return;
+
+    const run = this.process(job, provider, options);
+    this.activeRun = run;
+    try {
+      await run;
+    } finally {
+      if (this.activeRun === run) this.activeRun = null;
+    }
+  }
+
+  /**
+   * Stop now; interrupted items go back to the queue and the job can be resumed later
+   */
+  async pause(): Promise<void> {
+    if (!this.job || this.job.status !== 'running') return;
+    this.stop();
+    this.job.status = 'paused';
+    await this.persist();
+    this.notify();
+  }
+
+  /**
+   * Stop workers without changing the job status (plugin unload).
+   * A job left in 'running' state is resumed on the next load.
+   */
+  suspend(): void {
+    this.stop();
+  }
+
+  /**
+   * Stop and mark the job as cancelled; remaining items are not processed
+   */
+  async cancel(): Promise<void> {
+    if (!this.job) return;
+    this.stop();
+    this.job.status = 'cancelled';
+    this.job.updatedAt = Date.now();
+    await this.persist();
+    this.notify();
+  }
+
+  async clear(): Promise<void> {
+    if (this.running) return;
+    this.job = null;
+    await this.persist();
+  }
+
+  // ============ Private Helpers ============
+
+  private async process(job: BatchJob, provider: ILLMProvider, options: BatchRunOptions): Promise<void> {
+    this.running = true;
+    this.stopRequested = false;
+    this.abortController = new AbortController();
+    job.status = 'running';
+    await this.persist();
+    this.notify();
+
+    const useCase = new AssessNoteQualityUseCase(provider, options.responseCache ?? null);
+    const workerCount = Math.max(1, Math.floor(options.concurrency));
+
+    try {
+      const workers = Array.from({ length: workerCount }, () =>
+        this.runWorker(job, useCase, options)
+      );
+      await Promise.all(workers);
+
+      if (job.status === 'running' && !job.items.some((i) => i.status === 'pending')) {
+        job.status = 'completed';
+        job.completedAt = Date.now();
+      }
+    } finally {
+      this.running = false;
+      this.abortController = null;
+      job.updatedAt = Date.now();
+      await this.persist();
+      this.notify();
+    }
+  }
+
+  private stop(): void {
+    this.stopRequested = true;
+    this.abortController?.abort();
+  }
+
+  private async runWorker(
+    job: BatchJob,
+    useCase: AssessNoteQualityUseCase,
+    options: BatchRunOptions,
+  ): Promise<void> {
+    while (!this.stopRequested) {
+      const item = job.items.find((i) => i.status === 'pending');
+      if (!item) return;
+
+      item.status = 'running';
+      this.notify();
+
+      await this.processItem(item, useCase, options);
+
+      job.updatedAt = Date.now();
+      await this.persist();
+      this.notify();
+    }
+  }
+
+  private async processItem(
+    item: BatchJobItem,
+    useCase: AssessNoteQualityUseCase,
+    options: BatchRunOptions,
+  ): Promise<void> {
+    try {
+      const note = await this.noteRepository.getByPath(item.notePath);
+      if (!note) {
+        item.status = 'failed';
+        item.reason = 'Note not found';
+        return;
+      }
+
+      if (!note.content || note.content.trim().length < MIN_ASSESSABLE_LENGTH) {
+        item.status = 'skipped';
+        item.reason = `Shorter than ${MIN_ASSESSABLE_LENGTH} characters`;
+        return;
+      }
+
+      const [existingLinks, backlinks] = await Promise.all([
+        this.noteRepository.getOutlinks(note.id),
+        this.noteRepository.getBacklinks(note.id),
+      ]);
+
+      const result = await useCase.execute({
+        note,
+        existingLinks,
+        backlinks,
+        rubric: options.rubric,
+        profile: options.resolveProfile?.(note) ?? null,
+        language: options.outputLanguage,
+        heuristicWeight: options.heuristicWeight,
+        noteTokenBudget: options.noteTokenBudget,
+        signal: this.abortController?.signal,
+      });
+
+      // Interrupted by pause/cancel: leave the item for the next run
+      if (this.abortController?.signal.aborted) {
+        item.status = 'pending';
+        return;
+      }
+
+      if (!result.assessment) {
+        item.status = 'failed';
+        item.reason = result.error ?? 'Unknown error';
+        return;
+      }
+
+      if (options.recordHistory && !result.fromCache) {
+        await this.historyService.addRecord(result.assessment.toRecord());
+      }
+
+      item.status = 'done';
+      item.totalScore = result.assessment.qualityScore.totalScore;
+      item.reason = undefined;
+    } catch (error) {
+      item.status = 'failed';
+      item.reason = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private toSearchOptions(scope: BatchJobScope): NoteSearchOptions {
+    switch (scope.type) {
+      case 'folder':
+        return { folder: scope.folder };
+      case 'tag':
+        return { tags: [scope.tag] };
+      default:
+        return {};
+    }
+  }
+
+  private persist(): Promise<void> {
+    // Serialize writes so concurrent workers never interleave saves
+    const snapshot = this.job ? JSON.parse(JSON.stringify(this.job)) as BatchJob : null;
+    this.persistQueue = this.persistQueue
+      .then(() => this.saveData(snapshot))
+      .catch((error) => console.error('Failed to persist batch job:', error));
+    return this.persistQueue;
+  }
+
+  private notify(): void {
+    if (!this.job) return;
+    const progress = getBatchJobProgress(this.job);
+    this.listeners.forEach((listener) => listener(this.job!, progress));
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * ConnectionCandidateRanker
+ * LLM 호출 전에 현재 노트와 관련성이 높은 연결 후보를 로컬에서 선별합니다.
+ *
+ * 점수 계산:
+ * - 텍스트 점수: 제목·헤딩·태그·본문에 가중치를 둔 BM25 (최고 점수 기준 0~1 정규화)
+ * - 그래프 점수: 현재 노트를 링크하는 노트, 같은 노트를 링크하는 노트에 가산점
+ *
+ * 이미 아웃링크로 연결된 노트와 현재 노트는 후보에서 제외합니다.
+ * 노트별 색인은 수정 시각 기준으로 캐시하므로 인스턴스를 재사용하면 바뀐 노트만 다시 읽습니다.
+ */
+
+import type { INoteRepository, NoteData, NoteSummary } from '../../domain';
+
+export interface RankedConnectionCandidate {
+  note: NoteSummary;
+  score: number;
+  textScore: number;
+  graphScore: number;
+  matchedTerms: string[];
+}
+
+export interface RankCandidatesOptions {
+  limit?: number;
+}
+
+interface IndexedDocument {
+  note: NoteSummary;
+  termFreqs: Map<string, number>;
+  length: number;
+}
+
+interface CachedTermFrequencies {
+  modifiedAt: number;
+  termFreqs: Map<string, number>;
+  length: number;
+}
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Field weights (applied as term frequency multipliers)
+const FIELD_WEIGHTS = {
+  title: 3,
+  heading: 2,
+  tag: 2,
+  body: 1,
+};
+
+// Graph boosts added to the normalized text score
+const BACKLINK_BOOST = 0.3;
+const SHARED_LINK_BOOST = 0.1;
+const MAX_SHARED_LINK_BOOST = 0.3;
+
+// Query is limited to its most characteristic terms
+const MAX_QUERY_TERMS = 50;
+
+const DEFAULT_LIMIT = 20;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'with', 'this', 'that',
+  'from', 'have', 'has', 'was', 'were', 'will', 'can', 'its', 'into', 'than',
+  'then', 'they', 'them', 'what', 'when', 'which', 'who', 'how', 'why', 'also',
+  'http', 'https', 'www', 'com',
+]);
+
+const HANGUL_PATTERN = /[가-힣]/;
+
+/**
+ * 텍스트를 검색 토큰으로 분리
+ * 한글 토큰은 조사 변화에 대응하도록 글자 bigram을 함께 생성
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+
+  for (const word of words) {
+    if (word.length < 2 || STOPWORDS.has(word)) continue;
+    tokens.push(word);
+
+    if (HANGUL_PATTERN.test(word) && word.length > 2) {
+      for (let i = 0; i < word.length - 1; i++) {
+        tokens.push(word.slice(i, i + 2));
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Markdown 본문에서 헤딩 텍스트 추출
+ */
+function extractHeadings(content: string): string[] {
+  const headings: string[] = [];
+  const pattern = /^#{1,6}\s+(.+)$/gm;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    headings.push(match[1]);
+  }
+  return headings;
+}
+
+/**
+ * Frontmatter 블록 제거
+ */
+function stripFrontmatter(content: string): string {
+  return content.replace(/^---\n[\s\S]*?\n---\n?/, '');
+}
+
+export class ConnectionCandidateRanker {
+  // Term frequencies per note path, reused while the note's mtime is unchanged
+  private termFreqCache: Map<string, CachedTermFrequencies> = new Map();
+
+  constructor(private readonly noteRepository: INoteRepository) {}
+
+  /**
+   * 현재 노트와 관련성이 높은 순으로 후보 노트를 반환
+   */
+  async rank(
+    note: NoteData,
+    options: RankCandidatesOptions = {}
+  ): Promise<RankedConnectionCandidate[]> {
+    const limit = options.limit ?? DEFAULT_LIMIT;
+
+    const allOutlinks = await this.noteRepository.getAllOutlinks();
+    const outlinks = new Set(allOutlinks.get(note.path) ?? []);
+    const backlinks = new Set(await this.noteRepository.getBacklinks(note.path));
+
+    const allNotes = await this.noteRepository.getAllNotes();
+    this.pruneTermFreqCache(allNotes);
+    const candidates = allNotes.filter(
+      (n) => n.path !== note.path && !outlinks.has(n.path)
+    );
+    if (candidates.length === 0) return [];
+
+    const documents = await this.indexDocuments(candidates);
+    const query = this.buildTermFrequencies(
+      note.basename,
+      note.content,
+      note.metadata.tags ?? []
+    );
+
+    const textScores = this.scoreBM25(query, documents);
+    const maxTextScore = textScores.reduce((max, s) => Math.max(max, s.score), 0);
+
+    const ranked: RankedConnectionCandidate[] = [];
+    for (let i = 0; i < documents.length; i++) {
+      const doc = documents[i];
+      const textScore = maxTextScore > 0 ? textScores[i].score / maxTextScore : 0;
+      const graphScore = this.calculateGraphScore(
+        doc.note.path,
+        allOutlinks.get(doc.note.path) ?? [],
+        outlinks,
+        backlinks
+      );
+      const score = textScore + graphScore;
+      if (score <= 0) continue;
+
+      ranked.push({
+        note: doc.note,
+        score: Math.round(score * 100) / 100,
+        textScore: Math.round(textScore * 100) / 100,
+        graphScore: Math.round(graphScore * 100) / 100,
+        matchedTerms: textScores[i].matchedTerms,
+      });
+    }
+
+    return ranked
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // ============ Indexing ============
+
+  private async indexDocuments(notes: NoteSummary[]): Promise<IndexedDocument[]> {
+    const documents: IndexedDocument[] = [];
+
+    for (const summary of notes) {
+      let cached = this.termFreqCache.get(summary.path);
+      if (!cached || cached.modifiedAt !== summary.modifiedAt) {
+        const data = await this.noteRepository.getById(summary.id);
+        const termFreqs = this.buildTermFrequencies(
+          summary.basename,
+          data?.content ?? '',
+          summary.tags
+        );
+
+        let length = 0;
+        termFreqs.forEach((count) => (length += count));
+        cached = { modifiedAt: summary.modifiedAt, termFreqs, length };
+        this.termFreqCache.set(summary.path, cached);
+      }
+
+      documents.push({ note: summary, termFreqs: cached.termFreqs, length: cached.length });
+    }
+
+    return documents;
+  }
+
+  /**
+   * 삭제되거나 이름이 바뀐 노트의 색인 제거
+   */
+  private pruneTermFreqCache(allNotes: NoteSummary[]): void {
+    const paths = new Set(allNotes.map((n) => n.path));
+    for (const path of this.termFreqCache.keys()) {
+      if (!paths.has(path)) this.termFreqCache.delete(path);
+    }
+  }
+
+  private buildTermFrequencies(
+    title: string,
+    content: string,
+    tags: string[]
+  ): Map<string, number> {
+    const freqs = new Map<string, number>();
+    const add = (text: string, weight: number) => {
+      tokenize(text).forEach((token) => {
+        freqs.set(token, (freqs.get(token) ?? 0) + weight);
+      });
+    };
+
+    const body = stripFrontmatter(content);
+    add(title, FIELD_WEIGHTS.title);
+    extractHeadings(body).forEach((heading) => add(heading, FIELD_WEIGHTS.heading));
+    tags.forEach((tag) => add(tag.replace(/\//g, ' '), FIELD_WEIGHTS.tag));
+    add(body, FIELD_WEIGHTS.body);
+
+    return freqs;
+  }
+
+  // ============ Scoring ============
+
+  private scoreBM25(
+    query: Map<string, number>,
+    documents: IndexedDocument[]
+  ): { score: number; matchedTerms: string[] }[] {
+    const docCount = documents.length;
+    const avgLength = documents.reduce((sum, d) => sum + d.length, 0) / docCount || 1;
+
+    const docFreqs = new Map<string, number>();
+    documents.forEach((doc) => {
+      doc.termFreqs.forEach((_, term) => {
+        if (query.has(term)) {
+          docFreqs.set(term, (docFreqs.get(term) ?? 0) + 1);
+        }
+      });
+    });
+
+    const idf = (term: string): number => {
+      const df = docFreqs.get(term) ?? 0;
+      return Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+    };
+
+    // Keep the most characteristic query terms
+    const queryTerms = [...query.entries()]
+      .filter(([term]) => docFreqs.has(term))
+      .map(([term, qtf]) => ({ term, weight: Math.log(1 + qtf) * idf(term) }))
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, MAX_QUERY_TERMS);
+
+    return documents.map((doc) => {
+      let score = 0;
+      const matched: { term: string; contribution: number }[] = [];
+
+      for (const { term, weight } of queryTerms) {
+        const tf = doc.termFreqs.get(term);
+        if (!tf) continue;
+
+        const norm = tf * (BM25_K1 + 1) /
+          (tf + BM25_K1 * (1 - BM25_B + BM25_B * (doc.length / avgLength)));
+        const contribution = weight * norm;
+        score += contribution;
+        matched.push({ term, contribution });
+      }
+
+      const matchedTerms = matched
+        .sort((a, b) => b.contribution - a.contribution)
+        .slice(0, 5)
+        .map((m) => m.term);
+
+      return { score, matchedTerms };
+    });
+  }
+
+  private calculateGraphScore(
+    candidatePath: string,
+    candidateOutlinks: string[],
+    outlinks: Set<string>,
+    backlinks: Set<string>
+  ): number {
+    let score = 0;
+
+    if (backlinks.has(candidatePath)) {
+      score += BACKLINK_BOOST;
+    }
+
+    if (outlinks.size > 0) {
+      const shared = new Set(candidateOutlinks.filter((p) => outlinks.has(p))).size;
+      score += Math.min(shared * SHARED_LINK_BOOST, MAX_SHARED_LINK_BOOST);
+    }
+
+    return score;
+  }
+}
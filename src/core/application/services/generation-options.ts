@@ -0,0 +1,144 @@
+/**
+ * Generation Options
+ * 전역 생성 설정(maxTokens, temperature)과 기능별 재정의를 요청 옵션에 적용하고,
+ * 응답한 모델의 한도에 맞게 보정합니다.
+ *
+ * 우선순위: 기능별 재정의 > 호출부 지정값 > 전역 설정
+ * - maxTokens: 모델 설정이 있으면 모델의 출력 한도로 제한
+ * - temperature: 추론(reasoning) 모델은 지원하지 않으므로 보내지 않음
+ * - 모델 설정이 없는 모델(로컬 서버 등)은 보정하지 않음
+ */
+
+import { getEffectiveMaxTokens, getModelConfig, isReasoningModel } from '../../domain';
+import type {
+  ILLMProvider,
+  LLMMessage,
+  LLMResponse,
+  LLMGenerateOptions,
+} from '../../domain';
+
+/**
+ * 생성 설정을 따로 지정할 수 있는 기능 (LLMGenerateOptions.purpose 값)
+ */
+export const GENERATION_PURPOSES = [
+  'assess-note-quality',
+  'suggest-connections',
+  'growth-guide',
+  'plan-split',
+  'dimension-improvement',
+  'condense-note',
+  'draft-edit',
+  'coach-chat',
+] as const;
+
+export type GenerationPurpose = typeof GENERATION_PURPOSES[number];
+
+export interface GenerationOverride {
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface GenerationSettings {
+  maxTokens: number;
+  temperature: number;
+  overrides?: Partial<Record<GenerationPurpose, GenerationOverride>>;
+}
+
+function getOverride(settings: GenerationSettings, purpose: string | undefined): GenerationOverride | undefined {
+  if (!purpose || !settings.overrides) return undefined;
+  return (GENERATION_PURPOSES as readonly string[]).includes(purpose)
+    ? settings.overrides[purpose as GenerationPurpose]
+    : undefined;
+}
+
+/**
+ * 요청 옵션에 생성 설정 적용 (modelId는 실제로 요청을 받는 모델)
+ */
+export function resolveGenerationOptions(
+  settings: GenerationSettings,
+  modelId: string,
+  options?: LLMGenerateOptions
+): LLMGenerateOptions {
+  const override = getOverride(settings, options?.purpose);
+  const maxTokens = override?.maxTokens ?? options?.maxTokens ?? settings.maxTokens;
+  const temperature = override?.temperature ?? options?.temperature ?? settings.temperature;
+
+  if (!getModelConfig(modelId)) {
+    return { ...options, maxTokens, temperature };
+  }
+
+  return {
+    ...options,
+    maxTokens: getEffectiveMaxTokens(modelId, maxTokens),
+    temperature: isReasoningModel(modelId) ? undefined : temperature,
+  };
+}
+
+/**
+ * ILLMProvider 데코레이터 - 모든 요청에 생성 설정을 적용
+ */
+export class ConfiguredLLMProvider implements ILLMProvider {
+  constructor(
+    private readonly inner: ILLMProvider,
+    private readonly settings: GenerationSettings,
+  ) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get modelId(): string {
+    return this.inner.modelId;
+  }
+
+  setApiKey(apiKey: string): void {
+    this.inner.setApiKey(apiKey);
+  }
+
+  setModel(modelId: string): void {
+    this.inner.setModel(modelId);
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable();
+  }
+
+  testApiKey(apiKey: string): Promise<boolean> {
+    return this.inner.testApiKey(apiKey);
+  }
+
+  async generate(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
+    return this.inner.generate(messages, this.resolve(options));
+  }
+
+  /**
+   * Streams when the wrapped provider can, otherwise a regular request
+   */
+  async generateStream(
+    messages: LLMMessage[],
+    options: LLMGenerateOptions | undefined,
+    onText: (delta: string) => void
+  ): Promise<LLMResponse> {
+    const resolved = this.resolve(options);
+    return this.inner.generateStream
+      ? this.inner.generateStream(messages, resolved, onText)
+      : this.inner.generate(messages, resolved);
+  }
+
+  async simpleGenerate(
+    userPrompt: string,
+    systemPrompt?: string,
+    options?: LLMGenerateOptions
+  ): Promise<LLMResponse> {
+    const messages: LLMMessage[] = [];
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
+    }
+    messages.push({ role: 'user', content: userPrompt });
+    return this.generate(messages, options);
+  }
+
+  private resolve(options: LLMGenerateOptions | undefined): LLMGenerateOptions {
+    return resolveGenerationOptions(this.settings, this.inner.modelId, options);
+  }
+}
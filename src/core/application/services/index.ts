@@ -5,6 +5,90 @@ export {
   updateAIServiceSettings,
   resetAIService,
 } from './ai-service';
-export type { AISettings } from './ai-service';
+export type {
+  AISettings,
+  BudgetStatus,
+  BudgetWarning,
+  FallbackTarget,
+  ProviderFactory,
+} from './ai-service';
 
 export { AssessmentHistoryService } from './assessment-history-service';
+
+export { BatchAssessmentService } from './batch-assessment-service';
+export type { BatchRunOptions } from './batch-assessment-service';
+
+export { ConnectionCandidateRanker } from './connection-candidate-ranker';
+export type {
+  RankedConnectionCandidate,
+  RankCandidatesOptions,
+} from './connection-candidate-ranker';
+
+export { UsageLedgerService } from './usage-ledger-service';
+
+export { MaturityAuditService } from './maturity-audit-service';
+
+export { ReviewScheduleService } from './review-schedule-service';
+
+export { AutoAssessService, isInExcludedFolder } from './auto-assess-service';
+export type { AutoAssessSkipReason } from './auto-assess-service';
+
+export { MeteredLLMProvider } from './metered-llm-provider';
+export type { UsageMeter } from './metered-llm-provider';
+
+export {
+  ConfiguredLLMProvider,
+  resolveGenerationOptions,
+  GENERATION_PURPOSES,
+} from './generation-options';
+export type {
+  GenerationOverride,
+  GenerationPurpose,
+  GenerationSettings,
+} from './generation-options';
+
+export {
+  ResilientLLMProvider,
+  computeRetryDelay,
+  DEFAULT_RETRY_POLICY,
+} from './resilient-llm-provider';
+export type { RetryPolicy } from './resilient-llm-provider';
+
+export {
+  generateStructured,
+  parseLenientJson,
+  validateResponse,
+  describeValidationErrors,
+  extractStreamedItems,
+  streamArrayItems,
+} from './structured-response';
+export type {
+  ResponseValidator,
+  StructuredRequest,
+  StructuredResponse,
+  ValidationResult,
+} from './structured-response';
+
+export {
+  NoteContentPreparer,
+  estimateTokens,
+  splitIntoSections,
+  formatPreparedContent,
+  describeCondensation,
+  DEFAULT_NOTE_TOKEN_BUDGET,
+} from './note-content-preparer';
+export type {
+  ContentCondensation,
+  PreparedNoteContent,
+  PrepareNoteContentOptions,
+} from './note-content-preparer';
+
+export { diffLines, applyHunks } from './text-diff';
+export type { DiffHunk } from './text-diff';
+
+export { ResponseCacheService, hashContent, hashNoteBody } from './response-cache-service';
+export type {
+  ResponseCacheEntry,
+  ResponseCacheKeyParts,
+  ResponseCacheLimits,
+} from './response-cache-service';
@@ -0,0 +1,55 @@
+/**
+ * MaturityAuditService
+ * Persists an audit trail of maturity changes made by the decay policy.
+ * Uses callback-based load/save to decouple from Obsidian dependency.
+ */
+
+import type { MaturityAuditEntry } from '../../domain';
+
+// Entries kept in data.json (oldest are dropped first)
+const MAX_ENTRIES = 500;
+
+export class MaturityAuditService {
+  private entries: MaturityAuditEntry[] = [];
+  private initialized = false;
+
+  constructor(
+    private loadData: () => Promise<MaturityAuditEntry[] | null>,
+    private saveData: (data: MaturityAuditEntry[]) => Promise<void>,
+  ) {}
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    const data = await this.loadData();
+    this.entries = Array.isArray(data) ? data : [];
+    this.initialized = true;
+  }
+
+  async addEntries(entries: Omit<MaturityAuditEntry, 'id'>[]): Promise<void> {
+    if (entries.length === 0) return;
+    if (!this.initialized) await this.initialize();
+
+    entries.forEach((entry) => {
+      this.entries.push({
+        ...entry,
+        id: `${entry.changedAt}-${Math.random().toString(36).slice(2, 8)}`,
+      });
+    });
+
+    if (this.entries.length > MAX_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_ENTRIES);
+    }
+
+    await this.saveData(this.entries);
+  }
+
+  /**
+   * Audit entries (newest first), optionally for one note
+   */
+  getEntries(notePath?: string): MaturityAuditEntry[] {
+    return this.entries
+      .filter((e) => !notePath || e.notePath === notePath)
+      .sort((a, b) => b.changedAt - a.changedAt);
+  }
+}
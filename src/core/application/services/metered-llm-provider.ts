@@ -0,0 +1,112 @@
+/**
+ * MeteredLLMProvider
+ * ILLMProvider 데코레이터 - 요청 전 예산을 확인하고 응답의 사용량을 기록합니다.
+ */
+
+import type {
+  ILLMProvider,
+  LLMMessage,
+  LLMResponse,
+  LLMGenerateOptions,
+} from '../../domain';
+
+/**
+ * 사용량 기록/예산 확인 포트 (AIService가 구현)
+ */
+export interface UsageMeter {
+  /**
+   * 예산이 소진되었으면 오류 메시지, 아니면 null
+   */
+  checkBudget(): string | null;
+
+  /**
+   * 응답 사용량 기록
+   */
+  recordUsage(provider: ILLMProvider, purpose: string, response: LLMResponse): Promise<void>;
+}
+
+// Purpose recorded when a caller does not specify one
+const DEFAULT_PURPOSE = 'other';
+
+export class MeteredLLMProvider implements ILLMProvider {
+  constructor(
+    private readonly inner: ILLMProvider,
+    private readonly meter: UsageMeter,
+  ) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get modelId(): string {
+    return this.inner.modelId;
+  }
+
+  setApiKey(apiKey: string): void {
+    this.inner.setApiKey(apiKey);
+  }
+
+  setModel(modelId: string): void {
+    this.inner.setModel(modelId);
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable();
+  }
+
+  testApiKey(apiKey: string): Promise<boolean> {
+    return this.inner.testApiKey(apiKey);
+  }
+
+  async generate(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
+    return this.metered(options, () => this.inner.generate(messages, options));
+  }
+
+  /**
+   * Streams when the wrapped provider can, otherwise a regular request
+   */
+  async generateStream(
+    messages: LLMMessage[],
+    options: LLMGenerateOptions | undefined,
+    onText: (delta: string) => void
+  ): Promise<LLMResponse> {
+    return this.metered(options, () => this.inner.generateStream
+      ? this.inner.generateStream(messages, options, onText)
+      : this.inner.generate(messages, options));
+  }
+
+  private async metered(
+    options: LLMGenerateOptions | undefined,
+    request: () => Promise<LLMResponse>
+  ): Promise<LLMResponse> {
+    const budgetError = this.meter.checkBudget();
+    if (budgetError) {
+      return { success: false, content: '', error: budgetError, errorCode: 'BUDGET_EXCEEDED' };
+    }
+
+    const response = await request();
+
+    if (response.usage) {
+      try {
+        await this.meter.recordUsage(this.inner, options?.purpose ?? DEFAULT_PURPOSE, response);
+      } catch (error) {
+        console.error('[Evergreen Cultivator] Failed to record usage:', error);
+      }
+    }
+
+    return response;
+  }
+
+  async simpleGenerate(
+    userPrompt: string,
+    systemPrompt?: string,
+    options?: LLMGenerateOptions
+  ): Promise<LLMResponse> {
+    const messages: LLMMessage[] = [];
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
+    }
+    messages.push({ role: 'user', content: userPrompt });
+    return this.generate(messages, options);
+  }
+}
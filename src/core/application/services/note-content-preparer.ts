@@ -0,0 +1,290 @@
+/**
+ * NoteContentPreparer
+ * 긴 노트를 모델에 보내기 전에 토큰 예산에 맞게 줄입니다.
+ *
+ * 처리 순서:
+ * 1. 모델별 토큰 수 추정 (예산 이내면 원문 그대로)
+ * 2. 제목(#) 기준 섹션 분할, 큰 섹션은 문단 단위로 다시 분할
+ * 3. 섹션별 요약 (섹션 크기에 비례한 분량, 응답 캐시 사용)
+ * 4. 요약에 실패하면 예산 길이로 잘라서 사용
+ *
+ * 줄인 경우 condensation에 방식과 크기를 기록하여 결과 화면에 알립니다.
+ */
+
+import type { ILLMProvider, LLMMessage } from '../../domain';
+import type { ResponseCacheService } from './response-cache-service';
+
+/**
+ * 노트 내용 토큰 예산 기본값
+ */
+export const DEFAULT_NOTE_TOKEN_BUDGET = 6000;
+
+export interface ContentCondensation {
+  method: 'summarized' | 'truncated';
+  originalTokens: number;
+  preparedTokens: number;
+  // Sections or chunks the note was split into
+  sectionCount: number;
+}
+
+export interface PreparedNoteContent {
+  content: string;
+  // Set when a condensed version replaces the full note
+  condensation: ContentCondensation | null;
+  // Only set when the request was cancelled
+  error?: string;
+}
+
+export interface PrepareNoteContentOptions {
+  tokenBudget?: number;
+  signal?: AbortSignal;
+}
+
+interface TokenRatio {
+  pattern: RegExp;
+  // Latin-script characters per token
+  charsPerToken: number;
+  // Tokens per CJK (Hangul, kana, Han) character
+  cjkTokensPerChar: number;
+}
+
+// Rough tokenizer ratios by model family (estimates, not exact counts)
+const TOKEN_RATIOS: TokenRatio[] = [
+  { pattern: /^claude/i, charsPerToken: 3.5, cjkTokensPerChar: 1.2 },
+  { pattern: /^gemini/i, charsPerToken: 4, cjkTokensPerChar: 0.8 },
+  { pattern: /^(gpt-4o|gpt-4\.1|gpt-5|o\d)/i, charsPerToken: 4, cjkTokensPerChar: 0.7 },
+];
+const DEFAULT_TOKEN_RATIO: Omit<TokenRatio, 'pattern'> = { charsPerToken: 4, cjkTokensPerChar: 1 };
+
+const CJK_PATTERN = /[\u1100-\u11ff\u3040-\u30ff\u3130-\u318f\u3400-\u9fff\uac00-\ud7af]/g;
+const HEADING_PATTERN = /^#{1,6}\s/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+// Most summary requests made for one note
+const MAX_CHUNKS = 8;
+// Smallest summary asked for per section
+const MIN_SUMMARY_TOKENS = 80;
+
+// 캐시 키에 포함되는 프롬프트 버전
+const PROMPT_VERSION = 1;
+
+const SYSTEM_PROMPT = `당신은 긴 노트를 충실하게 압축하는 편집자입니다.
+
+**요약 원칙:**
+1. 핵심 주장, 근거, 예시, 출처를 보존
+2. [[위키링크]]와 태그는 그대로 유지
+3. 필자의 관점과 용어를 바꾸지 않음
+4. 평가나 의견을 덧붙이지 않음
+5. 원문과 같은 언어로 작성
+6. 요약문만 출력 (설명이나 머리말 없이)`;
+
+/**
+ * 모델별 토큰 수 추정
+ */
+export function estimateTokens(text: string, modelId: string = ''): number {
+  const ratio = TOKEN_RATIOS.find((r) => r.pattern.test(modelId)) ?? DEFAULT_TOKEN_RATIO;
+  const cjk = (text.match(CJK_PATTERN) ?? []).length;
+  return Math.ceil(cjk * ratio.cjkTokensPerChar + (text.length - cjk) / ratio.charsPerToken);
+}
+
+/**
+ * 제목(#) 기준 섹션 분할 (코드 블록 안의 #은 무시)
+ */
+export function splitIntoSections(content: string): string[] {
+  const sections: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  for (const line of content.split('\n')) {
+    if (FENCE_PATTERN.test(line)) inFence = !inFence;
+    if (!inFence && HEADING_PATTERN.test(line) && current.some((l) => l.trim().length > 0)) {
+      sections.push(current.join('\n').trim());
+      current = [];
+    }
+    current.push(line);
+  }
+  if (current.some((l) => l.trim().length > 0)) sections.push(current.join('\n').trim());
+
+  return sections;
+}
+
+/**
+ * 섹션을 chunkTokens 이하 조각으로 묶기
+ * (작은 섹션은 이어 붙이고, 큰 섹션은 문단 단위로, 너무 긴 문단은 글자 수로 분할)
+ */
+function splitIntoChunks(sections: string[], chunkTokens: number, modelId: string): string[] {
+  const pieces: string[] = [];
+  for (const section of sections) {
+    if (estimateTokens(section, modelId) <= chunkTokens) {
+      pieces.push(section);
+      continue;
+    }
+    for (let paragraph of section.split(/\n\s*\n/)) {
+      while (estimateTokens(paragraph, modelId) > chunkTokens) {
+        const cut = Math.max(1, Math.floor(paragraph.length * chunkTokens / estimateTokens(paragraph, modelId)));
+        pieces.push(paragraph.slice(0, cut));
+        paragraph = paragraph.slice(cut);
+      }
+      if (paragraph.trim()) pieces.push(paragraph);
+    }
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    const candidate = current ? `${current}\n\n${piece}` : piece;
+    if (current && estimateTokens(candidate, modelId) > chunkTokens) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+/**
+ * 예산 길이로 자르기
+ */
+function truncateToBudget(content: string, tokenBudget: number, modelId: string): string {
+  const tokens = estimateTokens(content, modelId);
+  if (tokens <= tokenBudget) return content;
+  return `${content.slice(0, Math.floor(content.length * tokenBudget / tokens))}...`;
+}
+
+/**
+ * 프롬프트에 넣을 노트 내용 (줄인 경우 그 사실을 앞에 명시)
+ */
+export function formatPreparedContent(prepared: PreparedNoteContent): string {
+  switch (prepared.condensation?.method) {
+    case 'summarized':
+      return `(긴 노트라서 섹션별로 요약한 버전입니다. 세부 표현보다 구조와 논지를 기준으로 판단하세요.)\n${prepared.content}`;
+    case 'truncated':
+      return `(긴 노트라서 앞부분만 포함했습니다.)\n${prepared.content}`;
+    default:
+      return prepared.content;
+  }
+}
+
+/**
+ * 결과 화면용 설명
+ */
+export function describeCondensation(condensation: ContentCondensation): string {
+  const original = condensation.originalTokens.toLocaleString();
+  const prepared = condensation.preparedTokens.toLocaleString();
+  return condensation.method === 'summarized'
+    ? `Based on a condensed version of this long note (${condensation.sectionCount} parts summarized, ~${original} → ~${prepared} tokens)`
+    : `Based on the first ~${prepared} of ~${original} tokens of this long note`;
+}
+
+function buildUserPrompt(chunk: string, targetTokens: number): string {
+  return `다음은 긴 노트의 한 부분입니다. 약 ${targetTokens} 토큰 이내로 요약하세요.
+제목(#) 줄이 있으면 요약 맨 앞에 그대로 두세요.
+
+---
+${chunk}
+---`;
+}
+
+export class NoteContentPreparer {
+  constructor(
+    private readonly llmProvider: ILLMProvider,
+    private readonly responseCache: ResponseCacheService | null = null,
+  ) {}
+
+  async prepare(content: string, options: PrepareNoteContentOptions = {}): Promise<PreparedNoteContent> {
+    const modelId = this.llmProvider.modelId;
+    const tokenBudget = options.tokenBudget ?? DEFAULT_NOTE_TOKEN_BUDGET;
+    const originalTokens = estimateTokens(content, modelId);
+
+    if (originalTokens <= tokenBudget) {
+      return { content, condensation: null };
+    }
+
+    const chunkTokens = Math.max(tokenBudget, Math.ceil(originalTokens / MAX_CHUNKS));
+    const chunks = splitIntoChunks(splitIntoSections(content), chunkTokens, modelId);
+
+    const summaries: string[] = [];
+    for (const chunk of chunks) {
+      const share = Math.floor(tokenBudget * estimateTokens(chunk, modelId) / originalTokens);
+      const summary = await this.summarize(chunk, Math.max(MIN_SUMMARY_TOKENS, share), options.signal);
+
+      if (options.signal?.aborted) {
+        return { content, condensation: null, error: '요청이 취소되었습니다.' };
+      }
+      if (summary === null) {
+        return this.truncated(content, tokenBudget, originalTokens, chunks.length);
+      }
+      summaries.push(summary);
+    }
+
+    const condensed = truncateToBudget(summaries.join('\n\n'), tokenBudget, modelId);
+    return {
+      content: condensed,
+      condensation: {
+        method: 'summarized',
+        originalTokens,
+        preparedTokens: estimateTokens(condensed, modelId),
+        sectionCount: chunks.length,
+      },
+    };
+  }
+
+  /**
+   * 한 조각 요약 (실패하면 null)
+   */
+  private async summarize(chunk: string, targetTokens: number, signal?: AbortSignal): Promise<string | null> {
+    const userPrompt = buildUserPrompt(chunk, targetTokens);
+
+    const cacheKey = this.responseCache?.buildKey({
+      useCase: 'condense-note',
+      promptVersion: PROMPT_VERSION,
+      model: this.llmProvider.modelId,
+      noteContent: chunk,
+      prompt: `${SYSTEM_PROMPT}\n\n${userPrompt}`,
+    });
+    const cached = cacheKey ? this.responseCache?.get(cacheKey) : null;
+    if (cached) return cached;
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: userPrompt },
+    ];
+    const response = await this.llmProvider.generate(messages, {
+      purpose: 'condense-note',
+      signal,
+      // Room for the summary plus some slack for its own formatting
+      maxTokens: Math.ceil(targetTokens * 1.5) + 100,
+    });
+
+    const summary = response.content.trim();
+    if (!response.success || summary.length === 0) {
+      console.warn('[Evergreen Cultivator] Section summary failed:', response.error);
+      return null;
+    }
+
+    if (cacheKey && !response.source?.fallback) await this.responseCache?.set(cacheKey, summary);
+    return summary;
+  }
+
+  private truncated(
+    content: string,
+    tokenBudget: number,
+    originalTokens: number,
+    sectionCount: number
+  ): PreparedNoteContent {
+    const modelId = this.llmProvider.modelId;
+    const truncated = truncateToBudget(content, tokenBudget, modelId);
+    return {
+      content: truncated,
+      condensation: {
+        method: 'truncated',
+        originalTokens,
+        preparedTokens: estimateTokens(truncated, modelId),
+        sectionCount,
+      },
+    };
+  }
+}
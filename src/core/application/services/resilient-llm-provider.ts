@@ -0,0 +1,236 @@
+/**
+ * ResilientLLMProvider
+ * ILLMProvider 데코레이터 - 일시적 오류는 지수 백오프로 재시도하고,
+ * 그래도 실패하면 설정된 순서대로 다음 프로바이더/모델로 넘어갑니다.
+ *
+ * 규칙:
+ * - 재시도 대상: 요청 한도, 시간 초과, 서버 오류, 네트워크 오류
+ * - 재시도 간격: Retry-After가 있으면 그 값, 없으면 지수 백오프 + 지터
+ * - Retry-After가 최대 대기 시간보다 길면 기다리지 않고 다음 프로바이더로
+ * - 예산 소진·요청 취소는 어느 프로바이더로도 해결되지 않으므로 즉시 중단
+ * - 성공한 응답에는 실제로 응답한 프로바이더/모델(source)을 기록
+ * - 스트리밍 중 텍스트가 이미 전달된 뒤의 실패는 재시도하지 않음 (중복 출력 방지)
+ */
+
+import type {
+  ILLMProvider,
+  LLMErrorCode,
+  LLMMessage,
+  LLMResponse,
+  LLMGenerateOptions,
+} from '../../domain';
+
+export interface RetryPolicy {
+  // Retries per provider after the first attempt
+  maxRetries: number;
+  baseDelayMs: number;
+  // Longest wait between attempts (also caps Retry-After)
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+const TRANSIENT_ERRORS: LLMErrorCode[] = ['RATE_LIMIT', 'TIMEOUT', 'SERVER_ERROR', 'NETWORK'];
+
+// Errors no other provider can fix
+const TERMINAL_ERRORS: LLMErrorCode[] = ['BUDGET_EXCEEDED', 'CANCELLED'];
+
+const CANCELLED_RESPONSE: LLMResponse = {
+  success: false,
+  content: '',
+  error: '요청이 취소되었습니다.',
+  errorCode: 'CANCELLED',
+};
+
+type Sleep = (ms: number, signal?: AbortSignal) => Promise<void>;
+
+/**
+ * Wait between attempts; resolves early when the signal aborts
+ */
+const defaultSleep: Sleep = (ms, signal) => new Promise((resolve) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort);
+});
+
+/**
+ * 재시도 대기 시간 (attempt는 0부터)
+ */
+export function computeRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+  // Jitter: 50-100% of the exponential delay
+  return Math.round(exponential * (0.5 + random() * 0.5));
+}
+
+function isTransient(response: LLMResponse): boolean {
+  return !!response.errorCode && TRANSIENT_ERRORS.includes(response.errorCode);
+}
+
+function isTerminal(response: LLMResponse): boolean {
+  return !!response.errorCode && TERMINAL_ERRORS.includes(response.errorCode);
+}
+
+export class ResilientLLMProvider implements ILLMProvider {
+  /**
+   * @param chain 우선순위 순 프로바이더 (첫 번째가 기본 프로바이더)
+   */
+  constructor(
+    private readonly chain: ILLMProvider[],
+    private readonly policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+    private readonly sleep: Sleep = defaultSleep,
+  ) {}
+
+  private get primary(): ILLMProvider {
+    return this.chain[0];
+  }
+
+  get name(): string {
+    return this.primary.name;
+  }
+
+  get modelId(): string {
+    return this.primary.modelId;
+  }
+
+  setApiKey(apiKey: string): void {
+    this.primary.setApiKey(apiKey);
+  }
+
+  setModel(modelId: string): void {
+    this.primary.setModel(modelId);
+  }
+
+  isAvailable(): boolean {
+    return this.chain.some((provider) => provider.isAvailable());
+  }
+
+  testApiKey(apiKey: string): Promise<boolean> {
+    return this.primary.testApiKey(apiKey);
+  }
+
+  async generate(messages: LLMMessage[], options?: LLMGenerateOptions): Promise<LLMResponse> {
+    return this.run(messages, options);
+  }
+
+  async generateStream(
+    messages: LLMMessage[],
+    options: LLMGenerateOptions | undefined,
+    onText: (delta: string) => void
+  ): Promise<LLMResponse> {
+    return this.run(messages, options, onText);
+  }
+
+  private async run(
+    messages: LLMMessage[],
+    options: LLMGenerateOptions | undefined,
+    onText?: (delta: string) => void
+  ): Promise<LLMResponse> {
+    let streamed = false;
+    const emit = onText
+      ? (delta: string) => {
+        streamed = true;
+        onText(delta);
+      }
+      : undefined;
+
+    let firstFailure: LLMResponse | null = null;
+    let failedFallbacks = 0;
+
+    for (let index = 0; index < this.chain.length; index++) {
+      if (options?.signal?.aborted) return { ...CANCELLED_RESPONSE };
+
+      const provider = this.chain[index];
+      if (!provider.isAvailable()) continue;
+
+      const response = await this.generateWithRetry(provider, messages, options, emit);
+      if (response.success) {
+        return {
+          ...response,
+          source: { provider: provider.name, model: provider.modelId, fallback: index > 0 },
+        };
+      }
+      // Cancelled, or partial text was already shown
+      if (response.errorCode === 'CANCELLED' || streamed) return response;
+
+      if (firstFailure) {
+        failedFallbacks++;
+      } else {
+        firstFailure = response;
+      }
+      if (isTerminal(response)) break;
+
+      console.warn(
+        `[Evergreen Cultivator] ${provider.name} (${provider.modelId}) failed: ${response.error ?? 'unknown error'}`
+      );
+    }
+
+    if (!firstFailure) {
+      return { success: false, content: '', error: '사용 가능한 프로바이더가 없습니다.' };
+    }
+    if (failedFallbacks === 0) return firstFailure;
+
+    return {
+      ...firstFailure,
+      error: `${firstFailure.error ?? 'LLM 요청에 실패했습니다.'} (대체 프로바이더 ${failedFallbacks}개도 실패)`,
+    };
+  }
+
+  async simpleGenerate(
+    userPrompt: string,
+    systemPrompt?: string,
+    options?: LLMGenerateOptions
+  ): Promise<LLMResponse> {
+    const messages: LLMMessage[] = [];
+    if (systemPrompt) {
+      messages.push({ role: 'system', content: systemPrompt });
+    }
+    messages.push({ role: 'user', content: userPrompt });
+    return this.generate(messages, options);
+  }
+
+  private async generateWithRetry(
+    provider: ILLMProvider,
+    messages: LLMMessage[],
+    options: LLMGenerateOptions | undefined,
+    onText?: (delta: string) => void
+  ): Promise<LLMResponse> {
+    let streamed = false;
+    const request = () => (onText && provider.generateStream
+      ? provider.generateStream(messages, options, (delta) => {
+        streamed = true;
+        onText(delta);
+      })
+      : provider.generate(messages, options));
+
+    let response = await request();
+
+    for (let attempt = 0; attempt < this.policy.maxRetries && !streamed && isTransient(response); attempt++) {
+      const delay = computeRetryDelay(attempt, this.policy, response.retryAfterMs);
+      // The server asks for a longer wait than allowed: let the next provider answer
+      if (delay > this.policy.maxDelayMs) break;
+
+      await this.sleep(delay, options?.signal);
+      if (options?.signal?.aborted) return { ...CANCELLED_RESPONSE };
+      response = await request();
+    }
+
+    return response;
+  }
+}
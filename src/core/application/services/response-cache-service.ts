@@ -0,0 +1,158 @@
+/**
+ * ResponseCacheService
+ * Caches raw LLM responses keyed by note content hash, use case,
+ * prompt version and model so unchanged notes are not paid for twice.
+ * Uses callback-based load/save to decouple from Obsidian dependency.
+ */
+
+export interface ResponseCacheEntry {
+  key: string;
+  content: string;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+export interface ResponseCacheKeyParts {
+  useCase: string;
+  promptVersion: number;
+  model: string;
+  noteContent: string;
+  prompt: string;
+}
+
+export interface ResponseCacheLimits {
+  ttlMs: number;
+  maxEntries: number;
+}
+
+/**
+ * 문자열의 53비트 해시 (cyrb53, 16진수)
+ */
+export function hashContent(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+const FRONTMATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+// Assessment and coaching transcripts saved into the note by the sidebar
+const SAVED_CALLOUT_PATTERN = /^>\s*\[!(?:assessment|coaching)\][+-]?.*(?:\r?\n>.*)*/gm;
+
+/**
+ * 노트 본문 해시 (프론트매터와 저장된 평가·코칭 콜아웃 제외)
+ * 성숙도 변경이나 평가·코칭 기록 저장만으로는 내용이 바뀐 것으로 보지 않음
+ */
+export function hashNoteBody(content: string): string {
+  return hashContent(
+    content
+      .replace(FRONTMATTER_PATTERN, '')
+      .replace(SAVED_CALLOUT_PATTERN, '')
+      .trim()
+  );
+}
+
+export class ResponseCacheService {
+  private entries: Map<string, ResponseCacheEntry> = new Map();
+  private initialized = false;
+
+  constructor(
+    private limits: ResponseCacheLimits,
+    private loadData: () => Promise<ResponseCacheEntry[] | null>,
+    private saveData: (data: ResponseCacheEntry[]) => Promise<void>,
+  ) {}
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    const data = await this.loadData();
+    this.entries.clear();
+    if (Array.isArray(data)) {
+      data.forEach((entry) => this.entries.set(entry.key, entry));
+    }
+    this.evict();
+
+    this.initialized = true;
+  }
+
+  updateLimits(limits: ResponseCacheLimits): void {
+    this.limits = limits;
+    this.evict();
+  }
+
+  buildKey(parts: ResponseCacheKeyParts): string {
+    return [
+      parts.useCase,
+      `v${parts.promptVersion}`,
+      parts.model,
+      hashContent(parts.noteContent),
+      hashContent(parts.prompt),
+    ].join(':');
+  }
+
+  /**
+   * 캐시된 응답 조회 (만료된 항목은 null)
+   */
+  get(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (this.isExpired(entry, Date.now())) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    entry.lastAccessedAt = Date.now();
+    return entry.content;
+  }
+
+  async set(key: string, content: string): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    const now = Date.now();
+    this.entries.set(key, { key, content, createdAt: now, lastAccessedAt: now });
+    this.evict();
+    await this.persist();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    await this.persist();
+  }
+
+  private isExpired(entry: ResponseCacheEntry, now: number): boolean {
+    return this.limits.ttlMs > 0 && now - entry.createdAt > this.limits.ttlMs;
+  }
+
+  /**
+   * 만료 항목 제거 후 최근 사용 순으로 최대 개수 유지
+   */
+  private evict(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (this.isExpired(entry, now)) this.entries.delete(key);
+    }
+
+    const overflow = this.entries.size - this.limits.maxEntries;
+    if (overflow <= 0) return;
+
+    [...this.entries.values()]
+      .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)
+      .slice(0, overflow)
+      .forEach((entry) => this.entries.delete(entry.key));
+  }
+
+  private async persist(): Promise<void> {
+    await this.saveData([...this.entries.values()]);
+  }
+}
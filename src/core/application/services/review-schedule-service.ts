@@ -0,0 +1,91 @@
+/**
+ * ReviewScheduleService
+ * Persists review state (last review, interval, snooze) per note path.
+ * Uses callback-based load/save to decouple from Obsidian dependency.
+ */
+
+import { markReviewState, snoozeReviewState } from '../../domain';
+import type { ReviewState } from '../../domain';
+
+type ScheduleChangeListener = (notePath: string) => void;
+
+export class ReviewScheduleService {
+  private states: Map<string, ReviewState> = new Map();
+  private initialized = false;
+  private listeners: Set<ScheduleChangeListener> = new Set();
+
+  constructor(
+    private loadData: () => Promise<Record<string, ReviewState> | null>,
+    private saveData: (data: Record<string, ReviewState>) => Promise<void>,
+  ) {}
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    const data = await this.loadData();
+    this.states.clear();
+
+    if (data) {
+      for (const [notePath, state] of Object.entries(data)) {
+        this.states.set(notePath, state);
+      }
+    }
+
+    this.initialized = true;
+  }
+
+  getState(notePath: string): ReviewState | undefined {
+    return this.states.get(notePath);
+  }
+
+  /**
+   * Mark a note reviewed (the current interval grows for the next review)
+   */
+  async markReviewed(notePath: string, intervalDays: number): Promise<void> {
+    await this.setState(notePath, markReviewState(intervalDays));
+  }
+
+  async snooze(notePath: string, days: number): Promise<void> {
+    await this.setState(notePath, snoozeReviewState(this.states.get(notePath), days));
+  }
+
+  /**
+   * Move review state to a renamed note path
+   */
+  async renameNote(oldPath: string, newPath: string): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    const state = this.states.get(oldPath);
+    if (!state) return;
+
+    this.states.delete(oldPath);
+    this.states.set(newPath, state);
+    await this.persist();
+    this.notify(newPath);
+  }
+
+  subscribe(listener: ScheduleChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async setState(notePath: string, state: ReviewState): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    this.states.set(notePath, state);
+    await this.persist();
+    this.notify(notePath);
+  }
+
+  private notify(notePath: string): void {
+    this.listeners.forEach((listener) => listener(notePath));
+  }
+
+  private async persist(): Promise<void> {
+    const data: Record<string, ReviewState> = {};
+    for (const [notePath, state] of this.states.entries()) {
+      data[notePath] = state;
+    }
+    await this.saveData(data);
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * Structured Response
+ * LLM의 JSON 응답을 파싱·검증하고, 형식이 잘못되면 한 번 재요청합니다.
+ *
+ * 처리 순서:
+ * 1. 코드 블록 또는 앞뒤 설명문 사이의 JSON 추출
+ * 2. 엄격한 파싱 실패 시 관대한 복구 (후행 쉼표, 둥근 따옴표)
+ * 3. 유스케이스별 스키마 검증 (값 보정·범위 제한 포함)
+ * 4. 검증 실패 시 오류 목록과 함께 한 번 재요청
+ *
+ * onText를 지정하면 첫 요청을 스트리밍하여 지금까지 받은 텍스트를 전달합니다.
+ * (부분 JSON에서 완성된 배열 항목을 미리 보여줄 때 사용, 최종 결과는 검증된 값)
+ */
+
+import type {
+  ILLMProvider,
+  LLMGenerateOptions,
+  LLMMessage,
+  LLMResponse,
+  LLMResponseSource,
+} from '../../domain';
+
+/**
+ * 검증 결과 (value가 null이면 errors에 사유)
+ */
+export interface ValidationResult<T> {
+  value: T | null;
+  errors: string[];
+}
+
+export type ResponseValidator<T> = (data: unknown) => ValidationResult<T>;
+
+export interface StructuredRequest<T> {
+  userPrompt: string;
+  systemPrompt: string;
+  options: LLMGenerateOptions;
+  validate: ResponseValidator<T>;
+  // Cached raw response; used only while it still validates
+  cached?: string | null;
+  // Text received so far while streaming (not called for cached responses)
+  onText?: (text: string) => void;
+}
+
+export interface StructuredResponse<T> {
+  value: T | null;
+  // Raw text of the accepted response (or the last one received)
+  content: string;
+  // LLM request failure
+  error?: string;
+  validationErrors: string[];
+  fromCache: boolean;
+  // A re-prompt was needed to get a valid response
+  repaired: boolean;
+  // Provider/model that produced the content (unknown for cached responses)
+  source?: LLMResponseSource;
+}
+
+// Validation errors listed in the re-prompt and in error messages
+const MAX_REPORTED_ERRORS = 5;
+
+/**
+ * 응답 텍스트에서 JSON 후보 문자열 추출 (우선순위 순)
+ */
+function extractJsonCandidates(text: string): string[] {
+  const candidates: string[] = [];
+
+  const fence = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fence) candidates.push(fence[1].trim());
+
+  // Prose around the JSON: first opening bracket to last closing bracket
+  const start = text.search(/[{[]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start >= 0 && end > start) candidates.push(text.slice(start, end + 1));
+
+  candidates.push(text.trim());
+  return candidates;
+}
+
+function removeTrailingCommas(json: string): string {
+  return json.replace(/,(\s*[}\]])/g, '$1');
+}
+
+function straightenQuotes(json: string): string {
+  return json.replace(/[“”]/g, '"');
+}
+
+/**
+ * 관대한 JSON 파싱 (실패 시 null)
+ */
+export function parseLenientJson(text: string): unknown | null {
+  const repairs: ((json: string) => string)[] = [
+    (json) => json,
+    removeTrailingCommas,
+    (json) => removeTrailingCommas(straightenQuotes(json)),
+  ];
+
+  for (const candidate of extractJsonCandidates(text)) {
+    for (const repair of repairs) {
+      try {
+        return JSON.parse(repair(candidate));
+      } catch {
+        // Try the next repair or candidate
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * 응답 텍스트 파싱 + 스키마 검증
+ */
+export function validateResponse<T>(text: string, validate: ResponseValidator<T>): ValidationResult<T> {
+  const data = parseLenientJson(text);
+  if (data === null) {
+    return { value: null, errors: ['응답에서 JSON을 찾을 수 없거나 JSON 문법이 올바르지 않습니다.'] };
+  }
+  return validate(data);
+}
+
+/**
+ * 검증 오류 요약 (오류 메시지용)
+ */
+export function describeValidationErrors(errors: string[]): string {
+  const shown = errors.slice(0, MAX_REPORTED_ERRORS).join('; ');
+  return errors.length > MAX_REPORTED_ERRORS ? `${shown} 외 ${errors.length - MAX_REPORTED_ERRORS}건` : shown;
+}
+
+function buildRepairPrompt(errors: string[]): string {
+  const list = errors.slice(0, MAX_REPORTED_ERRORS).map((e) => `- ${e}`).join('\n');
+  return `이전 응답이 요청한 JSON 형식과 맞지 않습니다.
+
+**문제:**
+${list}
+
+위 문제를 고쳐서 요청한 형식의 JSON 전체를 \`\`\`json 코드 블록 하나로만 다시 응답하세요.`;
+}
+
+function requestFirst<T>(
+  provider: ILLMProvider,
+  messages: LLMMessage[],
+  request: StructuredRequest<T>
+): Promise<LLMResponse> {
+  const { onText } = request;
+  if (!onText || !provider.generateStream) {
+    return provider.generate(messages, request.options);
+  }
+
+  let received = '';
+  return provider.generateStream(messages, request.options, (delta) => {
+    received += delta;
+    onText(received);
+  });
+}
+
+/**
+ * 구조화된 응답 생성 (검증 실패 시 한 번 재요청)
+ */
+export async function generateStructured<T>(
+  provider: ILLMProvider,
+  request: StructuredRequest<T>
+): Promise<StructuredResponse<T>> {
+  if (request.cached) {
+    const cached = validateResponse(request.cached, request.validate);
+    if (cached.value !== null) {
+      return {
+        value: cached.value,
+        content: request.cached,
+        validationErrors: [],
+        fromCache: true,
+        repaired: false,
+      };
+    }
+  }
+
+  const messages: LLMMessage[] = [
+    { role: 'system', content: request.systemPrompt },
+    { role: 'user', content: request.userPrompt },
+  ];
+
+  const first = await requestFirst(provider, messages, request);
+  if (!first.success) {
+    return {
+      value: null,
+      content: first.content,
+      error: first.error ?? 'LLM 요청에 실패했습니다.',
+      validationErrors: [],
+      fromCache: false,
+      repaired: false,
+    };
+  }
+
+  const firstResult = validateResponse(first.content, request.validate);
+  if (firstResult.value !== null) {
+    return {
+      value: firstResult.value,
+      content: first.content,
+      validationErrors: [],
+      fromCache: false,
+      repaired: false,
+      source: first.source,
+    };
+  }
+
+  // Cancelled while the first response was arriving: no re-prompt
+  if (request.options.signal?.aborted) {
+    return {
+      value: null,
+      content: first.content,
+      error: '요청이 취소되었습니다.',
+      validationErrors: firstResult.errors,
+      fromCache: false,
+      repaired: false,
+      source: first.source,
+    };
+  }
+
+  console.warn('[Evergreen Cultivator] Invalid structured response, re-prompting:', firstResult.errors);
+
+  const retry = await provider.generate(
+    [
+      ...messages,
+      { role: 'assistant', content: first.content },
+      { role: 'user', content: buildRepairPrompt(firstResult.errors) },
+    ],
+    request.options
+  );
+  if (!retry.success) {
+    return {
+      value: null,
+      content: first.content,
+      error: retry.error ?? 'LLM 요청에 실패했습니다.',
+      validationErrors: firstResult.errors,
+      fromCache: false,
+      repaired: false,
+      source: first.source,
+    };
+  }
+
+  const retryResult = validateResponse(retry.content, request.validate);
+  return {
+    value: retryResult.value,
+    content: retry.content,
+    validationErrors: retryResult.errors,
+    fromCache: false,
+    repaired: retryResult.value !== null,
+    source: retry.source,
+  };
+}
+
+// ============================================
+// Streaming helpers
+// ============================================
+
+/**
+ * 스트리밍 중인 JSON 텍스트에서 key 배열의 완성된 객체 항목 추출
+ */
+export function extractStreamedItems(text: string, key: string): unknown[] {
+  const keyIndex = text.indexOf(`"${key}"`);
+  if (keyIndex < 0) return [];
+  const start = text.indexOf('[', keyIndex);
+  if (start < 0) return [];
+
+  const items: unknown[] = [];
+  let depth = 0;
+  let itemStart = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start + 1; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      if (depth === 0) itemStart = i;
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0 && itemStart >= 0) {
+        const item = parseLenientJson(text.slice(itemStart, i + 1));
+        if (item !== null) items.push(item);
+        itemStart = -1;
+      }
+    } else if (ch === ']' && depth === 0) {
+      break;
+    }
+  }
+
+  return items;
+}
+
+/**
+ * onText 콜백 생성: 새로 완성된 배열 항목마다 onItem 호출
+ * (normalize가 null을 반환한 항목은 건너뜀)
+ */
+export function streamArrayItems<T>(
+  key: string,
+  normalize: (item: unknown) => T | null,
+  onItem: (item: T, index: number) => void
+): (text: string) => void {
+  let seen = 0;
+  let emitted = 0;
+
+  return (text) => {
+    const items = extractStreamedItems(text, key);
+    for (; seen < items.length; seen++) {
+      const item = normalize(items[seen]);
+      if (item !== null) onItem(item, emitted++);
+    }
+  };
+}
+
+// ============================================
+// Schema helpers
+// ============================================
+
+export function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : null;
+}
+
+/**
+ * 문자열 값 (숫자는 문자열로, 그 외는 빈 문자열)
+ */
+export function asText(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' && isFinite(value)) return String(value);
+  return '';
+}
+
+/**
+ * 0-100 점수 (숫자 문자열 허용, 범위 밖은 제한, 숫자가 아니면 null)
+ */
+export function asScore(value: unknown): number | null {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof num !== 'number' || !isFinite(num)) return null;
+  return Math.round(Math.min(100, Math.max(0, num)));
+}
+
+/**
+ * 허용된 값 중 하나 (대소문자 무시, 아니면 fallback)
+ */
+export function asEnum<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  const text = asText(value).toLowerCase();
+  return allowed.find((item) => item === text) ?? fallback;
+}
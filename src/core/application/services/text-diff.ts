@@ -0,0 +1,105 @@
+/**
+ * Text Diff
+ * 두 텍스트를 줄 단위로 비교하여 변경 구간(hunk)을 만들고,
+ * 선택한 구간만 원본에 적용합니다.
+ *
+ * - 공통 앞부분/뒷부분을 제외한 나머지를 LCS로 비교
+ * - 연속된 변경 줄은 하나의 구간으로 묶음
+ * - 비교 범위가 너무 크면 나머지 전체를 하나의 구간으로 처리
+ */
+
+export interface DiffHunk {
+  // Position in the hunk list (0-based)
+  id: number;
+  // First original line replaced (0-based); pure insertions use the line they precede
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+// Largest LCS table built (old lines × new lines)
+const MAX_DIFF_CELLS = 4000000;
+
+/**
+ * 줄 단위 변경 구간 계산
+ */
+export function diffLines(oldText: string, newText: string): DiffHunk[] {
+  const oldAll = oldText.split('\n');
+  const newAll = newText.split('\n');
+
+  let prefix = 0;
+  while (prefix < oldAll.length && prefix < newAll.length && oldAll[prefix] === newAll[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldAll.length - prefix &&
+    suffix < newAll.length - prefix &&
+    oldAll[oldAll.length - 1 - suffix] === newAll[newAll.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldLines = oldAll.slice(prefix, oldAll.length - suffix);
+  const newLines = newAll.slice(prefix, newAll.length - suffix);
+  if (oldLines.length === 0 && newLines.length === 0) return [];
+
+  if (oldLines.length * newLines.length > MAX_DIFF_CELLS) {
+    return [{ id: 0, oldStart: prefix, oldLines, newLines }];
+  }
+
+  // lcs[i][j]: longest common subsequence of oldLines[i..] and newLines[j..]
+  const n = oldLines.length;
+  const m = newLines.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let i = 0;
+  let j = 0;
+
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[i] === newLines[j]) {
+      if (current) hunks.push(current);
+      current = null;
+      i++;
+      j++;
+      continue;
+    }
+
+    if (!current) {
+      current = { id: hunks.length, oldStart: prefix + i, oldLines: [], newLines: [] };
+    }
+    if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      current.newLines.push(newLines[j++]);
+    } else {
+      current.oldLines.push(oldLines[i++]);
+    }
+  }
+  if (current) hunks.push(current);
+
+  return hunks;
+}
+
+/**
+ * 선택한 구간만 원본에 적용 (구간은 같은 원본에 대해 계산된 것)
+ */
+export function applyHunks(oldText: string, hunks: DiffHunk[], acceptedIds: readonly number[]): string {
+  const lines = oldText.split('\n');
+  const accepted = hunks
+    .filter((hunk) => acceptedIds.includes(hunk.id))
+    // Back to front so earlier line numbers stay valid
+    .sort((a, b) => b.oldStart - a.oldStart);
+
+  for (const hunk of accepted) {
+    lines.splice(hunk.oldStart, hunk.oldLines.length, ...hunk.newLines);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,124 @@
+/**
+ * UsageLedgerService
+ * Persists token usage and cost of every LLM request.
+ * Uses callback-based load/save to decouple from Obsidian dependency.
+ */
+
+import { getUsageMonthKey } from '../../domain';
+import type { MonthlyUsageSummary, UsageBreakdown, UsageRecord } from '../../domain';
+
+// Months of records kept in data.json
+const RETENTION_MONTHS = 12;
+
+type LedgerChangeListener = () => void;
+
+export class UsageLedgerService {
+  private records: UsageRecord[] = [];
+  private initialized = false;
+  private listeners: Set<LedgerChangeListener> = new Set();
+
+  constructor(
+    private loadData: () => Promise<UsageRecord[] | null>,
+    private saveData: (data: UsageRecord[]) => Promise<void>,
+  ) {}
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    const data = await this.loadData();
+    this.records = Array.isArray(data) ? data : [];
+    this.initialized = true;
+  }
+
+  async addRecord(record: Omit<UsageRecord, 'id'>): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    this.records.push({
+      ...record,
+      id: `${record.timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+    });
+    this.pruneOldRecords();
+
+    await this.saveData(this.records);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  subscribe(listener: LedgerChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * 해당 월의 누적 비용 (USD)
+   */
+  getMonthlySpend(timestamp: number = Date.now()): number {
+    const month = getUsageMonthKey(timestamp);
+    return this.records
+      .filter((r) => getUsageMonthKey(r.timestamp) === month)
+      .reduce((sum, r) => sum + r.cost, 0);
+  }
+
+  getMonthlySummary(timestamp: number = Date.now()): MonthlyUsageSummary {
+    const month = getUsageMonthKey(timestamp);
+    const records = this.records.filter((r) => getUsageMonthKey(r.timestamp) === month);
+
+    return {
+      month,
+      requestCount: records.length,
+      inputTokens: records.reduce((sum, r) => sum + r.inputTokens, 0),
+      outputTokens: records.reduce((sum, r) => sum + r.outputTokens, 0),
+      totalCost: records.reduce((sum, r) => sum + r.cost, 0),
+      byPurpose: this.breakdown(records, (r) => r.purpose),
+      byModel: this.breakdown(records, (r) => r.model),
+    };
+  }
+
+  /**
+   * 기록이 있는 월 목록 (최신순)
+   */
+  getRecordedMonths(): string[] {
+    const months = new Set(this.records.map((r) => getUsageMonthKey(r.timestamp)));
+    return [...months].sort().reverse();
+  }
+
+  async clear(): Promise<void> {
+    this.records = [];
+    await this.saveData(this.records);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private breakdown(
+    records: UsageRecord[],
+    keyOf: (record: UsageRecord) => string,
+  ): UsageBreakdown[] {
+    const groups = new Map<string, UsageBreakdown>();
+
+    for (const record of records) {
+      const key = keyOf(record);
+      const group = groups.get(key) ?? {
+        key,
+        requestCount: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cost: 0,
+      };
+      group.requestCount++;
+      group.inputTokens += record.inputTokens;
+      group.outputTokens += record.outputTokens;
+      group.cost += record.cost;
+      groups.set(key, group);
+    }
+
+    return [...groups.values()].sort((a, b) => b.cost - a.cost);
+  }
+
+  private pruneOldRecords(): void {
+    const cutoff = new Date();
+    cutoff.setDate(1);
+    cutoff.setHours(0, 0, 0, 0);
+    cutoff.setMonth(cutoff.getMonth() - (RETENTION_MONTHS - 1));
+
+    const cutoffTime = cutoff.getTime();
+    this.records = this.records.filter((r) => r.timestamp >= cutoffTime);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * ApplyNoteEditUseCase
+ * 수정안에서 선택한 변경 구간만 노트에 적용합니다.
+ *
+ * 규칙:
+ * - 수정안 작성 이후 노트가 수정되었으면 중단
+ * - 선택한 구간은 한 번의 쓰기로 적용
+ * - 실행 결과(NoteEditOperation)로 한 번에 되돌릴 수 있음
+ */
+
+import type { INoteRepository } from '../../domain';
+import { applyHunks } from '../services/text-diff';
+import type { ImprovementEditDraft } from './draft-improvement-edit';
+
+export interface ApplyNoteEditInput {
+  draft: ImprovementEditDraft;
+  acceptedHunkIds: number[];
+}
+
+/**
+ * 되돌리기에 필요한 수정 적용 기록
+ */
+export interface NoteEditOperation {
+  notePath: string;
+  originalContent: string;
+  editedContent: string;
+  appliedHunkCount: number;
+  appliedAt: number;
+}
+
+export interface ApplyNoteEditOutput {
+  operation: NoteEditOperation | null;
+  error?: string;
+}
+
+export class ApplyNoteEditUseCase {
+  constructor(private readonly noteRepository: INoteRepository) {}
+
+  async execute(input: ApplyNoteEditInput): Promise<ApplyNoteEditOutput> {
+    const { draft, acceptedHunkIds } = input;
+
+    const accepted = draft.hunks.filter((hunk) => acceptedHunkIds.includes(hunk.id));
+    if (accepted.length === 0) {
+      return { operation: null, error: '적용할 변경이 선택되지 않았습니다.' };
+    }
+
+    const note = await this.noteRepository.getByPath(draft.notePath);
+    if (!note) {
+      return { operation: null, error: `노트를 찾을 수 없습니다: ${draft.notePath}` };
+    }
+
+    if (note.content !== draft.originalContent) {
+      return {
+        operation: null,
+        error: '수정안 작성 이후 노트가 수정되었습니다. 다시 작성해주세요.',
+      };
+    }
+
+    const editedContent = applyHunks(draft.originalContent, draft.hunks, acceptedHunkIds);
+
+    try {
+      await this.noteRepository.updateContent(draft.notePath, editedContent);
+    } catch (error) {
+      return {
+        operation: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    return {
+      operation: {
+        notePath: draft.notePath,
+        originalContent: draft.originalContent,
+        editedContent,
+        appliedHunkCount: accepted.length,
+        appliedAt: Date.now(),
+      },
+    };
+  }
+}
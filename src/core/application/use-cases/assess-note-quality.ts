@@ -1,8 +1,9 @@
 /**
  * AssessNoteQualityUseCase
- * 노트 품질을 5개 차원에서 평가하고 개선 제안을 생성합니다.
+ * 노트 품질을 평가 기준(rubric)의 차원별로 평가하고 개선 제안을 생성합니다.
+ * 사용자 정의 평가 기준이 없으면 기본 5개 차원을 사용합니다.
  *
- * 평가 차원:
+ * 기본 평가 차원:
  * - Atomicity (원자성): 하나의 아이디어만 담고 있는가?
  * - Connectivity (연결성): 다른 노트와 의미 있게 연결되어 있는가?
  * - Clarity (명확성): 독립적으로 이해 가능한가?
@@ -15,86 +16,142 @@ import {
   ImprovementSuggestion,
   QualityScore,
   MaturityLevel,
+  QualityDimension,
+  QualityRubric,
+  blendDimensionScores,
+  getDimensionLabel,
+  getLanguageInstruction,
+  measureNote,
+  resolveOutputLanguage,
+  scoreNoteMetrics,
 } from '../../domain';
-import type { ILLMProvider, LLMResponse, NoteData } from '../../domain';
+import type {
+  AssessmentProfile,
+  ILLMProvider,
+  NoteData,
+  OutputLanguage,
+  QualityDimensionConfig,
+  ResolvedOutputLanguage,
+  SplitSuggestion,
+} from '../../domain';
+import { hashNoteBody } from '../services/response-cache-service';
+import type { ResponseCacheService } from '../services/response-cache-service';
+import { NoteContentPreparer, formatPreparedContent } from '../services/note-content-preparer';
+import type { ContentCondensation } from '../services/note-content-preparer';
+import {
+  asRecord,
+  asScore,
+  asText,
+  describeValidationErrors,
+  generateStructured,
+} from '../services/structured-response';
+import type { ResponseValidator } from '../services/structured-response';
 
 export interface AssessNoteQualityInput {
   note: NoteData;
   existingLinks: string[];
   backlinks: string[];
+  rubric?: QualityRubric;
+  profile?: AssessmentProfile | null;
+  language?: OutputLanguage;
+  forceRefresh?: boolean;
+  // Share of the offline heuristic score in the final score (0-1, 0 = LLM only)
+  heuristicWeight?: number;
+  // Token budget for the note content; longer notes are condensed first
+  noteTokenBudget?: number;
+  // Aborting cancels the LLM request; the output then carries an error
+  signal?: AbortSignal;
 }
 
 export interface AssessNoteQualityOutput {
   assessment: NoteAssessment | null;
   error?: string;
   rawResponse?: string;
+  fromCache?: boolean;
+  // Provisional score blended into the result (when heuristicWeight > 0)
+  heuristicScore?: QualityScore;
+  // Set when the note was too long and a condensed version was used
+  condensation?: ContentCondensation;
 }
 
+/**
+ * 평가 가능한 최소 노트 길이 (앞뒤 공백 제외)
+ */
+export const MIN_ASSESSABLE_LENGTH = 50;
+
 interface LLMAssessmentResponse {
-  dimensions: {
-    atomicity: { score: number; feedback: string };
-    connectivity: { score: number; feedback: string };
-    clarity: { score: number; feedback: string };
-    evidence: { score: number; feedback: string };
-    originality: { score: number; feedback: string };
-  };
-  splitSuggestion?: {
-    reason: string;
-    suggestedNotes: {
-      title: string;
-      description: string;
-      coreIdea: string;
-    }[];
-  };
+  dimensions: Record<string, { score: number; feedback: string }>;
+  splitSuggestion?: SplitSuggestion;
 }
 
-const SYSTEM_PROMPT = `당신은 Zettelkasten 원칙에 기반한 영구 노트 품질 평가 전문가입니다.
+// 프롬프트 또는 응답 형식 변경 시 올려서 캐시된 응답을 무효화
+const PROMPT_VERSION = 3;
+
+// 분리 제안 기준이 되는 원자성 점수
+const SPLIT_ATOMICITY_THRESHOLD = 50;
+
+function buildSplitRule(rubric: QualityRubric): string {
+  return rubric.has('atomicity')
+    ? `원자성(atomicity) 점수가 ${SPLIT_ATOMICITY_THRESHOLD}점 미만이면 분리를 제안합니다.`
+    : '노트가 서로 독립적인 여러 아이디어를 담고 있으면 분리를 제안합니다.';
+}
+
+/**
+ * 프로필 평가 기준이 유효하면 우선 사용, 아니면 전역 평가 기준
+ */
+export function resolveAssessmentRubric(
+  rubric?: QualityRubric,
+  profile?: AssessmentProfile | null
+): QualityRubric {
+  const profileRubric = profile?.rubric;
+  if (profileRubric && QualityRubric.validate(profileRubric).length === 0) {
+    return QualityRubric.create(profileRubric);
+  }
+  return rubric ?? QualityRubric.default();
+}
+
+function buildSystemPrompt(rubric: QualityRubric, profile: AssessmentProfile | null): string {
+  const criteria = rubric.dimensions
+    .map((d, i) => {
+      const lines = [
+        `${i + 1}. **${d.displayName} (${d.type})** - ${Math.round(d.weight * 100)}% 가중치`,
+      ];
+      if (d.description) lines.push(`   - ${d.description}`);
+      d.anchors.forEach((anchor) => lines.push(`   - ${anchor}`));
+      return lines.join('\n');
+    })
+    .join('\n\n');
+
+  return `당신은 Zettelkasten 원칙에 기반한 영구 노트 품질 평가 전문가입니다.
 
 **평가 기준 (각 0-100점):**
 
-1. **원자성 (Atomicity)** - 25% 가중치
-   - 하나의 노트는 하나의 핵심 아이디어만 담아야 함
-   - 100점: 단일 아이디어에 집중, 쉽게 분리 불가
-   - 70점: 주요 아이디어가 명확하나 부수적 내용 일부 존재
-   - 40점: 2-3개 아이디어가 혼재
-   - 0점: 여러 주제가 혼합되어 분리 필요
-
-2. **연결성 (Connectivity)** - 25% 가중치
-   - 다른 노트와의 의미 있는 연결
-   - 100점: 5개 이상의 관련 노트와 양방향 연결
-   - 70점: 3-4개 노트와 연결, 연결 이유 명확
-   - 40점: 1-2개 연결만 존재
-   - 0점: 고립된 노트
-
-3. **명확성 (Clarity)** - 20% 가중치
-   - 맥락 없이도 독립적으로 이해 가능
-   - 100점: 완전한 독립 이해 가능, 명확한 구조
-   - 70점: 대부분 이해 가능, 약간의 배경지식 필요
-   - 40점: 상당한 맥락 지식 필요
-   - 0점: 독립적 이해 불가
-
-4. **근거 (Evidence)** - 15% 가중치
-   - 출처, 예시, 근거의 충분성
-   - 100점: 명확한 출처와 구체적 예시 포함
-   - 70점: 일부 출처 또는 예시 포함
-   - 40점: 출처 없이 주장만 존재
-   - 0점: 근거 완전 부재
-
-5. **독창성 (Originality)** - 15% 가중치
-   - 단순 복사가 아닌 자기 언어로 표현
-   - 100점: 완전히 자기 언어, 고유한 통찰 포함
-   - 70점: 대부분 자기 표현, 일부 인용
-   - 40점: 인용 위주, 자기 해석 부족
-   - 0점: 복사/붙여넣기
+${criteria}
 
 **분리 제안 기준:**
-원자성 점수가 50점 미만이면 분리를 제안합니다.
+${buildSplitRule(rubric)}${buildProfileInstructions(profile)}`;
+}
+
+function buildProfileInstructions(profile: AssessmentProfile | null): string {
+  const text = profile?.promptText.trim();
+  if (!profile || !text) return '';
 
-모든 응답은 한국어로 작성합니다.`;
+  return `
 
-function buildUserPrompt(input: AssessNoteQualityInput): string {
+**평가 프로필: ${profile.name}**
+${text}`;
+}
+
+function buildUserPrompt(input: AssessNoteQualityInput, rubric: QualityRubric, noteContent: string): string {
   const { note, existingLinks, backlinks } = input;
 
+  const dimensionFormat = rubric.dimensionTypes
+    .map((type) => `    "${type}": {
+      "score": 0-100,
+      "feedback": "현재 상태 평가 및 구체적인 개선 방향 (2-3문장)"
+    }`)
+    .join(',\n');
+
   return `다음 노트를 Zettelkasten 원칙에 따라 평가해주세요.
 
 **노트 제목**: ${note.basename}
@@ -104,7 +161,7 @@ function buildUserPrompt(input: AssessNoteQualityInput): string {
 
 **노트 내용**:
 ---
-${note.content}
+${noteContent}
 ---
 
 **응답 형식:**
@@ -112,29 +169,10 @@ ${note.content}
 \`\`\`json
 {
   "dimensions": {
-    "atomicity": {
-      "score": 0-100,
-      "feedback": "현재 상태 평가 및 구체적인 개선 방향 (2-3문장)"
-    },
-    "connectivity": {
-      "score": 0-100,
-      "feedback": "현재 상태 평가 및 구체적인 개선 방향 (2-3문장)"
-    },
-    "clarity": {
-      "score": 0-100,
-      "feedback": "현재 상태 평가 및 구체적인 개선 방향 (2-3문장)"
-    },
-    "evidence": {
-      "score": 0-100,
-      "feedback": "현재 상태 평가 및 구체적인 개선 방향 (2-3문장)"
-    },
-    "originality": {
-      "score": 0-100,
-      "feedback": "현재 상태 평가 및 구체적인 개선 방향 (2-3문장)"
-    }
+${dimensionFormat}
   },
   "splitSuggestion": {
-    "reason": "분리가 필요한 이유 (원자성 점수 50 미만인 경우에만)",
+    "reason": "분리가 필요한 이유 (분리 제안 기준에 해당하는 경우에만)",
     "suggestedNotes": [
       {
         "title": "새 노트 제목",
@@ -147,112 +185,185 @@ ${note.content}
 \`\`\`
 
 **주의사항:**
+- dimensions에는 평가 기준의 모든 차원을 위 키 그대로 포함
 - 각 차원의 점수는 객관적 기준에 따라 부여
 - feedback은 현재 상태 평가와 함께 **구체적인 개선 방향**을 포함
-- splitSuggestion은 원자성 점수가 50 미만인 경우에만 포함`;
+- splitSuggestion은 분리 제안 기준에 해당하는 경우에만 포함`;
 }
 
-function parseAssessmentResponse(
-  responseText: string
-): LLMAssessmentResponse | null {
-  try {
-    const jsonMatch = responseText.match(/```(?:json)?\s*([\s\S]*?)```/);
-    const jsonStr = jsonMatch ? jsonMatch[1].trim() : responseText.trim();
-    return JSON.parse(jsonStr);
-  } catch (error) {
-    console.error('Failed to parse assessment response:', error);
-    return null;
+/**
+ * 개선 제안에 표시할 차원 이름
+ * (이름을 바꾸지 않은 기본 차원만 출력 언어로 번역)
+ */
+function getImprovementLabel(
+  config: QualityDimensionConfig,
+  language: ResolvedOutputLanguage
+): string {
+  if (
+    QualityDimension.isBuiltIn(config.type) &&
+    config.displayName === QualityDimension.getConfig(config.type).displayName
+  ) {
+    return getDimensionLabel(config.type, language);
   }
+  return config.displayName;
+}
+
+/**
+ * 분리 제안 정규화 (제목 있는 새 노트가 없으면 제안 없음)
+ */
+function normalizeSplitSuggestion(value: unknown): SplitSuggestion | undefined {
+  const data = asRecord(value);
+  if (!data || !Array.isArray(data.suggestedNotes)) return undefined;
+
+  const suggestedNotes = data.suggestedNotes
+    .map((item) => {
+      const note = asRecord(item) ?? {};
+      return {
+        title: asText(note.title),
+        description: asText(note.description),
+        coreIdea: asText(note.coreIdea),
+      };
+    })
+    .filter((n) => n.title.length > 0);
+
+  return suggestedNotes.length > 0 ? { reason: asText(data.reason), suggestedNotes } : undefined;
+}
+
+/**
+ * 평가 기준의 모든 차원에 0-100 점수가 있는지 검증
+ * (점수만 숫자로 온 차원도 허용, 범위 밖 점수는 제한)
+ */
+function buildAssessmentValidator(rubric: QualityRubric): ResponseValidator<LLMAssessmentResponse> {
+  return (data) => {
+    const root = asRecord(data);
+    const rawDimensions = asRecord(root?.dimensions);
+    if (!root || !rawDimensions) {
+      return { value: null, errors: ['"dimensions" 객체가 없습니다.'] };
+    }
+
+    const errors: string[] = [];
+    const dimensions: LLMAssessmentResponse['dimensions'] = {};
+
+    rubric.dimensionTypes.forEach((type) => {
+      const raw = rawDimensions[type];
+      const entry = asRecord(raw);
+      const score = asScore(entry ? entry.score : raw);
+      if (raw === undefined) {
+        errors.push(`dimensions."${type}" 항목이 없습니다.`);
+      } else if (score === null) {
+        errors.push(`dimensions."${type}".score는 0-100 사이의 숫자여야 합니다.`);
+      } else {
+        dimensions[type] = { score, feedback: asText(entry?.feedback) };
+      }
+    });
+
+    if (errors.length > 0) return { value: null, errors };
+
+    return {
+      value: { dimensions, splitSuggestion: normalizeSplitSuggestion(root.splitSuggestion) },
+      errors: [],
+    };
+  };
 }
 
 export class AssessNoteQualityUseCase {
-  constructor(private readonly llmProvider: ILLMProvider) {}
+  constructor(
+    private readonly llmProvider: ILLMProvider,
+    private readonly responseCache: ResponseCacheService | null = null,
+  ) {}
 
   async execute(input: AssessNoteQualityInput): Promise<AssessNoteQualityOutput> {
     const { note } = input;
 
-    if (!note.content || note.content.trim().length < 50) {
+    if (!note.content || note.content.trim().length < MIN_ASSESSABLE_LENGTH) {
       return {
         assessment: null,
-        error: '노트 내용이 너무 짧습니다. 최소 50자 이상이어야 평가가 가능합니다.',
+        error: `노트 내용이 너무 짧습니다. 최소 ${MIN_ASSESSABLE_LENGTH}자 이상이어야 평가가 가능합니다.`,
       };
     }
 
-    const userPrompt = buildUserPrompt(input);
+    const prepared = await new NoteContentPreparer(this.llmProvider, this.responseCache)
+      .prepare(note.content, { tokenBudget: input.noteTokenBudget, signal: input.signal });
+    if (prepared.error) {
+      return { assessment: null, error: prepared.error };
+    }
 
-    const response: LLMResponse = await this.llmProvider.simpleGenerate(
+    const profile = input.profile ?? null;
+    const rubric = resolveAssessmentRubric(input.rubric, profile);
+    const language = resolveOutputLanguage(input.language, input.note.content);
+    const systemPrompt = `${buildSystemPrompt(rubric, profile)}\n\n${getLanguageInstruction(language)}`;
+    const userPrompt = buildUserPrompt(input, rubric, formatPreparedContent(prepared));
+
+    const cacheKey = this.responseCache?.buildKey({
+      useCase: 'assess-note-quality',
+      promptVersion: PROMPT_VERSION,
+      model: this.llmProvider.modelId,
+      noteContent: input.note.content,
+      prompt: `${systemPrompt}\n\n${userPrompt}`,
+    });
+    const cached = cacheKey && this.responseCache && !input.forceRefresh
+      ? this.responseCache.get(cacheKey)
+      : null;
+
+    const response = await generateStructured(this.llmProvider, {
       userPrompt,
-      SYSTEM_PROMPT,
-      {
-        maxTokens: 3000,
-        temperature: 0.5,
-      }
-    );
+      systemPrompt,
+      options: {
+        purpose: 'assess-note-quality',
+        signal: input.signal,
+      },
+      validate: buildAssessmentValidator(rubric),
+      cached,
+    });
 
-    if (!response.success) {
+    if (response.error) {
       return {
         assessment: null,
-        error: response.error ?? 'LLM 요청에 실패했습니다.',
+        error: response.error,
         rawResponse: response.content,
       };
     }
 
-    const parsed = parseAssessmentResponse(response.content);
+    const parsed = response.value;
     if (!parsed) {
       return {
         assessment: null,
-        error: '평가 결과 파싱에 실패했습니다.',
+        error: `평가 결과 형식이 올바르지 않습니다: ${describeValidationErrors(response.validationErrors)}`,
         rawResponse: response.content,
       };
     }
 
+    // Blend with the offline heuristic score if configured
+    const heuristicWeight = input.heuristicWeight ?? 0;
+    const heuristicScore = heuristicWeight > 0
+      ? scoreNoteMetrics(
+        measureNote(note.content, {
+          outlinks: input.existingLinks.length,
+          backlinks: input.backlinks.length,
+        }),
+        rubric
+      )
+      : undefined;
+    const dimensionScores = heuristicScore
+      ? blendDimensionScores(parsed.dimensions, heuristicScore, heuristicWeight)
+      : parsed.dimensions;
+
     // Build QualityScore from parsed dimensions
-    const qualityScore = QualityScore.fromScores({
-      atomicity: {
-        score: parsed.dimensions.atomicity.score,
-        feedback: parsed.dimensions.atomicity.feedback,
-      },
-      connectivity: {
-        score: parsed.dimensions.connectivity.score,
-        feedback: parsed.dimensions.connectivity.feedback,
-      },
-      clarity: {
-        score: parsed.dimensions.clarity.score,
-        feedback: parsed.dimensions.clarity.feedback,
-      },
-      evidence: {
-        score: parsed.dimensions.evidence.score,
-        feedback: parsed.dimensions.evidence.feedback,
-      },
-      originality: {
-        score: parsed.dimensions.originality.score,
-        feedback: parsed.dimensions.originality.feedback,
-      },
-    });
+    const qualityScore = QualityScore.fromScores(dimensionScores, rubric);
 
     // Get current maturity from frontmatter
     const currentMaturity = MaturityLevel.fromFrontmatter(
       note.metadata.growthStage as string | undefined
     );
 
-    // Build improvements from all dimension feedback (show all 5)
-    const dimensionConfig: {
-      key: keyof typeof parsed.dimensions;
-      name: string;
-    }[] = [
-      { key: 'atomicity', name: '원자성' },
-      { key: 'connectivity', name: '연결성' },
-      { key: 'clarity', name: '명확성' },
-      { key: 'evidence', name: '근거' },
-      { key: 'originality', name: '독창성' },
-    ];
-
-    const improvements: ImprovementSuggestion[] = dimensionConfig.map(({ key, name }) => {
-      const dim = parsed.dimensions[key];
+    // Build improvements from all dimension feedback
+    const improvements: ImprovementSuggestion[] = rubric.dimensions.map((config) => {
+      const dim = dimensionScores[config.type];
       const priority: 'high' | 'medium' | 'low' =
         dim.score >= 80 ? 'low' : dim.score >= 60 ? 'medium' : 'high';
       return {
-        dimension: name,
+        dimension: getImprovementLabel(config, language),
+        dimensionType: config.type,
         priority,
         suggestion: dim.feedback,
       };
@@ -266,11 +377,23 @@ export class AssessNoteQualityUseCase {
       currentMaturity,
       improvements,
       splitSuggestion: parsed.splitSuggestion || null,
+      profile: profile ? { id: profile.id, name: profile.name } : null,
+      answeredBy: response.source ?? null,
+      contentHash: hashNoteBody(note.content),
+      maturityThresholds: profile?.maturityThresholds ?? undefined,
     });
 
+    // Keys name the primary model, so answers from a fallback are not cached
+    if (cacheKey && !response.fromCache && !response.source?.fallback) {
+      await this.responseCache?.set(cacheKey, response.content);
+    }
+
     return {
       assessment,
       rawResponse: response.content,
+      fromCache: response.fromCache,
+      heuristicScore,
+      condensation: prepared.condensation ?? undefined,
     };
   }
 }
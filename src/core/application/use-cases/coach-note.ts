@@ -0,0 +1,168 @@
+/**
+ * CoachNoteUseCase
+ * 노트를 두고 소크라테스식 코칭 대화를 한 턴씩 이어갑니다.
+ *
+ * 규칙:
+ * - 코치는 노트 내용, 최근 평가 결과, 가장 약한 차원에 근거해 질문
+ * - 대화 기록 전체를 메시지로 보내 이전 답변에 반응하도록 함
+ * - 대화가 길어지면 최근 턴만 보냄 (앞부분 생략 사실을 알림)
+ * - 대화 기록이 비어 있으면 코치가 첫 질문으로 시작
+ */
+
+import { getLanguageInstruction, resolveOutputLanguage } from '../../domain';
+import type {
+  ILLMProvider,
+  LLMMessage,
+  NoteAssessment,
+  NoteData,
+  OutputLanguage,
+} from '../../domain';
+import type { ResponseCacheService } from '../services/response-cache-service';
+import { NoteContentPreparer, formatPreparedContent } from '../services/note-content-preparer';
+import type { ContentCondensation } from '../services/note-content-preparer';
+
+export interface CoachingTurn {
+  role: 'coach' | 'user';
+  content: string;
+}
+
+export interface CoachNoteInput {
+  note: NoteData;
+  // Latest assessment of the note (coaching still works without one)
+  assessment?: NoteAssessment | null;
+  // Conversation so far, oldest first; empty to get the opening question
+  turns: CoachingTurn[];
+  language?: OutputLanguage;
+  // Token budget for the note content; longer notes are condensed first
+  noteTokenBudget?: number;
+  // Aborting cancels the LLM request; the output then carries an error
+  signal?: AbortSignal;
+}
+
+export interface CoachNoteOutput {
+  reply: string;
+  error?: string;
+  // Set when the note was too long and a condensed version was used
+  condensation?: ContentCondensation;
+}
+
+// Most recent turns sent with each request
+const MAX_TURNS = 20;
+
+const SYSTEM_PROMPT = `당신은 Zettelkasten 영구 노트 작성을 돕는 소크라테스식 코치입니다.
+
+**코칭 원칙:**
+1. 답이나 문장을 대신 써주지 않고, 필자가 스스로 생각을 발전시키도록 질문
+2. 한 번에 하나의 질문만 (짧고 구체적으로)
+3. 필자의 답변에 먼저 반응(인정, 요약, 반문)한 뒤 다음 질문으로
+4. 노트 본문의 실제 문장과 개념을 근거로 질문
+5. 가장 약한 차원을 우선 다루되, 대화 흐름에 따라 유연하게
+6. 필자가 충분히 답했다면 노트에 반영할 점을 한두 가지로 정리하고 다음 주제로
+7. 응답은 3-6문장 이내, 마크다운 제목이나 JSON 없이 대화체로`;
+
+const OPENING_REQUEST = '코칭을 시작해주세요. 노트의 핵심을 한 문장으로 짚은 뒤, 집중할 차원에 대한 첫 질문을 해주세요.';
+
+/**
+ * 평가 결과와 가장 약한 차원 요약
+ */
+function buildAssessmentContext(assessment: NoteAssessment | null | undefined): string {
+  if (!assessment) {
+    return `**평가 결과**: 없음
+노트 내용만 보고 가장 보완이 필요한 부분을 찾아 질문하세요.`;
+  }
+
+  const score = assessment.qualityScore;
+  const lines = [`**평가 결과**: 종합 ${score.totalScore}점 (${score.getGrade()})`];
+  score.getAllDimensions().forEach((d) => {
+    lines.push(`- ${d.displayName}: ${d.score}점${d.feedback ? ` — ${d.feedback}` : ''}`);
+  });
+
+  const weakest = score.getWeakestDimension();
+  lines.push('');
+  lines.push(`**집중할 차원**: ${weakest.displayName} (${weakest.score}점)`);
+  if (weakest.description) lines.push(weakest.description);
+
+  return lines.join('\n');
+}
+
+function buildSystemPrompt(input: CoachNoteInput, noteContent: string, languageInstruction: string): string {
+  return `${SYSTEM_PROMPT}
+
+**노트 제목**: ${input.note.basename}
+${buildAssessmentContext(input.assessment)}
+
+**노트 내용**:
+---
+${noteContent}
+---
+
+${languageInstruction}`;
+}
+
+/**
+ * 코치의 첫 요청 + 최근 대화 (첫 메시지는 항상 사용자 메시지)
+ */
+function buildConversation(turns: CoachingTurn[]): LLMMessage[] {
+  let recent = turns.slice(-MAX_TURNS);
+  // Keep the opening request followed by a coach turn
+  while (recent.length > 0 && recent[0].role === 'user') {
+    recent = recent.slice(1);
+  }
+  const omitted = recent.length < turns.length;
+
+  return [
+    {
+      role: 'user',
+      content: omitted ? `${OPENING_REQUEST}\n(앞선 대화 일부는 생략되었습니다.)` : OPENING_REQUEST,
+    },
+    ...recent.map((turn): LLMMessage => ({
+      role: turn.role === 'coach' ? 'assistant' : 'user',
+      content: turn.content,
+    })),
+  ];
+}
+
+export class CoachNoteUseCase {
+  constructor(
+    private readonly llmProvider: ILLMProvider,
+    private readonly responseCache: ResponseCacheService | null = null,
+  ) {}
+
+  async execute(input: CoachNoteInput): Promise<CoachNoteOutput> {
+    const last = input.turns[input.turns.length - 1];
+    if (last && last.role !== 'user') {
+      return { reply: '', error: '코치의 질문에 대한 답변이 없습니다.' };
+    }
+
+    const prepared = await new NoteContentPreparer(this.llmProvider, this.responseCache)
+      .prepare(input.note.content, { tokenBudget: input.noteTokenBudget, signal: input.signal });
+    if (prepared.error) {
+      return { reply: '', error: prepared.error };
+    }
+
+    const language = resolveOutputLanguage(input.language, input.note.content);
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: buildSystemPrompt(input, formatPreparedContent(prepared), getLanguageInstruction(language)),
+      },
+      ...buildConversation(input.turns),
+    ];
+
+    const response = await this.llmProvider.generate(messages, {
+      purpose: 'coach-chat',
+      signal: input.signal,
+    });
+
+    if (!response.success) {
+      return { reply: '', error: response.error ?? 'LLM 요청에 실패했습니다.' };
+    }
+
+    const reply = response.content.trim();
+    if (!reply) {
+      return { reply: '', error: '코치의 응답이 비어 있습니다.' };
+    }
+
+    return { reply, condensation: prepared.condensation ?? undefined };
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * DowngradeWiltingNotesUseCase
+ * 시든 노트의 성숙도를 제안된 단계로 일괄 하향하고 변경마다 감사 기록을 남깁니다.
+ *
+ * 규칙:
+ * - 하향 조정만 수행 (제안 단계가 현재보다 낮지 않으면 건너뜀)
+ * - 실패한 노트는 보고하고 나머지는 계속 진행
+ */
+
+import { UpdateMaturityUseCase } from './update-maturity';
+import type { INoteRepository, MaturityAuditEntry } from '../../domain';
+import type { MaturityAuditService } from '../services/maturity-audit-service';
+import type { WiltingNoteEntry } from './get-wilting-notes';
+
+export interface DowngradeWiltingNotesInput {
+  entries: WiltingNoteEntry[];
+}
+
+export interface DowngradeWiltingNotesOutput {
+  downgradedCount: number;
+  skippedCount: number;
+  failed: { notePath: string; error: string }[];
+}
+
+export class DowngradeWiltingNotesUseCase {
+  constructor(
+    private readonly noteRepository: INoteRepository,
+    private readonly auditService: MaturityAuditService,
+  ) {}
+
+  async execute(input: DowngradeWiltingNotesInput): Promise<DowngradeWiltingNotesOutput> {
+    const output: DowngradeWiltingNotesOutput = {
+      downgradedCount: 0,
+      skippedCount: 0,
+      failed: [],
+    };
+
+    const updateMaturity = new UpdateMaturityUseCase(this.noteRepository);
+    const auditEntries: Omit<MaturityAuditEntry, 'id'>[] = [];
+
+    for (const entry of input.entries) {
+      if (!entry.suggested.isLowerThan(entry.note.maturityLevel)) {
+        output.skippedCount++;
+        continue;
+      }
+
+      const result = await updateMaturity.execute({
+        noteId: entry.note.path,
+        currentMaturity: entry.note.maturityLevel,
+        targetMaturity: entry.suggested,
+        allowDowngrade: true,
+      });
+
+      if (!result.success) {
+        output.failed.push({ notePath: entry.note.path, error: result.error ?? '알 수 없는 오류' });
+        continue;
+      }
+
+      output.downgradedCount++;
+      auditEntries.push({
+        notePath: entry.note.path,
+        from: result.previousLevel.level,
+        to: result.newLevel.level,
+        reasons: entry.reasons,
+        changedAt: Date.now(),
+      });
+    }
+
+    await this.auditService.addEntries(auditEntries);
+    return output;
+  }
+}
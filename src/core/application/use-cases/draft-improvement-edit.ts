@@ -0,0 +1,291 @@
+/**
+ * DraftImprovementEditUseCase
+ * 개선 액션 하나를 노트에 반영한 구체적인 수정안을 LLM으로 작성합니다.
+ *
+ * 규칙:
+ * - 수정할 구절을 그대로 인용해야 하므로 노트 전문(프론트매터 제외)을 전달
+ * - 인용한 구절은 본문에서 정확히 한 곳을 가리켜야 함 (공백 차이는 허용)
+ * - 새 내용 추가는 삽입 위치 앞 구절을 인용하고 그 뒤에 덧붙인 형태로 받음
+ * - 결과는 원본 대비 줄 단위 변경 구간(hunk)으로 제공되어 골라서 적용 가능
+ */
+
+import { getLanguageInstruction, resolveOutputLanguage } from '../../domain';
+import type {
+  ILLMProvider,
+  NoteData,
+  OutputLanguage,
+  QualityDimensionConfig,
+  QualityDimensionType,
+} from '../../domain';
+import type { ResponseCacheService } from '../services/response-cache-service';
+import { diffLines } from '../services/text-diff';
+import type { DiffHunk } from '../services/text-diff';
+import {
+  asRecord,
+  asText,
+  describeValidationErrors,
+  generateStructured,
+} from '../services/structured-response';
+import type { ResponseValidator } from '../services/structured-response';
+import type { DimensionImprovementAction } from './get-dimension-improvement';
+
+export interface DraftImprovementEditInput {
+  note: NoteData;
+  dimension: QualityDimensionType;
+  dimensionConfig?: QualityDimensionConfig;
+  action: DimensionImprovementAction;
+  language?: OutputLanguage;
+  forceRefresh?: boolean;
+  // Aborting cancels the LLM request; the output then carries an error
+  signal?: AbortSignal;
+}
+
+/**
+ * 검토용 수정안 (originalContent 기준으로 계산된 변경 구간)
+ */
+export interface ImprovementEditDraft {
+  notePath: string;
+  originalContent: string;
+  revisedContent: string;
+  explanation: string;
+  hunks: DiffHunk[];
+}
+
+export interface DraftImprovementEditOutput {
+  draft: ImprovementEditDraft | null;
+  error?: string;
+  fromCache?: boolean;
+}
+
+interface PassageEdit {
+  start: number;
+  end: number;
+  revised: string;
+}
+
+interface LLMEditDraftResponse {
+  explanation: string;
+  edits: PassageEdit[];
+}
+
+const FRONTMATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+
+// 캐시 키에 포함되는 프롬프트 버전
+const PROMPT_VERSION = 1;
+
+const SYSTEM_PROMPT = `당신은 Zettelkasten 영구 노트를 다듬는 편집자입니다.
+
+주어진 개선 액션 하나를 노트에 실제로 반영한 수정안을 작성합니다.
+
+**원칙:**
+1. 액션에 필요한 부분만 최소한으로 수정
+2. 필자의 관점, 용어, 문체, 마크다운 형식을 유지
+3. [[위키링크]]와 태그는 지우지 않음
+4. 근거나 출처를 지어내지 않음 (확인이 필요한 자리는 표시만)
+
+**응답 형식:**
+\`\`\`json
+{
+  "explanation": "무엇을 왜 바꿨는지 (1-2문장)",
+  "edits": [
+    {
+      "original": "노트 본문에서 그대로 복사한 바꿀 구절",
+      "revised": "고쳐 쓴 구절"
+    }
+  ]
+}
+\`\`\`
+
+**주의사항:**
+- original은 노트 본문에 정확히 한 번 나오는 구절을 글자 그대로 복사 (요약·수정 금지)
+- 같은 구절이 여러 번 나오면 앞뒤 문장까지 포함해 길게 인용
+- 새 내용을 추가할 때는 삽입 위치 바로 앞 구절을 original로, 그 구절 + 새 내용을 revised로
+- 구절을 삭제할 때는 revised를 빈 문자열로
+- edits끼리 겹치지 않게 작성`;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 본문에서 구절 위치 찾기 (정확히 일치하는 곳이 없으면 공백 차이를 무시)
+ */
+function locatePassage(body: string, passage: string): { start: number; end: number }[] {
+  const exact: { start: number; end: number }[] = [];
+  for (let idx = body.indexOf(passage); idx >= 0; idx = body.indexOf(passage, idx + 1)) {
+    exact.push({ start: idx, end: idx + passage.length });
+  }
+  if (exact.length > 0) return exact;
+
+  const pattern = new RegExp(passage.split(/\s+/).filter(Boolean).map(escapeRegExp).join('\\s+'), 'g');
+  const loose: { start: number; end: number }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    loose.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return loose;
+}
+
+function preview(text: string): string {
+  return text.length > 40 ? `${text.slice(0, 40)}...` : text;
+}
+
+/**
+ * 인용 구절이 본문의 한 곳을 가리키고 서로 겹치지 않는지 검증
+ */
+function createEditValidator(body: string): ResponseValidator<LLMEditDraftResponse> {
+  return (data) => {
+    const root = asRecord(data);
+    if (!root || !Array.isArray(root.edits)) {
+      return { value: null, errors: ['"edits" 배열이 없습니다.'] };
+    }
+
+    const errors: string[] = [];
+    const edits: PassageEdit[] = [];
+
+    root.edits.forEach((item, idx) => {
+      const record = asRecord(item) ?? {};
+      const original = asText(record.original);
+      const revised = asText(record.revised);
+      const label = `edits[${idx}]`;
+
+      if (!original) {
+        errors.push(`${label}.original이 비어 있습니다.`);
+        return;
+      }
+      if (original === revised) return;
+
+      const matches = locatePassage(body, original);
+      if (matches.length === 0) {
+        errors.push(`${label}.original이 노트 본문에 없습니다: "${preview(original)}"`);
+      } else if (matches.length > 1) {
+        errors.push(`${label}.original이 본문의 여러 곳에 있습니다. 앞뒤 문장을 포함해 인용하세요: "${preview(original)}"`);
+      } else {
+        edits.push({ ...matches[0], revised });
+      }
+    });
+
+    edits.sort((a, b) => a.start - b.start);
+    for (let i = 1; i < edits.length; i++) {
+      if (edits[i].start < edits[i - 1].end) {
+        errors.push('edits의 인용 구절이 서로 겹칩니다.');
+        break;
+      }
+    }
+
+    if (errors.length > 0) return { value: null, errors };
+    if (edits.length === 0) {
+      return { value: null, errors: ['"edits"에 실제로 바뀌는 항목이 하나도 없습니다.'] };
+    }
+
+    return { value: { explanation: asText(root.explanation), edits }, errors: [] };
+  };
+}
+
+/**
+ * 인용 구절을 고쳐 쓴 구절로 교체 (edits는 위치순, 겹치지 않음)
+ * 고쳐 쓴 구절은 노트의 줄바꿈 방식(CRLF/LF)에 맞춤
+ */
+function applyPassageEdits(body: string, edits: PassageEdit[]): string {
+  const eol = body.includes('\r\n') ? '\r\n' : '\n';
+  let result = '';
+  let cursor = 0;
+  for (const edit of edits) {
+    result += body.slice(cursor, edit.start) + edit.revised.replace(/\r?\n/g, eol);
+    cursor = edit.end;
+  }
+  return result + body.slice(cursor);
+}
+
+function buildUserPrompt(input: DraftImprovementEditInput, body: string): string {
+  const { note, dimension, dimensionConfig, action } = input;
+  const location = action.location ? `\n**위치**: ${action.location}` : '';
+
+  return `**노트 제목**: ${note.basename}
+**개선 차원**: ${dimensionConfig?.displayName ?? dimension} (${dimension})
+**개선 액션**: ${action.action}${location}
+**기대 효과**: ${action.expectedImpact}
+
+**노트 본문**:
+---
+${body}
+---
+
+위 개선 액션을 반영한 수정안을 JSON으로 응답해주세요.`;
+}
+
+export class DraftImprovementEditUseCase {
+  constructor(
+    private readonly llmProvider: ILLMProvider,
+    private readonly responseCache: ResponseCacheService | null = null,
+  ) {}
+
+  async execute(input: DraftImprovementEditInput): Promise<DraftImprovementEditOutput> {
+    const { note } = input;
+    const frontmatter = note.content.match(FRONTMATTER_PATTERN)?.[0] ?? '';
+    const body = note.content.slice(frontmatter.length);
+
+    if (!body.trim()) {
+      return { draft: null, error: '노트 본문이 비어 있습니다.' };
+    }
+
+    const language = resolveOutputLanguage(input.language, note.content);
+    const systemPrompt = `${SYSTEM_PROMPT}\n\n${getLanguageInstruction(language)}`;
+    const userPrompt = buildUserPrompt(input, body);
+
+    const cacheKey = this.responseCache?.buildKey({
+      useCase: 'draft-edit',
+      promptVersion: PROMPT_VERSION,
+      model: this.llmProvider.modelId,
+      noteContent: note.content,
+      prompt: `${systemPrompt}\n\n${userPrompt}`,
+    });
+    const cached = cacheKey && this.responseCache && !input.forceRefresh
+      ? this.responseCache.get(cacheKey)
+      : null;
+
+    const response = await generateStructured(this.llmProvider, {
+      userPrompt,
+      systemPrompt,
+      options: {
+        purpose: 'draft-edit',
+        signal: input.signal,
+      },
+      validate: createEditValidator(body),
+      cached,
+    });
+
+    if (response.error) {
+      return { draft: null, error: response.error };
+    }
+
+    const parsed = response.value;
+    if (!parsed) {
+      return {
+        draft: null,
+        error: `수정안 형식이 올바르지 않습니다: ${describeValidationErrors(response.validationErrors)}`,
+      };
+    }
+
+    const revisedContent = frontmatter + applyPassageEdits(body, parsed.edits);
+    const hunks = diffLines(note.content, revisedContent);
+    if (hunks.length === 0) {
+      return { draft: null, error: '수정안에 바뀐 내용이 없습니다.' };
+    }
+
+    if (cacheKey && !response.fromCache && !response.source?.fallback) {
+      await this.responseCache?.set(cacheKey, response.content);
+    }
+
+    return {
+      draft: {
+        notePath: note.path,
+        originalContent: note.content,
+        revisedContent,
+        explanation: parsed.explanation,
+        hunks,
+      },
+      fromCache: response.fromCache,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * GetCultivationQueueUseCase
+ * 오늘 다시 가꿀 노트 목록(간격 반복 리뷰 대기열)을 생성합니다.
+ *
+ * 규칙:
+ * - 다음 리뷰일 = 마지막 활동(수정·평가·리뷰) + 리뷰 간격
+ * - 리뷰 간격은 성숙도, 최근 점수 변화, 리뷰 이력으로 결정
+ * - 오늘 안에 리뷰일이 도래한 노트만 포함하고 오래 밀린 순으로 정렬
+ */
+
+import { scheduleReview } from '../../domain';
+import type { INoteRepository, NoteSummary } from '../../domain';
+import type { AssessmentHistoryService } from '../services/assessment-history-service';
+import type { ReviewScheduleService } from '../services/review-schedule-service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface GetCultivationQueueInput {
+  baseIntervalDays: number;
+  now?: number;
+}
+
+export interface CultivationQueueEntry {
+  note: NoteSummary;
+  intervalDays: number;
+  nextReviewAt: number;
+  // Whole days past the review date (0 when due today)
+  overdueDays: number;
+  scoreDelta: number | null;
+}
+
+export class GetCultivationQueueUseCase {
+  constructor(
+    private readonly noteRepository: INoteRepository,
+    private readonly historyService: AssessmentHistoryService,
+    private readonly scheduleService: ReviewScheduleService,
+  ) {}
+
+  async execute(input: GetCultivationQueueInput): Promise<CultivationQueueEntry[]> {
+    const now = input.now ?? Date.now();
+    const endOfToday = new Date(now);
+    endOfToday.setHours(23, 59, 59, 999);
+
+    const notes = await this.noteRepository.getAllNotes();
+    const entries: CultivationQueueEntry[] = [];
+
+    notes.forEach((note) => {
+      const record = this.historyService.getLatestRecord(note.path);
+      const delta = this.historyService.getLatestDelta(note.path);
+
+      const { intervalDays, nextReviewAt } = scheduleReview(input.baseIntervalDays, {
+        maturity: note.maturityLevel,
+        modifiedAt: note.modifiedAt,
+        lastAssessedAt: record?.assessedAt,
+        scoreDelta: delta?.totalDelta,
+        state: this.scheduleService.getState(note.path),
+      });
+
+      if (nextReviewAt > endOfToday.getTime()) return;
+
+      entries.push({
+        note,
+        intervalDays,
+        nextReviewAt,
+        overdueDays: Math.max(0, Math.floor((now - nextReviewAt) / DAY_MS)),
+        scoreDelta: delta?.totalDelta ?? null,
+      });
+    });
+
+    return entries.sort((a, b) => a.nextReviewAt - b.nextReviewAt);
+  }
+}
@@ -3,13 +3,41 @@
  * 특정 차원에 대한 맞춤 개선 액션을 LLM으로 생성합니다.
  */
 
-import type { ILLMProvider, LLMResponse, NoteData, QualityDimensionType } from '../../domain';
+import { QualityDimension, getLanguageInstruction, resolveOutputLanguage } from '../../domain';
+import type {
+  BuiltInDimensionType,
+  ILLMProvider,
+  NoteData,
+  QualityDimensionConfig,
+  QualityDimensionType,
+  OutputLanguage,
+} from '../../domain';
+import type { ResponseCacheService } from '../services/response-cache-service';
+import { NoteContentPreparer, formatPreparedContent } from '../services/note-content-preparer';
+import type { ContentCondensation } from '../services/note-content-preparer';
+import {
+  asRecord,
+  asText,
+  describeValidationErrors,
+  generateStructured,
+  streamArrayItems,
+} from '../services/structured-response';
+import type { ResponseValidator } from '../services/structured-response';
 
 export interface DimensionImprovementInput {
   note: NoteData;
   dimension: QualityDimensionType;
+  dimensionConfig?: QualityDimensionConfig;
   currentScore: number;
   feedback: string;
+  language?: OutputLanguage;
+  forceRefresh?: boolean;
+  // Token budget for the note content; longer notes are condensed first
+  noteTokenBudget?: number;
+  // Aborting cancels the LLM request; the output then carries an error
+  signal?: AbortSignal;
+  // Actions as they stream in (preview; the output holds the validated actions)
+  onAction?: (action: DimensionImprovementAction) => void;
 }
 
 export interface DimensionImprovementAction {
@@ -21,9 +49,12 @@ export interface DimensionImprovementAction {
 export interface DimensionImprovementOutput {
   actions: DimensionImprovementAction[];
   error?: string;
+  fromCache?: boolean;
+  // Set when the note was too long and a condensed version was used
+  condensation?: ContentCondensation;
 }
 
-const DIMENSION_PROMPTS: Record<QualityDimensionType, string> = {
+const DIMENSION_PROMPTS: Record<BuiltInDimensionType, string> = {
   atomicity: `분석 대상: 원자성 (Atomicity) 차원
 이 노트에서 분리 가능한 하위 주제를 식별하고, 하나의 핵심 아이디어를 중심으로 재구성하는 방안을 제안해주세요.
 - 분리할 수 있는 독립 개념을 식별
@@ -55,6 +86,9 @@ const DIMENSION_PROMPTS: Record<QualityDimensionType, string> = {
 - 개인 경험이나 사례와 연결하는 방법`,
 };
 
+// 캐시 키에 포함되는 프롬프트 버전
+const PROMPT_VERSION = 2;
+
 const SYSTEM_PROMPT = `당신은 Zettelkasten 기반 영구 노트 작성 코치입니다.
 
 주어진 차원에 대해 3-5개의 구체적이고 실행 가능한 개선 액션을 제안합니다.
@@ -71,14 +105,35 @@ const SYSTEM_PROMPT = `당신은 Zettelkasten 기반 영구 노트 작성 코치
     }
   ]
 }
-\`\`\`
+\`\`\``;
 
-모든 응답은 한국어로 작성합니다.`;
+/**
+ * 사용자 정의 차원은 평가 기준의 설명과 채점 기준으로 분석 지침을 구성
+ */
+function buildDimensionPrompt(input: DimensionImprovementInput): string {
+  const { dimension, dimensionConfig: config } = input;
 
-function buildUserPrompt(input: DimensionImprovementInput): string {
+  const isUnchangedBuiltIn = QualityDimension.isBuiltIn(dimension) &&
+    (!config || config.displayName === QualityDimension.getConfig(dimension).displayName);
+  if (isUnchangedBuiltIn) {
+    return DIMENSION_PROMPTS[dimension as BuiltInDimensionType];
+  }
+
+  const name = config?.displayName ?? dimension;
+  const lines = [`분석 대상: ${name} (${dimension}) 차원`];
+  if (config?.description) lines.push(config.description);
+  if (config && config.anchors.length > 0) {
+    lines.push('채점 기준:');
+    config.anchors.forEach((anchor) => lines.push(`- ${anchor}`));
+  }
+  lines.push('이 차원의 점수를 높이기 위해 노트에서 보완할 부분을 식별하고 구체적인 개선 방안을 제안해주세요.');
+  return lines.join('\n');
+}
+
+function buildUserPrompt(input: DimensionImprovementInput, noteContent: string): string {
   const { note, dimension, currentScore, feedback } = input;
 
-  return `${DIMENSION_PROMPTS[dimension]}
+  return `${buildDimensionPrompt(input)}
 
 **노트 제목**: ${note.basename}
 **현재 ${dimension} 점수**: ${currentScore}점
@@ -86,57 +141,109 @@ function buildUserPrompt(input: DimensionImprovementInput): string {
 
 **노트 내용**:
 ---
-${note.content.slice(0, 2000)}${note.content.length > 2000 ? '...' : ''}
+${noteContent}
 ---
 
 위 차원에 대해 3-5개의 구체적 개선 액션을 JSON으로 응답해주세요.`;
 }
 
-function parseResponse(responseText: string): DimensionImprovementAction[] | null {
-  try {
-    const jsonMatch = responseText.match(/```(?:json)?\s*([\s\S]*?)```/);
-    const jsonStr = jsonMatch ? jsonMatch[1].trim() : responseText.trim();
-    const parsed = JSON.parse(jsonStr);
-    if (parsed.actions && Array.isArray(parsed.actions)) {
-      return parsed.actions;
-    }
-    return null;
-  } catch {
-    console.error('Failed to parse dimension improvement response');
-    return null;
-  }
+/**
+ * 개선 액션 항목 정규화 (action이 없으면 null)
+ */
+function normalizeAction(item: unknown): DimensionImprovementAction | null {
+  const record = asRecord(item) ?? {};
+  const action = asText(record.action);
+  if (!action) return null;
+
+  const location = asText(record.location);
+  return {
+    action,
+    ...(location ? { location } : {}),
+    expectedImpact: asText(record.expectedImpact),
+  };
 }
 
+/**
+ * action이 있는 개선 액션이 하나 이상인지 검증
+ */
+const validateImprovementResponse: ResponseValidator<DimensionImprovementAction[]> = (data) => {
+  const root = asRecord(data);
+  if (!root || !Array.isArray(root.actions)) {
+    return { value: null, errors: ['"actions" 배열이 없습니다.'] };
+  }
+
+  const actions = root.actions
+    .map(normalizeAction)
+    .filter((action): action is DimensionImprovementAction => action !== null);
+
+  if (actions.length === 0) {
+    return { value: null, errors: ['"actions"에 action이 있는 항목이 하나도 없습니다.'] };
+  }
+
+  return { value: actions, errors: [] };
+};
+
 export class GetDimensionImprovementUseCase {
-  constructor(private readonly llmProvider: ILLMProvider) {}
+  constructor(
+    private readonly llmProvider: ILLMProvider,
+    private readonly responseCache: ResponseCacheService | null = null,
+  ) {}
 
   async execute(input: DimensionImprovementInput): Promise<DimensionImprovementOutput> {
-    const userPrompt = buildUserPrompt(input);
+    const prepared = await new NoteContentPreparer(this.llmProvider, this.responseCache)
+      .prepare(input.note.content, { tokenBudget: input.noteTokenBudget, signal: input.signal });
+    if (prepared.error) {
+      return { actions: [], error: prepared.error };
+    }
 
-    const response: LLMResponse = await this.llmProvider.simpleGenerate(
+    const language = resolveOutputLanguage(input.language, input.note.content);
+    const systemPrompt = `${SYSTEM_PROMPT}\n\n${getLanguageInstruction(language)}`;
+    const userPrompt = buildUserPrompt(input, formatPreparedContent(prepared));
+
+    const cacheKey = this.responseCache?.buildKey({
+      useCase: 'dimension-improvement',
+      promptVersion: PROMPT_VERSION,
+      model: this.llmProvider.modelId,
+      noteContent: input.note.content,
+      prompt: `${systemPrompt}\n\n${userPrompt}`,
+    });
+    const cached = cacheKey && this.responseCache && !input.forceRefresh
+      ? this.responseCache.get(cacheKey)
+      : null;
+
+    const response = await generateStructured(this.llmProvider, {
       userPrompt,
-      SYSTEM_PROMPT,
-      {
-        maxTokens: 2000,
-        temperature: 0.7,
+      systemPrompt,
+      options: {
+        purpose: 'dimension-improvement',
+        signal: input.signal,
       },
-    );
-
-    if (!response.success) {
+      validate: validateImprovementResponse,
+      cached,
+      onText: input.onAction
+        ? streamArrayItems('actions', normalizeAction, (action) => input.onAction?.(action))
+        : undefined,
+    });
+
+    if (response.error) {
       return {
         actions: [],
-        error: response.error ?? 'LLM 요청에 실패했습니다.',
+        error: response.error,
       };
     }
 
-    const actions = parseResponse(response.content);
+    const actions = response.value;
     if (!actions) {
       return {
         actions: [],
-        error: '개선 제안 파싱에 실패했습니다.',
+        error: `개선 제안 형식이 올바르지 않습니다: ${describeValidationErrors(response.validationErrors)}`,
       };
     }
 
-    return { actions };
+    if (cacheKey && !response.fromCache && !response.source?.fallback) {
+      await this.responseCache?.set(cacheKey, response.content);
+    }
+
+    return { actions, fromCache: response.fromCache, condensation: prepared.condensation ?? undefined };
   }
 }
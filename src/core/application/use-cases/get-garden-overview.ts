@@ -0,0 +1,149 @@
+/**
+ * GetGardenOverviewUseCase
+ * 볼트 전체 노트의 성숙도 분포와 최근 평가 기록을 집계합니다.
+ *
+ * 집계 항목:
+ * - 성숙도 단계별 노트 수
+ * - 차원별 평균 점수
+ * - 최저 점수 노트
+ * - 한 번도 평가되지 않은 노트
+ * - 추천 성숙도가 현재 단계보다 높은 노트
+ */
+
+import { MaturityLevel, QualityRubric } from '../../domain';
+import type {
+  AssessmentProfile,
+  AssessmentRecord,
+  INoteRepository,
+  NoteSummary,
+  QualityDimensionType,
+} from '../../domain';
+import type { AssessmentHistoryService } from '../services/assessment-history-service';
+
+export interface GardenOverviewInput {
+  lowestLimit?: number;
+  rubric?: QualityRubric;
+  // Used to apply each record's profile maturity thresholds
+  profiles?: AssessmentProfile[];
+}
+
+export interface GardenMaturityCount {
+  level: MaturityLevel;
+  count: number;
+}
+
+export interface GardenDimensionAverage {
+  type: QualityDimensionType;
+  displayName: string;
+  icon: string;
+  average: number;
+  sampleSize: number;
+}
+
+export interface GardenNoteEntry {
+  note: NoteSummary;
+  record: AssessmentRecord;
+}
+
+export interface GardenUpgradeCandidate extends GardenNoteEntry {
+  recommended: MaturityLevel;
+}
+
+export interface GardenOverview {
+  totalNotes: number;
+  assessedCount: number;
+  averageTotalScore: number | null;
+  maturityCounts: GardenMaturityCount[];
+  dimensionAverages: GardenDimensionAverage[];
+  lowestScoringNotes: GardenNoteEntry[];
+  unassessedNotes: NoteSummary[];
+  upgradeCandidates: GardenUpgradeCandidate[];
+}
+
+export class GetGardenOverviewUseCase {
+  constructor(
+    private readonly noteRepository: INoteRepository,
+    private readonly historyService: AssessmentHistoryService,
+  ) {}
+
+  async execute(input: GardenOverviewInput = {}): Promise<GardenOverview> {
+    const { lowestLimit = 10, rubric = QualityRubric.default(), profiles = [] } = input;
+    const notes = await this.noteRepository.getAllNotes();
+
+    // Maturity distribution
+    const countsByLevel = new Map<string, number>();
+    notes.forEach((n) => {
+      countsByLevel.set(n.maturityLevel.level, (countsByLevel.get(n.maturityLevel.level) ?? 0) + 1);
+    });
+    const maturityCounts = MaturityLevel.getAllLevels().map((level) => ({
+      level,
+      count: countsByLevel.get(level.level) ?? 0,
+    }));
+
+    // Join notes with their latest assessment record
+    const assessed: GardenNoteEntry[] = [];
+    const unassessedNotes: NoteSummary[] = [];
+    notes.forEach((note) => {
+      const record = this.historyService.getLatestRecord(note.path);
+      if (record) {
+        assessed.push({ note, record });
+      } else {
+        unassessedNotes.push(note);
+      }
+    });
+
+    const averageTotalScore = assessed.length > 0
+      ? Math.round(assessed.reduce((sum, e) => sum + e.record.totalScore, 0) / assessed.length)
+      : null;
+
+    const lowestScoringNotes = [...assessed]
+      .sort((a, b) => a.record.totalScore - b.record.totalScore)
+      .slice(0, lowestLimit);
+
+    const upgradeCandidates: GardenUpgradeCandidate[] = assessed
+      .map((entry) => ({
+        ...entry,
+        recommended: MaturityLevel.fromQualityScore(
+          entry.record.totalScore,
+          profiles.find((p) => p.id === entry.record.profile?.id)?.maturityThresholds ?? undefined
+        ),
+      }))
+      .filter((entry) => entry.recommended.isHigherThan(entry.note.maturityLevel))
+      .sort((a, b) => b.record.totalScore - a.record.totalScore);
+
+    return {
+      totalNotes: notes.length,
+      assessedCount: assessed.length,
+      averageTotalScore,
+      maturityCounts,
+      dimensionAverages: this.calculateDimensionAverages(assessed.map((e) => e.record), rubric),
+      lowestScoringNotes,
+      unassessedNotes: unassessedNotes.sort((a, b) => a.basename.localeCompare(b.basename)),
+      upgradeCandidates,
+    };
+  }
+
+  /**
+   * 활성 평가 기준의 차원별 평균 (해당 차원이 없는 기록은 제외)
+   */
+  private calculateDimensionAverages(
+    records: AssessmentRecord[],
+    rubric: QualityRubric
+  ): GardenDimensionAverage[] {
+    return rubric.dimensions.map(({ type, displayName, icon }) => {
+      const scores = records
+        .map((r) => r.dimensionScores[type])
+        .filter((score): score is number => typeof score === 'number');
+
+      return {
+        type,
+        displayName,
+        icon,
+        average: scores.length > 0
+          ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length)
+          : 0,
+        sampleSize: scores.length,
+      };
+    });
+  }
+}
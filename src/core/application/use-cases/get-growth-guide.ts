@@ -3,52 +3,100 @@
  * 현재 성숙도에서 다음 단계로 성장하기 위한 가이드를 생성합니다.
  */
 
-import { GrowthGuide, MaturityLevel, QualityScore } from '../../domain';
-import type { ILLMProvider, LLMResponse, NoteData } from '../../domain';
+import {
+  GrowthGuide,
+  MaturityLevel,
+  QualityScore,
+  getLanguageInstruction,
+  resolveOutputLanguage,
+} from '../../domain';
+import type {
+  ILLMProvider,
+  MaturityThresholds,
+  NoteData,
+  OutputLanguage,
+} from '../../domain';
+import type { ResponseCacheService } from '../services/response-cache-service';
+import { NoteContentPreparer, formatPreparedContent } from '../services/note-content-preparer';
+import type { ContentCondensation } from '../services/note-content-preparer';
+import {
+  asEnum,
+  asRecord,
+  asText,
+  describeValidationErrors,
+  generateStructured,
+  streamArrayItems,
+} from '../services/structured-response';
+import type { ResponseValidator } from '../services/structured-response';
 
 export interface GetGrowthGuideInput {
   note: NoteData;
   currentMaturity: MaturityLevel;
   qualityScore: QualityScore;
+  maturityThresholds?: MaturityThresholds;
+  language?: OutputLanguage;
+  forceRefresh?: boolean;
+  // Token budget for the note content; longer notes are condensed first
+  noteTokenBudget?: number;
+  // Aborting cancels the LLM request; the output then carries an error
+  signal?: AbortSignal;
+  // Steps as they stream in (preview; the output holds the validated guide)
+  onStep?: (step: GrowthGuideStep) => void;
 }
 
+export type GrowthGuideStep = GrowthGuide['steps'][number];
+
 export interface GetGrowthGuideOutput {
   guide: GrowthGuide | null;
   error?: string;
   rawResponse?: string;
+  fromCache?: boolean;
+  // Set when the note was too long and a condensed version was used
+  condensation?: ContentCondensation;
 }
 
 interface LLMGrowthGuideResponse {
-  steps: {
-    step: number;
-    action: string;
-    expectedImpact: string;
-  }[];
-  estimatedEffort: 'low' | 'medium' | 'high';
+  steps: GrowthGuide['steps'];
+  estimatedEffort: GrowthGuide['estimatedEffort'];
 }
 
-const SYSTEM_PROMPT = `당신은 Zettelkasten 기반 영구 노트 작성 코치입니다.
+const EFFORT_LEVELS: readonly GrowthGuide['estimatedEffort'][] = ['low', 'medium', 'high'];
+
+// 캐시 키에 포함되는 프롬프트 버전
+const PROMPT_VERSION = 3;
+
+/**
+ * 설정된 성숙도 단계와 점수 구간으로 시스템 프롬프트 생성
+ */
+function buildSystemPrompt(thresholds?: MaturityThresholds): string {
+  const levels = MaturityLevel.getAllLevels();
+  const stageLines = levels
+    .map((level, idx) => {
+      const min = MaturityLevel.getMinQualityScore(level.level, thresholds);
+      const next = levels[idx + 1];
+      const max = next ? MaturityLevel.getMinQualityScore(next.level, thresholds) - 1 : 100;
+      return `- ${level.getDisplayText()} (${min}-${max}점): ${level.description}`;
+    })
+    .join('\n');
+
+  return `당신은 Zettelkasten 기반 영구 노트 작성 코치입니다.
 
 **성숙도 단계:**
-- 🌱 Seed (0-39점): 초기 아이디어, 미가공 상태
-- 🌿 Sprout (40-69점): 기본 구조화, 일부 연결
-- 🌳 Tree (70-89점): 완성된 원자적 노트, 풍부한 연결
-- 🌲 Evergreen (90-100점): 지속 업데이트, 핵심 허브 노트
+${stageLines}
 
 **성장 가이드 원칙:**
 1. 가장 큰 영향을 주는 개선부터 제안
 2. 구체적이고 실행 가능한 액션
 3. 현실적인 예상 효과
-4. 단계별 우선순위
-
-모든 응답은 한국어로 작성합니다.`;
+4. 단계별 우선순위`;
+}
 
-function buildUserPrompt(input: GetGrowthGuideInput): string {
+function buildUserPrompt(input: GetGrowthGuideInput, noteContent: string): string {
   const { note, currentMaturity, qualityScore } = input;
 
   const nextLevel = currentMaturity.getNextLevel();
   if (!nextLevel) {
-    return ''; // Already at Evergreen
+    return ''; // Already at the last stage
   }
 
   const weakDimensions = qualityScore
@@ -62,14 +110,14 @@ function buildUserPrompt(input: GetGrowthGuideInput): string {
 **현재 성숙도**: ${currentMaturity.getDisplayText()}
 **목표 성숙도**: ${nextLevel.getDisplayText()}
 **현재 품질 점수**: ${qualityScore.totalScore}점
-**필요 점수**: ${nextLevel.minQualityScore}점 이상
+**필요 점수**: ${MaturityLevel.getMinQualityScore(nextLevel.level, input.maturityThresholds)}점 이상
 
 **개선이 필요한 차원:**
 ${weakDimensions || '없음'}
 
-**노트 내용 (일부)**:
+**노트 내용**:
 ---
-${note.content.slice(0, 1500)}${note.content.length > 1500 ? '...' : ''}
+${noteContent}
 ---
 
 **응답 형식:**
@@ -93,40 +141,65 @@ ${note.content.slice(0, 1500)}${note.content.length > 1500 ? '...' : ''}
 - estimatedEffort는 총 예상 작업량`;
 }
 
-function parseGrowthGuideResponse(
-  responseText: string
-): LLMGrowthGuideResponse | null {
-  try {
-    const jsonMatch = responseText.match(/```(?:json)?\s*([\s\S]*?)```/);
-    const jsonStr = jsonMatch ? jsonMatch[1].trim() : responseText.trim();
-    return JSON.parse(jsonStr);
-  } catch (error) {
-    console.error('Failed to parse growth guide response:', error);
-    return null;
-  }
+/**
+ * 단계 항목 정규화 (action이 없으면 null)
+ */
+function normalizeStep(item: unknown): Omit<GrowthGuideStep, 'step'> | null {
+  const step = asRecord(item) ?? {};
+  const action = asText(step.action);
+  return action ? { action, expectedImpact: asText(step.expectedImpact) } : null;
 }
 
+/**
+ * 액션이 있는 단계가 하나 이상인지 검증 (단계 번호는 순서대로 다시 매김)
+ */
+const validateGrowthGuideResponse: ResponseValidator<LLMGrowthGuideResponse> = (data) => {
+  const root = asRecord(data);
+  if (!root || !Array.isArray(root.steps)) {
+    return { value: null, errors: ['"steps" 배열이 없습니다.'] };
+  }
+
+  const steps = root.steps
+    .map(normalizeStep)
+    .filter((step): step is Omit<GrowthGuideStep, 'step'> => step !== null)
+    .map((step, index) => ({ step: index + 1, ...step }));
+
+  if (steps.length === 0) {
+    return { value: null, errors: ['"steps"에 action이 있는 단계가 하나도 없습니다.'] };
+  }
+
+  return {
+    value: { steps, estimatedEffort: asEnum(root.estimatedEffort, EFFORT_LEVELS, 'medium') },
+    errors: [],
+  };
+};
+
 export class GetGrowthGuideUseCase {
-  constructor(private readonly llmProvider: ILLMProvider) {}
+  constructor(
+    private readonly llmProvider: ILLMProvider,
+    private readonly responseCache: ResponseCacheService | null = null,
+  ) {}
 
   async execute(input: GetGrowthGuideInput): Promise<GetGrowthGuideOutput> {
-    const { currentMaturity, qualityScore } = input;
+    const { note, currentMaturity, qualityScore } = input;
 
     const nextLevel = currentMaturity.getNextLevel();
     if (!nextLevel) {
       return {
         guide: null,
-        error: '이미 최고 성숙도(🌲 Evergreen)에 도달했습니다.',
+        error: `이미 최고 성숙도(${currentMaturity.getDisplayText()})에 도달했습니다.`,
       };
     }
 
+    const requiredScore = MaturityLevel.getMinQualityScore(nextLevel.level, input.maturityThresholds);
+
     // If already meets next level requirements, provide simple guidance
-    if (qualityScore.totalScore >= nextLevel.minQualityScore) {
+    if (qualityScore.totalScore >= requiredScore) {
       return {
         guide: {
           currentLevel: currentMaturity.level,
           targetLevel: nextLevel.level,
-          requiredScore: nextLevel.minQualityScore,
+          requiredScore,
           currentScore: qualityScore.totalScore,
           steps: [
             {
@@ -140,30 +213,54 @@ export class GetGrowthGuideUseCase {
       };
     }
 
-    const userPrompt = buildUserPrompt(input);
+    const prepared = await new NoteContentPreparer(this.llmProvider, this.responseCache)
+      .prepare(note.content, { tokenBudget: input.noteTokenBudget, signal: input.signal });
+    if (prepared.error) {
+      return { guide: null, error: prepared.error };
+    }
+
+    const language = resolveOutputLanguage(input.language, input.note.content);
+    const systemPrompt = `${buildSystemPrompt(input.maturityThresholds)}\n\n${getLanguageInstruction(language)}`;
+    const userPrompt = buildUserPrompt(input, formatPreparedContent(prepared));
+
+    const cacheKey = this.responseCache?.buildKey({
+      useCase: 'growth-guide',
+      promptVersion: PROMPT_VERSION,
+      model: this.llmProvider.modelId,
+      noteContent: input.note.content,
+      prompt: `${systemPrompt}\n\n${userPrompt}`,
+    });
+    const cached = cacheKey && this.responseCache && !input.forceRefresh
+      ? this.responseCache.get(cacheKey)
+      : null;
 
-    const response: LLMResponse = await this.llmProvider.simpleGenerate(
+    const response = await generateStructured(this.llmProvider, {
       userPrompt,
-      SYSTEM_PROMPT,
-      {
-        maxTokens: 2000,
-        temperature: 0.7,
-      }
-    );
-
-    if (!response.success) {
+      systemPrompt,
+      options: {
+        purpose: 'growth-guide',
+        signal: input.signal,
+      },
+      validate: validateGrowthGuideResponse,
+      cached,
+      onText: input.onStep
+        ? streamArrayItems('steps', normalizeStep, (step, index) => input.onStep?.({ step: index + 1, ...step }))
+        : undefined,
+    });
+
+    if (response.error) {
       return {
         guide: null,
-        error: response.error ?? 'LLM 요청에 실패했습니다.',
+        error: response.error,
         rawResponse: response.content,
       };
     }
 
-    const parsed = parseGrowthGuideResponse(response.content);
+    const parsed = response.value;
     if (!parsed) {
       return {
         guide: null,
-        error: '성장 가이드 파싱에 실패했습니다.',
+        error: `성장 가이드 형식이 올바르지 않습니다: ${describeValidationErrors(response.validationErrors)}`,
         rawResponse: response.content,
       };
     }
@@ -171,15 +268,21 @@ export class GetGrowthGuideUseCase {
     const guide: GrowthGuide = {
       currentLevel: currentMaturity.level,
       targetLevel: nextLevel.level,
-      requiredScore: nextLevel.minQualityScore,
+      requiredScore,
       currentScore: qualityScore.totalScore,
       steps: parsed.steps,
       estimatedEffort: parsed.estimatedEffort,
     };
 
+    if (cacheKey && !response.fromCache && !response.source?.fallback) {
+      await this.responseCache?.set(cacheKey, response.content);
+    }
+
     return {
       guide,
       rawResponse: response.content,
+      fromCache: response.fromCache,
+      condensation: prepared.condensation ?? undefined,
     };
   }
 }
@@ -0,0 +1,73 @@
+/**
+ * GetWiltingNotesUseCase
+ * 시듦 정책에 따라 성숙도를 낮춰야 할 노트(리뷰 대기열)를 찾습니다.
+ *
+ * 규칙:
+ * - 정책이 비활성화되어 있으면 빈 목록
+ * - 최근 평가 기록의 프로필 성숙도 기준을 적용
+ * - 사유가 많은 노트, 오래 방치된 노트 순으로 정렬
+ */
+
+import { evaluateWilting } from '../../domain';
+import type {
+  AssessmentProfile,
+  AssessmentRecord,
+  INoteRepository,
+  MaturityDecayPolicy,
+  NoteSummary,
+  WiltingEvaluation,
+} from '../../domain';
+import type { AssessmentHistoryService } from '../services/assessment-history-service';
+
+export interface GetWiltingNotesInput {
+  policy: MaturityDecayPolicy;
+  profiles?: AssessmentProfile[];
+  now?: number;
+}
+
+export interface WiltingNoteEntry extends WiltingEvaluation {
+  note: NoteSummary;
+  record: AssessmentRecord | null;
+}
+
+export class GetWiltingNotesUseCase {
+  constructor(
+    private readonly noteRepository: INoteRepository,
+    private readonly historyService: AssessmentHistoryService,
+  ) {}
+
+  async execute(input: GetWiltingNotesInput): Promise<WiltingNoteEntry[]> {
+    const { policy, profiles = [], now = Date.now() } = input;
+    if (!policy.enabled) return [];
+
+    const notes = await this.noteRepository.getAllNotes();
+    const entries: WiltingNoteEntry[] = [];
+
+    notes.forEach((note) => {
+      const record = this.historyService.getLatestRecord(note.path);
+      const thresholds = profiles.find((p) => p.id === record?.profile?.id)?.maturityThresholds;
+
+      const evaluation = evaluateWilting(
+        policy,
+        {
+          maturity: note.maturityLevel,
+          modifiedAt: note.modifiedAt,
+          lastAssessedAt: record?.assessedAt,
+          latestScore: record?.totalScore,
+          maturityThresholds: thresholds ?? undefined,
+        },
+        now
+      );
+
+      if (evaluation) {
+        entries.push({ ...evaluation, note, record });
+      }
+    });
+
+    return entries.sort((a, b) =>
+      b.reasons.length - a.reasons.length ||
+      Math.max(a.note.modifiedAt, a.record?.assessedAt ?? 0) -
+        Math.max(b.note.modifiedAt, b.record?.assessedAt ?? 0)
+    );
+  }
+}
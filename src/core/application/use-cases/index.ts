@@ -1,5 +1,6 @@
 export {
   AssessNoteQualityUseCase,
+  MIN_ASSESSABLE_LENGTH,
 } from './assess-note-quality';
 export type {
   AssessNoteQualityInput,
@@ -28,6 +29,7 @@ export {
 export type {
   GetGrowthGuideInput,
   GetGrowthGuideOutput,
+  GrowthGuideStep,
 } from './get-growth-guide';
 
 export {
@@ -38,3 +40,105 @@ export type {
   DimensionImprovementOutput,
   DimensionImprovementAction,
 } from './get-dimension-improvement';
+
+export {
+  GetGardenOverviewUseCase,
+} from './get-garden-overview';
+export type {
+  GardenOverviewInput,
+  GardenOverview,
+  GardenMaturityCount,
+  GardenDimensionAverage,
+  GardenNoteEntry,
+  GardenUpgradeCandidate,
+} from './get-garden-overview';
+
+export {
+  MigrateFrontmatterKeyUseCase,
+} from './migrate-frontmatter-key';
+export type {
+  MigrateFrontmatterKeyInput,
+  MigrateFrontmatterKeyOutput,
+  FrontmatterKeyMigrationEntry,
+} from './migrate-frontmatter-key';
+
+export {
+  RemapMaturityStagesUseCase,
+} from './remap-maturity-stages';
+export type {
+  RemapMaturityStagesInput,
+  RemapMaturityStagesOutput,
+  MaturityStageRemapEntry,
+} from './remap-maturity-stages';
+
+export { GetWiltingNotesUseCase } from './get-wilting-notes';
+export type { GetWiltingNotesInput, WiltingNoteEntry } from './get-wilting-notes';
+
+export { DowngradeWiltingNotesUseCase } from './downgrade-wilting-notes';
+export type {
+  DowngradeWiltingNotesInput,
+  DowngradeWiltingNotesOutput,
+} from './downgrade-wilting-notes';
+
+export { PreAssessNoteUseCase } from './pre-assess-note';
+export type { PreAssessNoteInput, PreAssessNoteOutput } from './pre-assess-note';
+
+export { GetCultivationQueueUseCase } from './get-cultivation-queue';
+export type {
+  GetCultivationQueueInput,
+  CultivationQueueEntry,
+} from './get-cultivation-queue';
+
+export { PlanNoteSplitUseCase } from './plan-note-split';
+export type {
+  PlanNoteSplitInput,
+  PlanNoteSplitOutput,
+  NoteSplitPlan,
+  NoteSplitPart,
+} from './plan-note-split';
+
+export {
+  PerformNoteSplitUseCase,
+  buildSplitParentContent,
+  sanitizeNoteTitle,
+} from './perform-note-split';
+export type {
+  PerformNoteSplitInput,
+  PerformNoteSplitOutput,
+  NoteSplitOperation,
+} from './perform-note-split';
+
+export { UndoNoteSplitUseCase } from './undo-note-split';
+export type { UndoNoteSplitOutput } from './undo-note-split';
+
+export { DraftImprovementEditUseCase } from './draft-improvement-edit';
+export type {
+  DraftImprovementEditInput,
+  DraftImprovementEditOutput,
+  ImprovementEditDraft,
+} from './draft-improvement-edit';
+
+export { ApplyNoteEditUseCase } from './apply-note-edit';
+export type {
+  ApplyNoteEditInput,
+  ApplyNoteEditOutput,
+  NoteEditOperation,
+} from './apply-note-edit';
+
+export { UndoNoteEditUseCase } from './undo-note-edit';
+export type { UndoNoteEditOutput } from './undo-note-edit';
+
+export { CoachNoteUseCase } from './coach-note';
+export type { CoachNoteInput, CoachNoteOutput, CoachingTurn } from './coach-note';
+
+export {
+  SaveCoachingTranscriptUseCase,
+  buildCoachingCallout,
+  buildTranscriptNoteContent,
+  COACHING_CALLOUT_TYPE,
+} from './save-coaching-transcript';
+export type {
+  SaveCoachingTranscriptInput,
+  SaveCoachingTranscriptOutput,
+  CoachingTranscriptTarget,
+} from './save-coaching-transcript';
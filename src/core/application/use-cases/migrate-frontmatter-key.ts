@@ -0,0 +1,91 @@
+/**
+ * MigrateFrontmatterKeyUseCase
+ * 성숙도 Frontmatter 키를 볼트 전체에서 새 키로 변경합니다.
+ *
+ * 규칙:
+ * - dryRun이면 변경 대상만 집계하고 파일은 수정하지 않음
+ * - 새 키가 이미 다른 값으로 존재하는 노트는 충돌로 보고하고 건너뜀
+ * - 새 키에 같은 값이 있으면 이전 키만 제거
+ */
+
+import type { INoteRepository } from '../../domain';
+
+export interface MigrateFrontmatterKeyInput {
+  oldKey: string;
+  newKey: string;
+  dryRun?: boolean;
+}
+
+export interface FrontmatterKeyMigrationEntry {
+  notePath: string;
+  value: unknown;
+  conflictValue?: unknown;
+}
+
+export interface MigrateFrontmatterKeyOutput {
+  affected: FrontmatterKeyMigrationEntry[];
+  conflicts: FrontmatterKeyMigrationEntry[];
+  migratedCount: number;
+  failed: { notePath: string; error: string }[];
+  dryRun: boolean;
+  error?: string;
+}
+
+export class MigrateFrontmatterKeyUseCase {
+  constructor(private readonly noteRepository: INoteRepository) {}
+
+  async execute(input: MigrateFrontmatterKeyInput): Promise<MigrateFrontmatterKeyOutput> {
+    const oldKey = input.oldKey.trim();
+    const newKey = input.newKey.trim();
+    const dryRun = input.dryRun ?? false;
+
+    const output: MigrateFrontmatterKeyOutput = {
+      affected: [],
+      conflicts: [],
+      migratedCount: 0,
+      failed: [],
+      dryRun,
+    };
+
+    if (!oldKey || !newKey) {
+      return { ...output, error: '이전 키와 새 키를 모두 입력해야 합니다.' };
+    }
+
+    if (oldKey === newKey) {
+      return { ...output, error: '이전 키와 새 키가 같습니다.' };
+    }
+
+    const notes = await this.noteRepository.searchNotes({ metadataKey: oldKey });
+
+    for (const summary of notes) {
+      const note = await this.noteRepository.getById(summary.id);
+      if (!note) continue;
+
+      const value = note.metadata[oldKey];
+      const existing = note.metadata[newKey];
+
+      if (existing !== undefined && existing !== null && existing !== value) {
+        output.conflicts.push({ notePath: note.path, value, conflictValue: existing });
+        continue;
+      }
+
+      output.affected.push({ notePath: note.path, value });
+    }
+
+    if (dryRun) return output;
+
+    for (const entry of output.affected) {
+      try {
+        await this.noteRepository.renameMetadataKey(entry.notePath, oldKey, newKey);
+        output.migratedCount++;
+      } catch (error) {
+        output.failed.push({
+          notePath: entry.notePath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return output;
+  }
+}
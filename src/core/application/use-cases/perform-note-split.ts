@@ -0,0 +1,165 @@
+/**
+ * PerformNoteSplitUseCase
+ * 분리 계획에 따라 새 노트를 만들고 원본 노트를 정리합니다.
+ *
+ * 규칙:
+ * - 새 노트는 원본과 같은 폴더에 첫 성숙도 단계(기본 seed)로 생성
+ * - 새 노트 하단에 원본 노트로의 백링크 추가
+ * - 원본에서 옮겨진 문단은 새 노트 링크(+ 요약)로 대체
+ * - 계획 이후 원본이 수정되었으면 중단
+ * - 실행 결과(NoteSplitOperation)로 한 번에 되돌릴 수 있음
+ */
+
+import { MaturityLevel } from '../../domain';
+import type { INoteRepository } from '../../domain';
+import type { NoteSplitPlan } from './plan-note-split';
+
+export interface PerformNoteSplitInput {
+  plan: NoteSplitPlan;
+}
+
+/**
+ * 되돌리기에 필요한 분리 실행 기록
+ */
+export interface NoteSplitOperation {
+  parentPath: string;
+  originalContent: string;
+  // Parent content written by the split (undo stops if it changed since)
+  splitContent: string;
+  createdPaths: string[];
+  // Content of each created note, in createdPaths order
+  createdContents: string[];
+  performedAt: number;
+}
+
+export interface PerformNoteSplitOutput {
+  operation: NoteSplitOperation | null;
+  error?: string;
+}
+
+// Characters not allowed in note file names or wikilinks
+const INVALID_TITLE_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+export function sanitizeNoteTitle(title: string): string {
+  return title.replace(INVALID_TITLE_CHARS, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function getFolder(path: string): string {
+  const idx = path.lastIndexOf('/');
+  return idx >= 0 ? path.slice(0, idx + 1) : '';
+}
+
+function getBasename(path: string): string {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  return name.replace(/\.md$/, '');
+}
+
+/**
+ * 옮겨진 문단을 새 노트 링크로 대체한 원본 노트 내용
+ */
+export function buildSplitParentContent(plan: NoteSplitPlan, titles: string[]): string {
+  const linkAt = new Map<number, string>();
+  const moved = new Set<number>();
+
+  plan.parts.forEach((part, i) => {
+    part.paragraphIndexes.forEach((idx) => moved.add(idx));
+    const summary = part.summary ? ` — ${part.summary}` : '';
+    linkAt.set(part.paragraphIndexes[0], `- [[${titles[i]}]]${summary}`);
+  });
+
+  const blocks: string[] = [];
+  plan.paragraphs.forEach((paragraph, idx) => {
+    const link = linkAt.get(idx);
+    if (link) {
+      blocks.push(link);
+    } else if (!moved.has(idx)) {
+      blocks.push(paragraph);
+    }
+  });
+
+  // Keep the note's line endings (paragraphs are split with LF only)
+  const eol = plan.originalContent.includes('\r\n') ? '\r\n' : '\n';
+  return `${plan.frontmatter}${blocks.join('\n\n')}\n`.replace(/\r?\n/g, eol);
+}
+
+export class PerformNoteSplitUseCase {
+  constructor(private readonly noteRepository: INoteRepository) {}
+
+  async execute(input: PerformNoteSplitInput): Promise<PerformNoteSplitOutput> {
+    const { plan } = input;
+
+    const parent = await this.noteRepository.getByPath(plan.notePath);
+    if (!parent) {
+      return { operation: null, error: `노트를 찾을 수 없습니다: ${plan.notePath}` };
+    }
+
+    if (parent.content !== plan.originalContent) {
+      return {
+        operation: null,
+        error: '분리 계획 이후 노트가 수정되었습니다. 다시 분석해주세요.',
+      };
+    }
+
+    const titles = plan.parts.map((part) => sanitizeNoteTitle(part.title));
+    if (titles.some((t) => !t)) {
+      return { operation: null, error: '새 노트 제목이 비어 있습니다.' };
+    }
+
+    const folder = getFolder(plan.notePath);
+    const parentTitle = getBasename(plan.notePath);
+    const createdPaths: string[] = [];
+    const createdContents: string[] = [];
+    let splitContent: string;
+
+    try {
+      for (let i = 0; i < plan.parts.length; i++) {
+        const path = await this.findAvailablePath(folder, titles[i]);
+        titles[i] = getBasename(path);
+
+        const content = `${plan.parts[i].content}\n\n상위 노트: [[${parentTitle}]]\n`;
+        await this.noteRepository.createNote(path, content, {
+          title: titles[i],
+          tags: parent.metadata.tags ?? [],
+        });
+        createdPaths.push(path);
+
+        await this.noteRepository.updateMaturityLevel(path, MaturityLevel.default());
+        const created = await this.noteRepository.getByPath(path);
+        createdContents.push(created?.content ?? '');
+      }
+
+      splitContent = buildSplitParentContent(plan, titles);
+      await this.noteRepository.updateContent(plan.notePath, splitContent);
+    } catch (error) {
+      // Roll back partially created notes
+      for (const path of createdPaths) {
+        await this.noteRepository.deleteNote(path).catch(() => undefined);
+      }
+      return {
+        operation: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    return {
+      operation: {
+        parentPath: plan.notePath,
+        originalContent: plan.originalContent,
+        splitContent,
+        createdPaths,
+        createdContents,
+        performedAt: Date.now(),
+      },
+    };
+  }
+
+  private async findAvailablePath(folder: string, title: string): Promise<string> {
+    let path = `${folder}${title}.md`;
+    let suffix = 2;
+    while (await this.noteRepository.exists(path)) {
+      path = `${folder}${title} ${suffix}.md`;
+      suffix++;
+    }
+    return path;
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * PlanNoteSplitUseCase
+ * 분리 제안의 새 노트 제목들에 실제 노트 본문의 문단을 배분합니다.
+ *
+ * 규칙:
+ * - 본문은 빈 줄 기준 문단으로 나누고 번호를 붙여 LLM에 전달
+ * - 각 문단은 최대 하나의 새 노트에만 배정
+ * - 배정되지 않은 문단은 원본 노트에 남음
+ */
+
+import { getLanguageInstruction, resolveOutputLanguage } from '../../domain';
+import type {
+  ILLMProvider,
+  NoteData,
+  OutputLanguage,
+  SplitSuggestion,
+} from '../../domain';
+import {
+  asRecord,
+  asText,
+  describeValidationErrors,
+  generateStructured,
+} from '../services/structured-response';
+import type { ResponseValidator } from '../services/structured-response';
+
+export interface PlanNoteSplitInput {
+  note: NoteData;
+  splitSuggestion: SplitSuggestion;
+  language?: OutputLanguage;
+  // Aborting cancels the LLM request; the output then carries an error
+  signal?: AbortSignal;
+}
+
+export interface NoteSplitPart {
+  title: string;
+  summary: string;
+  paragraphIndexes: number[];
+  content: string;
+}
+
+export interface NoteSplitPlan {
+  notePath: string;
+  originalContent: string;
+  frontmatter: string;
+  paragraphs: string[];
+  parts: NoteSplitPart[];
+}
+
+export interface PlanNoteSplitOutput {
+  plan: NoteSplitPlan | null;
+  error?: string;
+  rawResponse?: string;
+}
+
+interface LLMSplitPlanResponse {
+  notes: {
+    title: string;
+    summary: string;
+    paragraphs: number[];
+  }[];
+}
+
+const FRONTMATTER_PATTERN = /^---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+
+const SYSTEM_PROMPT = `당신은 Zettelkasten 원칙에 따라 노트를 원자적 단위로 분리하는 편집자입니다.
+
+**역할:**
+- 번호가 붙은 문단들을 제안된 새 노트 제목에 배분합니다.
+- 문단의 내용은 수정하지 않고, 어느 노트로 옮길지만 결정합니다.
+- 여러 주제에 공통되는 도입/결론 문단은 원본 노트에 남겨둡니다.`;
+
+/**
+ * 본문을 빈 줄 기준 문단으로 분리 (코드 블록 내부의 빈 줄은 유지)
+ */
+function splitIntoParagraphs(body: string): string[] {
+  const paragraphs: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  for (const line of body.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    if (!inFence && line.trim() === '') {
+      if (current.length > 0) {
+        paragraphs.push(current.join('\n'));
+        current = [];
+      }
+      continue;
+    }
+
+    current.push(line);
+  }
+
+  if (current.length > 0) {
+    paragraphs.push(current.join('\n'));
+  }
+
+  return paragraphs;
+}
+
+function buildUserPrompt(
+  input: PlanNoteSplitInput,
+  paragraphs: string[]
+): string {
+  const { note, splitSuggestion } = input;
+
+  const targets = splitSuggestion.suggestedNotes
+    .map((n, i) => `${i + 1}. "${n.title}" - ${n.coreIdea || n.description}`)
+    .join('\n');
+
+  const numbered = paragraphs
+    .map((p, i) => `[${i + 1}]\n${p}`)
+    .join('\n\n');
+
+  return `다음 노트를 제안된 새 노트들로 분리하려고 합니다.
+
+**노트 제목**: ${note.basename}
+**분리 이유**: ${splitSuggestion.reason}
+
+**새 노트 후보:**
+${targets}
+
+**번호가 붙은 문단:**
+---
+${numbered}
+---
+
+**응답 형식:**
+\`\`\`json
+{
+  "notes": [
+    {
+      "title": "새 노트 제목 (후보 제목 사용)",
+      "summary": "원본 노트에 남길 한 줄 요약",
+      "paragraphs": [1, 2]
+    }
+  ]
+}
+\`\`\`
+
+**주의사항:**
+- paragraphs에는 위 문단 번호만 사용
+- 하나의 문단은 하나의 새 노트에만 배정
+- 새 노트와 관련 없는 문단은 어디에도 배정하지 않음 (원본에 남음)
+- 문단이 하나도 배정되지 않는 새 노트는 제외`;
+}
+
+/**
+ * notes 배열 검증 (문단 번호는 숫자만 남김, 범위 확인은 계획 생성 시)
+ */
+const validateSplitPlanResponse: ResponseValidator<LLMSplitPlanResponse> = (data) => {
+  const root = asRecord(data);
+  if (!root || !Array.isArray(root.notes)) {
+    return { value: null, errors: ['"notes" 배열이 없습니다.'] };
+  }
+
+  const notes = root.notes.map((item) => {
+    const note = asRecord(item) ?? {};
+    return {
+      title: asText(note.title),
+      summary: asText(note.summary),
+      paragraphs: Array.isArray(note.paragraphs)
+        ? note.paragraphs.map(Number).filter((p) => Number.isInteger(p))
+        : [],
+    };
+  });
+
+  return { value: { notes }, errors: [] };
+};
+
+export class PlanNoteSplitUseCase {
+  constructor(private readonly llmProvider: ILLMProvider) {}
+
+  async execute(input: PlanNoteSplitInput): Promise<PlanNoteSplitOutput> {
+    const { note, splitSuggestion } = input;
+
+    if (splitSuggestion.suggestedNotes.length === 0) {
+      return { plan: null, error: '분리할 새 노트 제안이 없습니다.' };
+    }
+
+    const frontmatter = note.content.match(FRONTMATTER_PATTERN)?.[0] ?? '';
+    const paragraphs = splitIntoParagraphs(note.content.slice(frontmatter.length));
+
+    if (paragraphs.length < 2) {
+      return { plan: null, error: '문단이 너무 적어 분리할 수 없습니다.' };
+    }
+
+    const language = resolveOutputLanguage(input.language, note.content);
+
+    const response = await generateStructured(this.llmProvider, {
+      userPrompt: buildUserPrompt(input, paragraphs),
+      systemPrompt: `${SYSTEM_PROMPT}\n\n${getLanguageInstruction(language)}`,
+      options: {
+        purpose: 'plan-split',
+        signal: input.signal,
+      },
+      validate: validateSplitPlanResponse,
+    });
+
+    if (response.error) {
+      return {
+        plan: null,
+        error: response.error,
+        rawResponse: response.content,
+      };
+    }
+
+    const parsed = response.value;
+    if (!parsed) {
+      return {
+        plan: null,
+        error: `분리 계획 형식이 올바르지 않습니다: ${describeValidationErrors(response.validationErrors)}`,
+        rawResponse: response.content,
+      };
+    }
+
+    // Validate indexes: in range, each paragraph assigned at most once
+    const assigned = new Set<number>();
+    const parts: NoteSplitPart[] = parsed.notes
+      .map((n) => {
+        const paragraphIndexes = [...new Set((n.paragraphs ?? []).map((p) => Number(p) - 1))]
+          .filter((i) => Number.isInteger(i) && i >= 0 && i < paragraphs.length && !assigned.has(i))
+          .sort((a, b) => a - b);
+        paragraphIndexes.forEach((i) => assigned.add(i));
+
+        return {
+          title: (n.title ?? '').trim(),
+          summary: (n.summary ?? '').trim(),
+          paragraphIndexes,
+          content: paragraphIndexes.map((i) => paragraphs[i]).join('\n\n'),
+        };
+      })
+      .filter((part) => part.title && part.paragraphIndexes.length > 0);
+
+    if (parts.length === 0) {
+      return {
+        plan: null,
+        error: '새 노트에 배정된 문단이 없습니다.',
+        rawResponse: response.content,
+      };
+    }
+
+    return {
+      plan: {
+        notePath: note.path,
+        originalContent: note.content,
+        frontmatter,
+        paragraphs,
+        parts,
+      },
+      rawResponse: response.content,
+    };
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * PreAssessNoteUseCase
+ * LLM 호출 없이 로컬 지표만으로 노트의 잠정 품질 점수를 계산합니다.
+ *
+ * 규칙:
+ * - 단어·헤딩 수, 아웃링크·백링크 수, 인용·URL·각주, 인용문 비율, 주제(헤딩) 수를 측정
+ * - 같은 노트 내용과 링크에 대해 항상 같은 점수를 반환
+ * - 평가 기준(프로필 포함)의 기본 차원만 추정하고 사용자 정의 차원은 중립 점수
+ */
+
+import { measureNote, scoreNoteMetrics } from '../../domain';
+import type {
+  AssessmentProfile,
+  INoteRepository,
+  NoteData,
+  NoteMetrics,
+  QualityRubric,
+  QualityScore,
+} from '../../domain';
+import { resolveAssessmentRubric } from './assess-note-quality';
+
+export interface PreAssessNoteInput {
+  note: NoteData;
+  rubric?: QualityRubric;
+  profile?: AssessmentProfile | null;
+}
+
+export interface PreAssessNoteOutput {
+  metrics: NoteMetrics;
+  qualityScore: QualityScore;
+}
+
+export class PreAssessNoteUseCase {
+  constructor(private readonly noteRepository: INoteRepository) {}
+
+  async execute(input: PreAssessNoteInput): Promise<PreAssessNoteOutput> {
+    const { note } = input;
+    const [outlinks, backlinks] = await Promise.all([
+      this.noteRepository.getOutlinks(note.id),
+      this.noteRepository.getBacklinks(note.id),
+    ]);
+
+    const metrics = measureNote(note.content, {
+      outlinks: new Set(outlinks).size,
+      backlinks: backlinks.filter((path) => path !== note.path).length,
+    });
+
+    return {
+      metrics,
+      qualityScore: scoreNoteMetrics(metrics, resolveAssessmentRubric(input.rubric, input.profile)),
+    };
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * RemapMaturityStagesUseCase
+ * 더 이상 존재하지 않는 성숙도 단계를 가진 노트를 현재 단계로 변경합니다.
+ *
+ * 규칙:
+ * - dryRun이면 변경 대상만 집계하고 파일은 수정하지 않음
+ * - 단계 매핑이 있으면 매핑된 단계로, 없으면 첫 단계로 변경
+ * - 성숙도 값이 없는 노트는 대상이 아님
+ */
+
+import { MaturityLevel } from '../../domain';
+import type { INoteRepository } from '../../domain';
+
+export interface RemapMaturityStagesInput {
+  dryRun?: boolean;
+}
+
+export interface MaturityStageRemapEntry {
+  notePath: string;
+  from: string;
+  to: MaturityLevel;
+  // false when no mapping exists and the first stage is used
+  mapped: boolean;
+}
+
+export interface RemapMaturityStagesOutput {
+  affected: MaturityStageRemapEntry[];
+  remappedCount: number;
+  failed: { notePath: string; error: string }[];
+  dryRun: boolean;
+}
+
+export class RemapMaturityStagesUseCase {
+  constructor(private readonly noteRepository: INoteRepository) {}
+
+  async execute(input: RemapMaturityStagesInput = {}): Promise<RemapMaturityStagesOutput> {
+    const dryRun = input.dryRun ?? false;
+
+    const output: RemapMaturityStagesOutput = {
+      affected: [],
+      remappedCount: 0,
+      failed: [],
+      dryRun,
+    };
+
+    const notes = await this.noteRepository.getAllNotes();
+
+    for (const summary of notes) {
+      const note = await this.noteRepository.getById(summary.id);
+      const value = note?.metadata.growthStage;
+      if (!note || value === undefined || value === null || String(value).trim() === '') continue;
+
+      const from = String(value).toLowerCase().trim();
+      if (MaturityLevel.isCurrentStage(from)) continue;
+
+      const to = MaturityLevel.fromFrontmatter(from);
+      output.affected.push({
+        notePath: note.path,
+        from: String(value),
+        to,
+        mapped: MaturityLevel.hasMapping(from),
+      });
+    }
+
+    if (dryRun) return output;
+
+    for (const entry of output.affected) {
+      try {
+        await this.noteRepository.updateMaturityLevel(entry.notePath, entry.to);
+        output.remappedCount++;
+      } catch (error) {
+        output.failed.push({
+          notePath: entry.notePath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return output;
+  }
+}
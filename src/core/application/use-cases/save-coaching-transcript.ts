@@ -0,0 +1,167 @@
+/**
+ * SaveCoachingTranscriptUseCase
+ * 코칭 대화 기록을 노트에 저장합니다.
+ *
+ * 저장 방식:
+ * - callout: 노트 끝에 접힌 [!coaching] 콜아웃으로 추가
+ * - note: 원본 노트로 링크된 별도 기록 노트 생성
+ *
+ * 같은 세션(시작 시각)을 다시 저장하면 기존 콜아웃/기록 노트를 덮어씀
+ */
+
+import type { INoteRepository } from '../../domain';
+import type { CoachingTurn } from './coach-note';
+
+export type CoachingTranscriptTarget = 'callout' | 'note';
+
+export interface SaveCoachingTranscriptInput {
+  notePath: string;
+  turns: CoachingTurn[];
+  // Session start (epoch ms); identifies the session when saving again
+  startedAt: number;
+  target: CoachingTranscriptTarget;
+  // Folder for transcript notes (empty: next to the note)
+  folder?: string;
+}
+
+export interface SaveCoachingTranscriptOutput {
+  success: boolean;
+  // Note written (the coached note for callouts, the transcript note otherwise)
+  savedPath: string;
+  error?: string;
+}
+
+export const COACHING_CALLOUT_TYPE = 'coaching';
+
+function pad(value: number): string {
+  return value < 10 ? `0${value}` : String(value);
+}
+
+function formatDate(time: number): string {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function formatTime(time: number, separator: string): string {
+  const d = new Date(time);
+  return `${pad(d.getHours())}${separator}${pad(d.getMinutes())}`;
+}
+
+function getBasename(path: string): string {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  return name.replace(/\.md$/, '');
+}
+
+function getFolder(path: string): string {
+  const idx = path.lastIndexOf('/');
+  return idx >= 0 ? path.slice(0, idx + 1) : '';
+}
+
+function formatTurns(turns: CoachingTurn[]): string[] {
+  const lines: string[] = [];
+  turns.forEach((turn, idx) => {
+    if (idx > 0) lines.push('');
+    const speaker = turn.role === 'coach' ? '**Coach**' : '**Me**';
+    const [first, ...rest] = turn.content.split('\n');
+    lines.push(`${speaker}: ${first}`, ...rest);
+  });
+  return lines;
+}
+
+/**
+ * 세션 콜아웃 제목 줄 (같은 세션을 찾을 때도 사용)
+ */
+function buildCalloutHeader(startedAt: number): string {
+  return `> [!${COACHING_CALLOUT_TYPE}]- 💬 Coaching session (${formatDate(startedAt)} ${formatTime(startedAt, ':')})`;
+}
+
+/**
+ * 접힌 콜아웃 형식의 대화 기록
+ */
+export function buildCoachingCallout(turns: CoachingTurn[], startedAt: number): string {
+  const body = formatTurns(turns).map((line) => (line ? `> ${line}` : '>'));
+  return [buildCalloutHeader(startedAt), ...body].join('\n');
+}
+
+/**
+ * 기록 노트 내용 (원본 노트 링크 포함)
+ */
+export function buildTranscriptNoteContent(notePath: string, turns: CoachingTurn[], startedAt: number): string {
+  return [
+    `# 💬 Coaching: ${getBasename(notePath)}`,
+    '',
+    `Note: [[${getBasename(notePath)}]] · ${formatDate(startedAt)} ${formatTime(startedAt, ':')}`,
+    '',
+    ...formatTurns(turns),
+    '',
+  ].join('\n');
+}
+
+/**
+ * 같은 제목 줄로 시작하는 콜아웃을 교체 (없으면 노트 끝에 추가)
+ * 노트의 줄바꿈 방식(CRLF/LF)을 유지
+ */
+function upsertCallout(content: string, header: string, callout: string): string {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const calloutLines = callout.split(/\r?\n/);
+  const lines = content.split(/\r?\n/);
+  const start = lines.indexOf(header);
+  if (start < 0) {
+    return [content.replace(/\s+$/, ''), '', ...calloutLines, ''].join(eol);
+  }
+
+  let end = start + 1;
+  while (end < lines.length && lines[end].startsWith('>')) end++;
+  return [...lines.slice(0, start), ...calloutLines, ...lines.slice(end)].join(eol);
+}
+
+export class SaveCoachingTranscriptUseCase {
+  constructor(private readonly noteRepository: INoteRepository) {}
+
+  async execute(input: SaveCoachingTranscriptInput): Promise<SaveCoachingTranscriptOutput> {
+    if (input.turns.length === 0) {
+      return { success: false, savedPath: input.notePath, error: '저장할 대화가 없습니다.' };
+    }
+
+    try {
+      return input.target === 'callout'
+        ? await this.saveAsCallout(input)
+        : await this.saveAsNote(input);
+    } catch (error) {
+      return {
+        success: false,
+        savedPath: input.notePath,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async saveAsCallout(input: SaveCoachingTranscriptInput): Promise<SaveCoachingTranscriptOutput> {
+    const note = await this.noteRepository.getByPath(input.notePath);
+    if (!note) {
+      return { success: false, savedPath: input.notePath, error: `노트를 찾을 수 없습니다: ${input.notePath}` };
+    }
+
+    const content = upsertCallout(
+      note.content,
+      buildCalloutHeader(input.startedAt),
+      buildCoachingCallout(input.turns, input.startedAt)
+    );
+    await this.noteRepository.updateContent(input.notePath, content);
+    return { success: true, savedPath: input.notePath };
+  }
+
+  private async saveAsNote(input: SaveCoachingTranscriptInput): Promise<SaveCoachingTranscriptOutput> {
+    const folder = input.folder?.trim().replace(/^\/+|\/+$/g, '');
+    const title = `${getBasename(input.notePath)} - Coaching ${formatDate(input.startedAt)} ${formatTime(input.startedAt, '')}`;
+    const path = `${folder ? `${folder}/` : getFolder(input.notePath)}${title}.md`;
+    const content = buildTranscriptNoteContent(input.notePath, input.turns, input.startedAt);
+
+    if (await this.noteRepository.exists(path)) {
+      await this.noteRepository.updateContent(path, content);
+    } else {
+      await this.noteRepository.createNote(path, content);
+    }
+    return { success: true, savedPath: path };
+  }
+}
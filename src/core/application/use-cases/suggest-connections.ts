@@ -3,30 +3,59 @@
  * 현재 노트와 연결할 수 있는 다른 노트들을 분석하고 제안합니다.
  */
 
-import { ConnectionSuggestion } from '../../domain';
-import type { ILLMProvider, LLMResponse, NoteSummary, NoteData } from '../../domain';
+import { ConnectionSuggestion, getLanguageInstruction, resolveOutputLanguage } from '../../domain';
+import type { ILLMProvider, NoteSummary, NoteData, OutputLanguage } from '../../domain';
+import type { ResponseCacheService } from '../services/response-cache-service';
+import { NoteContentPreparer, formatPreparedContent } from '../services/note-content-preparer';
+import type { ContentCondensation } from '../services/note-content-preparer';
+import {
+  asEnum,
+  asRecord,
+  asText,
+  describeValidationErrors,
+  generateStructured,
+} from '../services/structured-response';
+import type { ResponseValidator } from '../services/structured-response';
 
 export interface SuggestConnectionsInput {
   note: NoteData;
   candidateNotes: NoteSummary[];
   maxSuggestions?: number;
+  language?: OutputLanguage;
+  forceRefresh?: boolean;
+  // Token budget for the note content; longer notes are condensed first
+  noteTokenBudget?: number;
+  // Aborting cancels the LLM request; the output then carries an error
+  signal?: AbortSignal;
 }
 
 export interface SuggestConnectionsOutput {
   suggestions: ConnectionSuggestion[];
   error?: string;
   rawResponse?: string;
+  fromCache?: boolean;
+  // Set when the note was too long and a condensed version was used
+  condensation?: ContentCondensation;
 }
 
 interface LLMConnectionResponse {
-  connections: {
-    targetNote: string;
-    relationshipType: 'supports' | 'contradicts' | 'extends' | 'exemplifies' | 'relates';
-    reason: string;
-    linkSuggestion: string;
-  }[];
+  connections: ConnectionSuggestion[];
 }
 
+const RELATIONSHIP_TYPES: readonly ConnectionSuggestion['relationshipType'][] = [
+  'supports',
+  'contradicts',
+  'extends',
+  'exemplifies',
+  'relates',
+];
+
+// Candidates are pre-ranked by the caller; cap them for context length
+const MAX_PROMPT_CANDIDATES = 50;
+
+// 캐시 키에 포함되는 프롬프트 버전 (프롬프트 수정 시 증가)
+const PROMPT_VERSION = 2;
+
 const SYSTEM_PROMPT = `당신은 Zettelkasten 기반 지식 네트워크 구축 전문가입니다.
 
 **연결 유형:**
@@ -39,15 +68,13 @@ const SYSTEM_PROMPT = `당신은 Zettelkasten 기반 지식 네트워크 구축
 **좋은 연결의 특성:**
 - 의미 있는 관계: 단순 키워드 일치가 아닌 개념적 연결
 - 양방향 가치: 두 노트 모두에 인사이트 제공
-- 발견 가능성: 새로운 관점이나 아이디어 촉발
-
-모든 응답은 한국어로 작성합니다.`;
+- 발견 가능성: 새로운 관점이나 아이디어 촉발`;
 
-function buildUserPrompt(input: SuggestConnectionsInput): string {
+function buildUserPrompt(input: SuggestConnectionsInput, noteContent: string): string {
   const { note, candidateNotes, maxSuggestions = 5 } = input;
 
   const candidateList = candidateNotes
-    .slice(0, 20) // Limit candidates for context length
+    .slice(0, MAX_PROMPT_CANDIDATES)
     .map((n, i) => `${i + 1}. "${n.basename}" - 태그: ${n.tags.slice(0, 3).join(', ')}`)
     .join('\n');
 
@@ -58,7 +85,7 @@ function buildUserPrompt(input: SuggestConnectionsInput): string {
 
 **노트 내용**:
 ---
-${note.content.slice(0, 2000)}${note.content.length > 2000 ? '...' : ''}
+${noteContent}
 ---
 
 **연결 후보 노트들**:
@@ -86,21 +113,35 @@ ${candidateList}
 - linkSuggestion은 실제로 노트에 추가할 수 있는 문장 형태`;
 }
 
-function parseConnectionResponse(
-  responseText: string
-): LLMConnectionResponse | null {
-  try {
-    const jsonMatch = responseText.match(/```(?:json)?\s*([\s\S]*?)```/);
-    const jsonStr = jsonMatch ? jsonMatch[1].trim() : responseText.trim();
-    return JSON.parse(jsonStr);
-  } catch (error) {
-    console.error('Failed to parse connection response:', error);
-    return null;
+/**
+ * connections 배열 검증 (대상 노트가 없는 항목은 제외, 알 수 없는 관계 유형은 relates)
+ */
+const validateConnectionResponse: ResponseValidator<LLMConnectionResponse> = (data) => {
+  const root = asRecord(data);
+  if (!root || !Array.isArray(root.connections)) {
+    return { value: null, errors: ['"connections" 배열이 없습니다.'] };
   }
-}
+
+  const connections = root.connections
+    .map((item) => {
+      const conn = asRecord(item) ?? {};
+      return {
+        targetNote: asText(conn.targetNote),
+        relationshipType: asEnum(conn.relationshipType, RELATIONSHIP_TYPES, 'relates'),
+        reason: asText(conn.reason),
+        linkSuggestion: asText(conn.linkSuggestion),
+      };
+    })
+    .filter((conn) => conn.targetNote.length > 0);
+
+  return { value: { connections }, errors: [] };
+};
 
 export class SuggestConnectionsUseCase {
-  constructor(private readonly llmProvider: ILLMProvider) {}
+  constructor(
+    private readonly llmProvider: ILLMProvider,
+    private readonly responseCache: ResponseCacheService | null = null,
+  ) {}
 
   async execute(input: SuggestConnectionsInput): Promise<SuggestConnectionsOutput> {
     const { note, candidateNotes } = input;
@@ -119,30 +160,51 @@ export class SuggestConnectionsUseCase {
       };
     }
 
-    const userPrompt = buildUserPrompt(input);
+    const prepared = await new NoteContentPreparer(this.llmProvider, this.responseCache)
+      .prepare(note.content, { tokenBudget: input.noteTokenBudget, signal: input.signal });
+    if (prepared.error) {
+      return { suggestions: [], error: prepared.error };
+    }
 
-    const response: LLMResponse = await this.llmProvider.simpleGenerate(
+    const language = resolveOutputLanguage(input.language, input.note.content);
+    const systemPrompt = `${SYSTEM_PROMPT}\n\n${getLanguageInstruction(language)}`;
+    const userPrompt = buildUserPrompt(input, formatPreparedContent(prepared));
+
+    const cacheKey = this.responseCache?.buildKey({
+      useCase: 'suggest-connections',
+      promptVersion: PROMPT_VERSION,
+      model: this.llmProvider.modelId,
+      noteContent: input.note.content,
+      prompt: `${systemPrompt}\n\n${userPrompt}`,
+    });
+    const cached = cacheKey && this.responseCache && !input.forceRefresh
+      ? this.responseCache.get(cacheKey)
+      : null;
+
+    const response = await generateStructured(this.llmProvider, {
       userPrompt,
-      SYSTEM_PROMPT,
-      {
-        maxTokens: 2000,
-        temperature: 0.7,
-      }
-    );
-
-    if (!response.success) {
+      systemPrompt,
+      options: {
+        purpose: 'suggest-connections',
+        signal: input.signal,
+      },
+      validate: validateConnectionResponse,
+      cached,
+    });
+
+    if (response.error) {
       return {
         suggestions: [],
-        error: response.error ?? 'LLM 요청에 실패했습니다.',
+        error: response.error,
         rawResponse: response.content,
       };
     }
 
-    const parsed = parseConnectionResponse(response.content);
+    const parsed = response.value;
     if (!parsed) {
       return {
         suggestions: [],
-        error: '연결 제안 파싱에 실패했습니다.',
+        error: `연결 제안 형식이 올바르지 않습니다: ${describeValidationErrors(response.validationErrors)}`,
         rawResponse: response.content,
       };
     }
@@ -162,9 +224,15 @@ export class SuggestConnectionsUseCase {
         linkSuggestion: conn.linkSuggestion,
       }));
 
+    if (cacheKey && !response.fromCache && !response.source?.fallback) {
+      await this.responseCache?.set(cacheKey, response.content);
+    }
+
     return {
       suggestions: validSuggestions,
       rawResponse: response.content,
+      fromCache: response.fromCache,
+      condensation: prepared.condensation ?? undefined,
     };
   }
 }
@@ -0,0 +1,47 @@
+/**
+ * UndoNoteEditUseCase
+ * 적용한 수정안을 한 번에 되돌립니다.
+ *
+ * - 노트 내용을 적용 전으로 복원
+ * - 적용 이후 노트가 다시 수정되었으면 그 내용을 잃지 않도록 중단
+ */
+
+import type { INoteRepository } from '../../domain';
+import type { NoteEditOperation } from './apply-note-edit';
+
+export interface UndoNoteEditOutput {
+  success: boolean;
+  restoredPath: string;
+  error?: string;
+}
+
+export class UndoNoteEditUseCase {
+  constructor(private readonly noteRepository: INoteRepository) {}
+
+  async execute(operation: NoteEditOperation): Promise<UndoNoteEditOutput> {
+    const output: UndoNoteEditOutput = {
+      success: false,
+      restoredPath: operation.notePath,
+    };
+
+    const note = await this.noteRepository.getByPath(operation.notePath);
+    if (!note) {
+      return { ...output, error: `노트를 찾을 수 없습니다: ${operation.notePath}` };
+    }
+
+    if (note.content !== operation.editedContent) {
+      return { ...output, error: '수정 적용 이후 노트가 다시 수정되어 되돌릴 수 없습니다.' };
+    }
+
+    try {
+      await this.noteRepository.updateContent(operation.notePath, operation.originalContent);
+    } catch (error) {
+      return {
+        ...output,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    return { ...output, success: true };
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * UndoNoteSplitUseCase
+ * 노트 분리를 한 번에 되돌립니다.
+ *
+ * - 원본 노트 내용을 분리 전으로 복원
+ * - 분리로 생성된 노트는 휴지통으로 이동
+ * - 분리 이후 원본이나 생성된 노트가 다시 수정되었으면 그 내용을 잃지 않도록 중단
+ */
+
+import type { INoteRepository } from '../../domain';
+import type { NoteSplitOperation } from './perform-note-split';
+
+export interface UndoNoteSplitOutput {
+  success: boolean;
+  restoredPath: string;
+  removedPaths: string[];
+  error?: string;
+}
+
+export class UndoNoteSplitUseCase {
+  constructor(private readonly noteRepository: INoteRepository) {}
+
+  async execute(operation: NoteSplitOperation): Promise<UndoNoteSplitOutput> {
+    const output: UndoNoteSplitOutput = {
+      success: false,
+      restoredPath: operation.parentPath,
+      removedPaths: [],
+    };
+
+    const parent = await this.noteRepository.getByPath(operation.parentPath);
+    if (!parent) {
+      return { ...output, error: `원본 노트를 찾을 수 없습니다: ${operation.parentPath}` };
+    }
+
+    if (parent.content !== operation.splitContent) {
+      return { ...output, error: '분리 이후 원본 노트가 다시 수정되어 되돌릴 수 없습니다.' };
+    }
+
+    // Check every created note before changing anything
+    const existingPaths: string[] = [];
+    for (let i = 0; i < operation.createdPaths.length; i++) {
+      const path = operation.createdPaths[i];
+      const created = await this.noteRepository.getByPath(path);
+      if (!created) continue;
+
+      if (created.content !== operation.createdContents[i]) {
+        return { ...output, error: `분리 이후 새 노트가 수정되어 되돌릴 수 없습니다: ${path}` };
+      }
+      existingPaths.push(path);
+    }
+
+    try {
+      await this.noteRepository.updateContent(operation.parentPath, operation.originalContent);
+
+      for (const path of existingPaths) {
+        await this.noteRepository.deleteNote(path);
+        output.removedPaths.push(path);
+      }
+    } catch (error) {
+      return {
+        ...output,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    return { ...output, success: true };
+  }
+}
@@ -3,19 +3,22 @@
  * 노트의 성숙도를 업데이트합니다.
  *
  * 규칙:
- * - 성숙도는 성장만 가능 (역행 불가)
+ * - 성숙도는 성장만 가능 (역행 불가, 시듦 정책의 하향 조정 또는 강제 업데이트 제외)
  * - 품질 점수 기준에 따른 자동 추천
  * - 사용자 수동 업데이트 지원
  */
 
 import { MaturityLevel, QualityScore } from '../../domain';
-import type { INoteRepository } from '../../domain';
+import type { INoteRepository, MaturityThresholds } from '../../domain';
 
 export interface UpdateMaturityInput {
   noteId: string;
   currentMaturity: MaturityLevel;
   targetMaturity?: MaturityLevel;
   qualityScore?: QualityScore;
+  maturityThresholds?: MaturityThresholds;
+  // Allow regression to a lower stage (maturity decay policy)
+  allowDowngrade?: boolean;
   forceUpdate?: boolean;
 }
 
@@ -31,7 +34,15 @@ export class UpdateMaturityUseCase {
   constructor(private readonly noteRepository: INoteRepository) {}
 
   async execute(input: UpdateMaturityInput): Promise<UpdateMaturityOutput> {
-    const { noteId, currentMaturity, targetMaturity, qualityScore, forceUpdate } = input;
+    const {
+      noteId,
+      currentMaturity,
+      targetMaturity,
+      qualityScore,
+      maturityThresholds,
+      allowDowngrade,
+      forceUpdate,
+    } = input;
 
     // Determine target level
     let newLevel: MaturityLevel;
@@ -41,7 +52,7 @@ export class UpdateMaturityUseCase {
       newLevel = targetMaturity;
     } else if (qualityScore) {
       // Calculate from quality score
-      newLevel = MaturityLevel.fromQualityScore(qualityScore.totalScore);
+      newLevel = MaturityLevel.fromQualityScore(qualityScore.totalScore, maturityThresholds);
     } else {
       return {
         success: false,
@@ -66,7 +77,7 @@ export class UpdateMaturityUseCase {
       };
     }
 
-    if (isDowngrade && !forceUpdate) {
+    if (isDowngrade && !forceUpdate && !currentMaturity.canDowngradeTo(newLevel, allowDowngrade)) {
       return {
         success: false,
         previousLevel: currentMaturity,
@@ -78,7 +89,7 @@ export class UpdateMaturityUseCase {
 
     // Validate upgrade requirements
     if (isUpgrade && qualityScore) {
-      const threshold = newLevel.minQualityScore;
+      const threshold = MaturityLevel.getMinQualityScore(newLevel.level, maturityThresholds);
       if (qualityScore.totalScore < threshold && !forceUpdate) {
         return {
           success: false,
@@ -116,9 +127,10 @@ export class UpdateMaturityUseCase {
    */
   static isUpgradeRecommended(
     currentMaturity: MaturityLevel,
-    qualityScore: QualityScore
+    qualityScore: QualityScore,
+    maturityThresholds?: MaturityThresholds
   ): { recommended: boolean; targetLevel: MaturityLevel | null; reason: string } {
-    const recommendedLevel = MaturityLevel.fromQualityScore(qualityScore.totalScore);
+    const recommendedLevel = MaturityLevel.fromQualityScore(qualityScore.totalScore, maturityThresholds);
 
     if (!recommendedLevel.isHigherThan(currentMaturity)) {
       return {
@@ -131,7 +143,7 @@ export class UpdateMaturityUseCase {
     return {
       recommended: true,
       targetLevel: recommendedLevel,
-      reason: `품질 점수 ${qualityScore.totalScore}점으로 ${recommendedLevel.getDisplayText()} 레벨 기준(${recommendedLevel.minQualityScore}점)을 충족합니다.`,
+      reason: `품질 점수 ${qualityScore.totalScore}점으로 ${recommendedLevel.getDisplayText()} 레벨 기준(${MaturityLevel.getMinQualityScore(recommendedLevel.level, maturityThresholds)}점)을 충족합니다.`,
     };
   }
 }
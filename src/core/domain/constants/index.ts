@@ -9,5 +9,19 @@ export {
   getEffectiveMaxTokens,
   getThinkingConfig,
   calculateCost,
+  LOCAL_PROVIDER_TYPE,
+  LOCAL_PROVIDER_DISPLAY_NAME,
+  DEFAULT_LOCAL_BASE_URL,
+  getProviderDisplayName,
+  getDefaultModelId,
 } from './model-configs';
 export type { AIProviderType, AIProviderConfig, ModelConfig } from './model-configs';
+
+export {
+  OUTPUT_LANGUAGE_LABELS,
+  detectNoteLanguage,
+  resolveOutputLanguage,
+  getLanguageInstruction,
+  getDimensionLabel,
+} from './output-language';
+export type { OutputLanguage, ResolvedOutputLanguage } from './output-language';
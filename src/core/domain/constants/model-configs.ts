@@ -20,9 +20,30 @@ export {
   calculateCost,
 } from 'obsidian-llm-shared';
 
-import { getModelConfig } from 'obsidian-llm-shared';
+import { AI_PROVIDERS, getModelConfig } from 'obsidian-llm-shared';
+import type { LLMProviderType } from '../interfaces/llm-provider.interface';
 
 /**
  * Backward-compatible alias: getModelConfigById → getModelConfig
  */
 export const getModelConfigById = getModelConfig;
+
+/**
+ * Local OpenAI-compatible server (Ollama, llama.cpp, LM Studio).
+ * Not in the shared provider list: the API key is optional and
+ * models are discovered from the server.
+ */
+export const LOCAL_PROVIDER_TYPE = 'local';
+export const LOCAL_PROVIDER_DISPLAY_NAME = 'Local (OpenAI-compatible)';
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+export function getProviderDisplayName(type: LLMProviderType): string {
+  return type === LOCAL_PROVIDER_TYPE ? LOCAL_PROVIDER_DISPLAY_NAME : AI_PROVIDERS[type].displayName;
+}
+
+/**
+ * Default model of a provider (empty for the local provider until one is chosen)
+ */
+export function getDefaultModelId(type: LLMProviderType): string {
+  return type === LOCAL_PROVIDER_TYPE ? '' : AI_PROVIDERS[type].defaultModel;
+}
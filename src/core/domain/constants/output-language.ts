@@ -0,0 +1,104 @@
+/**
+ * Output Language
+ * Language used for LLM feedback and localized dimension labels
+ *
+ * - 'auto' follows the dominant script of the note being analyzed
+ */
+
+import type { BuiltInDimensionType } from '../value-objects/quality-dimension';
+
+export type OutputLanguage = 'auto' | 'en' | 'ko' | 'ja';
+
+export type ResolvedOutputLanguage = Exclude<OutputLanguage, 'auto'>;
+
+export const OUTPUT_LANGUAGE_LABELS: Record<OutputLanguage, string> = {
+  auto: "Match the note's language",
+  en: 'English',
+  ko: '한국어',
+  ja: '日本語',
+};
+
+const LANGUAGE_INSTRUCTIONS: Record<ResolvedOutputLanguage, string> = {
+  en: 'All responses must be written in English. Keep JSON keys and enum values exactly as specified.',
+  ko: '모든 응답은 한국어로 작성합니다. JSON 키와 열거형 값은 지정된 그대로 유지합니다.',
+  ja: 'すべての回答は日本語で作成してください。JSONのキーと列挙値は指定どおりに保ちます。',
+};
+
+const DIMENSION_LABELS: Record<ResolvedOutputLanguage, Record<BuiltInDimensionType, string>> = {
+  en: {
+    atomicity: 'Atomicity',
+    connectivity: 'Connectivity',
+    clarity: 'Clarity',
+    evidence: 'Evidence',
+    originality: 'Originality',
+  },
+  ko: {
+    atomicity: '원자성',
+    connectivity: '연결성',
+    clarity: '명확성',
+    evidence: '근거',
+    originality: '독창성',
+  },
+  ja: {
+    atomicity: '原子性',
+    connectivity: '接続性',
+    clarity: '明確性',
+    evidence: '根拠',
+    originality: '独創性',
+  },
+};
+
+const HANGUL_PATTERN = /[가-힣ㄱ-ㆎ]/g;
+const KANA_PATTERN = /[぀-ヿ]/g;
+const LATIN_PATTERN = /[A-Za-z]/g;
+
+// Latin letters are denser per word than Hangul/Kana; scale them down
+const LATIN_WEIGHT = 0.25;
+
+/**
+ * Detect the dominant language of a note from its script usage
+ * (frontmatter and code blocks are ignored)
+ */
+export function detectNoteLanguage(text: string): ResolvedOutputLanguage {
+  const body = text
+    .replace(/^---\n[\s\S]*?\n---\n?/, '')
+    .replace(/```[\s\S]*?```/g, '');
+
+  const hangul = body.match(HANGUL_PATTERN)?.length ?? 0;
+  const kana = body.match(KANA_PATTERN)?.length ?? 0;
+  const latin = (body.match(LATIN_PATTERN)?.length ?? 0) * LATIN_WEIGHT;
+
+  if (hangul === 0 && kana === 0) return 'en';
+  if (kana > hangul) return kana >= latin ? 'ja' : 'en';
+  return hangul >= latin ? 'ko' : 'en';
+}
+
+/**
+ * Resolve the configured language ('auto' uses the note content)
+ */
+export function resolveOutputLanguage(
+  language: OutputLanguage | undefined,
+  noteContent: string
+): ResolvedOutputLanguage {
+  if (!language || language === 'auto') {
+    return detectNoteLanguage(noteContent);
+  }
+  return language;
+}
+
+/**
+ * Closing system prompt sentence that fixes the response language
+ */
+export function getLanguageInstruction(language: ResolvedOutputLanguage): string {
+  return LANGUAGE_INSTRUCTIONS[language];
+}
+
+/**
+ * Localized label of a built-in quality dimension
+ */
+export function getDimensionLabel(
+  type: BuiltInDimensionType,
+  language: ResolvedOutputLanguage
+): string {
+  return DIMENSION_LABELS[language][type];
+}
@@ -0,0 +1,111 @@
+/**
+ * AssessmentProfile Entity
+ * Named assessment settings for a kind of note (literature note, MOC, ...).
+ *
+ * A profile is selected automatically for a note:
+ * 1. frontmatter `note-type` matches one of the profile's note types
+ * 2. otherwise a note tag matches one of the profile's tags
+ * 3. otherwise the most specific matching folder wins
+ * Ties are resolved by profile order.
+ */
+
+import type { QualityRubricData } from '../value-objects/quality-rubric';
+import type { MaturityThresholds } from '../value-objects/maturity-level';
+
+/**
+ * Frontmatter key declaring the note type
+ */
+export const NOTE_TYPE_KEY = 'note-type';
+
+export interface AssessmentProfileMatch {
+  folders: string[];
+  tags: string[];
+  noteTypes: string[];
+}
+
+export interface AssessmentProfile {
+  id: string;
+  name: string;
+  match: AssessmentProfileMatch;
+  // null uses the global rubric
+  rubric: QualityRubricData | null;
+  // Extra instructions appended to the assessment prompt
+  promptText: string;
+  // null uses the default maturity thresholds
+  maturityThresholds: MaturityThresholds | null;
+}
+
+/**
+ * Profile summary stored with assessments and history records
+ */
+export interface AssessmentProfileRef {
+  id: string;
+  name: string;
+}
+
+export interface ProfileMatchTarget {
+  path: string;
+  tags: string[];
+  noteType?: string;
+}
+
+function normalizeTag(tag: string): string {
+  return tag.replace(/^#/, '').trim().toLowerCase();
+}
+
+function normalizeFolder(folder: string): string {
+  return folder.trim().replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Select the profile for a note (null when no profile matches)
+ */
+export function selectAssessmentProfile(
+  profiles: AssessmentProfile[],
+  target: ProfileMatchTarget
+): AssessmentProfile | null {
+  const noteType = target.noteType?.trim().toLowerCase();
+  if (noteType) {
+    const byType = profiles.find((p) =>
+      p.match.noteTypes.some((t) => t.trim().toLowerCase() === noteType)
+    );
+    if (byType) return byType;
+  }
+
+  const tags = new Set(target.tags.map(normalizeTag));
+  const byTag = profiles.find((p) =>
+    p.match.tags.some((t) => {
+      const tag = normalizeTag(t);
+      // Nested tags (#literature/book) match their parent tag
+      return tags.has(tag) || Array.from(tags).some((noteTag) => noteTag.startsWith(`${tag}/`));
+    })
+  );
+  if (byTag) return byTag;
+
+  let best: AssessmentProfile | null = null;
+  let bestLength = -1;
+  profiles.forEach((p) => {
+    p.match.folders.forEach((f) => {
+      const folder = normalizeFolder(f);
+      if (!folder) return;
+      const matches = target.path.startsWith(`${folder}/`);
+      if (matches && folder.length > bestLength) {
+        best = p;
+        bestLength = folder.length;
+      }
+    });
+  });
+
+  return best;
+}
+
+/**
+ * Human-readable summary of the match rules
+ */
+export function describeProfileMatch(match: AssessmentProfileMatch): string {
+  const parts: string[] = [];
+  if (match.noteTypes.length > 0) parts.push(`${NOTE_TYPE_KEY}: ${match.noteTypes.join(', ')}`);
+  if (match.tags.length > 0) parts.push(`tags: ${match.tags.map((t) => `#${t.replace(/^#/, '')}`).join(', ')}`);
+  if (match.folders.length > 0) parts.push(`folders: ${match.folders.join(', ')}`);
+  return parts.length > 0 ? parts.join(' · ') : 'No match rules';
+}
@@ -6,6 +6,8 @@
 
 import type { QualityDimensionType } from '../value-objects/quality-dimension';
 import type { MaturityLevelEnum } from '../value-objects/maturity-level';
+import type { AssessmentProfileRef } from './assessment-profile';
+import type { LLMResponseSource } from '../interfaces/llm-provider.interface';
 
 export interface AssessmentRecord {
   id: string;
@@ -14,6 +16,12 @@ export interface AssessmentRecord {
   dimensionScores: Record<QualityDimensionType, number>;
   maturityLevel: MaturityLevelEnum;
   assessedAt: number;
+  // Assessment profile used (absent for the default assessment)
+  profile?: AssessmentProfileRef;
+  // Provider/model that answered (absent for cached responses)
+  answeredBy?: LLMResponseSource;
+  // Hash of the assessed note body (frontmatter and saved assessment excluded)
+  contentHash?: string;
 }
 
 export interface ScoreDelta {
@@ -0,0 +1,87 @@
+/**
+ * BatchJob Entity
+ * Persistent queue state for vault-wide batch assessment.
+ * Stored in plugin data so an interrupted run can resume after restart.
+ */
+
+export type BatchJobScope =
+  | { type: 'vault' }
+  | { type: 'folder'; folder: string }
+  | { type: 'tag'; tag: string };
+
+export type BatchJobStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'skipped' | 'failed';
+
+export interface BatchJobItem {
+  notePath: string;
+  status: BatchItemStatus;
+  totalScore?: number;
+  reason?: string;
+}
+
+export interface BatchJob {
+  id: string;
+  scope: BatchJobScope;
+  status: BatchJobStatus;
+  items: BatchJobItem[];
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+export interface BatchJobProgress {
+  total: number;
+  pending: number;
+  running: number;
+  done: number;
+  skipped: number;
+  failed: number;
+  processed: number;
+  averageScore: number | null;
+}
+
+/**
+ * Human-readable scope label
+ */
+export function describeBatchScope(scope: BatchJobScope): string {
+  switch (scope.type) {
+    case 'folder':
+      return `Folder: ${scope.folder}`;
+    case 'tag':
+      return `Tag: #${scope.tag}`;
+    default:
+      return 'Whole vault';
+  }
+}
+
+/**
+ * Aggregate item counts for progress display
+ */
+export function getBatchJobProgress(job: BatchJob): BatchJobProgress {
+  const progress: BatchJobProgress = {
+    total: job.items.length,
+    pending: 0,
+    running: 0,
+    done: 0,
+    skipped: 0,
+    failed: 0,
+    processed: 0,
+    averageScore: null,
+  };
+
+  let scoreSum = 0;
+  for (const item of job.items) {
+    progress[item.status]++;
+    if (item.status === 'done' && item.totalScore !== undefined) {
+      scoreSum += item.totalScore;
+    }
+  }
+
+  progress.processed = progress.done + progress.skipped + progress.failed;
+  if (progress.done > 0) {
+    progress.averageScore = Math.round(scoreSum / progress.done);
+  }
+
+  return progress;
+}
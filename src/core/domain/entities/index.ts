@@ -11,3 +11,57 @@ export type {
   AssessmentRecord,
   ScoreDelta,
 } from './assessment-record';
+
+export { describeBatchScope, getBatchJobProgress } from './batch-job';
+export type {
+  BatchJob,
+  BatchJobItem,
+  BatchJobScope,
+  BatchJobStatus,
+  BatchJobProgress,
+  BatchItemStatus,
+} from './batch-job';
+
+export { getUsageMonthKey } from './usage-record';
+export type {
+  UsageRecord,
+  UsageBreakdown,
+  MonthlyUsageSummary,
+} from './usage-record';
+
+export {
+  NOTE_TYPE_KEY,
+  selectAssessmentProfile,
+  describeProfileMatch,
+} from './assessment-profile';
+export type {
+  AssessmentProfile,
+  AssessmentProfileMatch,
+  AssessmentProfileRef,
+  ProfileMatchTarget,
+} from './assessment-profile';
+
+export { evaluateWilting } from './maturity-decay';
+export type {
+  MaturityDecayPolicy,
+  MaturityAuditEntry,
+  WiltingReason,
+  WiltingReasonType,
+  WiltingTarget,
+  WiltingEvaluation,
+} from './maturity-decay';
+
+export {
+  computeReviewInterval,
+  scheduleReview,
+  markReviewState,
+  snoozeReviewState,
+} from './review-schedule';
+export type {
+  ReviewState,
+  ReviewScheduleTarget,
+  ReviewScheduleResult,
+} from './review-schedule';
+
+export { measureNote, scoreNoteMetrics, blendDimensionScores } from './note-metrics';
+export type { NoteMetrics, NoteLinkCounts } from './note-metrics';
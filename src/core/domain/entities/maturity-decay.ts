@@ -0,0 +1,101 @@
+/**
+ * Maturity Decay Entity
+ * Opt-in policy that flags notes as "wilting" and suggests a lower maturity.
+ *
+ * A note is wilting when:
+ * - it has not been modified or reassessed for `staleAfterDays`, or
+ * - its latest score is below its stage threshold by more than `scoreMargin`
+ * Notes at the first stage never wilt.
+ */
+
+import { MaturityLevel } from '../value-objects/maturity-level';
+import type { MaturityLevelEnum, MaturityThresholds } from '../value-objects/maturity-level';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MaturityDecayPolicy {
+  enabled: boolean;
+  checkStaleness: boolean;
+  staleAfterDays: number;
+  checkScore: boolean;
+  scoreMargin: number;
+}
+
+export type WiltingReasonType = 'stale' | 'below-threshold';
+
+export interface WiltingReason {
+  type: WiltingReasonType;
+  description: string;
+}
+
+export interface WiltingTarget {
+  maturity: MaturityLevel;
+  modifiedAt: number;
+  // Latest assessment (absent if never assessed)
+  lastAssessedAt?: number;
+  latestScore?: number;
+  maturityThresholds?: MaturityThresholds;
+}
+
+export interface WiltingEvaluation {
+  reasons: WiltingReason[];
+  suggested: MaturityLevel;
+}
+
+/**
+ * One maturity change made by the decay policy
+ */
+export interface MaturityAuditEntry {
+  id: string;
+  notePath: string;
+  from: MaturityLevelEnum;
+  to: MaturityLevelEnum;
+  reasons: WiltingReason[];
+  changedAt: number;
+}
+
+/**
+ * Evaluate a note against the policy (null when the note is not wilting)
+ */
+export function evaluateWilting(
+  policy: MaturityDecayPolicy,
+  target: WiltingTarget,
+  now: number = Date.now()
+): WiltingEvaluation | null {
+  const { maturity } = target;
+  if (!policy.enabled || maturity.order <= 1) return null;
+
+  const reasons: WiltingReason[] = [];
+  let suggested: MaturityLevel | null = null;
+
+  if (policy.checkStaleness && policy.staleAfterDays > 0) {
+    const lastActivity = Math.max(target.modifiedAt, target.lastAssessedAt ?? 0);
+    const idleDays = Math.floor((now - lastActivity) / DAY_MS);
+    if (idleDays >= policy.staleAfterDays) {
+      reasons.push({
+        type: 'stale',
+        description: `Not modified or reassessed for ${idleDays} days`,
+      });
+    }
+  }
+
+  if (policy.checkScore && typeof target.latestScore === 'number') {
+    const threshold = MaturityLevel.getMinQualityScore(maturity.level, target.maturityThresholds);
+    if (target.latestScore < threshold - policy.scoreMargin) {
+      reasons.push({
+        type: 'below-threshold',
+        description: `Score ${target.latestScore}pts is below the ${maturity.displayName} threshold (${threshold}pts)`,
+      });
+      suggested = MaturityLevel.fromQualityScore(target.latestScore, target.maturityThresholds);
+    }
+  }
+
+  if (reasons.length === 0) return null;
+
+  // Stale notes drop one stage; a low score drops to the stage the score supports
+  if (!suggested || !suggested.isLowerThan(maturity)) {
+    suggested = MaturityLevel.getAllLevels()[maturity.order - 2];
+  }
+
+  return { reasons, suggested };
+}
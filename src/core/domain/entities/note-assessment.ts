@@ -10,14 +10,19 @@
  * - 연결 제안 (관련 노트)
  */
 
-import { MaturityLevel, MaturityLevelEnum } from '../value-objects/maturity-level';
+import { MaturityLevel, MaturityLevelEnum, MaturityThresholds } from '../value-objects/maturity-level';
 import { QualityScore, QualityScoreData } from '../value-objects/quality-score';
+import type { QualityDimensionType } from '../value-objects/quality-dimension';
+import type { AssessmentRecord } from './assessment-record';
+import type { AssessmentProfileRef } from './assessment-profile';
+import type { LLMResponseSource } from '../interfaces/llm-provider.interface';
 
 /**
  * 개선 제안
  */
 export interface ImprovementSuggestion {
   dimension: string;
+  dimensionType?: QualityDimensionType;
   priority: 'high' | 'medium' | 'low';
   suggestion: string;
   example?: string;
@@ -76,6 +81,9 @@ export interface NoteAssessmentData {
   connectionSuggestions: ConnectionSuggestion[];
   growthGuide: GrowthGuide | null;
   assessedAt: number;
+  profile?: AssessmentProfileRef | null;
+  answeredBy?: LLMResponseSource | null;
+  contentHash?: string | null;
 }
 
 export class NoteAssessment {
@@ -90,6 +98,9 @@ export class NoteAssessment {
   private readonly _connectionSuggestions: ConnectionSuggestion[];
   private readonly _growthGuide: GrowthGuide | null;
   private readonly _assessedAt: Date;
+  private readonly _profile: AssessmentProfileRef | null;
+  private readonly _answeredBy: LLMResponseSource | null;
+  private readonly _contentHash: string | null;
 
   private constructor(
     id: string,
@@ -102,7 +113,10 @@ export class NoteAssessment {
     splitSuggestion: SplitSuggestion | null,
     connectionSuggestions: ConnectionSuggestion[],
     growthGuide: GrowthGuide | null,
-    assessedAt: Date
+    assessedAt: Date,
+    profile: AssessmentProfileRef | null = null,
+    answeredBy: LLMResponseSource | null = null,
+    contentHash: string | null = null
   ) {
     this._id = id;
     this._noteId = noteId;
@@ -115,6 +129,9 @@ export class NoteAssessment {
     this._connectionSuggestions = connectionSuggestions;
     this._growthGuide = growthGuide;
     this._assessedAt = assessedAt;
+    this._profile = profile;
+    this._answeredBy = answeredBy;
+    this._contentHash = contentHash;
   }
 
   /**
@@ -129,9 +146,14 @@ export class NoteAssessment {
     splitSuggestion?: SplitSuggestion | null;
     connectionSuggestions?: ConnectionSuggestion[];
     growthGuide?: GrowthGuide | null;
+    profile?: AssessmentProfileRef | null;
+    answeredBy?: LLMResponseSource | null;
+    contentHash?: string | null;
+    maturityThresholds?: MaturityThresholds;
   }): NoteAssessment {
     const recommendedMaturity = MaturityLevel.fromQualityScore(
-      params.qualityScore.totalScore
+      params.qualityScore.totalScore,
+      params.maturityThresholds
     );
 
     return new NoteAssessment(
@@ -145,7 +167,10 @@ export class NoteAssessment {
       params.splitSuggestion || null,
       params.connectionSuggestions || [],
       params.growthGuide || null,
-      new Date()
+      new Date(),
+      params.profile ?? null,
+      params.answeredBy ?? null,
+      params.contentHash ?? null
     );
   }
 
@@ -158,13 +183,16 @@ export class NoteAssessment {
       data.noteId,
       data.notePath,
       QualityScore.fromData(data.qualityScore),
-      MaturityLevel.create(data.currentMaturity),
-      MaturityLevel.create(data.recommendedMaturity),
+      MaturityLevel.fromFrontmatter(data.currentMaturity),
+      MaturityLevel.fromFrontmatter(data.recommendedMaturity),
       data.improvements,
       data.splitSuggestion,
       data.connectionSuggestions,
       data.growthGuide,
-      new Date(data.assessedAt)
+      new Date(data.assessedAt),
+      data.profile ?? null,
+      data.answeredBy ?? null,
+      data.contentHash ?? null
     );
   }
 
@@ -217,6 +245,27 @@ export class NoteAssessment {
     return this._assessedAt;
   }
 
+  /**
+   * 평가에 사용된 프로필 (기본 평가는 null)
+   */
+  get profile(): AssessmentProfileRef | null {
+    return this._profile;
+  }
+
+  /**
+   * 실제로 응답한 프로바이더/모델 (캐시된 응답이면 null)
+   */
+  get answeredBy(): LLMResponseSource | null {
+    return this._answeredBy;
+  }
+
+  /**
+   * 평가한 노트 본문의 해시 (변경 감지용)
+   */
+  get contentHash(): string | null {
+    return this._contentHash;
+  }
+
   /**
    * 성숙도 업그레이드가 추천되는지 확인
    */
@@ -265,6 +314,10 @@ export class NoteAssessment {
       `품질 점수: ${this._qualityScore.getSummaryText()}`,
     ];
 
+    if (this._profile) {
+      lines.push(`📋 평가 프로필: ${this._profile.name}`);
+    }
+
     if (this.isMaturityUpgradeRecommended()) {
       lines.push(
         `✨ 추천 성숙도: ${this._recommendedMaturity.getDisplayText()}`
@@ -292,6 +345,7 @@ export class NoteAssessment {
       `## 📊 노트 품질 평가 결과`,
       ``,
       `**평가 시간**: ${this._assessedAt.toLocaleString('ko-KR')}`,
+      ...(this._profile ? [`**평가 프로필**: ${this._profile.name}`] : []),
       ``,
       `---`,
       ``,
@@ -386,7 +440,7 @@ export class NoteAssessment {
       lines.push(`### 🚀 성장 가이드`);
       lines.push(``);
       lines.push(
-        `**목표**: ${MaturityLevel.create(this._growthGuide.currentLevel).getDisplayText()} → ${MaturityLevel.create(this._growthGuide.targetLevel).getDisplayText()}`
+        `**목표**: ${MaturityLevel.fromFrontmatter(this._growthGuide.currentLevel).getDisplayText()} → ${MaturityLevel.fromFrontmatter(this._growthGuide.targetLevel).getDisplayText()}`
       );
       lines.push(
         `**필요 점수**: ${this._growthGuide.currentScore}점 → ${this._growthGuide.requiredScore}점`
@@ -424,6 +478,28 @@ export class NoteAssessment {
     return texts[effort] || effort;
   }
 
+  /**
+   * 이력 저장용 경량 스냅샷
+   */
+  toRecord(): AssessmentRecord {
+    const dimensionScores: Record<string, number> = {};
+    for (const dim of this._qualityScore.getAllDimensions()) {
+      dimensionScores[dim.type] = dim.score;
+    }
+
+    return {
+      id: this._id,
+      notePath: this._notePath,
+      totalScore: this._qualityScore.totalScore,
+      dimensionScores: dimensionScores as Record<QualityDimensionType, number>,
+      maturityLevel: this._currentMaturity.level,
+      assessedAt: this._assessedAt.getTime(),
+      ...(this._profile ? { profile: { ...this._profile } } : {}),
+      ...(this._answeredBy ? { answeredBy: { ...this._answeredBy } } : {}),
+      ...(this._contentHash ? { contentHash: this._contentHash } : {}),
+    };
+  }
+
   /**
    * 직렬화
    */
@@ -440,6 +516,9 @@ export class NoteAssessment {
       connectionSuggestions: [...this._connectionSuggestions],
       growthGuide: this._growthGuide,
       assessedAt: this._assessedAt.getTime(),
+      profile: this._profile,
+      answeredBy: this._answeredBy,
+      contentHash: this._contentHash,
     };
   }
 }
@@ -0,0 +1,235 @@
+/**
+ * Note Metrics Entity
+ * Deterministic, offline pre-assessment of a note.
+ *
+ * Metrics are measured from the note text and link counts, then mapped to
+ * the built-in dimensions to produce a provisional QualityScore:
+ * - Atomicity: number of topics (top-level headings) and length
+ * - Connectivity: outlinks and backlinks
+ * - Clarity: structure and paragraph length
+ * - Evidence: citations, URLs and footnotes
+ * - Originality: share of quoted text
+ * Custom rubric dimensions have no heuristic and get a neutral score.
+ */
+
+import { QualityDimension } from '../value-objects/quality-dimension';
+import { QualityScore } from '../value-objects/quality-score';
+import { QualityRubric } from '../value-objects/quality-rubric';
+import type {
+  BuiltInDimensionType,
+  QualityDimensionType,
+} from '../value-objects/quality-dimension';
+
+export interface NoteMetrics {
+  wordCount: number;
+  headingCount: number;
+  // Distinct headings at the top heading level used in the note
+  topicCount: number;
+  paragraphCount: number;
+  averageParagraphWords: number;
+  outlinkCount: number;
+  backlinkCount: number;
+  citationCount: number;
+  urlCount: number;
+  footnoteCount: number;
+  // Share of words inside quote blocks (0-1, callouts excluded)
+  quoteRatio: number;
+}
+
+export interface NoteLinkCounts {
+  outlinks: number;
+  backlinks: number;
+}
+
+interface DimensionEstimate {
+  score: number;
+  feedback: string;
+}
+
+// Score given to dimensions without a heuristic
+const NEUTRAL_SCORE = 50;
+
+// Word count above which atomicity starts to suffer
+const ATOMIC_WORD_LIMIT = 400;
+
+// Average paragraph length (words) above which clarity starts to suffer
+const LONG_PARAGRAPH_WORDS = 120;
+
+const FRONTMATTER_PATTERN = /^---\n[\s\S]*?\n---\n?/;
+const CODE_BLOCK_PATTERN = /```[\s\S]*?```/g;
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const CALLOUT_START_PATTERN = /^>\s*\[![^\]]+\]/;
+const URL_PATTERN = /https?:\/\/[^\s)>\]]+/g;
+const FOOTNOTE_DEFINITION_PATTERN = /^\[\^[^\]]+\]:/gm;
+const CITATION_PATTERNS = [
+  // Pandoc citation keys: [@doe2020]
+  /\[@[^\]]+\]/g,
+  // Author-year: (Doe, 2020), (Doe et al. 2020)
+  /\([A-Z][^()]{0,60}?,?\s(?:19|20)\d{2}[a-z]?\)/g,
+  // DOI
+  /\b10\.\d{4,9}\/[^\s]+/g,
+  // Source lines: "Source: ...", "출처: ..."
+  /^\s*(?:[-*]\s*)?(?:source|sources|reference|references|출처|참고|참고문헌)\s*[:：]/gim,
+];
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((w) => w.length > 0).length;
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) ?? []).length;
+}
+
+function clampScore(score: number): number {
+  return Math.round(Math.min(100, Math.max(0, score)));
+}
+
+/**
+ * Measure a note's content (frontmatter and code blocks are ignored)
+ */
+export function measureNote(content: string, links: NoteLinkCounts): NoteMetrics {
+  const body = content.replace(FRONTMATTER_PATTERN, '').replace(CODE_BLOCK_PATTERN, '');
+  const lines = body.split('\n');
+
+  const headings: { level: number; text: string }[] = [];
+  let quoteWords = 0;
+  let inCallout = false;
+
+  lines.forEach((line) => {
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      headings.push({ level: heading[1].length, text: heading[2].trim().toLowerCase() });
+    }
+
+    if (!line.startsWith('>')) {
+      inCallout = false;
+      return;
+    }
+    if (CALLOUT_START_PATTERN.test(line)) inCallout = true;
+    if (!inCallout) quoteWords += countWords(line.replace(/^>\s?/, ''));
+  });
+
+  // A single H1 is the note title, not a topic
+  const titleCount = headings.filter((h) => h.level === 1).length;
+  const sections = titleCount > 1 ? headings : headings.filter((h) => h.level > 1);
+  const topLevel = sections.reduce((min, h) => Math.min(min, h.level), 6);
+  const topicCount = new Set(sections.filter((h) => h.level === topLevel).map((h) => h.text)).size;
+
+  const paragraphs = body
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0 && !HEADING_PATTERN.test(p));
+  const paragraphWords = paragraphs.map(countWords);
+  const wordCount = countWords(body);
+
+  return {
+    wordCount,
+    headingCount: headings.length,
+    topicCount,
+    paragraphCount: paragraphs.length,
+    averageParagraphWords: paragraphs.length > 0
+      ? Math.round(paragraphWords.reduce((sum, n) => sum + n, 0) / paragraphs.length)
+      : 0,
+    outlinkCount: links.outlinks,
+    backlinkCount: links.backlinks,
+    citationCount: CITATION_PATTERNS.reduce((sum, pattern) => sum + countMatches(body, pattern), 0),
+    urlCount: countMatches(body, URL_PATTERN),
+    footnoteCount: countMatches(body, FOOTNOTE_DEFINITION_PATTERN),
+    quoteRatio: wordCount > 0 ? Math.min(1, quoteWords / wordCount) : 0,
+  };
+}
+
+function scoreAtomicity(m: NoteMetrics): DimensionEstimate {
+  const topicPenalty = Math.max(0, m.topicCount - 1) * 15;
+  const lengthPenalty = Math.min(40, Math.max(0, (m.wordCount - ATOMIC_WORD_LIMIT) / 20));
+  const feedback = m.topicCount > 1
+    ? `${m.topicCount} top-level sections, ${m.wordCount} words. Several topics may belong in separate notes.`
+    : `${m.wordCount} words${m.topicCount === 1 ? ', one section' : ''}.`;
+  return { score: clampScore(95 - topicPenalty - lengthPenalty), feedback };
+}
+
+function scoreConnectivity(m: NoteMetrics): DimensionEstimate {
+  return {
+    score: clampScore(10 + Math.min(60, m.outlinkCount * 15) + Math.min(30, m.backlinkCount * 10)),
+    feedback: `${m.outlinkCount} outlink(s), ${m.backlinkCount} backlink(s).`,
+  };
+}
+
+function scoreClarity(m: NoteMetrics): DimensionEstimate {
+  let score = 70;
+  if (m.wordCount < 80) score -= 20;
+  if (m.headingCount > 0 || m.wordCount < 250) score += 10;
+  if (m.averageParagraphWords > LONG_PARAGRAPH_WORDS) {
+    score -= Math.min(30, (m.averageParagraphWords - LONG_PARAGRAPH_WORDS) / 4);
+  }
+  return {
+    score: clampScore(score),
+    feedback: `${m.paragraphCount} paragraph(s), ${m.averageParagraphWords} words on average, ${m.headingCount} heading(s).`,
+  };
+}
+
+function scoreEvidence(m: NoteMetrics): DimensionEstimate {
+  const sources = m.citationCount + m.footnoteCount;
+  return {
+    score: clampScore(20 + Math.min(50, sources * 15) + Math.min(30, m.urlCount * 10)),
+    feedback: `${m.citationCount} citation(s), ${m.footnoteCount} footnote(s), ${m.urlCount} URL(s).`,
+  };
+}
+
+function scoreOriginality(m: NoteMetrics): DimensionEstimate {
+  const quotedPercent = Math.round(m.quoteRatio * 100);
+  return {
+    score: clampScore(90 - m.quoteRatio * 100),
+    feedback: `${quotedPercent}% of the text is quoted.`,
+  };
+}
+
+const DIMENSION_HEURISTICS: Record<BuiltInDimensionType, (m: NoteMetrics) => DimensionEstimate> = {
+  atomicity: scoreAtomicity,
+  connectivity: scoreConnectivity,
+  clarity: scoreClarity,
+  evidence: scoreEvidence,
+  originality: scoreOriginality,
+};
+
+/**
+ * Provisional quality score from metrics for the given rubric
+ */
+export function scoreNoteMetrics(
+  metrics: NoteMetrics,
+  rubric: QualityRubric = QualityRubric.default()
+): QualityScore {
+  const scores: Record<QualityDimensionType, DimensionEstimate> = {};
+
+  rubric.dimensionTypes.forEach((type) => {
+    scores[type] = QualityDimension.isBuiltIn(type)
+      ? DIMENSION_HEURISTICS[type](metrics)
+      : { score: NEUTRAL_SCORE, feedback: 'No offline heuristic for this dimension.' };
+  });
+
+  return QualityScore.fromScores(scores, rubric);
+}
+
+/**
+ * Blend LLM dimension scores with a provisional score
+ * (weight is the heuristic share, 0-1; LLM feedback is kept)
+ */
+export function blendDimensionScores(
+  scores: Record<QualityDimensionType, DimensionEstimate>,
+  heuristic: QualityScore,
+  weight: number
+): Record<QualityDimensionType, DimensionEstimate> {
+  const share = Math.min(1, Math.max(0, weight));
+  const blended: Record<QualityDimensionType, DimensionEstimate> = {};
+
+  Object.keys(scores).forEach((type) => {
+    const local = heuristic.getDimension(type);
+    const { score, feedback } = scores[type];
+    blended[type] = {
+      score: local ? Math.round(share * local.score + (1 - share) * score) : score,
+      feedback,
+    };
+  });
+
+  return blended;
+}
@@ -0,0 +1,117 @@
+/**
+ * Review Schedule Entity
+ * Spaced revisiting of notes ("cultivation").
+ *
+ * Next review = last activity (modified, assessed or reviewed) + interval
+ * - Interval doubles with each maturity stage (base × 2^(stage - 1))
+ * - A falling score halves it, a rising score stretches it by half
+ * - Marking a note reviewed grows the interval (unless the score fell)
+ * - Snoozing postpones the review without changing the interval
+ */
+
+import type { MaturityLevel } from '../value-objects/maturity-level';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Score change (points) that counts as rising or falling
+const SCORE_TREND_THRESHOLD = 5;
+
+const MIN_INTERVAL_DAYS = 1;
+const MAX_INTERVAL_DAYS = 180;
+
+// Interval growth when a note is marked reviewed
+const REVIEW_GROWTH = 1.5;
+
+/**
+ * Stored review state of a note (only notes reviewed or snoozed at least once)
+ */
+export interface ReviewState {
+  lastReviewedAt?: number;
+  intervalDays?: number;
+  snoozedUntil?: number;
+}
+
+export interface ReviewScheduleTarget {
+  maturity: MaturityLevel;
+  modifiedAt: number;
+  lastAssessedAt?: number;
+  // Latest total score change between the last two assessments
+  scoreDelta?: number;
+  state?: ReviewState;
+}
+
+export interface ReviewScheduleResult {
+  intervalDays: number;
+  nextReviewAt: number;
+}
+
+/**
+ * Review interval in days for a note
+ */
+export function computeReviewInterval(
+  baseIntervalDays: number,
+  target: Omit<ReviewScheduleTarget, 'modifiedAt' | 'lastAssessedAt'>
+): number {
+  let interval = baseIntervalDays * Math.pow(2, Math.max(0, target.maturity.order - 1));
+
+  const delta = target.scoreDelta ?? 0;
+  if (delta <= -SCORE_TREND_THRESHOLD) {
+    interval *= 0.5;
+  } else if (delta >= SCORE_TREND_THRESHOLD) {
+    interval *= 1.5;
+  }
+
+  // Reviews stretch the interval, but a falling score resets it
+  const previous = target.state?.intervalDays;
+  if (previous && delta > -SCORE_TREND_THRESHOLD) {
+    interval = Math.max(interval, previous);
+  }
+
+  return Math.round(Math.min(MAX_INTERVAL_DAYS, Math.max(MIN_INTERVAL_DAYS, interval)));
+}
+
+/**
+ * Next review date of a note
+ */
+export function scheduleReview(
+  baseIntervalDays: number,
+  target: ReviewScheduleTarget
+): ReviewScheduleResult {
+  const intervalDays = computeReviewInterval(baseIntervalDays, target);
+  const lastActivity = Math.max(
+    target.modifiedAt,
+    target.lastAssessedAt ?? 0,
+    target.state?.lastReviewedAt ?? 0
+  );
+
+  const nextReviewAt = Math.max(
+    lastActivity + intervalDays * DAY_MS,
+    target.state?.snoozedUntil ?? 0
+  );
+
+  return { intervalDays, nextReviewAt };
+}
+
+/**
+ * State after marking a note reviewed
+ */
+export function markReviewState(
+  intervalDays: number,
+  now: number = Date.now()
+): ReviewState {
+  return {
+    lastReviewedAt: now,
+    intervalDays: Math.min(MAX_INTERVAL_DAYS, Math.round(intervalDays * REVIEW_GROWTH)),
+  };
+}
+
+/**
+ * State after snoozing a note for some days
+ */
+export function snoozeReviewState(
+  state: ReviewState | undefined,
+  days: number,
+  now: number = Date.now()
+): ReviewState {
+  return { ...state, snoozedUntil: now + days * DAY_MS };
+}
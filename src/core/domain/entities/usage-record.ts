@@ -0,0 +1,43 @@
+/**
+ * UsageRecord Entity
+ * One LLM request in the token/cost ledger.
+ * Grouped by calendar month for budget tracking.
+ */
+
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  purpose: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface UsageBreakdown {
+  key: string;
+  requestCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface MonthlyUsageSummary {
+  month: string;
+  requestCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalCost: number;
+  byPurpose: UsageBreakdown[];
+  byModel: UsageBreakdown[];
+}
+
+/**
+ * 타임스탬프의 월 키 (YYYY-MM, 로컬 시간 기준)
+ */
+export function getUsageMonthKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  return `${date.getFullYear()}-${month}`;
+}
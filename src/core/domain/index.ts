@@ -1,16 +1,43 @@
 // Value Objects
-export { MaturityLevel, QualityDimension, QualityScore } from './value-objects';
+export {
+  MaturityLevel,
+  QualityDimension,
+  QualityRubric,
+  QualityScore,
+  DEFAULT_DIMENSION_ICON,
+} from './value-objects';
 export type {
   MaturityLevelEnum,
   MaturityLevelConfig,
+  MaturityStageConfig,
+  MaturityStagesData,
+  MaturityThresholds,
+  BuiltInDimensionType,
   QualityDimensionType,
   QualityDimensionConfig,
   QualityDimensionData,
+  QualityRubricData,
   QualityScoreData,
 } from './value-objects';
 
 // Entities
-export { NoteAssessment } from './entities';
+export {
+  NoteAssessment,
+  describeBatchScope,
+  getBatchJobProgress,
+  getUsageMonthKey,
+  NOTE_TYPE_KEY,
+  selectAssessmentProfile,
+  describeProfileMatch,
+  evaluateWilting,
+  computeReviewInterval,
+  scheduleReview,
+  markReviewState,
+  snoozeReviewState,
+  measureNote,
+  scoreNoteMetrics,
+  blendDimensionScores,
+} from './entities';
 export type {
   NoteAssessmentData,
   ImprovementSuggestion,
@@ -19,6 +46,30 @@ export type {
   GrowthGuide,
   AssessmentRecord,
   ScoreDelta,
+  BatchJob,
+  BatchJobItem,
+  BatchJobScope,
+  BatchJobStatus,
+  BatchJobProgress,
+  BatchItemStatus,
+  UsageRecord,
+  UsageBreakdown,
+  MonthlyUsageSummary,
+  AssessmentProfile,
+  AssessmentProfileMatch,
+  AssessmentProfileRef,
+  ProfileMatchTarget,
+  MaturityDecayPolicy,
+  MaturityAuditEntry,
+  WiltingReason,
+  WiltingReasonType,
+  WiltingTarget,
+  WiltingEvaluation,
+  ReviewState,
+  ReviewScheduleTarget,
+  ReviewScheduleResult,
+  NoteMetrics,
+  NoteLinkCounts,
 } from './entities';
 
 // Interfaces (Ports)
@@ -31,11 +82,13 @@ export type {
   ILLMProvider,
   LLMMessage,
   LLMResponse,
+  LLMResponseSource,
+  LLMErrorCode,
   LLMGenerateOptions,
   LLMProviderType,
 } from './interfaces';
 
-// Constants (from obsidian-llm-shared via model-configs.ts)
+// Constants (model configs from obsidian-llm-shared via model-configs.ts)
 export {
   AI_PROVIDERS,
   MODEL_CONFIGS,
@@ -47,5 +100,21 @@ export {
   getEffectiveMaxTokens,
   getThinkingConfig,
   calculateCost,
+  LOCAL_PROVIDER_TYPE,
+  LOCAL_PROVIDER_DISPLAY_NAME,
+  DEFAULT_LOCAL_BASE_URL,
+  getProviderDisplayName,
+  getDefaultModelId,
+  OUTPUT_LANGUAGE_LABELS,
+  detectNoteLanguage,
+  resolveOutputLanguage,
+  getLanguageInstruction,
+  getDimensionLabel,
+} from './constants';
+export type {
+  AIProviderType,
+  AIProviderConfig,
+  ModelConfig,
+  OutputLanguage,
+  ResolvedOutputLanguage,
 } from './constants';
-export type { AIProviderType, AIProviderConfig, ModelConfig } from './constants';
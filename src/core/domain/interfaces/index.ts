@@ -10,6 +10,8 @@ export type {
   ILLMProvider,
   LLMMessage,
   LLMResponse,
+  LLMResponseSource,
+  LLMErrorCode,
   LLMGenerateOptions,
   LLMProviderType,
 } from './llm-provider.interface';
@@ -10,10 +10,37 @@ export interface LLMMessage {
   content: string;
 }
 
+/**
+ * 오류 분류 (재시도·폴백 판단용)
+ */
+export type LLMErrorCode =
+  | 'RATE_LIMIT'
+  | 'AUTH_ERROR'
+  | 'TIMEOUT'
+  | 'SERVER_ERROR'
+  | 'NETWORK'
+  | 'BUDGET_EXCEEDED'
+  | 'CANCELLED'
+  | 'UNKNOWN';
+
+/**
+ * 실제로 응답한 프로바이더/모델
+ */
+export interface LLMResponseSource {
+  provider: string;
+  model: string;
+  // Answered by a fallback rather than the primary provider
+  fallback: boolean;
+}
+
 export interface LLMResponse {
   success: boolean;
   content: string;
   error?: string;
+  errorCode?: LLMErrorCode;
+  // Server-requested wait before retrying (Retry-After)
+  retryAfterMs?: number;
+  source?: LLMResponseSource;
   usage?: {
     inputTokens: number;
     outputTokens: number;
@@ -27,6 +54,14 @@ export interface LLMGenerateOptions {
   temperature?: number;
   topP?: number;
   stopSequences?: string[];
+  /**
+   * 요청 목적 (사용량 기록용, 예: 'assess-note-quality')
+   */
+  purpose?: string;
+  /**
+   * 요청 취소 신호 (취소되면 CANCELLED 오류로 즉시 반환)
+   */
+  signal?: AbortSignal;
 }
 
 export interface ILLMProvider {
@@ -58,6 +93,17 @@ export interface ILLMProvider {
     options?: LLMGenerateOptions
   ): Promise<LLMResponse>;
 
+  /**
+   * 스트리밍 텍스트 생성 (선택)
+   * 도착하는 텍스트 조각마다 onText를 호출하고, 완료되면 전체 응답을 반환합니다.
+   * 스트리밍할 수 없으면 일반 요청으로 대체합니다 (onText 호출 없음).
+   */
+  generateStream?(
+    messages: LLMMessage[],
+    options: LLMGenerateOptions | undefined,
+    onText: (delta: string) => void
+  ): Promise<LLMResponse>;
+
   /**
    * 간단한 텍스트 생성 (시스템 프롬프트 + 사용자 프롬프트)
    */
@@ -81,6 +127,6 @@ export interface ILLMProvider {
 import type { AIProviderType } from 'obsidian-llm-shared';
 
 /**
- * 프로바이더 타입 — AIProviderType 의 backward-compatible alias
+ * 프로바이더 타입 — 공유 클라우드 프로바이더(AIProviderType) + 로컬 OpenAI 호환 서버
  */
-export type LLMProviderType = AIProviderType;
+export type LLMProviderType = AIProviderType | 'local';
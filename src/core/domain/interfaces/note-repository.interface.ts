@@ -43,6 +43,7 @@ export interface NoteSummary {
   maturityLevel: MaturityLevel;
   linkCount: number;
   backlinkCount: number;
+  modifiedAt: number;
 }
 
 /**
@@ -54,6 +55,7 @@ export interface NoteSearchOptions {
   maturityLevel?: string;
   hasBacklinks?: boolean;
   modifiedAfter?: Date;
+  metadataKey?: string;
   limit?: number;
 }
 
@@ -96,6 +98,11 @@ export interface INoteRepository {
    */
   getBacklinks(noteId: string): Promise<string[]>;
 
+  /**
+   * 모든 노트의 아웃링크 (노트 경로 → 연결된 노트 경로들)
+   */
+  getAllOutlinks(): Promise<Map<string, string[]>>;
+
   /**
    * 노트 Frontmatter 업데이트
    */
@@ -106,16 +113,26 @@ export interface INoteRepository {
    */
   updateMaturityLevel(noteId: string, level: MaturityLevel): Promise<void>;
 
+  /**
+   * Frontmatter 키 이름 변경 (값 유지, 새 키가 이미 있으면 기존 값 유지)
+   */
+  renameMetadataKey(noteId: string, oldKey: string, newKey: string): Promise<void>;
+
   /**
    * 노트 내용 업데이트
    */
   updateContent(noteId: string, content: string): Promise<void>;
 
   /**
-   * 새 노트 생성
+   * 새 노트 생성 (상위 폴더가 없으면 함께 생성)
    */
   createNote(path: string, content: string, metadata?: NoteMetadata): Promise<NoteData>;
 
+  /**
+   * 노트 삭제 (휴지통으로 이동)
+   */
+  deleteNote(noteId: string): Promise<void>;
+
   /**
    * 노트 존재 여부 확인
    */
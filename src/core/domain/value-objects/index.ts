@@ -1,12 +1,22 @@
 export { MaturityLevel } from './maturity-level';
-export type { MaturityLevelEnum, MaturityLevelConfig } from './maturity-level';
+export type {
+  MaturityLevelEnum,
+  MaturityLevelConfig,
+  MaturityStageConfig,
+  MaturityStagesData,
+  MaturityThresholds,
+} from './maturity-level';
 
-export { QualityDimension } from './quality-dimension';
+export { QualityDimension, DEFAULT_DIMENSION_ICON } from './quality-dimension';
 export type {
+  BuiltInDimensionType,
   QualityDimensionType,
   QualityDimensionConfig,
   QualityDimensionData,
 } from './quality-dimension';
 
+export { QualityRubric } from './quality-rubric';
+export type { QualityRubricData } from './quality-rubric';
+
 export { QualityScore } from './quality-score';
 export type { QualityScoreData } from './quality-score';
@@ -2,14 +2,23 @@
  * MaturityLevel Value Object
  * Immutable value object representing note maturity stage
  *
- * Maturity stages:
+ * Default maturity stages:
  * - 🌱 Seed: Initial idea, raw state
  * - 🌿 Sprout: Basic structure, some connections
  * - 🌳 Tree: Complete atomic note, rich connections
  * - 🌲 Evergreen: Continuously updated, core hub note
+ *
+ * Stages are configurable (see MaturityStagesData); notes carrying
+ * a stage that no longer exists are mapped to a current stage
  */
 
-export type MaturityLevelEnum = 'seed' | 'sprout' | 'tree' | 'evergreen';
+// Stage id stored in frontmatter (e.g. 'seed', 'budding')
+export type MaturityLevelEnum = string;
+
+/**
+ * Minimum quality score per level overriding the defaults (e.g. per assessment profile)
+ */
+export type MaturityThresholds = Partial<Record<MaturityLevelEnum, number>>;
 
 export interface MaturityLevelConfig {
   level: MaturityLevelEnum;
@@ -20,97 +29,209 @@ export interface MaturityLevelConfig {
   order: number;
 }
 
-const MATURITY_CONFIGS: Record<MaturityLevelEnum, MaturityLevelConfig> = {
-  seed: {
+/**
+ * Stage definition as stored in settings (order is the list position)
+ */
+export type MaturityStageConfig = Omit<MaturityLevelConfig, 'order'>;
+
+export interface MaturityStagesData {
+  stages: MaturityStageConfig[];
+  // Obsolete stage id -> current stage id
+  mappings: Record<string, MaturityLevelEnum>;
+}
+
+const DEFAULT_STAGES: MaturityStageConfig[] = [
+  {
     level: 'seed',
     icon: '🌱',
     displayName: 'Seed',
     description: 'Initial idea, raw state',
     minQualityScore: 0,
-    order: 1,
   },
-  sprout: {
+  {
     level: 'sprout',
     icon: '🌿',
     displayName: 'Sprout',
     description: 'Basic structure, some connections',
     minQualityScore: 40,
-    order: 2,
   },
-  tree: {
+  {
     level: 'tree',
     icon: '🌳',
     displayName: 'Tree',
     description: 'Complete atomic note, rich connections',
     minQualityScore: 70,
-    order: 3,
   },
-  evergreen: {
+  {
     level: 'evergreen',
     icon: '🌲',
     displayName: 'Evergreen',
     description: 'Continuously updated, core hub note',
     minQualityScore: 90,
-    order: 4,
   },
-};
+];
+
+// Stage ids are written to frontmatter
+const STAGE_ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+function toConfigs(stages: MaturityStageConfig[]): MaturityLevelConfig[] {
+  return stages.map((stage, idx) => ({ ...stage, order: idx + 1 }));
+}
+
+// Active stage configuration (replaced via MaturityLevel.configure)
+let activeConfigs: MaturityLevelConfig[] = toConfigs(DEFAULT_STAGES);
+let activeMappings: Record<string, MaturityLevelEnum> = {};
+
+function findConfig(level: MaturityLevelEnum): MaturityLevelConfig | undefined {
+  return activeConfigs.find((c) => c.level === level);
+}
 
 export class MaturityLevel {
   private readonly _config: MaturityLevelConfig;
 
-  private constructor(level: MaturityLevelEnum) {
-    this._config = MATURITY_CONFIGS[level];
+  private constructor(config: MaturityLevelConfig) {
+    this._config = config;
+  }
+
+  /**
+   * Replace the active stage configuration
+   * (invalid configurations fall back to the default stages)
+   */
+  static configure(data: MaturityStagesData | null): void {
+    if (!data || MaturityLevel.validateStages(data).length > 0) {
+      activeConfigs = toConfigs(DEFAULT_STAGES);
+      activeMappings = {};
+      return;
+    }
+    activeConfigs = toConfigs(data.stages);
+    activeMappings = { ...(data.mappings ?? {}) };
+  }
+
+  static defaultStagesData(): MaturityStagesData {
+    return {
+      stages: DEFAULT_STAGES.map((stage) => ({ ...stage })),
+      mappings: {},
+    };
+  }
+
+  /**
+   * Validation errors (empty when valid)
+   */
+  static validateStages(data: MaturityStagesData): string[] {
+    const errors: string[] = [];
+    const stages = data.stages ?? [];
+
+    if (stages.length < 2) {
+      errors.push('At least two stages are required.');
+      return errors;
+    }
+
+    const ids = new Set<string>();
+    stages.forEach((stage, i) => {
+      const label = stage.displayName?.trim() || `Stage ${i + 1}`;
+      if (!STAGE_ID_PATTERN.test(stage.level ?? '')) {
+        errors.push(`${label}: id must start with a letter and use only a-z, 0-9 and "-".`);
+      } else if (ids.has(stage.level)) {
+        errors.push(`${label}: duplicate id "${stage.level}".`);
+      }
+      ids.add(stage.level);
+
+      if (!stage.displayName?.trim()) {
+        errors.push(`Stage ${i + 1}: name is required.`);
+      }
+      const score = stage.minQualityScore;
+      if (typeof score !== 'number' || isNaN(score) || score < 0 || score > 100) {
+        errors.push(`${label}: minimum score must be between 0 and 100.`);
+      } else if (i > 0 && score <= stages[i - 1].minQualityScore) {
+        errors.push(`${label}: minimum score must be higher than the previous stage.`);
+      }
+    });
+
+    if (stages[0].minQualityScore !== 0) {
+      errors.push('The first stage must start at 0.');
+    }
+
+    // Mappings of ids that are current stages again are ignored
+    Object.keys(data.mappings ?? {}).forEach((from) => {
+      if (!ids.has(from) && !ids.has(data.mappings[from])) {
+        errors.push(`Mapping "${from}": unknown target stage "${data.mappings[from]}".`);
+      }
+    });
+
+    return errors;
   }
 
   /**
    * Create maturity level
    */
   static create(level: MaturityLevelEnum): MaturityLevel {
-    if (!MATURITY_CONFIGS[level]) {
+    const config = findConfig(level);
+    if (!config) {
       throw new Error(`Invalid maturity level: ${level}`);
     }
-    return new MaturityLevel(level);
+    return new MaturityLevel(config);
   }
 
   /**
-   * Create default (Seed)
+   * Create default (first stage)
    */
   static default(): MaturityLevel {
-    return new MaturityLevel('seed');
+    return new MaturityLevel(activeConfigs[0]);
   }
 
   /**
    * Return recommended maturity based on quality score
    */
-  static fromQualityScore(score: number): MaturityLevel {
-    if (score >= MATURITY_CONFIGS.evergreen.minQualityScore) {
-      return MaturityLevel.create('evergreen');
+  static fromQualityScore(score: number, thresholds?: MaturityThresholds): MaturityLevel {
+    for (let i = activeConfigs.length - 1; i > 0; i--) {
+      const level = activeConfigs[i].level;
+      if (score >= MaturityLevel.getMinQualityScore(level, thresholds)) {
+        return MaturityLevel.create(level);
+      }
     }
-    if (score >= MATURITY_CONFIGS.tree.minQualityScore) {
-      return MaturityLevel.create('tree');
-    }
-    if (score >= MATURITY_CONFIGS.sprout.minQualityScore) {
-      return MaturityLevel.create('sprout');
-    }
-    return MaturityLevel.create('seed');
+    return MaturityLevel.default();
   }
 
   /**
-   * Parse from frontmatter string
+   * Minimum quality score of a level (threshold override or default)
+   */
+  static getMinQualityScore(level: MaturityLevelEnum, thresholds?: MaturityThresholds): number {
+    const override = thresholds?.[level];
+    if (typeof override === 'number') return override;
+    return findConfig(level)?.minQualityScore ?? 0;
+  }
+
+  /**
+   * Parse from frontmatter string (obsolete stages are mapped, unknown values become the default)
    */
   static fromFrontmatter(value: string | undefined): MaturityLevel {
     if (!value) {
       return MaturityLevel.default();
     }
 
-    const normalized = value.toLowerCase().trim();
-    if (MATURITY_CONFIGS[normalized as MaturityLevelEnum]) {
-      return MaturityLevel.create(normalized as MaturityLevelEnum);
+    const normalized = String(value).toLowerCase().trim();
+    const level = MaturityLevel.isCurrentStage(normalized) ? normalized : activeMappings[normalized];
+    if (level && findConfig(level)) {
+      return MaturityLevel.create(level);
     }
 
     return MaturityLevel.default();
   }
 
+  /**
+   * Check if the value is a stage of the active configuration
+   */
+  static isCurrentStage(value: string): boolean {
+    return !!findConfig(value);
+  }
+
+  /**
+   * Check if an obsolete stage has a configured mapping
+   */
+  static hasMapping(value: string): boolean {
+    return Object.prototype.hasOwnProperty.call(activeMappings, value);
+  }
+
   // Getters
   get level(): MaturityLevelEnum {
     return this._config.level;
@@ -179,17 +300,16 @@ export class MaturityLevel {
   }
 
   /**
-   * Return next level (null if Evergreen)
+   * Return next level (null at the last stage)
    */
   getNextLevel(): MaturityLevel | null {
-    const levels: MaturityLevelEnum[] = ['seed', 'sprout', 'tree', 'evergreen'];
-    const currentIndex = levels.indexOf(this._config.level);
+    const currentIndex = activeConfigs.findIndex((c) => c.level === this._config.level);
 
-    if (currentIndex === levels.length - 1) {
+    if (currentIndex === -1 || currentIndex === activeConfigs.length - 1) {
       return null;
     }
 
-    return MaturityLevel.create(levels[currentIndex + 1]);
+    return new MaturityLevel(activeConfigs[currentIndex + 1]);
   }
 
   /**
@@ -201,29 +321,27 @@ export class MaturityLevel {
 
   /**
    * Check if can downgrade - default false
-   * Note maturity only grows, never regresses
+   * Note maturity only grows, unless regression is allowed (maturity decay policy)
    */
-  canDowngradeTo(_target: MaturityLevel): boolean {
-    return false;
+  canDowngradeTo(target: MaturityLevel, allowRegression: boolean = false): boolean {
+    return allowRegression && target.isLowerThan(this);
   }
 
   /**
    * Minimum score required for next level
    */
-  getNextLevelThreshold(): number | null {
+  getNextLevelThreshold(thresholds?: MaturityThresholds): number | null {
     const nextLevel = this.getNextLevel();
     if (!nextLevel) {
       return null;
     }
-    return nextLevel.minQualityScore;
+    return MaturityLevel.getMinQualityScore(nextLevel.level, thresholds);
   }
 
   /**
    * Return list of all maturity levels
    */
   static getAllLevels(): MaturityLevel[] {
-    return (['seed', 'sprout', 'tree', 'evergreen'] as MaturityLevelEnum[]).map(
-      (level) => MaturityLevel.create(level)
-    );
+    return activeConfigs.map((config) => new MaturityLevel(config));
   }
 }
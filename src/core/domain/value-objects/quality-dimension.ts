@@ -2,36 +2,52 @@
  * QualityDimension Value Object
  * Immutable value object representing individual quality assessment dimensions
  *
- * Assessment dimensions (based on Zettelkasten principles):
+ * Built-in dimensions (based on Zettelkasten principles):
  * - Atomicity: One note, one idea
  * - Connectivity: Connections to other notes
  * - Clarity: Understandable independently
  * - Evidence: Sources and examples included
  * - Originality: Expressed in own words
+ *
+ * A user-defined rubric may replace these with its own dimensions
  */
 
-export type QualityDimensionType =
+export type BuiltInDimensionType =
   | 'atomicity'
   | 'connectivity'
   | 'clarity'
   | 'evidence'
   | 'originality';
 
+/**
+ * Dimension id: a built-in type or an id defined by the active rubric
+ */
+export type QualityDimensionType = string;
+
 export interface QualityDimensionConfig {
   type: QualityDimensionType;
   displayName: string;
   description: string;
   weight: number;
   icon: string;
+  anchors: string[];
 }
 
-const DIMENSION_CONFIGS: Record<QualityDimensionType, QualityDimensionConfig> = {
+export const DEFAULT_DIMENSION_ICON = '📏';
+
+const DIMENSION_CONFIGS: Record<BuiltInDimensionType, QualityDimensionConfig> = {
   atomicity: {
     type: 'atomicity',
     displayName: 'Atomicity',
     description: 'Does this note contain only one idea?',
     weight: 0.25,
     icon: '⚛️',
+    anchors: [
+      '100: Focused on a single idea, cannot easily be split',
+      '70: Main idea is clear but some side content exists',
+      '40: Two or three ideas are mixed',
+      '0: Several topics mixed, needs splitting',
+    ],
   },
   connectivity: {
     type: 'connectivity',
@@ -39,6 +55,12 @@ const DIMENSION_CONFIGS: Record<QualityDimensionType, QualityDimensionConfig> =
     description: 'Are there meaningful connections to other notes?',
     weight: 0.25,
     icon: '🔗',
+    anchors: [
+      '100: Bidirectional links with 5+ related notes',
+      '70: Linked to 3-4 notes with clear reasons',
+      '40: Only 1-2 links',
+      '0: Isolated note',
+    ],
   },
   clarity: {
     type: 'clarity',
@@ -46,6 +68,12 @@ const DIMENSION_CONFIGS: Record<QualityDimensionType, QualityDimensionConfig> =
     description: 'Is it understandable without additional context?',
     weight: 0.20,
     icon: '💡',
+    anchors: [
+      '100: Fully self-contained with a clear structure',
+      '70: Mostly understandable, needs some background',
+      '40: Requires considerable context',
+      '0: Cannot be understood on its own',
+    ],
   },
   evidence: {
     type: 'evidence',
@@ -53,6 +81,12 @@ const DIMENSION_CONFIGS: Record<QualityDimensionType, QualityDimensionConfig> =
     description: 'Are sources, examples, or evidence provided?',
     weight: 0.15,
     icon: '📚',
+    anchors: [
+      '100: Clear sources and concrete examples',
+      '70: Some sources or examples',
+      '40: Claims without sources',
+      '0: No evidence at all',
+    ],
   },
   originality: {
     type: 'originality',
@@ -60,6 +94,12 @@ const DIMENSION_CONFIGS: Record<QualityDimensionType, QualityDimensionConfig> =
     description: 'Is it expressed in your own words, not just copied?',
     weight: 0.15,
     icon: '✨',
+    anchors: [
+      '100: Entirely own words with unique insight',
+      '70: Mostly own expression, some quotes',
+      '40: Mostly quotes, little interpretation',
+      '0: Copy and paste',
+    ],
   },
 };
 
@@ -68,31 +108,44 @@ export class QualityDimension {
   private readonly _score: number;
   private readonly _feedback: string;
 
-  private constructor(type: QualityDimensionType, score: number, feedback: string) {
-    this._config = DIMENSION_CONFIGS[type];
+  private constructor(config: QualityDimensionConfig, score: number, feedback: string) {
+    this._config = config;
     this._score = this.validateScore(score);
     this._feedback = feedback;
   }
 
   /**
    * Create dimension assessment
+   * (config is required for dimensions that are not built in)
    */
   static create(
     type: QualityDimensionType,
     score: number,
-    feedback: string = ''
+    feedback: string = '',
+    config?: QualityDimensionConfig
   ): QualityDimension {
-    if (!DIMENSION_CONFIGS[type]) {
+    const resolved = config ?? (QualityDimension.isBuiltIn(type) ? DIMENSION_CONFIGS[type] : undefined);
+    if (!resolved) {
       throw new Error(`Invalid quality dimension type: ${type}`);
     }
-    return new QualityDimension(type, score, feedback);
+    return new QualityDimension(resolved, score, feedback);
   }
 
   /**
    * Restore from data
+   * (older data carries only the type; built-in configs fill in the rest)
    */
   static fromData(data: QualityDimensionData): QualityDimension {
-    return QualityDimension.create(data.type, data.score, data.feedback);
+    const builtIn = QualityDimension.isBuiltIn(data.type) ? DIMENSION_CONFIGS[data.type] : undefined;
+    const config: QualityDimensionConfig = {
+      type: data.type,
+      displayName: data.displayName ?? builtIn?.displayName ?? data.type,
+      description: builtIn?.description ?? '',
+      weight: data.weight ?? builtIn?.weight ?? 0,
+      icon: data.icon ?? builtIn?.icon ?? DEFAULT_DIMENSION_ICON,
+      anchors: builtIn?.anchors ?? [],
+    };
+    return new QualityDimension(config, data.score, data.feedback);
   }
 
   private validateScore(score: number): number {
@@ -188,21 +241,32 @@ export class QualityDimension {
       type: this._config.type,
       score: this._score,
       feedback: this._feedback,
+      displayName: this._config.displayName,
+      weight: this._config.weight,
+      icon: this._config.icon,
     };
   }
 
   /**
-   * List of all dimension types
+   * List of built-in dimension types
    */
-  static getAllTypes(): QualityDimensionType[] {
+  static getAllTypes(): BuiltInDimensionType[] {
     return ['atomicity', 'connectivity', 'clarity', 'evidence', 'originality'];
   }
 
   /**
-   * Get dimension configuration
+   * Whether the type is one of the built-in dimensions
+   */
+  static isBuiltIn(type: QualityDimensionType): type is BuiltInDimensionType {
+    return Object.prototype.hasOwnProperty.call(DIMENSION_CONFIGS, type);
+  }
+
+  /**
+   * Get built-in dimension configuration
    */
-  static getConfig(type: QualityDimensionType): QualityDimensionConfig {
-    return DIMENSION_CONFIGS[type];
+  static getConfig(type: BuiltInDimensionType): QualityDimensionConfig {
+    const config = DIMENSION_CONFIGS[type];
+    return { ...config, anchors: [...config.anchors] };
   }
 }
 
@@ -210,4 +274,7 @@ export interface QualityDimensionData {
   type: QualityDimensionType;
   score: number;
   feedback: string;
+  displayName?: string;
+  weight?: number;
+  icon?: string;
 }
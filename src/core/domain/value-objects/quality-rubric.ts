@@ -0,0 +1,143 @@
+/**
+ * QualityRubric Value Object
+ * Immutable set of quality dimensions used to score notes
+ *
+ * Rules:
+ * - At least one dimension
+ * - Dimension ids are unique and non-empty
+ * - Weights are between 0 and 1 and sum to 1
+ *
+ * The default rubric is the five built-in Zettelkasten dimensions
+ */
+
+import {
+  QualityDimension,
+  QualityDimensionConfig,
+  QualityDimensionType,
+} from './quality-dimension';
+
+export interface QualityRubricData {
+  dimensions: QualityDimensionConfig[];
+}
+
+// Allowed rounding error when checking that weights sum to 1
+const WEIGHT_SUM_TOLERANCE = 0.001;
+
+// Ids become JSON keys in the assessment prompt
+const DIMENSION_ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+export class QualityRubric {
+  private readonly _dimensions: QualityDimensionConfig[];
+
+  private constructor(dimensions: QualityDimensionConfig[]) {
+    this._dimensions = dimensions.map((d) => ({ ...d, anchors: [...d.anchors] }));
+  }
+
+  /**
+   * Create rubric from data (throws if invalid)
+   */
+  static create(data: QualityRubricData): QualityRubric {
+    const errors = QualityRubric.validate(data);
+    if (errors.length > 0) {
+      throw new Error(`Invalid quality rubric: ${errors[0]}`);
+    }
+    return new QualityRubric(data.dimensions);
+  }
+
+  /**
+   * Default rubric (built-in dimensions)
+   */
+  static default(): QualityRubric {
+    return new QualityRubric(QualityRubric.defaultData().dimensions);
+  }
+
+  static defaultData(): QualityRubricData {
+    return {
+      dimensions: QualityDimension.getAllTypes().map((type) => QualityDimension.getConfig(type)),
+    };
+  }
+
+  /**
+   * Validation errors (empty when valid)
+   */
+  static validate(data: QualityRubricData): string[] {
+    const errors: string[] = [];
+    const dimensions = data.dimensions ?? [];
+
+    if (dimensions.length === 0) {
+      errors.push('At least one dimension is required.');
+      return errors;
+    }
+
+    const ids = new Set<string>();
+    dimensions.forEach((d, i) => {
+      const label = d.displayName?.trim() || `Dimension ${i + 1}`;
+      if (!DIMENSION_ID_PATTERN.test(d.type ?? '')) {
+        errors.push(`${label}: id must start with a letter and use only a-z, 0-9 and "-".`);
+      } else if (ids.has(d.type)) {
+        errors.push(`${label}: duplicate id "${d.type}".`);
+      }
+      ids.add(d.type);
+
+      if (!d.displayName?.trim()) {
+        errors.push(`Dimension ${i + 1}: name is required.`);
+      }
+      if (typeof d.weight !== 'number' || isNaN(d.weight) || d.weight < 0 || d.weight > 1) {
+        errors.push(`${label}: weight must be between 0 and 1.`);
+      }
+    });
+
+    const sum = QualityRubric.getWeightSum(data);
+    if (Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+      errors.push(`Weights must sum to 1 (currently ${Math.round(sum * 1000) / 1000}).`);
+    }
+
+    return errors;
+  }
+
+  static getWeightSum(data: QualityRubricData): number {
+    return (data.dimensions ?? []).reduce(
+      (sum, d) => sum + (typeof d.weight === 'number' && !isNaN(d.weight) ? d.weight : 0),
+      0
+    );
+  }
+
+  // Getters
+  get dimensions(): QualityDimensionConfig[] {
+    return this._dimensions.map((d) => ({ ...d, anchors: [...d.anchors] }));
+  }
+
+  get dimensionTypes(): QualityDimensionType[] {
+    return this._dimensions.map((d) => d.type);
+  }
+
+  /**
+   * Get dimension by id
+   */
+  getDimension(type: QualityDimensionType): QualityDimensionConfig | undefined {
+    const found = this._dimensions.find((d) => d.type === type);
+    return found ? { ...found, anchors: [...found.anchors] } : undefined;
+  }
+
+  has(type: QualityDimensionType): boolean {
+    return this._dimensions.some((d) => d.type === type);
+  }
+
+  /**
+   * Find dimension by id or display name (case-insensitive)
+   */
+  findDimension(label: string): QualityDimensionConfig | undefined {
+    const normalized = label.trim().toLowerCase();
+    const found = this._dimensions.find(
+      (d) => d.type === normalized || d.displayName.trim().toLowerCase() === normalized
+    );
+    return found ? { ...found, anchors: [...found.anchors] } : undefined;
+  }
+
+  /**
+   * Serialize
+   */
+  toData(): QualityRubricData {
+    return { dimensions: this.dimensions };
+  }
+}
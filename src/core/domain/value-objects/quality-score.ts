@@ -2,7 +2,8 @@
  * QualityScore Value Object
  * Immutable value object representing overall note quality score
  *
- * Calculated as weighted average of 5 dimensions:
+ * Calculated as weighted average of the rubric dimensions.
+ * Default rubric:
  * - Atomicity (25%): One note, one idea
  * - Connectivity (25%): Links to other notes
  * - Clarity (20%): Self-explanatory content
@@ -15,6 +16,7 @@ import {
   QualityDimensionData,
   QualityDimensionType,
 } from './quality-dimension';
+import { QualityRubric } from './quality-rubric';
 
 export interface QualityScoreData {
   totalScore: number;
@@ -40,12 +42,14 @@ export class QualityScore {
   /**
    * Create quality score from dimensions
    */
-  static create(dimensions: QualityDimension[]): QualityScore {
-    const allTypes = QualityDimension.getAllTypes();
+  static create(
+    dimensions: QualityDimension[],
+    rubric: QualityRubric = QualityRubric.default()
+  ): QualityScore {
     const providedTypes = new Set(dimensions.map((d) => d.type));
 
-    // Check if all dimensions are provided
-    for (const type of allTypes) {
+    // Check if all rubric dimensions are provided
+    for (const type of rubric.dimensionTypes) {
       if (!providedTypes.has(type)) {
         throw new Error(`Missing quality dimension: ${type}`);
       }
@@ -55,21 +59,21 @@ export class QualityScore {
   }
 
   /**
-   * Convenience creation from score object
+   * Convenience creation from score object keyed by dimension id
    */
-  static fromScores(scores: {
-    atomicity: { score: number; feedback?: string };
-    connectivity: { score: number; feedback?: string };
-    clarity: { score: number; feedback?: string };
-    evidence: { score: number; feedback?: string };
-    originality: { score: number; feedback?: string };
-  }): QualityScore {
-    const dimensions = QualityDimension.getAllTypes().map((type) => {
-      const data = scores[type];
-      return QualityDimension.create(type, data.score, data.feedback || '');
+  static fromScores(
+    scores: Record<QualityDimensionType, { score: number; feedback?: string }>,
+    rubric: QualityRubric = QualityRubric.default()
+  ): QualityScore {
+    const dimensions = rubric.dimensions.map((config) => {
+      const data = scores[config.type];
+      if (!data) {
+        throw new Error(`Missing quality dimension: ${config.type}`);
+      }
+      return QualityDimension.create(config.type, data.score, data.feedback || '', config);
     });
 
-    return QualityScore.create(dimensions);
+    return QualityScore.create(dimensions, rubric);
   }
 
   /**
@@ -82,12 +86,22 @@ export class QualityScore {
 
   private calculateTotalScore(): number {
     let totalWeightedScore = 0;
+    let totalWeight = 0;
 
     this._dimensions.forEach((dimension) => {
       totalWeightedScore += dimension.weightedScore;
+      totalWeight += dimension.weight;
     });
 
-    return Math.round(totalWeightedScore);
+    // Unweighted average when weights are unknown (e.g. restored legacy data)
+    if (totalWeight <= 0) {
+      const scores = this.getAllDimensions().map((d) => d.score);
+      return scores.length > 0
+        ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length)
+        : 0;
+    }
+
+    return Math.round(totalWeightedScore / totalWeight);
   }
 
   // Getters
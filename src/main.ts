@@ -13,18 +13,56 @@ import {
   updateAIServiceSettings,
   getAIService,
   AssessmentHistoryService,
+  BatchAssessmentService,
+  UsageLedgerService,
+  MaturityAuditService,
+  ReviewScheduleService,
+  ResponseCacheService,
+  AutoAssessService,
+  ConnectionCandidateRanker,
+  UndoNoteSplitUseCase,
+  UndoNoteEditUseCase,
+  type ResponseCacheEntry,
+  type NoteSplitOperation,
+  type NoteEditOperation,
 } from './core/application';
-import type { AssessmentRecord } from './core/domain';
+import type {
+  AssessmentProfile,
+  AssessmentRecord,
+  BatchJob,
+  BatchJobScope,
+  MaturityAuditEntry,
+  MaturityStageConfig,
+  NoteData,
+  QualityDimensionConfig,
+  ReviewState,
+  UsageRecord,
+} from './core/domain';
 import {
   ClaudeProvider,
   OpenAIProvider,
   GeminiProvider,
   GrokProvider,
+  LocalProvider,
   ObsidianNoteRepository,
+  createProvider,
 } from './core/adapters';
-import { AI_PROVIDERS } from './core/domain';
+import {
+  MaturityLevel,
+  NOTE_TYPE_KEY,
+  QualityRubric,
+  getDefaultModelId,
+  selectAssessmentProfile,
+} from './core/domain';
 import { CultivatorView, VIEW_TYPE_CULTIVATOR } from './views/cultivator-view';
+import { GardenDashboardView, VIEW_TYPE_GARDEN_DASHBOARD } from './views/garden-dashboard-view';
 import { AssessmentModal } from './views/assessment-modal';
+import { BatchAssessmentModal } from './views/batch-assessment-modal';
+import { FolderSuggestModal, TagSuggestModal } from './views/scope-suggest-modals';
+import { MaturityBadgeManager } from './views/maturity-badges';
+import { FrontmatterMigrationModal } from './views/frontmatter-migration-modal';
+import { MaturityStageRemapModal } from './views/maturity-stage-remap-modal';
+import { WiltingReviewModal } from './views/wilting-review-modal';
 import { CultivatorSettingTab } from './views/settings/settings-tab';
 import { DEFAULT_SETTINGS, type PluginSettings } from './types';
 
@@ -33,16 +71,53 @@ export default class EvergreenNoteCultivatorPlugin extends Plugin {
   private aiService: AIService | null = null;
   private noteRepository!: ObsidianNoteRepository;
   private historyService!: AssessmentHistoryService;
+  private usageLedger!: UsageLedgerService;
+  private maturityAudit!: MaturityAuditService;
+  private reviewSchedule!: ReviewScheduleService;
+  private responseCache!: ResponseCacheService;
+  private autoAssess!: AutoAssessService;
+  private connectionRanker!: ConnectionCandidateRanker;
+  private batchService!: BatchAssessmentService;
+  private badgeManager: MaturityBadgeManager | null = null;
+  private lastSplitOperation: NoteSplitOperation | null = null;
+  private lastEditOperation: NoteEditOperation | null = null;
+  private dataQueue: Promise<void> = Promise.resolve();
 
   async onload(): Promise<void> {
     await this.loadSettings();
 
     // Initialize repository
-    this.noteRepository = new ObsidianNoteRepository(this.app);
+    this.noteRepository = new ObsidianNoteRepository(this.app, this.settings.frontmatterKey);
 
     // Initialize AI Service
     this.initializeAIService();
 
+    // Initialize Usage Ledger (token/cost tracking for budget enforcement)
+    this.usageLedger = new UsageLedgerService(
+      async () => {
+        const data = await this.loadData();
+        return data?.usageLedger ?? null;
+      },
+      async (records: UsageRecord[]) => {
+        await this.updateData((data) => {
+          data.usageLedger = records;
+        });
+      },
+    );
+    await this.usageLedger.initialize();
+    this.aiService?.setUsageLedger(this.usageLedger);
+    this.aiService?.onBudgetWarning((warning) => {
+      const spent = `$${warning.spent.toFixed(2)} / $${warning.limit.toFixed(2)}`;
+      if (warning.exhausted) {
+        new Notice(`⛔ Monthly AI budget exhausted (${spent}). New requests are blocked.`, 10000);
+        if (this.batchService?.isRunning()) {
+          this.batchService.pause();
+        }
+      } else {
+        new Notice(`⚠️ ${warning.threshold}% of monthly AI budget used (${spent}).`, 8000);
+      }
+    });
+
     // Initialize Assessment History Service
     this.historyService = new AssessmentHistoryService(
       this.settings.history.maxPerNote,
@@ -51,19 +126,106 @@ export default class EvergreenNoteCultivatorPlugin extends Plugin {
         return data?.assessmentHistory ?? null;
       },
       async (historyData: Record<string, AssessmentRecord[]>) => {
-        const data = (await this.loadData()) ?? {};
-        data.assessmentHistory = historyData;
-        await this.saveData(data);
+        await this.updateData((data) => {
+          data.assessmentHistory = historyData;
+        });
       },
     );
     await this.historyService.initialize();
 
+    // Initialize Maturity Audit (changes made by the decay policy)
+    this.maturityAudit = new MaturityAuditService(
+      async () => {
+        const data = await this.loadData();
+        return data?.maturityAudit ?? null;
+      },
+      async (entries: MaturityAuditEntry[]) => {
+        await this.updateData((data) => {
+          data.maturityAudit = entries;
+        });
+      },
+    );
+    await this.maturityAudit.initialize();
+
+    // Initialize Review Schedule (spaced cultivation queue)
+    this.reviewSchedule = new ReviewScheduleService(
+      async () => {
+        const data = await this.loadData();
+        return data?.reviewSchedule ?? null;
+      },
+      async (states: Record<string, ReviewState>) => {
+        await this.updateData((data) => {
+          data.reviewSchedule = states;
+        });
+      },
+    );
+    await this.reviewSchedule.initialize();
+
+    // Initialize Response Cache (skips paid requests for unchanged notes)
+    this.responseCache = new ResponseCacheService(
+      this.getCacheLimits(),
+      async () => {
+        const data = await this.loadData();
+        return data?.responseCache ?? null;
+      },
+      async (entries: ResponseCacheEntry[]) => {
+        await this.updateData((data) => {
+          data.responseCache = entries;
+        });
+      },
+    );
+    await this.responseCache.initialize();
+
+    // Change detection for automatic assessments
+    this.autoAssess = new AutoAssessService(
+      (notePath) => this.historyService.getLatestRecord(notePath)?.contentHash ?? null
+    );
+
+    // Connection candidate ranking (keeps its index between assessments)
+    this.connectionRanker = new ConnectionCandidateRanker(this.noteRepository);
+
+    // Initialize Batch Assessment Service
+    this.batchService = new BatchAssessmentService(
+      this.noteRepository,
+      this.historyService,
+      async () => {
+        const data = await this.loadData();
+        return data?.batchJob ?? null;
+      },
+      async (job: BatchJob | null) => {
+        await this.updateData((data) => {
+          data.batchJob = job;
+        });
+      },
+    );
+    await this.batchService.initialize();
+
+    // Keep history and review state attached to notes when they are renamed
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) => {
+        if (file instanceof TFile) {
+          this.historyService.renameNote(oldPath, file.path);
+          this.reviewSchedule.renameNote(oldPath, file.path);
+          this.autoAssess.renameNote(oldPath, file.path);
+        }
+      })
+    );
+
+    // Maturity badges (explorer, tab headers, hover previews)
+    this.badgeManager = new MaturityBadgeManager(this.app, this);
+    this.addChild(this.badgeManager);
+
     // Register view
     this.registerView(
       VIEW_TYPE_CULTIVATOR,
       (leaf) => new CultivatorView(leaf, this)
     );
 
+    this.registerView(
+      VIEW_TYPE_GARDEN_DASHBOARD,
+      (leaf) => new GardenDashboardView(leaf, this)
+    );
+
     // Register commands
     this.addCommand({
       id: 'assess-current-note',
@@ -83,12 +245,105 @@ export default class EvergreenNoteCultivatorPlugin extends Plugin {
       callback: () => this.activateView(),
     });
 
+    this.addCommand({
+      id: 'open-garden-dashboard',
+      name: 'Open garden dashboard',
+      callback: () => this.activateDashboard(),
+    });
+
     this.addCommand({
       id: 'update-maturity',
       name: 'Update note maturity level',
       callback: () => this.updateMaturity(),
     });
 
+    this.addCommand({
+      id: 'review-wilting-notes',
+      name: 'Review wilting notes',
+      callback: () => new WiltingReviewModal(this.app, this).open(),
+    });
+
+    this.addCommand({
+      id: 'undo-last-split',
+      name: 'Undo last note split',
+      checkCallback: (checking: boolean) => {
+        if (!this.lastSplitOperation) return false;
+        if (!checking) this.undoLastSplit();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'undo-last-edit',
+      name: 'Undo last applied improvement edit',
+      checkCallback: (checking: boolean) => {
+        if (!this.lastEditOperation) return false;
+        if (!checking) this.undoLastEdit();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'clear-response-cache',
+      name: 'Clear cached AI responses',
+      callback: () => this.clearResponseCache(),
+    });
+
+    this.addCommand({
+      id: 'migrate-frontmatter-key',
+      name: 'Migrate maturity frontmatter key',
+      callback: () => new FrontmatterMigrationModal(this.app, this).open(),
+    });
+
+    this.addCommand({
+      id: 'remap-maturity-stages',
+      name: 'Remap obsolete maturity stages',
+      callback: () => new MaturityStageRemapModal(this.app, this).open(),
+    });
+
+    this.addCommand({
+      id: 'batch-assess-vault',
+      name: 'Batch assess whole vault',
+      callback: () => this.startBatchAssessment({ type: 'vault' }),
+    });
+
+    this.addCommand({
+      id: 'batch-assess-folder',
+      name: 'Batch assess folder',
+      callback: () => {
+        new FolderSuggestModal(this.app, (folder) => {
+          this.startBatchAssessment({ type: 'folder', folder: folder.path });
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: 'batch-assess-tag',
+      name: 'Batch assess notes with tag',
+      callback: () => {
+        new TagSuggestModal(this.app, (tag) => {
+          this.startBatchAssessment({ type: 'tag', tag });
+        }).open();
+      },
+    });
+
+    this.addCommand({
+      id: 'show-batch-progress',
+      name: 'Show batch assessment progress',
+      callback: () => new BatchAssessmentModal(this.app, this).open(),
+    });
+
+    this.addCommand({
+      id: 'resume-batch-assessment',
+      name: 'Resume batch assessment',
+      checkCallback: (checking) => {
+        const canResume = this.batchService.hasUnfinishedJob() && !this.batchService.isRunning();
+        if (checking) return canResume;
+        this.resumeBatchAssessment();
+        return true;
+      },
+    });
+
     // Add ribbon icon
     this.addRibbonIcon('sprout', 'Evergreen Note Cultivator', () => {
       this.activateView();
@@ -104,11 +359,20 @@ export default class EvergreenNoteCultivatorPlugin extends Plugin {
       });
     }
 
+    // Resume a batch job that was interrupted by a restart
+    if (this.batchService.wasInterrupted()) {
+      this.app.workspace.onLayoutReady(() => {
+        new Notice('Resuming interrupted batch assessment...');
+        this.resumeBatchAssessment();
+      });
+    }
+
     console.log('Evergreen Note Cultivator: Plugin loaded');
   }
 
   async onunload(): Promise<void> {
     console.log('Evergreen Note Cultivator: Plugin unloaded');
+    this.batchService?.suspend();
     this.aiService = null;
   }
 
@@ -122,10 +386,22 @@ export default class EvergreenNoteCultivatorPlugin extends Plugin {
         ...DEFAULT_SETTINGS.ai,
         apiKeys: { ...DEFAULT_SETTINGS.ai.apiKeys },
         models: { ...DEFAULT_SETTINGS.ai.models },
+        budgetWarningThresholds: [...DEFAULT_SETTINGS.ai.budgetWarningThresholds],
+        local: { ...DEFAULT_SETTINGS.ai.local },
+        retry: { ...DEFAULT_SETTINGS.ai.retry },
+        fallbacks: [],
       },
       display: { ...DEFAULT_SETTINGS.display },
       assessment: { ...DEFAULT_SETTINGS.assessment },
       history: { ...DEFAULT_SETTINGS.history },
+      cache: { ...DEFAULT_SETTINGS.cache },
+      review: { ...DEFAULT_SETTINGS.review },
+      heuristics: { ...DEFAULT_SETTINGS.heuristics },
+      coaching: { ...DEFAULT_SETTINGS.coaching },
+      rubric: QualityRubric.defaultData(),
+      profiles: [],
+      maturity: MaturityLevel.defaultStagesData(),
+      decay: { ...DEFAULT_SETTINGS.decay },
     };
 
     if (loaded) {
@@ -144,9 +420,30 @@ export default class EvergreenNoteCultivatorPlugin extends Plugin {
         if (loaded.ai.temperature !== undefined) {
           this.settings.ai.temperature = loaded.ai.temperature;
         }
+        if (loaded.ai.noteTokenBudget !== undefined) {
+          this.settings.ai.noteTokenBudget = loaded.ai.noteTokenBudget;
+        }
+        if (loaded.ai.generationOverrides) {
+          this.settings.ai.generationOverrides = { ...loaded.ai.generationOverrides };
+        }
         if (loaded.ai.budgetLimit !== undefined) {
           this.settings.ai.budgetLimit = loaded.ai.budgetLimit;
         }
+        if (Array.isArray(loaded.ai.budgetWarningThresholds)) {
+          this.settings.ai.budgetWarningThresholds = loaded.ai.budgetWarningThresholds;
+        }
+        if (loaded.ai.outputLanguage) {
+          this.settings.ai.outputLanguage = loaded.ai.outputLanguage;
+        }
+        if (loaded.ai.local) {
+          this.settings.ai.local = { ...this.settings.ai.local, ...loaded.ai.local };
+        }
+        if (loaded.ai.retry) {
+          this.settings.ai.retry = { ...this.settings.ai.retry, ...loaded.ai.retry };
+        }
+        if (Array.isArray(loaded.ai.fallbacks)) {
+          this.settings.ai.fallbacks = loaded.ai.fallbacks;
+        }
       }
 
       // Merge display settings
@@ -164,22 +461,96 @@ export default class EvergreenNoteCultivatorPlugin extends Plugin {
         this.settings.history = { ...this.settings.history, ...loaded.history };
       }
 
+      // Merge cache settings
+      if (loaded.cache) {
+        this.settings.cache = { ...this.settings.cache, ...loaded.cache };
+      }
+
+      // Custom rubric replaces the default one as a whole
+      if (Array.isArray(loaded.rubric?.dimensions)) {
+        this.settings.rubric = {
+          dimensions: loaded.rubric.dimensions.map((d: QualityDimensionConfig) => ({
+            ...d,
+            anchors: Array.isArray(d.anchors) ? [...d.anchors] : [],
+          })),
+        };
+      }
+
+      if (Array.isArray(loaded.profiles)) {
+        this.settings.profiles = loaded.profiles.map((p: AssessmentProfile) => ({
+          ...p,
+          match: {
+            folders: p.match?.folders ?? [],
+            tags: p.match?.tags ?? [],
+            noteTypes: p.match?.noteTypes ?? [],
+          },
+          rubric: p.rubric ?? null,
+          promptText: p.promptText ?? '',
+          maturityThresholds: p.maturityThresholds ?? null,
+        }));
+      }
+
+      // Merge review queue settings
+      if (loaded.review) {
+        this.settings.review = { ...this.settings.review, ...loaded.review };
+      }
+
+      // Merge offline pre-assessment settings
+      if (loaded.heuristics) {
+        this.settings.heuristics = { ...this.settings.heuristics, ...loaded.heuristics };
+      }
+
+      // Merge coaching settings
+      if (loaded.coaching) {
+        this.settings.coaching = { ...this.settings.coaching, ...loaded.coaching };
+      }
+
+      // Merge maturity decay policy
+      if (loaded.decay) {
+        this.settings.decay = { ...this.settings.decay, ...loaded.decay };
+      }
+
+      // Custom maturity stages replace the default ones as a whole
+      if (Array.isArray(loaded.maturity?.stages)) {
+        this.settings.maturity = {
+          stages: loaded.maturity.stages.map((stage: MaturityStageConfig) => ({ ...stage })),
+          mappings: { ...(loaded.maturity.mappings ?? {}) },
+        };
+      }
+
       // Merge frontmatter key
       if (loaded.frontmatterKey) {
         this.settings.frontmatterKey = loaded.frontmatterKey;
       }
     }
+
+    MaturityLevel.configure(this.settings.maturity);
   }
 
   async saveSettings(): Promise<void> {
-    // Preserve assessmentHistory when saving settings
-    const existing = (await this.loadData()) ?? {};
-    const dataToSave = {
-      ...this.settings,
-      assessmentHistory: existing.assessmentHistory,
-    };
-    await this.saveData(dataToSave);
+    // Preserve stored data (assessmentHistory, batchJob, usageLedger, responseCache, maturityAudit, reviewSchedule) when saving settings
+    await this.updateData((data) => {
+      Object.assign(data, this.settings);
+    });
+    MaturityLevel.configure(this.settings.maturity);
+    this.noteRepository?.setMaturityKey(this.settings.frontmatterKey);
+    this.responseCache?.updateLimits(this.getCacheLimits());
     this.updateAIService();
+    this.badgeManager?.refreshAll();
+  }
+
+  /**
+   * Read-modify-write plugin data, serialized so concurrent writers
+   * (settings, history, batch queue) never overwrite each other
+   */
+  private updateData(mutate: (data: Record<string, unknown>) => void): Promise<void> {
+    const next = this.dataQueue.then(async () => {
+      const data = (await this.loadData()) ?? {};
+      mutate(data);
+      await this.saveData(data);
+    });
+    this.dataQueue = next.catch(() => undefined);
+    return next;
   }
 
   private initializeAIService(): void {
@@ -187,6 +558,15 @@ export default class EvergreenNoteCultivatorPlugin extends Plugin {
       provider: this.settings.ai.provider,
       apiKeys: this.settings.ai.apiKeys,
       models: this.settings.ai.models,
+      budgetLimit: this.settings.ai.budgetLimit,
+      budgetWarningThresholds: this.settings.ai.budgetWarningThresholds,
+      retry: this.settings.ai.retry,
+      fallbacks: this.settings.ai.fallbacks,
+      generation: {
+        maxTokens: this.settings.ai.maxTokens,
+        temperature: this.settings.ai.temperature,
+        overrides: this.settings.ai.generationOverrides,
+      },
     });
 
     // Register all providers
@@ -195,21 +575,18 @@ export default class EvergreenNoteCultivatorPlugin extends Plugin {
       ['openai', new OpenAIProvider()],
       ['gemini', new GeminiProvider()],
       ['grok', new GrokProvider()],
+      ['local', new LocalProvider()],
     ];
 
     providers.forEach(([type, provider]) => {
-      // Set API key if available
-      const apiKey = this.settings.ai.apiKeys[type];
-      if (apiKey) {
-        provider.setApiKey(apiKey);
-      }
-
-      // Set model
-      const model = this.settings.ai.models[type] ?? AI_PROVIDERS[type].defaultModel;
-      provider.setModel(model);
-
       this.aiService?.registerProvider(type, provider);
     });
+    this.aiService.setProviderFactory((type, model) => {
+      const provider = createProvider(type);
+      if (provider) this.applyProviderSettings(provider, type, model);
+      return provider;
+    });
+    this.configureProviders();
   }
 
   private updateAIService(): void {
@@ -217,26 +594,53 @@ export default class EvergreenNoteCultivatorPlugin extends Plugin {
       provider: this.settings.ai.provider,
       apiKeys: this.settings.ai.apiKeys,
       models: this.settings.ai.models,
+      budgetLimit: this.settings.ai.budgetLimit,
+      budgetWarningThresholds: this.settings.ai.budgetWarningThresholds,
+      retry: this.settings.ai.retry,
+      fallbacks: this.settings.ai.fallbacks,
+      generation: {
+        maxTokens: this.settings.ai.maxTokens,
+        temperature: this.settings.ai.temperature,
+        overrides: this.settings.ai.generationOverrides,
+      },
     });
 
-    // Update provider configurations
+    this.configureProviders();
+  }
+
+  /**
+   * Apply API keys, models and local server options to the registered providers
+   */
+  private configureProviders(): void {
     const service = getAIService();
     if (!service) return;
 
-    (['claude', 'openai', 'gemini', 'grok'] as LLMProviderType[]).forEach((type) => {
+    service.getAvailableProviders().forEach((type) => {
       const provider = service.getProvider(type);
-      if (provider) {
-        const apiKey = this.settings.ai.apiKeys[type];
-        if (apiKey) {
-          provider.setApiKey(apiKey);
-        }
+      if (!provider) return;
 
-        const model = this.settings.ai.models[type] ?? AI_PROVIDERS[type].defaultModel;
-        provider.setModel(model);
-      }
+      this.applyProviderSettings(provider, type, this.settings.ai.models[type] ?? getDefaultModelId(type));
     });
   }
 
+  private applyProviderSettings(provider: ILLMProvider, type: LLMProviderType, model: string): void {
+    provider.setApiKey(this.settings.ai.apiKeys[type] ?? '');
+    provider.setModel(model);
+
+    if (provider instanceof LocalProvider) {
+      provider.setBaseUrl(this.settings.ai.local.baseUrl);
+      provider.setSystemPromptAsUser(this.settings.ai.local.systemPromptAsUser);
+    }
+  }
+
+  /**
+   * Local OpenAI-compatible provider (model discovery in settings)
+   */
+  getLocalProvider(): LocalProvider | null {
+    const provider = this.aiService?.getProvider('local');
+    return provider instanceof LocalProvider ? provider : null;
+  }
+
   getCurrentProvider(): ILLMProvider | undefined {
     return this.aiService?.getCurrentProvider();
   }
@@ -253,6 +657,194 @@ export default class EvergreenNoteCultivatorPlugin extends Plugin {
     return this.historyService;
   }
 
+  getMaturityAuditService(): MaturityAuditService {
+    return this.maturityAudit;
+  }
+
+  getReviewScheduleService(): ReviewScheduleService {
+    return this.reviewSchedule;
+  }
+
+  getAutoAssessService(): AutoAssessService {
+    return this.autoAssess;
+  }
+
+  getConnectionRanker(): ConnectionCandidateRanker {
+    return this.connectionRanker;
+  }
+
+  /**
+   * Assessment profile matching the note (null for the default assessment)
+   */
+  getAssessmentProfile(note: NoteData): AssessmentProfile | null {
+    const tags = note.metadata.tags;
+    const noteType = note.metadata[NOTE_TYPE_KEY];
+    return selectAssessmentProfile(this.settings.profiles, {
+      path: note.path,
+      tags: Array.isArray(tags) ? tags : typeof tags === 'string' ? [tags] : [],
+      noteType: typeof noteType === 'string' ? noteType : undefined,
+    });
+  }
+
+  /**
+   * Active quality rubric (default rubric while the configured one is invalid)
+   */
+  getQualityRubric(): QualityRubric {
+    if (QualityRubric.validate(this.settings.rubric).length > 0) {
+      return QualityRubric.default();
+    }
+    return QualityRubric.create(this.settings.rubric);
+  }
+
+  getUsageLedger(): UsageLedgerService {
+    return this.usageLedger;
+  }
+
+  /**
+   * Response cache for use cases, or null when caching is disabled
+   */
+  getResponseCache(): ResponseCacheService | null {
+    return this.settings.cache.enabled ? this.responseCache : null;
+  }
+
+  /**
+   * Token budget for note content (a local model also has to fit the prompt and reply in its context)
+   */
+  getNoteTokenBudget(): number {
+    const { noteTokenBudget, provider, local } = this.settings.ai;
+    return provider === 'local'
+      ? Math.min(noteTokenBudget, Math.floor(local.contextWindow / 2))
+      : noteTokenBudget;
+  }
+
+  setLastSplitOperation(operation: NoteSplitOperation): void {
+    this.lastSplitOperation = operation;
+  }
+
+  /**
+   * Restore the parent note and trash the notes created by the last split
+   */
+  async undoLastSplit(): Promise<boolean> {
+    const operation = this.lastSplitOperation;
+    if (!operation) {
+      new Notice('Nothing to undo.');
+      return false;
+    }
+
+    const useCase = new UndoNoteSplitUseCase(this.noteRepository);
+    const result = await useCase.execute(operation);
+    if (!result.success) {
+      new Notice(`❌ Undo failed: ${result.error ?? 'Unknown error'}`);
+      return false;
+    }
+
+    this.lastSplitOperation = null;
+    new Notice(`↩️ Split undone. Removed ${result.removedPaths.length} note(s).`);
+    return true;
+  }
+
+  setLastEditOperation(operation: NoteEditOperation): void {
+    this.lastEditOperation = operation;
+  }
+
+  /**
+   * Restore the note content from before the last applied improvement edit
+   */
+  async undoLastEdit(): Promise<boolean> {
+    const operation = this.lastEditOperation;
+    if (!operation) {
+      new Notice('Nothing to undo.');
+      return false;
+    }
+
+    const useCase = new UndoNoteEditUseCase(this.noteRepository);
+    const result = await useCase.execute(operation);
+    if (!result.success) {
+      new Notice(`❌ Undo failed: ${result.error ?? 'Unknown error'}`);
+      return false;
+    }
+
+    this.lastEditOperation = null;
+    new Notice(`↩️ Edit undone in ${operation.notePath.replace(/\.md$/, '')}.`);
+    return true;
+  }
+
+  async clearResponseCache(): Promise<void> {
+    const count = this.responseCache.size;
+    await this.responseCache.clear();
+    new Notice(`🧹 Cleared ${count} cached AI response(s).`);
+  }
+
+  private getCacheLimits(): { ttlMs: number; maxEntries: number } {
+    return {
+      ttlMs: this.settings.cache.ttlDays * 24 * 60 * 60 * 1000,
+      maxEntries: this.settings.cache.maxEntries,
+    };
+  }
+
+  getBatchService(): BatchAssessmentService {
+    return this.batchService;
+  }
+
+  async startBatchAssessment(scope: BatchJobScope): Promise<void> {
+    if (!this.aiService?.isAvailable()) {
+      new Notice('Please complete AI settings first. (Settings → Evergreen Note Cultivator)');
+      return;
+    }
+
+    if (this.batchService.isRunning()) {
+      new Notice('A batch assessment is already running.');
+      new BatchAssessmentModal(this.app, this).open();
+      return;
+    }
+
+    try {
+      const job = await this.batchService.createJob(scope);
+      if (job.items.length === 0) {
+        new Notice('No notes found for this scope.');
+        return;
+      }
+      new BatchAssessmentModal(this.app, this).open();
+      await this.resumeBatchAssessment();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      new Notice(`❌ Batch assessment failed: ${message}`);
+    }
+  }
+
+  async resumeBatchAssessment(): Promise<void> {
+    const provider = this.aiService?.getCurrentProvider();
+    if (!this.aiService?.isAvailable() || !provider) {
+      new Notice('Please complete AI settings first. (Settings → Evergreen Note Cultivator)');
+      return;
+    }
+
+    const budgetError = this.aiService.checkBudget();
+    if (budgetError) {
+      new Notice(`❌ ${budgetError}`);
+      return;
+    }
+
+    await this.batchService.run(provider, {
+      concurrency: this.settings.assessment.batchConcurrency,
+      recordHistory: this.settings.history.enabled,
+      responseCache: this.getResponseCache(),
+      outputLanguage: this.settings.ai.outputLanguage,
+      rubric: this.getQualityRubric(),
+      resolveProfile: (note) => this.getAssessmentProfile(note),
+      heuristicWeight: this.settings.heuristics.blendWeight,
+      noteTokenBudget: this.getNoteTokenBudget(),
+    });
+
+    const job = this.batchService.getJob();
+    const progress = this.batchService.getProgress();
+    if (job?.status === 'completed' && progress) {
+      new Notice(
+        `✅ Batch assessment complete: ${progress.done} assessed, ${progress.skipped} skipped, ${progress.failed} failed.`
+      );
+    }
+  }
+
   async activateView(): Promise<void> {
     const { workspace } = this.app;
 
@@ -273,6 +865,24 @@ export default class EvergreenNoteCultivatorPlugin extends Plugin {
     }
   }
 
+  async activateDashboard(): Promise<void> {
+    const { workspace } = this.app;
+
+    const leaves = workspace.getLeavesOfType(VIEW_TYPE_GARDEN_DASHBOARD);
+    if (leaves.length > 0) {
+      workspace.revealLeaf(leaves[0]);
+      const view = leaves[0].view;
+      if (view instanceof GardenDashboardView) {
+        await view.refresh();
+      }
+      return;
+    }
+
+    const leaf = workspace.getLeaf('tab');
+    await leaf.setViewState({ type: VIEW_TYPE_GARDEN_DASHBOARD, active: true });
+    workspace.revealLeaf(leaf);
+  }
+
   private async assessCurrentNote(): Promise<void> {
     const activeFile = this.app.workspace.getActiveFile();
 
@@ -3,7 +3,17 @@
  * Evergreen Note Cultivator
  */
 
-import type { LLMProviderType } from './core/domain';
+import { DEFAULT_LOCAL_BASE_URL, MaturityLevel, QualityRubric } from './core/domain';
+import { DEFAULT_NOTE_TOKEN_BUDGET, DEFAULT_RETRY_POLICY } from './core/application';
+import type { FallbackTarget, GenerationOverride, GenerationPurpose, RetryPolicy } from './core/application';
+import type {
+  AssessmentProfile,
+  LLMProviderType,
+  MaturityDecayPolicy,
+  MaturityStagesData,
+  OutputLanguage,
+  QualityRubricData,
+} from './core/domain';
 
 /**
  * AI 설정
@@ -14,7 +24,28 @@ export interface AISettings {
   models: Partial<Record<LLMProviderType, string>>;
   maxTokens: number;
   temperature: number;
+  // Per-feature maxTokens/temperature (unset values use the global ones)
+  generationOverrides: Partial<Record<GenerationPurpose, GenerationOverride>>;
+  // Estimated tokens of note content sent as-is; longer notes are condensed section by section
+  noteTokenBudget: number;
   budgetLimit?: number;
+  budgetWarningThresholds: number[];
+  outputLanguage: OutputLanguage;
+  local: LocalProviderSettings;
+  retry: RetryPolicy;
+  // Tried in order when the selected provider keeps failing
+  fallbacks: FallbackTarget[];
+}
+
+/**
+ * 로컬 OpenAI 호환 서버 설정 (Ollama, llama.cpp, LM Studio)
+ */
+export interface LocalProviderSettings {
+  baseUrl: string;
+  // Send system prompts inside the user message (models that ignore the system role)
+  systemPromptAsUser: boolean;
+  // Context length the server runs the model with (limits how much of a note is sent)
+  contextWindow: number;
 }
 
 /**
@@ -22,6 +53,7 @@ export interface AISettings {
  */
 export interface DisplaySettings {
   showMaturityInExplorer: boolean;
+  showScoreInBadges: boolean;
   showScoreInSidebar: boolean;
   autoOpenSidebar: boolean;
 }
@@ -31,9 +63,16 @@ export interface DisplaySettings {
  */
 export interface AssessmentSettings {
   autoAssessOnOpen: boolean;
+  // Assess the open note once it has not been edited for autoAssessIdleSeconds
+  autoAssessAfterEdit: boolean;
+  autoAssessIdleSeconds: number;
+  // Folders (with subfolders) never assessed automatically
+  autoAssessExcludedFolders: string[];
   showDetailedFeedback: boolean;
   enableSplitSuggestions: boolean;
   enableConnectionSuggestions: boolean;
+  connectionCandidateLimit: number;
+  batchConcurrency: number;
 }
 
 /**
@@ -44,6 +83,42 @@ export interface HistorySettings {
   enabled: boolean;
 }
 
+/**
+ * 응답 캐시 설정
+ */
+export interface CacheSettings {
+  enabled: boolean;
+  ttlDays: number;
+  maxEntries: number;
+}
+
+/**
+ * 리뷰(가꾸기) 대기열 설정
+ */
+export interface ReviewSettings {
+  showInSidebar: boolean;
+  // Interval of the first maturity stage; doubles with each stage
+  baseIntervalDays: number;
+  snoozeDays: number;
+}
+
+/**
+ * 오프라인 사전 평가(휴리스틱) 설정
+ */
+export interface HeuristicSettings {
+  showInSidebar: boolean;
+  // Share of the heuristic score blended into LLM scores (0-1, 0 = LLM only)
+  blendWeight: number;
+}
+
+/**
+ * 코칭 대화 설정
+ */
+export interface CoachingSettings {
+  // Folder for transcripts saved as notes (empty: next to the coached note)
+  transcriptFolder: string;
+}
+
 /**
  * 플러그인 설정
  */
@@ -52,6 +127,14 @@ export interface PluginSettings {
   display: DisplaySettings;
   assessment: AssessmentSettings;
   history: HistorySettings;
+  cache: CacheSettings;
+  review: ReviewSettings;
+  heuristics: HeuristicSettings;
+  coaching: CoachingSettings;
+  rubric: QualityRubricData;
+  profiles: AssessmentProfile[];
+  maturity: MaturityStagesData;
+  decay: MaturityDecayPolicy;
   frontmatterKey: string;
 }
 
@@ -65,21 +148,65 @@ export const DEFAULT_SETTINGS: PluginSettings = {
     models: {},
     maxTokens: 4096,
     temperature: 0.7,
+    generationOverrides: {},
+    noteTokenBudget: DEFAULT_NOTE_TOKEN_BUDGET,
+    budgetWarningThresholds: [50, 80, 90],
+    outputLanguage: 'auto',
+    local: {
+      baseUrl: DEFAULT_LOCAL_BASE_URL,
+      systemPromptAsUser: false,
+      contextWindow: 8192,
+    },
+    retry: { ...DEFAULT_RETRY_POLICY },
+    fallbacks: [],
   },
   display: {
     showMaturityInExplorer: true,
+    showScoreInBadges: false,
     showScoreInSidebar: true,
     autoOpenSidebar: false,
   },
   assessment: {
     autoAssessOnOpen: false,
+    autoAssessAfterEdit: false,
+    autoAssessIdleSeconds: 30,
+    autoAssessExcludedFolders: [],
     showDetailedFeedback: true,
     enableSplitSuggestions: true,
     enableConnectionSuggestions: true,
+    connectionCandidateLimit: 20,
+    batchConcurrency: 2,
   },
   history: {
     maxPerNote: 5,
     enabled: true,
   },
+  cache: {
+    enabled: true,
+    ttlDays: 30,
+    maxEntries: 300,
+  },
+  review: {
+    showInSidebar: true,
+    baseIntervalDays: 3,
+    snoozeDays: 3,
+  },
+  heuristics: {
+    showInSidebar: true,
+    blendWeight: 0,
+  },
+  coaching: {
+    transcriptFolder: '',
+  },
+  rubric: QualityRubric.defaultData(),
+  profiles: [],
+  maturity: MaturityLevel.defaultStagesData(),
+  decay: {
+    enabled: false,
+    checkStaleness: true,
+    staleAfterDays: 180,
+    checkScore: true,
+    scoreMargin: 10,
+  },
   frontmatterKey: 'growth-stage',
 };
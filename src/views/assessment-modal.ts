@@ -5,17 +5,26 @@
 
 import { App, Modal, Notice, TFile } from 'obsidian';
 import type EvergreenNoteCultivatorPlugin from '../main';
-import { MaturityLevel, NoteAssessment, type NoteData, type NoteSummary, type AssessmentRecord, type ScoreDelta, type QualityDimensionType } from '../core/domain';
+import { SplitNoteModal } from './split-note-modal';
+import { ImprovementDraftModal } from './improvement-draft-modal';
+import {
+  MaturityLevel,
+  type NoteData,
+  type ScoreDelta,
+  type QualityDimensionType,
+} from '../core/domain';
 import {
   AssessNoteQualityUseCase,
   SuggestConnectionsUseCase,
   UpdateMaturityUseCase,
   GetGrowthGuideUseCase,
   GetDimensionImprovementUseCase,
+  describeCondensation,
   type AssessNoteQualityOutput,
   type SuggestConnectionsOutput,
   type GetGrowthGuideOutput,
   type DimensionImprovementAction,
+  type RankedConnectionCandidate,
 } from '../core/application';
 
 type ModalMode = 'assess' | 'growth-guide' | 'update-maturity';
@@ -26,9 +35,12 @@ export class AssessmentModal extends Modal {
   private mode: ModalMode;
   private assessment: AssessNoteQualityOutput | null = null;
   private connections: SuggestConnectionsOutput | null = null;
+  private rankedCandidates: RankedConnectionCandidate[] = [];
   private growthGuide: GetGrowthGuideOutput | null = null;
   private lastDelta: ScoreDelta | null = null;
   private isLoading: boolean = false;
+  // Aborted when the modal closes; stops in-flight LLM requests
+  private abortController: AbortController = new AbortController();
 
   constructor(
     app: App,
@@ -45,16 +57,19 @@ export class AssessmentModal extends Modal {
   async onOpen(): Promise<void> {
     const { contentEl } = this;
     contentEl.addClass('assessment-modal');
+    this.abortController = new AbortController();
 
     this.renderHeader();
     await this.runAnalysis();
   }
 
   onClose(): void {
+    this.abortController.abort();
     const { contentEl } = this;
     contentEl.empty();
     this.assessment = null;
     this.connections = null;
+    this.rankedCandidates = [];
     this.growthGuide = null;
     this.lastDelta = null;
   }
@@ -71,21 +86,9 @@ export class AssessmentModal extends Modal {
   }
 
   private async buildNoteData(): Promise<NoteData> {
-    const content = await this.app.vault.cachedRead(this.file);
-    const cache = this.app.metadataCache.getFileCache(this.file);
-    const maturityValue = cache?.frontmatter?.[this.plugin.settings.frontmatterKey];
-
-    return {
-      id: this.file.path,
-      path: this.file.path,
-      basename: this.file.basename,
-      content,
-      metadata: {
-        title: this.file.basename,
-        tags: cache?.frontmatter?.tags ?? [],
-        growthStage: maturityValue,
-      },
-    };
+    const note = await this.plugin.getNoteRepository().getByPath(this.file.path);
+    if (!note) throw new Error(`Unable to read note: ${this.file.path}`);
+    return note;
   }
 
   private getExistingLinks(): string[] {
@@ -106,15 +109,21 @@ export class AssessmentModal extends Modal {
     return backlinks;
   }
 
-  private async runAnalysis(): Promise<void> {
+  private async runAnalysis(forceRefresh: boolean = false): Promise<void> {
     const { contentEl } = this;
 
     // Loading state
     this.isLoading = true;
     const loadingEl = contentEl.createDiv({ cls: 'assessment-loading' });
     loadingEl.createEl('div', { cls: 'assessment-spinner' });
-    loadingEl.createEl('p', { text: 'Analyzing...' });
+    const loadingTextEl = loadingEl.createEl('p', { text: 'Analyzing...' });
+    const cancelBtn = loadingEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: 'Cancel',
+    });
+    cancelBtn.addEventListener('click', () => this.close());
 
+    const { signal } = this.abortController;
     const aiService = this.plugin.getAIService();
     if (!aiService?.isAvailable()) {
       loadingEl.empty();
@@ -143,16 +152,30 @@ export class AssessmentModal extends Modal {
       const backlinks = this.getBacklinks();
 
       // Run assessment
-      const assessUseCase = new AssessNoteQualityUseCase(provider);
+      const profile = this.plugin.getAssessmentProfile(noteData);
+      const responseCache = this.plugin.getResponseCache();
+      const assessUseCase = new AssessNoteQualityUseCase(provider, responseCache);
       this.assessment = await assessUseCase.execute({
         note: noteData,
         existingLinks,
         backlinks,
+        rubric: this.plugin.getQualityRubric(),
+        profile,
+        language: this.plugin.settings.ai.outputLanguage,
+        forceRefresh,
+        heuristicWeight: this.plugin.settings.heuristics.blendWeight,
+        noteTokenBudget: this.plugin.getNoteTokenBudget(),
+        signal,
       });
-
-      // Save history and calculate delta
-      if (this.assessment.assessment && this.plugin.settings.history.enabled) {
-        const record = this.buildAssessmentRecord(this.assessment.assessment);
+      if (signal.aborted) return;
+
+      // Save history and calculate delta (cached results were already recorded)
+      if (
+        this.assessment.assessment &&
+        this.plugin.settings.history.enabled &&
+        !this.assessment.fromCache
+      ) {
+        const record = this.assessment.assessment.toRecord();
         const historyService = this.plugin.getHistoryService();
         this.lastDelta = historyService.calculateDelta(this.file.path, record);
         await historyService.addRecord(record);
@@ -163,28 +186,45 @@ export class AssessmentModal extends Modal {
         const currentMaturity = this.assessment.assessment.currentMaturity;
         const qualityScore = this.assessment.assessment.qualityScore;
 
-        const guideUseCase = new GetGrowthGuideUseCase(provider);
+        loadingTextEl.setText('Writing growth guide...');
+        const previewEl = loadingEl.createEl('ol', { cls: 'cultivator-stream-preview' });
+
+        const guideUseCase = new GetGrowthGuideUseCase(provider, responseCache);
         this.growthGuide = await guideUseCase.execute({
           note: noteData,
           currentMaturity,
           qualityScore,
+          maturityThresholds: profile?.maturityThresholds ?? undefined,
+          language: this.plugin.settings.ai.outputLanguage,
+          forceRefresh,
+          noteTokenBudget: this.plugin.getNoteTokenBudget(),
+          signal,
+          onStep: (step) => {
+            previewEl.createEl('li', { text: step.action });
+          },
         });
+        if (signal.aborted) return;
+        previewEl.remove();
+        loadingTextEl.setText('Finding connections...');
       }
 
       // Get connection suggestions if enabled
       if (this.plugin.settings.assessment.enableConnectionSuggestions && this.assessment.assessment) {
-        const noteRepository = this.plugin.getNoteRepository();
-        const allSummaries = await noteRepository.getAllNotes();
-        const candidateNotes: NoteSummary[] = allSummaries
-          .filter(n => n.path !== this.file.path)
-          .slice(0, 20);
-
-        if (candidateNotes.length > 0) {
-          const connectUseCase = new SuggestConnectionsUseCase(provider);
+        this.rankedCandidates = await this.plugin.getConnectionRanker().rank(noteData, {
+          limit: this.plugin.settings.assessment.connectionCandidateLimit,
+        });
+
+        if (this.rankedCandidates.length > 0) {
+          const connectUseCase = new SuggestConnectionsUseCase(provider, responseCache);
           this.connections = await connectUseCase.execute({
             note: noteData,
-            candidateNotes,
+            candidateNotes: this.rankedCandidates.map(c => c.note),
+            language: this.plugin.settings.ai.outputLanguage,
+            forceRefresh,
+            noteTokenBudget: this.plugin.getNoteTokenBudget(),
+            signal,
           });
+          if (signal.aborted) return;
         }
       }
 
@@ -194,6 +234,7 @@ export class AssessmentModal extends Modal {
       this.renderResults();
 
     } catch (error) {
+      if (signal.aborted) return;
       loadingEl.empty();
       const message = error instanceof Error ? error.message : 'Unknown error';
       const errorEl = loadingEl.createDiv({ cls: 'assessment-error' });
@@ -215,6 +256,22 @@ export class AssessmentModal extends Modal {
 
     const assessment = this.assessment.assessment;
 
+    if (this.isFromCache()) {
+      this.renderCachedNotice(contentEl);
+    }
+
+    if (assessment.answeredBy?.fallback) {
+      const fallbackEl = contentEl.createDiv({ cls: 'cultivator-loaded-indicator' });
+      fallbackEl.createEl('span', {
+        text: `🔀 Answered by fallback: ${assessment.answeredBy.provider} (${assessment.answeredBy.model})`,
+      });
+    }
+
+    if (this.assessment.condensation) {
+      const condensedEl = contentEl.createDiv({ cls: 'cultivator-loaded-indicator' });
+      condensedEl.createEl('span', { text: `📝 ${describeCondensation(this.assessment.condensation)}` });
+    }
+
     // Tab navigation
     const tabsEl = contentEl.createDiv({ cls: 'assessment-tabs' });
     const tabs = [
@@ -315,6 +372,12 @@ export class AssessmentModal extends Modal {
     const scoreInfo = scoreCard.createDiv({ cls: 'assessment-score-info' });
     scoreInfo.createEl('h4', { text: `Grade: ${assessment.qualityScore.getGrade()}` });
     scoreInfo.createEl('p', { text: assessment.qualityScore.getStatusText() });
+    if (assessment.profile) {
+      scoreInfo.createEl('p', {
+        cls: 'assessment-profile-label',
+        text: `📋 Profile: ${assessment.profile.name}`,
+      });
+    }
 
     // Current vs Recommended maturity
     const currentMaturity = assessment.currentMaturity;
@@ -451,6 +514,15 @@ export class AssessmentModal extends Modal {
             text: note.description
           });
         });
+
+        const splitBtn = notesSection.createEl('button', {
+          cls: 'assessment-update-btn',
+          text: '✂️ Perform split',
+        });
+        splitBtn.addEventListener('click', () => {
+          this.close();
+          new SplitNoteModal(this.app, this.plugin, this.file, splitSuggestion).open();
+        });
       }
     }
 
@@ -462,6 +534,35 @@ export class AssessmentModal extends Modal {
     }
   }
 
+  private isFromCache(): boolean {
+    return !!(
+      this.assessment?.fromCache ||
+      this.growthGuide?.fromCache ||
+      this.connections?.fromCache
+    );
+  }
+
+  private renderCachedNotice(container: HTMLElement): void {
+    const noticeEl = container.createDiv({ cls: 'cultivator-loaded-indicator' });
+    noticeEl.createEl('span', { text: '📦 Showing cached results (note unchanged)' });
+
+    const reassessBtn = noticeEl.createEl('button', {
+      cls: 'cultivator-reassess-btn',
+      text: '🔄 Re-assess',
+    });
+    reassessBtn.addEventListener('click', async () => {
+      if (this.isLoading) return;
+      this.contentEl.empty();
+      this.assessment = null;
+      this.connections = null;
+      this.rankedCandidates = [];
+      this.growthGuide = null;
+      this.lastDelta = null;
+      this.renderHeader();
+      await this.runAnalysis(true);
+    });
+  }
+
   private renderConnectionsTab(container: HTMLElement): void {
     const suggestions = this.connections?.suggestions;
     if (!suggestions || suggestions.length === 0) {
@@ -469,6 +570,7 @@ export class AssessmentModal extends Modal {
         cls: 'cultivator-empty',
         text: 'No connection suggestions.'
       });
+      this.renderRankedCandidates(container);
       return;
     }
 
@@ -484,6 +586,14 @@ export class AssessmentModal extends Modal {
       info.createEl('div', { cls: 'assessment-connection-title', text: conn.targetNote });
       info.createEl('div', { cls: 'assessment-connection-reason', text: conn.reason });
 
+      const ranked = this.findRankedCandidate(conn.targetNote);
+      if (ranked) {
+        info.createEl('div', {
+          cls: 'assessment-connection-score',
+          text: this.formatRankingScore(ranked),
+        });
+      }
+
       if (conn.linkSuggestion) {
         const linkEl = info.createDiv({ cls: 'assessment-connection-reason' });
         linkEl.createEl('span', { text: 'Suggestion: ' });
@@ -533,6 +643,47 @@ export class AssessmentModal extends Modal {
         }
       });
     });
+
+    this.renderRankedCandidates(container);
+  }
+
+  private renderRankedCandidates(container: HTMLElement): void {
+    if (this.rankedCandidates.length === 0) return;
+
+    const detailsEl = container.createEl('details', { cls: 'assessment-ranked-candidates' });
+    detailsEl.createEl('summary', {
+      text: `Ranked candidates (${this.rankedCandidates.length})`,
+    });
+
+    const listEl = detailsEl.createDiv({ cls: 'assessment-ranked-candidate-list' });
+    this.rankedCandidates.forEach((candidate, index) => {
+      const rowEl = listEl.createDiv({ cls: 'assessment-ranked-candidate' });
+      rowEl.createEl('span', {
+        cls: 'assessment-ranked-candidate-title',
+        text: `${index + 1}. ${candidate.note.basename}`,
+      });
+      rowEl.createEl('span', {
+        cls: 'assessment-connection-score',
+        text: this.formatRankingScore(candidate),
+      });
+    });
+  }
+
+  private findRankedCandidate(targetNote: string): RankedConnectionCandidate | undefined {
+    const name = targetNote.toLowerCase();
+    return this.rankedCandidates.find(c => c.note.basename.toLowerCase() === name);
+  }
+
+  private formatRankingScore(candidate: RankedConnectionCandidate): string {
+    const parts = [
+      `Relevance ${candidate.score.toFixed(2)}`,
+      `text ${candidate.textScore.toFixed(2)}`,
+      `links ${candidate.graphScore.toFixed(2)}`,
+    ];
+    const terms = candidate.matchedTerms.length > 0
+      ? ` · ${candidate.matchedTerms.join(', ')}`
+      : '';
+    return `${parts.join(' · ')}${terms}`;
   }
 
   private async checkAndUpdateLinkButton(btn: HTMLButtonElement, targetNote: string): Promise<void> {
@@ -625,7 +776,7 @@ export class AssessmentModal extends Modal {
 
     // Target level info
     const currentStage = growthGuide.createDiv({ cls: 'assessment-current-stage' });
-    const targetLevel = MaturityLevel.create(guide.targetLevel);
+    const targetLevel = MaturityLevel.fromFrontmatter(guide.targetLevel);
     currentStage.createDiv({ cls: 'stage-icon', text: targetLevel.icon });
     currentStage.createEl('h4', { text: `Target: ${targetLevel.displayName}` });
     currentStage.createEl('p', {
@@ -680,17 +831,29 @@ export class AssessmentModal extends Modal {
 
     btn.textContent = '⏳ Analyzing...';
     btn.disabled = true;
+    // Actions appear here as they stream in
+    const previewEl = cardEl.createEl('ol', { cls: 'cultivator-stream-preview' });
 
     try {
       const noteData = await this.buildNoteData();
-      const useCase = new GetDimensionImprovementUseCase(provider);
+      const useCase = new GetDimensionImprovementUseCase(provider, this.plugin.getResponseCache());
 
       const result = await useCase.execute({
         note: noteData,
         dimension,
         currentScore,
         feedback,
+        dimensionConfig: this.plugin.getQualityRubric().getDimension(dimension),
+        language: this.plugin.settings.ai.outputLanguage,
+        noteTokenBudget: this.plugin.getNoteTokenBudget(),
+        signal: this.abortController.signal,
+        onAction: (action) => {
+          previewEl.createEl('li', { text: action.action });
+        },
       });
+      // Modal closed while waiting
+      if (this.abortController.signal.aborted) return;
+      previewEl.remove();
 
       if (result.error) {
         new Notice(`❌ ${result.error}`);
@@ -701,8 +864,9 @@ export class AssessmentModal extends Modal {
 
       // Remove button and render actions
       btn.remove();
-      this.renderImprovementActions(cardEl, result.actions);
+      this.renderImprovementActions(cardEl, dimension, result.actions);
     } catch (error) {
+      previewEl.remove();
       const message = error instanceof Error ? error.message : 'Unknown error';
       new Notice(`❌ ${message}`);
       btn.textContent = '🔧 Improve';
@@ -710,7 +874,11 @@ export class AssessmentModal extends Modal {
     }
   }
 
-  private renderImprovementActions(container: HTMLElement, actions: DimensionImprovementAction[]): void {
+  private renderImprovementActions(
+    container: HTMLElement,
+    dimension: QualityDimensionType,
+    actions: DimensionImprovementAction[]
+  ): void {
     if (actions.length === 0) return;
 
     const actionsEl = container.createDiv({ cls: 'cultivator-improve-actions' });
@@ -736,23 +904,15 @@ export class AssessmentModal extends Modal {
         cls: 'cultivator-improve-action-impact',
         text: `→ ${action.expectedImpact}`,
       });
-    });
-  }
-
-  private buildAssessmentRecord(assessment: NoteAssessment): AssessmentRecord {
-    const dimensionScores: Record<string, number> = {};
-    for (const dim of assessment.qualityScore.getAllDimensions()) {
-      dimensionScores[dim.type] = dim.score;
-    }
 
-    return {
-      id: assessment.id,
-      notePath: assessment.notePath,
-      totalScore: assessment.qualityScore.totalScore,
-      dimensionScores: dimensionScores as Record<QualityDimensionType, number>,
-      maturityLevel: assessment.currentMaturity.level,
-      assessedAt: assessment.assessedAt.getTime(),
-    };
+      const draftBtn = itemEl.createEl('button', {
+        cls: 'cultivator-draft-btn',
+        text: '✏️ Draft this change',
+      });
+      draftBtn.addEventListener('click', () => {
+        new ImprovementDraftModal(this.app, this.plugin, this.file, dimension, action).open();
+      });
+    });
   }
 
   private renderDeltaBadge(container: HTMLElement, delta: number): void {
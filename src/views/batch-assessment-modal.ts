@@ -0,0 +1,175 @@
+/**
+ * Batch Assessment Modal
+ * Shows progress and the final summary of a batch assessment job
+ */
+
+import { App, Modal, TFile } from 'obsidian';
+import type EvergreenNoteCultivatorPlugin from '../main';
+import { describeBatchScope, type BatchJob, type BatchJobProgress } from '../core/domain';
+
+export class BatchAssessmentModal extends Modal {
+  private plugin: EvergreenNoteCultivatorPlugin;
+  private unsubscribe: (() => void) | null = null;
+  private bodyEl: HTMLElement | null = null;
+
+  constructor(app: App, plugin: EvergreenNoteCultivatorPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.addClass('batch-assessment-modal');
+
+    const headerEl = contentEl.createDiv({ cls: 'assessment-modal-header' });
+    headerEl.createEl('h2', { text: '🌳 Batch Assessment' });
+
+    this.bodyEl = contentEl.createDiv({ cls: 'batch-assessment-body' });
+
+    const service = this.plugin.getBatchService();
+    this.unsubscribe = service.subscribe((job, progress) => this.render(job, progress));
+
+    const job = service.getJob();
+    const progress = service.getProgress();
+    if (job && progress) {
+      this.render(job, progress);
+    } else {
+      this.bodyEl.createEl('p', { cls: 'cultivator-empty', text: 'No batch assessment job.' });
+    }
+  }
+
+  onClose(): void {
+    // The job keeps running in the background
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.bodyEl = null;
+    this.contentEl.empty();
+  }
+
+  private render(job: BatchJob, progress: BatchJobProgress): void {
+    if (!this.bodyEl) return;
+    const container = this.bodyEl;
+    container.empty();
+
+    container.createEl('p', {
+      cls: 'assessment-modal-subtitle',
+      text: `${describeBatchScope(job.scope)} · ${this.getStatusText(job)}`,
+    });
+
+    // Progress bar
+    const percent = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 100;
+    const barBg = container.createDiv({ cls: 'cultivator-dimension-bar-bg batch-progress-bar' });
+    const barFill = barBg.createDiv({ cls: 'cultivator-dimension-bar-fill cultivator-bar-good' });
+    barFill.style.width = `${percent}%`;
+    container.createEl('p', {
+      cls: 'batch-progress-text',
+      text: `${progress.processed} / ${progress.total} notes (${percent}%)`,
+    });
+
+    // Counters
+    const statsEl = container.createDiv({ cls: 'cultivator-stats' });
+    this.renderStat(statsEl, '✅', 'Assessed', progress.done.toString());
+    this.renderStat(statsEl, '⏭️', 'Skipped', progress.skipped.toString());
+    this.renderStat(statsEl, '❌', 'Failed', progress.failed.toString());
+    this.renderStat(
+      statsEl,
+      '📊',
+      'Avg score',
+      progress.averageScore !== null ? `${progress.averageScore}pts` : '-'
+    );
+
+    // In-flight notes
+    const inFlight = job.items.filter((i) => i.status === 'running');
+    if (inFlight.length > 0) {
+      const runningEl = container.createDiv({ cls: 'batch-running' });
+      inFlight.forEach((item) => {
+        runningEl.createEl('p', { cls: 'batch-running-item', text: `⏳ ${item.notePath}` });
+      });
+    }
+
+    this.renderControls(container, job);
+
+    // Summary lists (skipped/failed) are always available, final or not
+    this.renderItemList(
+      container,
+      '⏭️ Skipped notes',
+      job.items.filter((i) => i.status === 'skipped')
+    );
+    this.renderItemList(
+      container,
+      '❌ Failed notes',
+      job.items.filter((i) => i.status === 'failed')
+    );
+  }
+
+  private renderControls(container: HTMLElement, job: BatchJob): void {
+    const service = this.plugin.getBatchService();
+    const actionsEl = container.createDiv({ cls: 'cultivator-actions batch-actions' });
+
+    if (job.status === 'running') {
+      const pauseBtn = actionsEl.createEl('button', { cls: 'cultivator-btn cultivator-btn-secondary', text: '⏸ Pause' });
+      pauseBtn.addEventListener('click', () => service.pause());
+    }
+
+    if (job.status === 'paused') {
+      const resumeBtn = actionsEl.createEl('button', {
+        cls: 'cultivator-btn cultivator-btn-primary',
+        text: '▶ Resume',
+      });
+      // Wait for in-flight items of the previous run to settle
+      resumeBtn.disabled = service.isRunning();
+      resumeBtn.addEventListener('click', () => this.plugin.resumeBatchAssessment());
+    }
+
+    if (job.status === 'running' || job.status === 'paused') {
+      const cancelBtn = actionsEl.createEl('button', { cls: 'cultivator-btn cultivator-btn-secondary', text: '✕ Cancel' });
+      cancelBtn.addEventListener('click', () => service.cancel());
+    }
+  }
+
+  private renderItemList(
+    container: HTMLElement,
+    title: string,
+    items: { notePath: string; reason?: string }[],
+  ): void {
+    if (items.length === 0) return;
+
+    const section = container.createDiv({ cls: 'assessment-suggestion-card batch-item-list' });
+    section.createEl('h4', { text: `${title} (${items.length})` });
+
+    items.forEach((item) => {
+      const itemEl = section.createDiv({ cls: 'batch-item' });
+      const linkEl = itemEl.createEl('a', { cls: 'batch-item-path', text: item.notePath });
+      linkEl.addEventListener('click', (e) => {
+        e.preventDefault();
+        const file = this.app.vault.getAbstractFileByPath(item.notePath);
+        if (file instanceof TFile) {
+          this.app.workspace.getLeaf().openFile(file);
+        }
+      });
+      if (item.reason) {
+        itemEl.createEl('span', { cls: 'assessment-dimension-feedback', text: item.reason });
+      }
+    });
+  }
+
+  private renderStat(container: HTMLElement, icon: string, label: string, value: string): void {
+    const statEl = container.createDiv({ cls: 'cultivator-stat' });
+    statEl.createEl('span', { cls: 'cultivator-stat-icon', text: icon });
+    statEl.createEl('span', { cls: 'cultivator-stat-label', text: label });
+    statEl.createEl('span', { cls: 'cultivator-stat-value', text: value });
+  }
+
+  private getStatusText(job: BatchJob): string {
+    switch (job.status) {
+      case 'running':
+        return 'Running';
+      case 'paused':
+        return 'Paused';
+      case 'cancelled':
+        return 'Cancelled';
+      default:
+        return 'Completed';
+    }
+  }
+}
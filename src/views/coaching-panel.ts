@@ -0,0 +1,302 @@
+/**
+ * Coaching Panel
+ * Socratic coaching chat for the open note (sidebar "Coach" tab).
+ * One session per note: switching notes cancels a pending reply and starts over.
+ */
+
+import { Notice, TFile } from 'obsidian';
+import type EvergreenNoteCultivatorPlugin from '../main';
+import type { NoteAssessment, NoteData } from '../core/domain';
+import {
+  CoachNoteUseCase,
+  SaveCoachingTranscriptUseCase,
+  describeCondensation,
+  type CoachingTranscriptTarget,
+  type CoachingTurn,
+  type ContentCondensation,
+} from '../core/application';
+
+export class CoachingPanel {
+  private file: TFile | null = null;
+  private turns: CoachingTurn[] = [];
+  private startedAt: number | null = null;
+  private condensation: ContentCondensation | null = null;
+  // Answer being typed (kept across re-renders)
+  private draftText: string = '';
+  // In-flight coach reply; aborted on cancel, note switch or close
+  private controller: AbortController | null = null;
+
+  /**
+   * @param getAssessment latest assessment of the open note shown in the sidebar
+   */
+  constructor(
+    private readonly plugin: EvergreenNoteCultivatorPlugin,
+    private readonly containerEl: HTMLElement,
+    private readonly getAssessment: () => NoteAssessment | null,
+  ) {}
+
+  setFile(file: TFile | null): void {
+    if (file?.path !== this.file?.path) {
+      this.cancel();
+      this.turns = [];
+      this.startedAt = null;
+      this.condensation = null;
+      this.draftText = '';
+    }
+    this.file = file;
+    this.render();
+  }
+
+  /**
+   * Re-render before a session starts (the latest assessment may have changed)
+   */
+  refreshIntro(): void {
+    if (this.startedAt === null) this.render();
+  }
+
+  destroy(): void {
+    this.cancel();
+    this.file = null;
+    this.turns = [];
+  }
+
+  render(): void {
+    const container = this.containerEl;
+    container.empty();
+
+    if (!this.file || this.file.extension !== 'md') {
+      const emptyEl = container.createDiv({ cls: 'cultivator-empty' });
+      emptyEl.createEl('div', { cls: 'cultivator-icon', text: '💬' });
+      emptyEl.createEl('p', { text: 'Open a note to start a coaching session' });
+      return;
+    }
+
+    if (this.startedAt === null) {
+      this.renderIntro(container);
+      return;
+    }
+
+    if (this.condensation) {
+      const condensedIndicator = container.createDiv({ cls: 'cultivator-loaded-indicator' });
+      condensedIndicator.createEl('span', { text: `📝 ${describeCondensation(this.condensation)}` });
+    }
+
+    const transcriptEl = container.createDiv({ cls: 'cultivator-coach-transcript' });
+    this.turns.forEach((turn) => {
+      const messageEl = transcriptEl.createDiv({
+        cls: `cultivator-coach-message ${turn.role === 'coach' ? 'is-coach' : 'is-user'}`,
+      });
+      messageEl.createDiv({ cls: 'cultivator-coach-speaker', text: turn.role === 'coach' ? '🌱 Coach' : 'You' });
+      messageEl.createDiv({ cls: 'cultivator-coach-text', text: turn.content });
+    });
+
+    if (this.controller) {
+      const thinkingEl = transcriptEl.createDiv({ cls: 'cultivator-coach-message is-coach is-pending' });
+      thinkingEl.createDiv({ cls: 'cultivator-coach-text', text: 'Coach is thinking...' });
+      const cancelBtn = thinkingEl.createEl('button', {
+        cls: 'cultivator-reassess-btn',
+        text: 'Cancel',
+      });
+      cancelBtn.addEventListener('click', () => {
+        this.cancel();
+        this.render();
+      });
+    } else {
+      this.renderComposer(container);
+    }
+
+    this.renderSessionActions(container);
+    transcriptEl.scrollTop = transcriptEl.scrollHeight;
+  }
+
+  private renderIntro(container: HTMLElement): void {
+    const introEl = container.createDiv({ cls: 'cultivator-guide' });
+    introEl.createEl('h4', { text: '💬 Coaching' });
+
+    const assessment = this.getAssessment();
+    const tipEl = introEl.createDiv({ cls: 'cultivator-tip' });
+    if (assessment) {
+      const weakest = assessment.qualityScore.getWeakestDimension();
+      tipEl.createEl('p', {
+        text: `The coach asks questions about this note, starting with its weakest dimension: ${weakest.icon} ${weakest.displayName} (${weakest.score}pts).`,
+      });
+    } else {
+      tipEl.createEl('p', {
+        text: 'The coach asks questions about this note. Run an assessment first to focus the session on its weakest dimension.',
+      });
+    }
+
+    const actionsEl = container.createDiv({ cls: 'cultivator-actions' });
+    const startBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-primary',
+      text: '💬 Start coaching',
+    });
+    startBtn.addEventListener('click', () => {
+      this.startedAt = Date.now();
+      this.requestReply();
+    });
+  }
+
+  private renderComposer(container: HTMLElement): void {
+    const composerEl = container.createDiv({ cls: 'cultivator-coach-composer' });
+    const inputEl = composerEl.createEl('textarea', {
+      cls: 'cultivator-coach-input',
+      attr: { rows: '3', placeholder: 'Your answer... (Ctrl/Cmd+Enter to send)' },
+    });
+    inputEl.value = this.draftText;
+    inputEl.addEventListener('input', () => {
+      this.draftText = inputEl.value;
+    });
+    inputEl.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        this.sendAnswer();
+      }
+    });
+
+    const sendBtn = composerEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-primary',
+      text: 'Send',
+    });
+    sendBtn.addEventListener('click', () => this.sendAnswer());
+  }
+
+  private renderSessionActions(container: HTMLElement): void {
+    const actionsEl = container.createDiv({ cls: 'cultivator-save-actions cultivator-coach-actions' });
+    const hasTurns = this.turns.length > 0;
+
+    const calloutBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: '📝 Save as callout',
+    });
+    calloutBtn.disabled = !hasTurns;
+    calloutBtn.addEventListener('click', () => this.saveTranscript('callout'));
+
+    const noteBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: '🔗 Save as note',
+    });
+    noteBtn.disabled = !hasTurns;
+    noteBtn.addEventListener('click', () => this.saveTranscript('note'));
+
+    const resetBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: '↺ New session',
+    });
+    resetBtn.addEventListener('click', () => {
+      this.cancel();
+      this.turns = [];
+      this.startedAt = null;
+      this.condensation = null;
+      this.draftText = '';
+      this.render();
+    });
+  }
+
+  private sendAnswer(): void {
+    const answer = this.draftText.trim();
+    if (!answer || this.controller) return;
+
+    this.turns.push({ role: 'user', content: answer });
+    this.draftText = '';
+    this.requestReply();
+  }
+
+  private async requestReply(): Promise<void> {
+    const file = this.file;
+    if (!file) return;
+
+    const provider = this.plugin.getAIService()?.getCurrentProvider();
+    if (!provider || !this.plugin.getAIService()?.isAvailable()) {
+      new Notice('Please complete AI settings first.');
+      this.restoreUnansweredTurn();
+      this.render();
+      return;
+    }
+
+    const controller = new AbortController();
+    this.controller = controller;
+    this.render();
+
+    try {
+      const note = await this.buildNoteData(file);
+      const useCase = new CoachNoteUseCase(provider, this.plugin.getResponseCache());
+      const result = await useCase.execute({
+        note,
+        assessment: this.getAssessment(),
+        turns: [...this.turns],
+        language: this.plugin.settings.ai.outputLanguage,
+        noteTokenBudget: this.plugin.getNoteTokenBudget(),
+        signal: controller.signal,
+      });
+
+      // Cancelled, or the user moved to another note while waiting
+      if (controller.signal.aborted || this.file?.path !== file.path) return;
+
+      if (result.error) {
+        new Notice(`❌ Coaching failed: ${result.error}`);
+        this.restoreUnansweredTurn();
+      } else {
+        this.turns.push({ role: 'coach', content: result.reply });
+        this.condensation = result.condensation ?? null;
+      }
+    } catch (error) {
+      if (controller.signal.aborted || this.file?.path !== file.path) return;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      new Notice(`❌ Error: ${message}`);
+      this.restoreUnansweredTurn();
+    } finally {
+      if (this.controller === controller) {
+        this.controller = null;
+        this.render();
+      }
+    }
+  }
+
+  /**
+   * Put an answer the coach never replied to back into the input
+   */
+  private restoreUnansweredTurn(): void {
+    const last = this.turns[this.turns.length - 1];
+    if (last?.role === 'user') {
+      this.turns.pop();
+      this.draftText = last.content;
+    }
+    if (this.turns.length === 0) this.startedAt = null;
+  }
+
+  private cancel(): void {
+    if (!this.controller) return;
+    this.controller.abort();
+    this.controller = null;
+    this.restoreUnansweredTurn();
+  }
+
+  private async saveTranscript(target: CoachingTranscriptTarget): Promise<void> {
+    if (!this.file || this.startedAt === null) return;
+
+    const useCase = new SaveCoachingTranscriptUseCase(this.plugin.getNoteRepository());
+    const result = await useCase.execute({
+      notePath: this.file.path,
+      turns: [...this.turns],
+      startedAt: this.startedAt,
+      target,
+      folder: this.plugin.settings.coaching.transcriptFolder,
+    });
+
+    if (!result.success) {
+      new Notice(`❌ Save failed: ${result.error ?? 'Unknown error'}`);
+      return;
+    }
+
+    new Notice(target === 'callout'
+      ? '✅ Coaching session saved to note.'
+      : `✅ Coaching session saved to ${result.savedPath.replace(/\.md$/, '')}.`);
+  }
+
+  private async buildNoteData(file: TFile): Promise<NoteData> {
+    const note = await this.plugin.getNoteRepository().getByPath(file.path);
+    if (!note) throw new Error(`Unable to read note: ${file.path}`);
+    return note;
+  }
+}
@@ -3,11 +3,33 @@
  * Sidebar view displaying note maturity and quality information
  */
 
-import { ItemView, WorkspaceLeaf, TFile, Notice } from 'obsidian';
+import { ItemView, WorkspaceLeaf, TAbstractFile, TFile, TFolder, Notice } from 'obsidian';
 import type EvergreenNoteCultivatorPlugin from '../main';
-import { MaturityLevel, QualityScore, NoteAssessment, type NoteData, type AssessmentRecord, type ScoreDelta, type QualityDimensionType } from '../core/domain';
-import { AssessNoteQualityUseCase, UpdateMaturityUseCase, type AssessNoteQualityOutput } from '../core/application';
+import {
+  MaturityLevel,
+  QualityDimension,
+  QualityScore,
+  NoteAssessment,
+  getDimensionLabel,
+  type BuiltInDimensionType,
+  type NoteData,
+  type ScoreDelta,
+  type QualityDimensionConfig,
+  type QualityDimensionType,
+  type ImprovementSuggestion,
+  type ResolvedOutputLanguage,
+} from '../core/domain';
+import {
+  AssessNoteQualityUseCase,
+  GetCultivationQueueUseCase,
+  PreAssessNoteUseCase,
+  UpdateMaturityUseCase,
+  describeCondensation,
+  type AssessNoteQualityOutput,
+  type CultivationQueueEntry,
+} from '../core/application';
 import { AssessmentModal } from './assessment-modal';
+import { CoachingPanel } from './coaching-panel';
 
 export const VIEW_TYPE_CULTIVATOR = 'evergreen-cultivator-view';
 
@@ -16,13 +38,46 @@ const ASSESSMENT_CALLOUT_TYPE = 'assessment';
 const ASSESSMENT_CALLOUT_REGEX = /^>\s*\[!assessment\][+-]?\s*.*/m;
 const ASSESSMENT_CALLOUT_BLOCK_REGEX = /(^>\s*\[!assessment\][+-]?\s*.*\n(?:>.*\n?)*)/m;
 
+// Max notes listed in "Today's cultivation"
+const CULTIVATION_LIMIT = 8;
+
+// Idle time after note edits before the cultivation queue is rebuilt
+const CULTIVATION_REFRESH_DELAY_MS = 2000;
+
+type SidebarTab = 'overview' | 'coach';
+
+const SIDEBAR_TABS: { id: SidebarTab; label: string }[] = [
+  { id: 'overview', label: '🌱 Overview' },
+  { id: 'coach', label: '💬 Coach' },
+];
+
 export class CultivatorView extends ItemView {
   private plugin: EvergreenNoteCultivatorPlugin;
   private currentFile: TFile | null = null;
   private lastAssessment: AssessNoteQualityOutput | null = null;
   private lastDelta: ScoreDelta | null = null;
   private dynamicContentEl: HTMLElement | null = null;
+  // Bumped on every overview redraw; an older renderNoteInfo stops after its next await
+  private overviewRender: number = 0;
   private isLoadedFromNote: boolean = false;
+  private cultivationEl: HTMLElement | null = null;
+  private cultivationEntries: CultivationQueueEntry[] | null = null;
+  // Review interval and day the cached queue was built for
+  private cultivationKey: string = '';
+  private cultivationRequest: number = 0;
+  // Pending queue rebuild after note edits
+  private cultivationTimer: number | null = null;
+  // Note to assess once it has been opened (one-click reassess from the queue)
+  private pendingAssessPath: string | null = null;
+  // In-flight assessment; aborted on cancel, note switch or close
+  private assessController: AbortController | null = null;
+  // Pending "assess after editing" run for the current note
+  private editTimer: number | null = null;
+  private activeTab: SidebarTab = 'overview';
+  private tabsEl: HTMLElement | null = null;
+  private overviewEl: HTMLElement | null = null;
+  private coachEl: HTMLElement | null = null;
+  private coachingPanel: CoachingPanel | null = null;
 
   constructor(leaf: WorkspaceLeaf, plugin: EvergreenNoteCultivatorPlugin) {
     super(leaf);
@@ -45,6 +100,7 @@ export class CultivatorView extends ItemView {
     const container = this.containerEl.children[1] as HTMLElement;
     container.empty();
     container.addClass('cultivator-view-container');
+    this.renderTabs(container);
 
     // Register file change listener
     this.registerEvent(
@@ -55,13 +111,50 @@ export class CultivatorView extends ItemView {
 
     // Register metadata change listener (for frontmatter updates)
     this.registerEvent(
-      this.app.metadataCache.on('changed', (file) => {
+      this.app.metadataCache.on('changed', (file, _data, cache) => {
+        // A queued note's maturity changed: its interval changes right away
+        if (this.hasQueuedMaturityChanged(file.path, cache.frontmatter?.[this.plugin.settings.frontmatterKey])) {
+          this.invalidateCultivationQueue();
+        }
         if (this.currentFile && file.path === this.currentFile.path) {
           this.renderNoteInfo(this.currentFile);
         }
       })
     );
 
+    // Note edits: refresh the cultivation queue, and assess the open note
+    // once it has been idle
+    this.registerEvent(
+      this.app.vault.on('modify', (file) => {
+        if (!(file instanceof TFile) || file.extension !== 'md') return;
+        this.scheduleCultivationRefresh();
+        if (file.path === this.currentFile?.path) {
+          this.scheduleEditAssessment(file);
+        }
+      })
+    );
+
+    // Rebuild the cultivation queue when notes are assessed, reviewed,
+    // edited, created, deleted or renamed (switching notes reuses it)
+    this.register(
+      this.plugin.getHistoryService().subscribe(() => this.invalidateCultivationQueue())
+    );
+    this.register(
+      this.plugin.getReviewScheduleService().subscribe(() => this.invalidateCultivationQueue())
+    );
+    // 'create' also fires for every file while the vault loads
+    this.app.workspace.onLayoutReady(() => {
+      this.registerEvent(
+        this.app.vault.on('create', (file) => this.onVaultStructureChange(file))
+      );
+    });
+    this.registerEvent(
+      this.app.vault.on('delete', (file) => this.onVaultStructureChange(file))
+    );
+    this.registerEvent(
+      this.app.vault.on('rename', (file) => this.onVaultStructureChange(file))
+    );
+
     // Initial render
     const activeFile = this.app.workspace.getActiveFile();
     if (activeFile) {
@@ -72,15 +165,32 @@ export class CultivatorView extends ItemView {
   }
 
   async onClose(): Promise<void> {
+    this.cancelAssessment();
+    this.clearEditTimer();
+    this.clearCultivationTimer();
+    this.coachingPanel?.destroy();
+    this.coachingPanel = null;
+    this.tabsEl = null;
+    this.overviewEl = null;
+    this.coachEl = null;
     this.currentFile = null;
     this.lastAssessment = null;
     this.lastDelta = null;
     this.dynamicContentEl = null;
     this.isLoadedFromNote = false;
+    this.cultivationEl = null;
+    this.cultivationEntries = null;
+    this.pendingAssessPath = null;
   }
 
   private async onFileOpen(file: TFile | null): Promise<void> {
+    // Results for the previous note would render into the wrong view
+    if (file?.path !== this.currentFile?.path) {
+      this.cancelAssessment();
+      this.clearEditTimer();
+    }
     this.currentFile = file;
+    this.coachingPanel?.setFile(file);
     this.lastAssessment = null;
     this.lastDelta = null;
     this.isLoadedFromNote = false;
@@ -99,29 +209,130 @@ export class CultivatorView extends ItemView {
     await this.loadAssessmentFromNote(file);
 
     await this.renderNoteInfo(file);
+
+    if (this.pendingAssessPath === file.path) {
+      this.pendingAssessPath = null;
+      await this.runAssessment(true);
+    } else if (this.plugin.settings.assessment.autoAssessOnOpen && !this.assessController) {
+      await this.autoAssess(file);
+    }
+  }
+
+  /**
+   * Restart the idle timer on every save of the open note
+   */
+  private scheduleEditAssessment(file: TFile): void {
+    const { autoAssessAfterEdit, autoAssessIdleSeconds } = this.plugin.settings.assessment;
+    if (!autoAssessAfterEdit) return;
+
+    this.clearEditTimer();
+    this.editTimer = window.setTimeout(() => {
+      this.editTimer = null;
+      if (this.currentFile?.path === file.path) this.autoAssess(file);
+    }, autoAssessIdleSeconds * 1000);
+  }
+
+  private clearEditTimer(): void {
+    if (this.editTimer !== null) window.clearTimeout(this.editTimer);
+    this.editTimer = null;
+  }
+
+  /**
+   * Automatic assessment (on open or after editing).
+   * Silently skipped without AI settings, in excluded folders, for short notes
+   * and when the body has not changed since the last assessment.
+   */
+  private async autoAssess(file: TFile): Promise<void> {
+    if (!this.plugin.getAIService()?.isAvailable()) return;
+
+    const content = await this.app.vault.cachedRead(file);
+    if (this.currentFile?.path !== file.path) return;
+
+    const skipReason = this.plugin.getAutoAssessService().getSkipReason(
+      file.path,
+      content,
+      this.plugin.settings.assessment.autoAssessExcludedFolders
+    );
+    if (skipReason) return;
+
+    await this.runAssessment(false, true);
+  }
+
+  // ============================================
+  // Tabs
+  // ============================================
+
+  private renderTabs(container: HTMLElement): void {
+    const tabsEl = container.createDiv({ cls: 'assessment-tabs cultivator-tabs' });
+    tabsEl.setAttribute('role', 'tablist');
+    this.tabsEl = tabsEl;
+
+    SIDEBAR_TABS.forEach((tab) => {
+      const tabBtn = tabsEl.createEl('button', {
+        cls: 'assessment-tab',
+        text: tab.label,
+        attr: { role: 'tab' },
+      });
+      tabBtn.dataset.tabId = tab.id;
+      tabBtn.addEventListener('click', () => this.activateTab(tab.id));
+    });
+
+    this.overviewEl = container.createDiv({ cls: 'cultivator-tab-pane' });
+    this.coachEl = container.createDiv({ cls: 'cultivator-tab-pane' });
+    this.coachingPanel = new CoachingPanel(
+      this.plugin,
+      this.coachEl,
+      () => this.lastAssessment?.assessment ?? null
+    );
+    this.activateTab(this.activeTab);
+  }
+
+  private activateTab(tabId: SidebarTab): void {
+    this.activeTab = tabId;
+    this.tabsEl?.querySelectorAll('[role="tab"]').forEach((t: Element) => {
+      const isActive = (t as HTMLElement).dataset.tabId === tabId;
+      t.toggleClass('is-active', isActive);
+      t.setAttribute('aria-selected', isActive ? 'true' : 'false');
+    });
+    this.overviewEl?.toggle(tabId === 'overview');
+    this.coachEl?.toggle(tabId === 'coach');
+  }
+
+  /**
+   * Pane the note info, assessment results and cultivation queue render into
+   */
+  private getOverviewContainer(): HTMLElement {
+    return this.overviewEl ?? this.containerEl.children[1] as HTMLElement;
   }
 
   private renderEmptyState(): void {
-    const container = this.containerEl.children[1] as HTMLElement;
+    const container = this.getOverviewContainer();
     container.empty();
+    this.overviewRender++;
 
     const emptyEl = container.createDiv({ cls: 'cultivator-empty' });
     emptyEl.createEl('div', { cls: 'cultivator-icon', text: '🌱' });
     emptyEl.createEl('p', { text: 'Open a note to check its growth status' });
+
+    this.renderCultivationSection(container);
   }
 
   private renderNonMarkdownState(): void {
-    const container = this.containerEl.children[1] as HTMLElement;
+    const container = this.getOverviewContainer();
     container.empty();
+    this.overviewRender++;
 
     const emptyEl = container.createDiv({ cls: 'cultivator-empty' });
     emptyEl.createEl('div', { cls: 'cultivator-icon', text: '📄' });
     emptyEl.createEl('p', { text: 'Only available for markdown notes' });
+
+    this.renderCultivationSection(container);
   }
 
   private async renderNoteInfo(file: TFile): Promise<void> {
-    const container = this.containerEl.children[1] as HTMLElement;
+    const container = this.getOverviewContainer();
     container.empty();
+    const render = ++this.overviewRender;
 
     // === STATIC SECTION (stays during loading) ===
 
@@ -158,6 +369,7 @@ export class CultivatorView extends ItemView {
     const statsEl = container.createDiv({ cls: 'cultivator-stats' });
 
     const content = await this.app.vault.cachedRead(file);
+    if (render !== this.overviewRender) return;
     const wordCount = content.split(/\s+/).filter(w => w.length > 0).length;
     const linkCount = cache?.links?.length ?? 0;
     const tagCount = this.countTags(cache);
@@ -166,6 +378,11 @@ export class CultivatorView extends ItemView {
     this.renderStat(statsEl, '🔗', 'Links', linkCount.toString());
     this.renderStat(statsEl, '🏷️', 'Tags', tagCount.toString());
 
+    if (this.plugin.settings.heuristics.showInSidebar) {
+      await this.renderProvisionalScore(container, file, render);
+      if (render !== this.overviewRender) return;
+    }
+
     // Actions section
     const actionsEl = container.createDiv({ cls: 'cultivator-actions' });
 
@@ -178,6 +395,218 @@ export class CultivatorView extends ItemView {
     // === DYNAMIC SECTION (changes during loading/results) ===
     this.dynamicContentEl = container.createDiv({ cls: 'cultivator-dynamic-content' });
     this.renderDynamicContent();
+
+    this.renderCultivationSection(container);
+  }
+
+  // ============ Provisional Score ============
+
+  /**
+   * Offline heuristic score (no API call, shown before any assessment)
+   */
+  private async renderProvisionalScore(container: HTMLElement, file: TFile, render: number): Promise<void> {
+    const noteData = await this.buildNoteData(file);
+    if (render !== this.overviewRender) return;
+    const useCase = new PreAssessNoteUseCase(this.plugin.getNoteRepository());
+    const { metrics, qualityScore } = await useCase.execute({
+      note: noteData,
+      rubric: this.plugin.getQualityRubric(),
+      profile: this.plugin.getAssessmentProfile(noteData),
+    });
+    if (render !== this.overviewRender) return;
+
+    const sectionEl = container.createEl('details', { cls: 'cultivator-provisional' });
+    const summaryEl = sectionEl.createEl('summary');
+    summaryEl.createEl('span', { text: '⚡ Provisional score' });
+    summaryEl.createEl('span', {
+      cls: 'cultivator-provisional-score',
+      text: `${qualityScore.totalScore}pts · ${qualityScore.getGrade()}`,
+    });
+
+    sectionEl.createEl('p', {
+      cls: 'cultivator-provisional-metrics',
+      text: `${metrics.headingCount} headings · ${metrics.topicCount} topics · `
+        + `${metrics.outlinkCount} out / ${metrics.backlinkCount} back links · `
+        + `${metrics.citationCount + metrics.footnoteCount} sources · ${metrics.urlCount} URLs · `
+        + `${Math.round(metrics.quoteRatio * 100)}% quoted`,
+    });
+
+    const dimensionsEl = sectionEl.createDiv({ cls: 'cultivator-dimensions' });
+    qualityScore.getAllDimensions().forEach((dim) => this.renderDimensionBar(dimensionsEl, dim));
+
+    sectionEl.createEl('p', {
+      cls: 'assessment-dimension-feedback',
+      text: 'Offline estimate from note structure and links. Run an assessment for a full review.',
+    });
+  }
+
+  // ============ Today's Cultivation ============
+
+  private renderCultivationSection(container: HTMLElement): void {
+    if (!this.plugin.settings.review.showInSidebar) {
+      this.cultivationEl = null;
+      return;
+    }
+
+    this.cultivationEl = container.createDiv({ cls: 'cultivator-cultivation' });
+
+    // Re-renders and note switches reuse the last queue
+    if (this.cultivationEntries && this.cultivationKey === this.getCultivationKey()) {
+      this.drawCultivationQueue(this.cultivationEntries);
+    } else {
+      this.refreshCultivationQueue();
+    }
+  }
+
+  /**
+   * Drop the cached queue; rebuilt now if shown, otherwise on the next render
+   */
+  private invalidateCultivationQueue(): void {
+    this.clearCultivationTimer();
+    this.cultivationEntries = null;
+    this.refreshCultivationQueue();
+  }
+
+  /**
+   * Edits change a note's last activity; rebuild once saves have settled
+   */
+  private scheduleCultivationRefresh(): void {
+    this.clearCultivationTimer();
+    this.cultivationTimer = window.setTimeout(() => {
+      this.cultivationTimer = null;
+      this.invalidateCultivationQueue();
+    }, CULTIVATION_REFRESH_DELAY_MS);
+  }
+
+  private clearCultivationTimer(): void {
+    if (this.cultivationTimer !== null) window.clearTimeout(this.cultivationTimer);
+    this.cultivationTimer = null;
+  }
+
+  private hasQueuedMaturityChanged(path: string, stage: unknown): boolean {
+    const entry = this.cultivationEntries?.find((e) => e.note.path === path);
+    if (!entry) return false;
+    const level = MaturityLevel.fromFrontmatter(typeof stage === 'string' ? stage : undefined);
+    return level.level !== entry.note.maturityLevel.level;
+  }
+
+  private onVaultStructureChange(file: TAbstractFile): void {
+    if (file instanceof TFolder || (file instanceof TFile && file.extension === 'md')) {
+      this.invalidateCultivationQueue();
+    }
+  }
+
+  private async refreshCultivationQueue(): Promise<void> {
+    // Also discards in-flight refreshes started before an invalidation
+    const request = ++this.cultivationRequest;
+    if (!this.cultivationEl) return;
+    const key = this.getCultivationKey();
+
+    const useCase = new GetCultivationQueueUseCase(
+      this.plugin.getNoteRepository(),
+      this.plugin.getHistoryService(),
+      this.plugin.getReviewScheduleService(),
+    );
+    const entries = await useCase.execute({
+      baseIntervalDays: this.plugin.settings.review.baseIntervalDays,
+    });
+
+    // A newer refresh replaced this one
+    if (request !== this.cultivationRequest) return;
+
+    this.cultivationEntries = entries;
+    this.cultivationKey = key;
+    this.drawCultivationQueue(entries);
+  }
+
+  private getCultivationKey(): string {
+    return `${this.plugin.settings.review.baseIntervalDays}|${new Date().toDateString()}`;
+  }
+
+  private drawCultivationQueue(entries: CultivationQueueEntry[]): void {
+    if (!this.cultivationEl) return;
+
+    const el = this.cultivationEl;
+    el.empty();
+    el.createEl('h4', { text: `🌿 Today's cultivation (${entries.length})` });
+
+    if (entries.length === 0) {
+      el.createDiv({ cls: 'cultivator-tip' }).createEl('p', { text: 'Nothing to revisit today.' });
+      return;
+    }
+
+    entries.slice(0, CULTIVATION_LIMIT).forEach((entry) => this.renderCultivationItem(el, entry));
+
+    if (entries.length > CULTIVATION_LIMIT) {
+      el.createEl('p', {
+        cls: 'assessment-dimension-feedback',
+        text: `...and ${entries.length - CULTIVATION_LIMIT} more`,
+      });
+    }
+  }
+
+  private renderCultivationItem(container: HTMLElement, entry: CultivationQueueEntry): void {
+    const itemEl = container.createDiv({ cls: 'cultivator-cultivation-item' });
+    const infoEl = itemEl.createDiv({ cls: 'cultivator-cultivation-info' });
+
+    const linkEl = infoEl.createEl('a', { cls: 'garden-dashboard-note-title', text: entry.note.basename });
+    linkEl.addEventListener('click', (e) => {
+      e.preventDefault();
+      this.openNote(entry.note.path);
+    });
+
+    const due = entry.overdueDays > 0 ? `overdue ${entry.overdueDays}d` : 'due today';
+    const delta = entry.scoreDelta !== null && entry.scoreDelta !== 0
+      ? ` · ${entry.scoreDelta > 0 ? '▲' : '▼'}${Math.abs(entry.scoreDelta)}`
+      : '';
+    infoEl.createEl('span', {
+      cls: 'garden-dashboard-note-detail',
+      text: `${entry.note.maturityLevel.icon} ${due}${delta}`,
+    });
+
+    const actionsEl = itemEl.createDiv({ cls: 'cultivator-cultivation-actions' });
+    const schedule = this.plugin.getReviewScheduleService();
+
+    const reviewedBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-cultivation-btn',
+      text: '✅',
+      attr: { 'aria-label': 'Mark reviewed' },
+    });
+    reviewedBtn.addEventListener('click', () => schedule.markReviewed(entry.note.path, entry.intervalDays));
+
+    const snoozeDays = this.plugin.settings.review.snoozeDays;
+    const snoozeBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-cultivation-btn',
+      text: '💤',
+      attr: { 'aria-label': `Snooze ${snoozeDays} day(s)` },
+    });
+    snoozeBtn.addEventListener('click', () => schedule.snooze(entry.note.path, snoozeDays));
+
+    const assessBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-cultivation-btn',
+      text: '🔍',
+      attr: { 'aria-label': 'Reassess' },
+    });
+    assessBtn.addEventListener('click', () => this.reassessNote(entry.note.path));
+  }
+
+  private openNote(path: string): void {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (file instanceof TFile) {
+      this.app.workspace.getLeaf().openFile(file);
+    }
+  }
+
+  /**
+   * Assess a queued note (opening it first if needed)
+   */
+  private async reassessNote(path: string): Promise<void> {
+    if (this.currentFile?.path === path) {
+      await this.runAssessment(true);
+      return;
+    }
+    this.pendingAssessPath = path;
+    this.openNote(path);
   }
 
   private renderDynamicContent(): void {
@@ -192,6 +621,39 @@ export class CultivatorView extends ItemView {
         loadedIndicator.createEl('span', { text: '📂 Loaded saved assessment' });
       }
 
+      if (this.lastAssessment.fromCache) {
+        const cachedIndicator = this.dynamicContentEl.createDiv({ cls: 'cultivator-loaded-indicator' });
+        cachedIndicator.createEl('span', { text: '📦 Cached result (note unchanged)' });
+        const reassessBtn = cachedIndicator.createEl('button', {
+          cls: 'cultivator-reassess-btn',
+          text: '🔄 Re-assess',
+        });
+        reassessBtn.addEventListener('click', () => this.runAssessment(true));
+      }
+
+      const answeredBy = this.lastAssessment.assessment.answeredBy;
+      if (answeredBy?.fallback) {
+        const fallbackIndicator = this.dynamicContentEl.createDiv({ cls: 'cultivator-loaded-indicator' });
+        fallbackIndicator.createEl('span', {
+          text: `🔀 Answered by fallback: ${answeredBy.provider} (${answeredBy.model})`,
+        });
+      }
+
+      if (this.lastAssessment.condensation) {
+        const condensedIndicator = this.dynamicContentEl.createDiv({ cls: 'cultivator-loaded-indicator' });
+        condensedIndicator.createEl('span', {
+          text: `📝 ${describeCondensation(this.lastAssessment.condensation)}`,
+        });
+      }
+
+      if (this.lastAssessment.heuristicScore) {
+        const blendedIndicator = this.dynamicContentEl.createDiv({ cls: 'cultivator-loaded-indicator' });
+        const share = Math.round(this.plugin.settings.heuristics.blendWeight * 100);
+        blendedIndicator.createEl('span', {
+          text: `⚡ Blended with offline estimate (${share}%, ${this.lastAssessment.heuristicScore.totalScore}pts)`,
+        });
+      }
+
       this.renderAssessmentResults(this.dynamicContentEl, this.lastAssessment);
       this.renderGrowthGuideSection(this.dynamicContentEl);
 
@@ -211,6 +673,9 @@ export class CultivatorView extends ItemView {
         text: 'Run a quality assessment to receive specific guidance for growing to the next stage.'
       });
     }
+
+    // The coach's focus follows the latest assessment
+    this.coachingPanel?.refreshIntro();
   }
 
   private renderLoadingInDynamicArea(): void {
@@ -227,6 +692,21 @@ export class CultivatorView extends ItemView {
       cls: 'cultivator-loading-text',
       text: 'AI is evaluating note quality...'
     });
+
+    const cancelBtn = loadingEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: 'Cancel',
+    });
+    cancelBtn.addEventListener('click', () => {
+      this.cancelAssessment();
+      this.renderDynamicContent();
+      new Notice('Assessment cancelled.');
+    });
+  }
+
+  private cancelAssessment(): void {
+    this.assessController?.abort();
+    this.assessController = null;
   }
 
   private renderStat(container: HTMLElement, icon: string, label: string, value: string): void {
@@ -256,21 +736,10 @@ export class CultivatorView extends ItemView {
   }
 
   private async buildNoteData(file: TFile): Promise<NoteData> {
-    const content = await this.app.vault.cachedRead(file);
-    const cache = this.app.metadataCache.getFileCache(file);
-    const maturityValue = cache?.frontmatter?.[this.plugin.settings.frontmatterKey];
-
-    return {
-      id: file.path,
-      path: file.path,
-      basename: file.basename,
-      content,
-      metadata: {
-        title: file.basename,
-        tags: cache?.frontmatter?.tags ?? [],
-        growthStage: maturityValue,
-      },
-    };
+    // Through the repository so tags include inline #tags, as in batch assessment
+    const note = await this.plugin.getNoteRepository().getByPath(file.path);
+    if (!note) throw new Error(`Unable to read note: ${file.path}`);
+    return note;
   }
 
   private getExistingLinks(file: TFile): string[] {
@@ -291,7 +760,7 @@ export class CultivatorView extends ItemView {
     return backlinks;
   }
 
-  private async runAssessment(): Promise<void> {
+  private async runAssessment(forceRefresh: boolean = false, automatic: boolean = false): Promise<void> {
     if (!this.currentFile) {
       new Notice('Please open a note first.');
       return;
@@ -309,43 +778,65 @@ export class CultivatorView extends ItemView {
       return;
     }
 
+    // A new run replaces any assessment still in flight
+    this.cancelAssessment();
+    const controller = new AbortController();
+    this.assessController = controller;
+    const file = this.currentFile;
+
     // Show loading state ONLY in dynamic area (keeps header/stats visible)
     this.renderLoadingInDynamicArea();
 
     try {
-      const noteData = await this.buildNoteData(this.currentFile);
-      const existingLinks = this.getExistingLinks(this.currentFile);
-      const backlinks = this.getBacklinks(this.currentFile);
+      const noteData = await this.buildNoteData(file);
+      const existingLinks = this.getExistingLinks(file);
+      const backlinks = this.getBacklinks(file);
+      const profile = this.plugin.getAssessmentProfile(noteData);
 
-      const useCase = new AssessNoteQualityUseCase(provider);
+      const useCase = new AssessNoteQualityUseCase(provider, this.plugin.getResponseCache());
 
       const result = await useCase.execute({
         note: noteData,
         existingLinks,
         backlinks,
+        rubric: this.plugin.getQualityRubric(),
+        profile,
+        language: this.plugin.settings.ai.outputLanguage,
+        forceRefresh,
+        heuristicWeight: this.plugin.settings.heuristics.blendWeight,
+        noteTokenBudget: this.plugin.getNoteTokenBudget(),
+        signal: controller.signal,
       });
 
+      // Cancelled, or the user moved to another note while waiting
+      if (controller.signal.aborted || this.currentFile?.path !== file.path) return;
+
       if (result.assessment) {
         this.lastAssessment = result;
+        this.isLoadedFromNote = false;
+        this.plugin.getAutoAssessService().markAssessed(file.path, noteData.content);
 
-        // Build AssessmentRecord and save to history
-        if (this.plugin.settings.history.enabled) {
-          const record = this.buildAssessmentRecord(result.assessment);
+        // Build AssessmentRecord and save to history (cached results were already recorded)
+        if (this.plugin.settings.history.enabled && !result.fromCache) {
+          const record = result.assessment.toRecord();
           const historyService = this.plugin.getHistoryService();
-          this.lastDelta = historyService.calculateDelta(this.currentFile.path, record);
+          this.lastDelta = historyService.calculateDelta(file.path, record);
           await historyService.addRecord(record);
         }
 
         this.renderDynamicContent();
-        new Notice('✅ Assessment complete!');
+        if (!automatic) new Notice('✅ Assessment complete!');
       } else {
         this.renderDynamicContent();
         new Notice(`❌ Assessment failed: ${result.error ?? 'Unknown error'}`);
       }
     } catch (error) {
+      if (controller.signal.aborted || this.currentFile?.path !== file.path) return;
       this.renderDynamicContent();
       const message = error instanceof Error ? error.message : 'Unknown error';
       new Notice(`❌ Error: ${message}`);
+    } finally {
+      if (this.assessController === controller) this.assessController = null;
     }
   }
 
@@ -365,6 +856,12 @@ export class CultivatorView extends ItemView {
       this.renderDeltaBadge(scoreValueEl, this.lastDelta.totalDelta);
     }
     scoreEl.createEl('span', { cls: 'cultivator-score-grade', text: qualityScore.getGrade() });
+    if (assessment.profile) {
+      resultsEl.createDiv({
+        cls: 'cultivator-profile-label',
+        text: `📋 Profile: ${assessment.profile.name}`,
+      });
+    }
 
     // Dimension scores
     const dimensionsEl = resultsEl.createDiv({ cls: 'cultivator-dimensions' });
@@ -546,22 +1043,6 @@ export class CultivatorView extends ItemView {
   // History Helpers
   // ============================================
 
-  private buildAssessmentRecord(assessment: NoteAssessment): AssessmentRecord {
-    const dimensionScores: Record<string, number> = {};
-    for (const dim of assessment.qualityScore.getAllDimensions()) {
-      dimensionScores[dim.type] = dim.score;
-    }
-
-    return {
-      id: assessment.id,
-      notePath: assessment.notePath,
-      totalScore: assessment.qualityScore.totalScore,
-      dimensionScores: dimensionScores as Record<QualityDimensionType, number>,
-      maturityLevel: assessment.currentMaturity.level,
-      assessedAt: assessment.assessedAt.getTime(),
-    };
-  }
-
   private renderDeltaBadge(container: HTMLElement, delta: number): void {
     if (delta === 0) return;
 
@@ -590,6 +1071,10 @@ export class CultivatorView extends ItemView {
       lines.push(`> **Recommended Maturity**: ${assessment.recommendedMaturity.icon} ${assessment.recommendedMaturity.displayName}`);
     }
 
+    if (assessment.profile) {
+      lines.push(`> **Profile**: ${assessment.profile.name}`);
+    }
+
     lines.push(`>`);
     lines.push(`> | Dimension | Score | Feedback |`);
     lines.push(`> |-----------|-------|----------|`);
@@ -598,27 +1083,19 @@ export class CultivatorView extends ItemView {
       // Escape pipe characters in feedback
       const feedback = imp.suggestion.replace(/\|/g, '\\|').replace(/\n/g, ' ');
       const truncatedFeedback = feedback.length > 100 ? feedback.substring(0, 100) + '...' : feedback;
-      lines.push(`> | ${imp.dimension} | ${this.getScoreForDimension(imp.dimension)}pts | ${truncatedFeedback} |`);
+      lines.push(`> | ${imp.dimension} | ${this.getScoreForDimension(imp)}pts | ${truncatedFeedback} |`);
     });
 
     return lines.join('\n');
   }
 
-  private getScoreForDimension(dimensionName: string): number {
+  private getScoreForDimension(imp: ImprovementSuggestion): number {
     if (!this.lastAssessment?.assessment) return 0;
 
-    const qualityScore = this.lastAssessment.assessment.qualityScore;
-    const dimensions = qualityScore.getAllDimensions();
-
-    const dimensionMap: Record<string, string> = {
-      'Atomicity': 'Atomicity',
-      'Connectivity': 'Connectivity',
-      'Clarity': 'Clarity',
-      'Evidence': 'Evidence',
-      'Originality': 'Originality',
-    };
-
-    const dim = dimensions.find(d => d.displayName === dimensionName);
+    const dimensions = this.lastAssessment.assessment.qualityScore.getAllDimensions();
+    const dim = dimensions.find((d) =>
+      imp.dimensionType ? d.type === imp.dimensionType : d.displayName === imp.dimension
+    );
     return dim?.score ?? 0;
   }
 
@@ -677,6 +1154,21 @@ export class CultivatorView extends ItemView {
     }
   }
 
+  /**
+   * Match a saved dimension label (rubric name, id or localized built-in label)
+   */
+  private findRubricDimension(label: string): QualityDimensionConfig | undefined {
+    const rubric = this.plugin.getQualityRubric();
+    const direct = rubric.findDimension(label);
+    if (direct) return direct;
+
+    const languages: ResolvedOutputLanguage[] = ['en', 'ko', 'ja'];
+    return rubric.dimensions.find((d) =>
+      QualityDimension.isBuiltIn(d.type) &&
+      languages.some((lang) => getDimensionLabel(d.type as BuiltInDimensionType, lang) === label)
+    );
+  }
+
   private parseAssessmentCallout(calloutBlock: string): AssessNoteQualityOutput | null {
     try {
       const lines = calloutBlock.split('\n').map(l => l.replace(/^>\s?/, ''));
@@ -690,15 +1182,17 @@ export class CultivatorView extends ItemView {
       const maturityLine = lines.find(l => l.includes('**Recommended Maturity**'));
       let recommendedMaturity: MaturityLevel | null = null;
       if (maturityLine) {
-        if (maturityLine.includes('Evergreen')) recommendedMaturity = MaturityLevel.create('evergreen');
-        else if (maturityLine.includes('Tree')) recommendedMaturity = MaturityLevel.create('tree');
-        else if (maturityLine.includes('Sprout')) recommendedMaturity = MaturityLevel.create('sprout');
-        else recommendedMaturity = MaturityLevel.create('seed');
+        const value = maturityLine.split('**Recommended Maturity**:')[1]?.trim() ?? '';
+        recommendedMaturity = MaturityLevel.getAllLevels()
+          .reverse()
+          .find((level) => value === level.getDisplayText() || value.includes(level.displayName))
+          ?? MaturityLevel.default();
       }
 
-      // Parse dimension scores from table
+      // Parse dimension scores from table (rows are matched to the active rubric)
+      const rubric = this.plugin.getQualityRubric();
       const tableLines = lines.filter(l => l.startsWith('|') && !l.includes('---') && !l.includes('Dimension'));
-      const improvements: { dimension: string; priority: 'high' | 'medium' | 'low'; suggestion: string }[] = [];
+      const improvements: ImprovementSuggestion[] = [];
       const dimensionScores: Record<string, { score: number; feedback: string }> = {};
 
       tableLines.forEach(line => {
@@ -709,23 +1203,21 @@ export class CultivatorView extends ItemView {
           const score = scoreMatch ? parseInt(scoreMatch[1]) : 0;
           const feedback = cells[2].replace(/\\\|/g, '|');
 
-          dimensionScores[dimension] = { score, feedback };
+          const config = this.findRubricDimension(dimension);
+          if (config) dimensionScores[config.type] = { score, feedback };
 
           const priority: 'high' | 'medium' | 'low' =
             score >= 80 ? 'low' : score >= 60 ? 'medium' : 'high';
 
-          improvements.push({ dimension, priority, suggestion: feedback });
+          improvements.push({ dimension, dimensionType: config?.type, priority, suggestion: feedback });
         }
       });
 
       // Build a minimal assessment object for display
-      const qualityScore = QualityScore.fromScores({
-        atomicity: dimensionScores['Atomicity'] || { score: 0, feedback: '' },
-        connectivity: dimensionScores['Connectivity'] || { score: 0, feedback: '' },
-        clarity: dimensionScores['Clarity'] || { score: 0, feedback: '' },
-        evidence: dimensionScores['Evidence'] || { score: 0, feedback: '' },
-        originality: dimensionScores['Originality'] || { score: 0, feedback: '' },
+      rubric.dimensionTypes.forEach((type) => {
+        if (!dimensionScores[type]) dimensionScores[type] = { score: 0, feedback: '' };
       });
+      const qualityScore = QualityScore.fromScores(dimensionScores, rubric);
 
       const currentMaturity = MaturityLevel.default();
 
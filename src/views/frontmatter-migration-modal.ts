@@ -0,0 +1,202 @@
+/**
+ * Frontmatter Key Migration Modal
+ * Previews and performs renaming of the maturity frontmatter key across the vault
+ */
+
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type EvergreenNoteCultivatorPlugin from '../main';
+import {
+  MigrateFrontmatterKeyUseCase,
+  type MigrateFrontmatterKeyOutput,
+} from '../core/application';
+
+// Max file paths listed in the preview
+const PREVIEW_LIMIT = 20;
+
+export class FrontmatterMigrationModal extends Modal {
+  private plugin: EvergreenNoteCultivatorPlugin;
+  private oldKey: string;
+  private newKey: string;
+  private preview: MigrateFrontmatterKeyOutput | null = null;
+  private resultEl: HTMLElement | null = null;
+  private isWorking: boolean = false;
+
+  constructor(app: App, plugin: EvergreenNoteCultivatorPlugin, oldKey: string = '') {
+    super(app);
+    this.plugin = plugin;
+    this.oldKey = oldKey;
+    this.newKey = plugin.settings.frontmatterKey;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.addClass('frontmatter-migration-modal');
+
+    const headerEl = contentEl.createDiv({ cls: 'assessment-modal-header' });
+    headerEl.createEl('h2', { text: '🔑 Migrate Maturity Frontmatter Key' });
+    headerEl.createEl('p', {
+      cls: 'assessment-modal-subtitle',
+      text: 'Rename the frontmatter key that stores maturity in every note',
+    });
+
+    new Setting(contentEl)
+      .setName('Old key')
+      .setDesc('Key currently used in your notes')
+      .addText((text) => {
+        text
+          .setPlaceholder('growth-stage')
+          .setValue(this.oldKey)
+          .onChange((value) => {
+            this.oldKey = value;
+            this.resetPreview();
+          });
+      });
+
+    new Setting(contentEl)
+      .setName('New key')
+      .setDesc('Key to write instead (defaults to the configured key)')
+      .addText((text) => {
+        text
+          .setPlaceholder('growth-stage')
+          .setValue(this.newKey)
+          .onChange((value) => {
+            this.newKey = value;
+            this.resetPreview();
+          });
+      });
+
+    const actionsEl = contentEl.createDiv({ cls: 'cultivator-actions' });
+    const previewBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: '🔍 Preview (dry run)',
+    });
+    previewBtn.addEventListener('click', () => this.runPreview());
+
+    this.resultEl = contentEl.createDiv({ cls: 'frontmatter-migration-result' });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.preview = null;
+    this.resultEl = null;
+  }
+
+  private resetPreview(): void {
+    this.preview = null;
+    this.resultEl?.empty();
+  }
+
+  private async runPreview(): Promise<void> {
+    if (this.isWorking || !this.resultEl) return;
+    this.isWorking = true;
+
+    try {
+      const useCase = new MigrateFrontmatterKeyUseCase(this.plugin.getNoteRepository());
+      const result = await useCase.execute({
+        oldKey: this.oldKey,
+        newKey: this.newKey,
+        dryRun: true,
+      });
+
+      if (result.error) {
+        new Notice(`❌ ${result.error}`);
+        return;
+      }
+
+      this.preview = result;
+      this.renderPreview(result);
+    } finally {
+      this.isWorking = false;
+    }
+  }
+
+  private renderPreview(result: MigrateFrontmatterKeyOutput): void {
+    if (!this.resultEl) return;
+    const container = this.resultEl;
+    container.empty();
+
+    const summaryCard = container.createDiv({ cls: 'assessment-suggestion-card' });
+    summaryCard.createEl('h4', {
+      text: `${result.affected.length} note(s) will be updated`,
+    });
+    summaryCard.createEl('p', {
+      cls: 'assessment-dimension-feedback',
+      text: `"${this.oldKey.trim()}" → "${this.newKey.trim()}"`,
+    });
+
+    this.renderPathList(
+      summaryCard,
+      result.affected.map((e) => `${e.notePath} (${String(e.value)})`)
+    );
+
+    if (result.conflicts.length > 0) {
+      const conflictCard = container.createDiv({ cls: 'assessment-suggestion-card' });
+      conflictCard.createEl('h4', {
+        text: `⚠️ ${result.conflicts.length} conflict(s) will be skipped`,
+      });
+      conflictCard.createEl('p', {
+        cls: 'assessment-dimension-feedback',
+        text: 'These notes already have the new key with a different value.',
+      });
+      this.renderPathList(
+        conflictCard,
+        result.conflicts.map(
+          (e) => `${e.notePath} (${String(e.value)} vs ${String(e.conflictValue)})`
+        )
+      );
+    }
+
+    if (result.affected.length === 0) return;
+
+    const migrateBtn = container.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-primary',
+      text: `Migrate ${result.affected.length} note(s)`,
+    });
+    migrateBtn.addEventListener('click', async () => {
+      migrateBtn.disabled = true;
+      await this.runMigration();
+    });
+  }
+
+  private renderPathList(container: HTMLElement, lines: string[]): void {
+    const listEl = container.createEl('ul', { cls: 'frontmatter-migration-list' });
+    lines.slice(0, PREVIEW_LIMIT).forEach((line) => listEl.createEl('li', { text: line }));
+    if (lines.length > PREVIEW_LIMIT) {
+      listEl.createEl('li', { text: `...and ${lines.length - PREVIEW_LIMIT} more` });
+    }
+  }
+
+  private async runMigration(): Promise<void> {
+    if (this.isWorking || !this.preview) return;
+    this.isWorking = true;
+
+    try {
+      const useCase = new MigrateFrontmatterKeyUseCase(this.plugin.getNoteRepository());
+      const result = await useCase.execute({
+        oldKey: this.oldKey,
+        newKey: this.newKey,
+      });
+
+      if (result.error) {
+        new Notice(`❌ ${result.error}`);
+        return;
+      }
+
+      // Point the plugin at the new key so views and repository stay in sync
+      const newKey = this.newKey.trim();
+      if (this.plugin.settings.frontmatterKey !== newKey) {
+        this.plugin.settings.frontmatterKey = newKey;
+        await this.plugin.saveSettings();
+      }
+
+      const failedText = result.failed.length > 0 ? `, ${result.failed.length} failed` : '';
+      new Notice(`✅ Migrated ${result.migratedCount} note(s)${failedText}.`);
+      if (result.failed.length > 0) {
+        console.error('Frontmatter key migration failures:', result.failed);
+      }
+      this.close();
+    } finally {
+      this.isWorking = false;
+    }
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * Garden Dashboard View
+ * Vault-wide overview of note maturity and assessment analytics
+ */
+
+import { ItemView, WorkspaceLeaf, TFile, Notice } from 'obsidian';
+import type EvergreenNoteCultivatorPlugin from '../main';
+import type { NoteSummary } from '../core/domain';
+import {
+  GetGardenOverviewUseCase,
+  GetWiltingNotesUseCase,
+  type GardenOverview,
+  type WiltingNoteEntry,
+} from '../core/application';
+import { WiltingReviewModal } from './wilting-review-modal';
+
+export const VIEW_TYPE_GARDEN_DASHBOARD = 'evergreen-garden-dashboard';
+
+// Max rows rendered per note list
+const LIST_LIMIT = 10;
+
+export class GardenDashboardView extends ItemView {
+  private plugin: EvergreenNoteCultivatorPlugin;
+  private isRefreshing: boolean = false;
+
+  constructor(leaf: WorkspaceLeaf, plugin: EvergreenNoteCultivatorPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_GARDEN_DASHBOARD;
+  }
+
+  getDisplayText(): string {
+    return 'Garden Dashboard';
+  }
+
+  getIcon(): string {
+    return 'trees';
+  }
+
+  async onOpen(): Promise<void> {
+    const container = this.containerEl.children[1] as HTMLElement;
+    container.empty();
+    container.addClass('garden-dashboard-container');
+
+    await this.refresh();
+  }
+
+  async onClose(): Promise<void> {
+    this.isRefreshing = false;
+  }
+
+  async refresh(): Promise<void> {
+    if (this.isRefreshing) return;
+    this.isRefreshing = true;
+
+    const container = this.containerEl.children[1] as HTMLElement;
+    container.empty();
+
+    const loadingEl = container.createDiv({ cls: 'cultivator-loading' });
+    const spinnerWrapper = loadingEl.createDiv({ cls: 'cultivator-spinner-wrapper' });
+    spinnerWrapper.createDiv({ cls: 'cultivator-spinner' });
+    loadingEl.createEl('p', { cls: 'cultivator-loading-text', text: 'Surveying the garden...' });
+
+    try {
+      const useCase = new GetGardenOverviewUseCase(
+        this.plugin.getNoteRepository(),
+        this.plugin.getHistoryService(),
+      );
+      const overview = await useCase.execute({
+        lowestLimit: LIST_LIMIT,
+        rubric: this.plugin.getQualityRubric(),
+        profiles: this.plugin.settings.profiles,
+      });
+      const wilting = await new GetWiltingNotesUseCase(
+        this.plugin.getNoteRepository(),
+        this.plugin.getHistoryService(),
+      ).execute({
+        policy: this.plugin.settings.decay,
+        profiles: this.plugin.settings.profiles,
+      });
+
+      container.empty();
+      this.renderDashboard(container, overview, wilting);
+    } catch (error) {
+      container.empty();
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      new Notice(`❌ Dashboard failed: ${message}`);
+      const errorEl = container.createDiv({ cls: 'assessment-error' });
+      errorEl.createEl('p', { text: `❌ ${message}` });
+    } finally {
+      this.isRefreshing = false;
+    }
+  }
+
+  private renderDashboard(
+    container: HTMLElement,
+    overview: GardenOverview,
+    wilting: WiltingNoteEntry[]
+  ): void {
+    // Header
+    const headerEl = container.createDiv({ cls: 'garden-dashboard-header' });
+    headerEl.createEl('h2', { text: '🌳 Garden Dashboard' });
+    const refreshBtn = headerEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: '🔄 Refresh',
+    });
+    refreshBtn.addEventListener('click', () => this.refresh());
+
+    // Summary stats
+    const statsEl = container.createDiv({ cls: 'cultivator-stats' });
+    this.renderStat(statsEl, '📝', 'Notes', overview.totalNotes.toString());
+    this.renderStat(statsEl, '📊', 'Assessed', overview.assessedCount.toString());
+    this.renderStat(
+      statsEl,
+      '⭐',
+      'Avg score',
+      overview.averageTotalScore !== null ? `${overview.averageTotalScore}pts` : '-'
+    );
+
+    const gridEl = container.createDiv({ cls: 'garden-dashboard-grid' });
+    this.renderMaturityDistribution(gridEl, overview);
+    this.renderDimensionAverages(gridEl, overview);
+    this.renderUpgradeCandidates(gridEl, overview);
+    if (this.plugin.settings.decay.enabled) {
+      this.renderWilting(gridEl, wilting);
+    }
+    this.renderLowestScoring(gridEl, overview);
+    this.renderUnassessed(gridEl, overview);
+  }
+
+  private renderMaturityDistribution(container: HTMLElement, overview: GardenOverview): void {
+    const section = this.createSection(container, '🌱 Maturity Distribution');
+
+    overview.maturityCounts.forEach(({ level, count }) => {
+      const percent = overview.totalNotes > 0 ? Math.round((count / overview.totalNotes) * 100) : 0;
+      this.renderBar(section, `${level.icon} ${level.displayName}`, `${count} (${percent}%)`, percent);
+    });
+  }
+
+  private renderDimensionAverages(container: HTMLElement, overview: GardenOverview): void {
+    const section = this.createSection(container, '📏 Average Dimension Scores');
+
+    if (overview.assessedCount === 0) {
+      section.createEl('p', { cls: 'cultivator-tip', text: 'No assessments yet.' });
+      return;
+    }
+
+    overview.dimensionAverages.forEach((avg) => {
+      const value = avg.sampleSize > 0 ? `${avg.average}pts` : '—';
+      this.renderBar(section, `${avg.icon} ${avg.displayName}`, value, avg.average);
+    });
+  }
+
+  private renderUpgradeCandidates(container: HTMLElement, overview: GardenOverview): void {
+    const section = this.createSection(
+      container,
+      `✨ Ready to Grow (${overview.upgradeCandidates.length})`
+    );
+
+    if (overview.upgradeCandidates.length === 0) {
+      section.createEl('p', { cls: 'cultivator-tip', text: 'No notes have outgrown their stage.' });
+      return;
+    }
+
+    overview.upgradeCandidates.slice(0, LIST_LIMIT).forEach((entry) => {
+      this.renderNoteRow(
+        section,
+        entry.note,
+        `${entry.note.maturityLevel.icon} → ${entry.recommended.icon} · ${entry.record.totalScore}pts`
+      );
+    });
+  }
+
+  private renderWilting(container: HTMLElement, wilting: WiltingNoteEntry[]): void {
+    const section = this.createSection(container, `🍂 Wilting (${wilting.length})`);
+
+    if (wilting.length === 0) {
+      section.createEl('p', { cls: 'cultivator-tip', text: 'No notes are wilting.' });
+      return;
+    }
+
+    wilting.slice(0, LIST_LIMIT).forEach((entry) => {
+      this.renderNoteRow(
+        section,
+        entry.note,
+        `${entry.note.maturityLevel.icon} → ${entry.suggested.icon} · ${entry.reasons.map((r) => r.type).join(', ')}`
+      );
+    });
+
+    const reviewBtn = section.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: 'Review & downgrade...',
+    });
+    reviewBtn.addEventListener('click', () => {
+      new WiltingReviewModal(this.app, this.plugin, () => this.refresh()).open();
+    });
+  }
+
+  private renderLowestScoring(container: HTMLElement, overview: GardenOverview): void {
+    const section = this.createSection(container, '🥀 Lowest-Scoring Notes');
+
+    if (overview.lowestScoringNotes.length === 0) {
+      section.createEl('p', { cls: 'cultivator-tip', text: 'No assessments yet.' });
+      return;
+    }
+
+    overview.lowestScoringNotes.forEach((entry) => {
+      this.renderNoteRow(section, entry.note, `${entry.record.totalScore}pts`);
+    });
+  }
+
+  private renderUnassessed(container: HTMLElement, overview: GardenOverview): void {
+    const section = this.createSection(
+      container,
+      `🌰 Never Assessed (${overview.unassessedNotes.length})`
+    );
+
+    if (overview.unassessedNotes.length === 0) {
+      section.createEl('p', { cls: 'cultivator-tip', text: 'Every note has been assessed.' });
+      return;
+    }
+
+    overview.unassessedNotes.slice(0, LIST_LIMIT).forEach((note) => {
+      this.renderNoteRow(section, note, note.maturityLevel.icon);
+    });
+
+    if (overview.unassessedNotes.length > LIST_LIMIT) {
+      section.createEl('p', {
+        cls: 'assessment-dimension-feedback',
+        text: `...and ${overview.unassessedNotes.length - LIST_LIMIT} more. Use "Batch assess whole vault" to assess them.`,
+      });
+    }
+  }
+
+  // ============ Render Helpers ============
+
+  private createSection(container: HTMLElement, title: string): HTMLElement {
+    const section = container.createDiv({ cls: 'garden-dashboard-section' });
+    section.createEl('h4', { text: title });
+    return section;
+  }
+
+  private renderBar(container: HTMLElement, label: string, value: string, percent: number): void {
+    const barContainer = container.createDiv({ cls: 'cultivator-dimension' });
+    const labelEl = barContainer.createDiv({ cls: 'cultivator-dimension-label' });
+    labelEl.createEl('span', { text: label });
+    labelEl.createEl('span', { text: value });
+
+    const barBg = barContainer.createDiv({ cls: 'cultivator-dimension-bar-bg' });
+    const barFill = barBg.createDiv({ cls: 'cultivator-dimension-bar-fill cultivator-bar-good' });
+    barFill.style.width = `${percent}%`;
+  }
+
+  private renderNoteRow(container: HTMLElement, note: NoteSummary, detail: string): void {
+    const rowEl = container.createDiv({ cls: 'garden-dashboard-note' });
+    const linkEl = rowEl.createEl('a', { cls: 'garden-dashboard-note-title', text: note.basename });
+    rowEl.createEl('span', { cls: 'garden-dashboard-note-detail', text: detail });
+
+    linkEl.addEventListener('click', (e) => {
+      e.preventDefault();
+      const file = this.app.vault.getAbstractFileByPath(note.path);
+      if (file instanceof TFile) {
+        this.app.workspace.getLeaf().openFile(file);
+      }
+    });
+  }
+
+  private renderStat(container: HTMLElement, icon: string, label: string, value: string): void {
+    const statEl = container.createDiv({ cls: 'cultivator-stat' });
+    statEl.createEl('span', { cls: 'cultivator-stat-icon', text: icon });
+    statEl.createEl('span', { cls: 'cultivator-stat-label', text: label });
+    statEl.createEl('span', { cls: 'cultivator-stat-value', text: value });
+  }
+}
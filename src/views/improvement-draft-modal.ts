@@ -0,0 +1,312 @@
+/**
+ * Improvement Draft Modal
+ * Drafts a concrete rewrite for one improvement action, shows it as a
+ * side-by-side diff against the current note and applies the accepted
+ * changes (undoable as one operation)
+ */
+
+import { App, Modal, Notice, TFile } from 'obsidian';
+import type EvergreenNoteCultivatorPlugin from '../main';
+import type { QualityDimensionType } from '../core/domain';
+import {
+  DraftImprovementEditUseCase,
+  ApplyNoteEditUseCase,
+  type DiffHunk,
+  type DimensionImprovementAction,
+  type ImprovementEditDraft,
+  type NoteEditOperation,
+} from '../core/application';
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 2;
+
+export class ImprovementDraftModal extends Modal {
+  private plugin: EvergreenNoteCultivatorPlugin;
+  private file: TFile;
+  private dimension: QualityDimensionType;
+  private action: DimensionImprovementAction;
+  private draft: ImprovementEditDraft | null = null;
+  private acceptedHunkIds: Set<number> = new Set();
+  private bodyEl: HTMLElement | null = null;
+  private isWorking: boolean = false;
+  // Aborted when the modal closes; stops the drafting request
+  private abortController: AbortController = new AbortController();
+
+  constructor(
+    app: App,
+    plugin: EvergreenNoteCultivatorPlugin,
+    file: TFile,
+    dimension: QualityDimensionType,
+    action: DimensionImprovementAction
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.file = file;
+    this.dimension = dimension;
+    this.action = action;
+  }
+
+  async onOpen(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.addClass('assessment-modal');
+    contentEl.addClass('improvement-draft-modal');
+
+    const headerEl = contentEl.createDiv({ cls: 'assessment-modal-header' });
+    headerEl.createEl('h2', { text: '✏️ Draft Change' });
+    headerEl.createEl('p', { cls: 'assessment-modal-subtitle', text: this.file.basename });
+
+    const actionCard = contentEl.createDiv({ cls: 'assessment-suggestion-card' });
+    actionCard.createEl('p', { text: this.action.action });
+    if (this.action.location) {
+      actionCard.createEl('p', {
+        cls: 'assessment-dimension-feedback',
+        text: `📍 ${this.action.location}`,
+      });
+    }
+
+    this.bodyEl = contentEl.createDiv();
+    this.abortController = new AbortController();
+    await this.runDraft(false);
+  }
+
+  onClose(): void {
+    this.abortController.abort();
+    this.contentEl.empty();
+    this.draft = null;
+    this.bodyEl = null;
+  }
+
+  private async runDraft(forceRefresh: boolean): Promise<void> {
+    const bodyEl = this.bodyEl;
+    if (!bodyEl) return;
+    bodyEl.empty();
+    this.draft = null;
+
+    const loadingEl = bodyEl.createDiv({ cls: 'assessment-loading' });
+    loadingEl.createEl('div', { cls: 'assessment-spinner' });
+    loadingEl.createEl('p', { text: 'Drafting the change...' });
+    const cancelBtn = loadingEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: 'Cancel',
+    });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const { signal } = this.abortController;
+
+    const provider = this.plugin.getAIService()?.getCurrentProvider();
+    if (!provider) {
+      loadingEl.remove();
+      this.renderError('AI provider not found.');
+      return;
+    }
+
+    try {
+      const note = await this.plugin.getNoteRepository().getByPath(this.file.path);
+      if (!note) {
+        loadingEl.remove();
+        this.renderError('Unable to read note.');
+        return;
+      }
+
+      const useCase = new DraftImprovementEditUseCase(provider, this.plugin.getResponseCache());
+      const result = await useCase.execute({
+        note,
+        dimension: this.dimension,
+        dimensionConfig: this.plugin.getQualityRubric().getDimension(this.dimension),
+        action: this.action,
+        language: this.plugin.settings.ai.outputLanguage,
+        forceRefresh,
+        signal,
+      });
+      if (signal.aborted) return;
+
+      loadingEl.remove();
+
+      if (!result.draft) {
+        this.renderError(result.error ?? 'Unknown error');
+        this.renderRetryActions();
+        return;
+      }
+
+      this.draft = result.draft;
+      this.acceptedHunkIds = new Set(result.draft.hunks.map((hunk) => hunk.id));
+      this.renderPreview();
+    } catch (error) {
+      if (signal.aborted) return;
+      loadingEl.remove();
+      this.renderError(error instanceof Error ? error.message : 'Unknown error');
+      this.renderRetryActions();
+    }
+  }
+
+  private renderPreview(): void {
+    if (!this.draft || !this.bodyEl) return;
+    const draft = this.draft;
+    const bodyEl = this.bodyEl;
+
+    if (draft.explanation) {
+      bodyEl.createEl('p', { cls: 'assessment-dimension-feedback', text: draft.explanation });
+    }
+
+    const originalLines = draft.originalContent.split('\n');
+    draft.hunks.forEach((hunk, idx) => {
+      this.renderHunk(bodyEl, hunk, idx, originalLines);
+    });
+
+    const actionsEl = bodyEl.createDiv({ cls: 'cultivator-actions' });
+    const applyBtn = actionsEl.createEl('button', { cls: 'cultivator-btn cultivator-btn-primary' });
+    const updateApplyBtn = () => {
+      applyBtn.setText(`✅ Apply ${this.acceptedHunkIds.size} of ${draft.hunks.length} change(s)`);
+      applyBtn.disabled = this.acceptedHunkIds.size === 0;
+    };
+    updateApplyBtn();
+    bodyEl.querySelectorAll<HTMLInputElement>('.draft-edit-hunk-toggle').forEach((checkbox) => {
+      checkbox.addEventListener('change', updateApplyBtn);
+    });
+    applyBtn.addEventListener('click', async () => {
+      applyBtn.disabled = true;
+      const applied = await this.applyDraft();
+      if (!applied) updateApplyBtn();
+    });
+
+    const redraftBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: '🔄 Redraft',
+    });
+    redraftBtn.addEventListener('click', () => this.runDraft(true));
+
+    const cancelBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: 'Cancel',
+    });
+    cancelBtn.addEventListener('click', () => this.close());
+  }
+
+  /**
+   * One change: accept toggle plus current/draft columns with surrounding context
+   */
+  private renderHunk(container: HTMLElement, hunk: DiffHunk, idx: number, originalLines: string[]): void {
+    const hunkEl = container.createDiv({ cls: 'draft-edit-hunk' });
+
+    const labelEl = hunkEl.createEl('label', { cls: 'draft-edit-hunk-header' });
+    const checkbox = labelEl.createEl('input', {
+      cls: 'draft-edit-hunk-toggle',
+      attr: { type: 'checkbox' },
+    });
+    checkbox.checked = this.acceptedHunkIds.has(hunk.id);
+    checkbox.addEventListener('change', () => {
+      if (checkbox.checked) this.acceptedHunkIds.add(hunk.id);
+      else this.acceptedHunkIds.delete(hunk.id);
+      hunkEl.toggleClass('is-rejected', !checkbox.checked);
+    });
+    labelEl.createSpan({ text: `Change ${idx + 1} · line ${hunk.oldStart + 1}` });
+
+    const diffEl = hunkEl.createDiv({ cls: 'draft-edit-diff' });
+    diffEl.createDiv({ cls: 'draft-edit-column-title', text: 'Current' });
+    diffEl.createDiv({ cls: 'draft-edit-column-title', text: 'Draft' });
+
+    const before = originalLines.slice(Math.max(0, hunk.oldStart - CONTEXT_LINES), hunk.oldStart);
+    const afterStart = hunk.oldStart + hunk.oldLines.length;
+    const after = originalLines.slice(afterStart, afterStart + CONTEXT_LINES);
+
+    before.forEach((line) => this.renderRow(diffEl, line, line, 'is-context', 'is-context'));
+
+    const rows = Math.max(hunk.oldLines.length, hunk.newLines.length);
+    for (let i = 0; i < rows; i++) {
+      const oldLine = i < hunk.oldLines.length ? hunk.oldLines[i] : null;
+      const newLine = i < hunk.newLines.length ? hunk.newLines[i] : null;
+      this.renderRow(
+        diffEl,
+        oldLine,
+        newLine,
+        oldLine === null ? 'is-empty' : 'is-removed',
+        newLine === null ? 'is-empty' : 'is-added'
+      );
+    }
+
+    after.forEach((line) => this.renderRow(diffEl, line, line, 'is-context', 'is-context'));
+  }
+
+  private renderRow(
+    diffEl: HTMLElement,
+    oldLine: string | null,
+    newLine: string | null,
+    oldCls: string,
+    newCls: string
+  ): void {
+    diffEl.createDiv({ cls: `draft-edit-line ${oldCls}`, text: oldLine ?? '' });
+    diffEl.createDiv({ cls: `draft-edit-line ${newCls}`, text: newLine ?? '' });
+  }
+
+  private async applyDraft(): Promise<boolean> {
+    if (!this.draft || this.isWorking) return false;
+    this.isWorking = true;
+
+    try {
+      const useCase = new ApplyNoteEditUseCase(this.plugin.getNoteRepository());
+      const result = await useCase.execute({
+        draft: this.draft,
+        acceptedHunkIds: Array.from(this.acceptedHunkIds),
+      });
+
+      if (!result.operation) {
+        new Notice(`❌ Apply failed: ${result.error ?? 'Unknown error'}`);
+        return false;
+      }
+
+      this.plugin.setLastEditOperation(result.operation);
+      new Notice(`✏️ Applied ${result.operation.appliedHunkCount} change(s).`);
+      this.renderDone(result.operation);
+      return true;
+    } finally {
+      this.isWorking = false;
+    }
+  }
+
+  private renderDone(operation: NoteEditOperation): void {
+    const bodyEl = this.bodyEl;
+    if (!bodyEl) return;
+    bodyEl.empty();
+
+    const doneCard = bodyEl.createDiv({ cls: 'assessment-suggestion-card' });
+    doneCard.createEl('h4', { text: '✅ Change Applied' });
+    doneCard.createEl('p', {
+      cls: 'assessment-dimension-feedback',
+      text: `${operation.appliedHunkCount} change(s) written to ${this.file.basename}.`,
+    });
+
+    const actionsEl = bodyEl.createDiv({ cls: 'cultivator-actions' });
+    const undoBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: '↩️ Undo',
+    });
+    undoBtn.addEventListener('click', async () => {
+      undoBtn.disabled = true;
+      const undone = await this.plugin.undoLastEdit();
+      if (undone) this.close();
+      else undoBtn.disabled = false;
+    });
+
+    const closeBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-primary',
+      text: 'Done',
+    });
+    closeBtn.addEventListener('click', () => this.close());
+  }
+
+  private renderRetryActions(): void {
+    if (!this.bodyEl) return;
+    const actionsEl = this.bodyEl.createDiv({ cls: 'cultivator-actions' });
+    const retryBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: '🔄 Try again',
+    });
+    retryBtn.addEventListener('click', () => this.runDraft(true));
+  }
+
+  private renderError(message: string): void {
+    if (!this.bodyEl) return;
+    const errorEl = this.bodyEl.createDiv({ cls: 'assessment-error' });
+    errorEl.createEl('p', { text: `❌ ${message}` });
+  }
+}
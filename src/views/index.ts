@@ -4,5 +4,15 @@
  */
 
 export { CultivatorView, VIEW_TYPE_CULTIVATOR } from './cultivator-view';
+export { GardenDashboardView, VIEW_TYPE_GARDEN_DASHBOARD } from './garden-dashboard-view';
 export { AssessmentModal } from './assessment-modal';
+export { BatchAssessmentModal } from './batch-assessment-modal';
+export { FolderSuggestModal, TagSuggestModal } from './scope-suggest-modals';
+export { MaturityBadgeManager } from './maturity-badges';
+export { FrontmatterMigrationModal } from './frontmatter-migration-modal';
+export { MaturityStageRemapModal } from './maturity-stage-remap-modal';
+export { WiltingReviewModal } from './wilting-review-modal';
 export { CultivatorSettingTab } from './settings/settings-tab';
+export { SplitNoteModal } from './split-note-modal';
+export { ImprovementDraftModal } from './improvement-draft-modal';
+export { CoachingPanel } from './coaching-panel';
@@ -0,0 +1,227 @@
+/**
+ * Maturity Badges
+ * Decorates file explorer items, tab headers and link hover previews
+ * with the note's maturity icon (and optionally its last total score)
+ */
+
+import { App, Component, TFile, View, WorkspaceLeaf } from 'obsidian';
+import type EvergreenNoteCultivatorPlugin from '../main';
+import { MaturityLevel } from '../core/domain';
+
+const BADGE_CLASS = 'cultivator-maturity-badge';
+
+// Hover previews open shortly after the mouse enters a link
+const HOVER_LINK_TTL_MS = 3000;
+
+/**
+ * Internal (undocumented) Obsidian structures used for decoration
+ */
+interface FileExplorerItem {
+  selfEl?: HTMLElement;
+}
+
+interface FileExplorerView extends View {
+  fileItems?: Record<string, FileExplorerItem>;
+}
+
+interface LeafWithTabHeader extends WorkspaceLeaf {
+  tabHeaderInnerTitleEl?: HTMLElement;
+}
+
+interface HoveredLink {
+  linktext: string;
+  sourcePath: string;
+  at: number;
+}
+
+export class MaturityBadgeManager extends Component {
+  private app: App;
+  private plugin: EvergreenNoteCultivatorPlugin;
+  private lastHoveredLink: HoveredLink | null = null;
+
+  constructor(app: App, plugin: EvergreenNoteCultivatorPlugin) {
+    super();
+    this.app = app;
+    this.plugin = plugin;
+  }
+
+  onload(): void {
+    this.registerEvent(
+      this.app.metadataCache.on('changed', (file) => this.refreshPath(file.path))
+    );
+
+    this.registerEvent(
+      this.app.vault.on('rename', () => this.refreshAll())
+    );
+
+    this.registerEvent(
+      this.app.workspace.on('layout-change', () => this.refreshAll())
+    );
+
+    this.registerEvent(
+      this.app.workspace.on('file-open', () => this.refreshTabHeaders())
+    );
+
+    this.register(
+      this.plugin.getHistoryService().subscribe((notePath) => this.refreshPath(notePath))
+    );
+
+    // Remember the last hovered internal link to identify hover popovers
+    this.registerDomEvent(document, 'mouseover', (e: MouseEvent) => this.trackHoveredLink(e));
+
+    const observer = new MutationObserver((mutations) => this.onDomMutations(mutations));
+    observer.observe(document.body, { childList: true });
+    this.register(() => observer.disconnect());
+
+    this.register(() => this.removeAllBadges());
+
+    this.app.workspace.onLayoutReady(() => this.refreshAll());
+  }
+
+  /**
+   * Re-render every badge (e.g. after settings change)
+   */
+  refreshAll(): void {
+    this.removeAllBadges();
+    if (!this.isEnabled()) return;
+
+    const fileItems = this.getExplorerItems();
+    for (const [path, item] of fileItems) {
+      this.decorateExplorerItem(path, item);
+    }
+    this.refreshTabHeaders();
+  }
+
+  private refreshPath(path: string): void {
+    if (!this.isEnabled()) return;
+
+    for (const [itemPath, item] of this.getExplorerItems()) {
+      if (itemPath === path) this.decorateExplorerItem(itemPath, item);
+    }
+    this.refreshTabHeaders();
+  }
+
+  private refreshTabHeaders(): void {
+    if (!this.isEnabled()) return;
+
+    this.app.workspace.iterateAllLeaves((leaf) => {
+      const titleEl = (leaf as LeafWithTabHeader).tabHeaderInnerTitleEl;
+      if (!titleEl) return;
+
+      this.removeBadge(titleEl);
+      const file = (leaf.view as View & { file?: TFile | null }).file;
+      if (file instanceof TFile) {
+        this.appendBadge(titleEl, file);
+      }
+    });
+  }
+
+  // ============ Explorer ============
+
+  private getExplorerItems(): [string, FileExplorerItem][] {
+    const items: [string, FileExplorerItem][] = [];
+    this.app.workspace.getLeavesOfType('file-explorer').forEach((leaf) => {
+      const fileItems = (leaf.view as FileExplorerView).fileItems;
+      if (!fileItems) return;
+      items.push(...Object.entries(fileItems));
+    });
+    return items;
+  }
+
+  private decorateExplorerItem(path: string, item: FileExplorerItem): void {
+    if (!item.selfEl) return;
+    this.removeBadge(item.selfEl);
+
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (file instanceof TFile && file.extension === 'md') {
+      this.appendBadge(item.selfEl, file);
+    }
+  }
+
+  // ============ Hover Previews ============
+
+  private trackHoveredLink(e: MouseEvent): void {
+    const target = e.target;
+    if (!(target instanceof HTMLElement)) return;
+
+    const linkEl = target.closest('a.internal-link, .cm-hmd-internal-link');
+    if (!linkEl) return;
+
+    const linktext = linkEl.getAttribute('data-href') ?? linkEl.textContent ?? '';
+    if (!linktext) return;
+
+    this.lastHoveredLink = {
+      linktext,
+      sourcePath: this.app.workspace.getActiveFile()?.path ?? '',
+      at: Date.now(),
+    };
+  }
+
+  private onDomMutations(mutations: MutationRecord[]): void {
+    if (!this.isEnabled() || !this.lastHoveredLink) return;
+    if (Date.now() - this.lastHoveredLink.at > HOVER_LINK_TTL_MS) return;
+
+    for (const mutation of mutations) {
+      mutation.addedNodes.forEach((node) => {
+        if (node instanceof HTMLElement && node.hasClass('hover-popover')) {
+          this.decoratePopover(node);
+        }
+      });
+    }
+  }
+
+  private decoratePopover(popoverEl: HTMLElement): void {
+    if (!this.lastHoveredLink) return;
+
+    const linkpath = this.lastHoveredLink.linktext.split('#')[0].split('|')[0];
+    const file = this.app.metadataCache.getFirstLinkpathDest(
+      linkpath,
+      this.lastHoveredLink.sourcePath
+    );
+    if (!file) return;
+
+    const headerEl = createDiv({ cls: 'cultivator-popover-badge' });
+    if (this.appendBadge(headerEl, file)) {
+      popoverEl.prepend(headerEl);
+    }
+  }
+
+  // ============ Badge Rendering ============
+
+  /**
+   * Append a badge for the file; returns false when the note has no maturity
+   */
+  private appendBadge(container: HTMLElement, file: TFile): boolean {
+    const cache = this.app.metadataCache.getFileCache(file);
+    const value = cache?.frontmatter?.[this.plugin.settings.frontmatterKey];
+    if (!value) return false;
+
+    const maturity = MaturityLevel.fromFrontmatter(String(value));
+    let text = maturity.icon;
+    let tooltip = maturity.displayName;
+
+    if (this.plugin.settings.display.showScoreInBadges) {
+      const record = this.plugin.getHistoryService().getLatestRecord(file.path);
+      if (record) {
+        text += ` ${record.totalScore}`;
+        tooltip += ` · ${record.totalScore}pts`;
+      }
+    }
+
+    container.createSpan({ cls: BADGE_CLASS, text, attr: { 'aria-label': tooltip } });
+    return true;
+  }
+
+  private removeBadge(container: HTMLElement): void {
+    container.querySelectorAll(`.${BADGE_CLASS}`).forEach((el) => el.remove());
+  }
+
+  private removeAllBadges(): void {
+    document.querySelectorAll(`.${BADGE_CLASS}`).forEach((el) => el.remove());
+    document.querySelectorAll('.cultivator-popover-badge').forEach((el) => el.remove());
+  }
+
+  private isEnabled(): boolean {
+    return this.plugin.settings.display.showMaturityInExplorer;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Maturity Stage Remap Modal
+ * Previews and rewrites notes whose maturity stage no longer exists
+ */
+
+import { App, Modal, Notice } from 'obsidian';
+import type EvergreenNoteCultivatorPlugin from '../main';
+import {
+  RemapMaturityStagesUseCase,
+  type RemapMaturityStagesOutput,
+} from '../core/application';
+
+// Max file paths listed in the preview
+const PREVIEW_LIMIT = 20;
+
+export class MaturityStageRemapModal extends Modal {
+  private plugin: EvergreenNoteCultivatorPlugin;
+  private resultEl: HTMLElement | null = null;
+  private isWorking: boolean = false;
+
+  constructor(app: App, plugin: EvergreenNoteCultivatorPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  async onOpen(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.addClass('frontmatter-migration-modal');
+
+    const headerEl = contentEl.createDiv({ cls: 'assessment-modal-header' });
+    headerEl.createEl('h2', { text: '🔀 Remap Obsolete Maturity Stages' });
+    headerEl.createEl('p', {
+      cls: 'assessment-modal-subtitle',
+      text: 'Rewrite notes whose stage is no longer part of the configured stages',
+    });
+
+    this.resultEl = contentEl.createDiv({ cls: 'frontmatter-migration-result' });
+    await this.runPreview();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.resultEl = null;
+  }
+
+  private async runPreview(): Promise<void> {
+    if (this.isWorking || !this.resultEl) return;
+    this.isWorking = true;
+
+    try {
+      const useCase = new RemapMaturityStagesUseCase(this.plugin.getNoteRepository());
+      const result = await useCase.execute({ dryRun: true });
+      this.renderPreview(result);
+    } finally {
+      this.isWorking = false;
+    }
+  }
+
+  private renderPreview(result: RemapMaturityStagesOutput): void {
+    if (!this.resultEl) return;
+    const container = this.resultEl;
+    container.empty();
+
+    const summaryCard = container.createDiv({ cls: 'assessment-suggestion-card' });
+    summaryCard.createEl('h4', {
+      text: result.affected.length > 0
+        ? `${result.affected.length} note(s) will be updated`
+        : '✅ All notes use a configured stage',
+    });
+
+    if (result.affected.length === 0) return;
+
+    const unmapped = result.affected.filter((e) => !e.mapped).length;
+    if (unmapped > 0) {
+      summaryCard.createEl('p', {
+        cls: 'assessment-dimension-feedback',
+        text: `${unmapped} note(s) have no stage mapping and will use ${result.affected.find((e) => !e.mapped)?.to.getDisplayText()}.`,
+      });
+    }
+
+    const listEl = summaryCard.createEl('ul', { cls: 'frontmatter-migration-list' });
+    result.affected.slice(0, PREVIEW_LIMIT).forEach((e) => {
+      listEl.createEl('li', { text: `${e.notePath} (${e.from} → ${e.to.getDisplayText()})` });
+    });
+    if (result.affected.length > PREVIEW_LIMIT) {
+      listEl.createEl('li', { text: `...and ${result.affected.length - PREVIEW_LIMIT} more` });
+    }
+
+    const remapBtn = container.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-primary',
+      text: `Remap ${result.affected.length} note(s)`,
+    });
+    remapBtn.addEventListener('click', async () => {
+      remapBtn.disabled = true;
+      await this.runRemap();
+    });
+  }
+
+  private async runRemap(): Promise<void> {
+    if (this.isWorking) return;
+    this.isWorking = true;
+
+    try {
+      const useCase = new RemapMaturityStagesUseCase(this.plugin.getNoteRepository());
+      const result = await useCase.execute();
+
+      const failedText = result.failed.length > 0 ? `, ${result.failed.length} failed` : '';
+      new Notice(`✅ Remapped ${result.remappedCount} note(s)${failedText}.`);
+      if (result.failed.length > 0) {
+        console.error('Maturity stage remap failures:', result.failed);
+      }
+      this.close();
+    } finally {
+      this.isWorking = false;
+    }
+  }
+}
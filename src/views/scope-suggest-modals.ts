@@ -0,0 +1,52 @@
+/**
+ * Scope Suggest Modals
+ * Fuzzy pickers for choosing a folder or tag as a batch scope
+ */
+
+import { App, FuzzySuggestModal, TFolder, getAllTags } from 'obsidian';
+
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+  constructor(app: App, private readonly onChoose: (folder: TFolder) => void) {
+    super(app);
+    this.setPlaceholder('Choose a folder to assess...');
+  }
+
+  getItems(): TFolder[] {
+    return this.app.vault
+      .getAllLoadedFiles()
+      .filter((f): f is TFolder => f instanceof TFolder && !f.isRoot());
+  }
+
+  getItemText(folder: TFolder): string {
+    return folder.path;
+  }
+
+  onChooseItem(folder: TFolder): void {
+    this.onChoose(folder);
+  }
+}
+
+export class TagSuggestModal extends FuzzySuggestModal<string> {
+  constructor(app: App, private readonly onChoose: (tag: string) => void) {
+    super(app);
+    this.setPlaceholder('Choose a tag to assess...');
+  }
+
+  getItems(): string[] {
+    const tags = new Set<string>();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const cache = this.app.metadataCache.getFileCache(file);
+      if (!cache) continue;
+      (getAllTags(cache) ?? []).forEach((tag) => tags.add(tag.replace(/^#/, '')));
+    }
+    return Array.from(tags).sort();
+  }
+
+  getItemText(tag: string): string {
+    return `#${tag}`;
+  }
+
+  onChooseItem(tag: string): void {
+    this.onChoose(tag);
+  }
+}
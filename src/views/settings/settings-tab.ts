@@ -4,8 +4,47 @@
 
 import { App, PluginSettingTab, Setting, DropdownComponent, Notice } from 'obsidian';
 import type EvergreenNoteCultivatorPlugin from '../../main';
-import type { LLMProviderType } from '../../core/domain';
-import { AI_PROVIDERS, getModelsByProvider } from '../../core/domain';
+import type {
+  AssessmentProfile,
+  LLMProviderType,
+  MaturityStageConfig,
+  MaturityThresholds,
+  OutputLanguage,
+  QualityDimensionConfig,
+  QualityRubricData,
+  UsageBreakdown,
+} from '../../core/domain';
+import {
+  AI_PROVIDERS,
+  DEFAULT_DIMENSION_ICON,
+  DEFAULT_LOCAL_BASE_URL,
+  LOCAL_PROVIDER_DISPLAY_NAME,
+  LOCAL_PROVIDER_TYPE,
+  MaturityLevel,
+  NOTE_TYPE_KEY,
+  QualityRubric,
+  describeProfileMatch,
+  OUTPUT_LANGUAGE_LABELS,
+  getDefaultModelId,
+  getModelsByProvider,
+  getProviderDisplayName,
+  getUsageMonthKey,
+} from '../../core/domain';
+import { DEFAULT_NOTE_TOKEN_BUDGET, GENERATION_PURPOSES, type GenerationPurpose } from '../../core/application';
+import { FrontmatterMigrationModal } from '../frontmatter-migration-modal';
+import { MaturityStageRemapModal } from '../maturity-stage-remap-modal';
+import { WiltingReviewModal } from '../wilting-review-modal';
+
+const GENERATION_PURPOSE_LABELS: Record<GenerationPurpose, string> = {
+  'assess-note-quality': 'Quality assessment',
+  'suggest-connections': 'Connection suggestions',
+  'growth-guide': 'Growth guide',
+  'plan-split': 'Split planning',
+  'dimension-improvement': 'Dimension improvements',
+  'condense-note': 'Long-note condensing',
+  'draft-edit': 'Improvement drafts',
+  'coach-chat': 'Coaching chat',
+};
 
 export class CultivatorSettingTab extends PluginSettingTab {
   plugin: EvergreenNoteCultivatorPlugin;
@@ -25,6 +64,13 @@ export class CultivatorSettingTab extends PluginSettingTab {
     this.renderAISettings(containerEl);
     this.renderDisplaySettings(containerEl);
     this.renderAssessmentSettings(containerEl);
+    this.renderHeuristicSettings(containerEl);
+    this.renderRubricSettings(containerEl);
+    this.renderMaturitySettings(containerEl);
+    this.renderDecaySettings(containerEl);
+    this.renderReviewSettings(containerEl);
+    this.renderCoachingSettings(containerEl);
+    this.renderProfileSettings(containerEl);
     this.renderAdvancedSettings(containerEl);
   }
 
@@ -39,6 +85,7 @@ export class CultivatorSettingTab extends PluginSettingTab {
         Object.entries(AI_PROVIDERS).forEach(([key, config]) => {
           dropdown.addOption(key, config.displayName);
         });
+        dropdown.addOption(LOCAL_PROVIDER_TYPE, LOCAL_PROVIDER_DISPLAY_NAME);
         dropdown.setValue(this.plugin.settings.ai.provider);
         dropdown.onChange(async (value) => {
           this.plugin.settings.ai.provider = value as LLMProviderType;
@@ -48,10 +95,183 @@ export class CultivatorSettingTab extends PluginSettingTab {
         });
       });
 
-    // API Key
     const currentProvider = this.plugin.settings.ai.provider;
+    if (currentProvider === LOCAL_PROVIDER_TYPE) {
+      this.renderLocalProviderSettings(containerEl);
+    } else {
+      this.renderCloudProviderSettings(containerEl, currentProvider);
+    }
+
+    // Output Language
+    new Setting(containerEl)
+      .setName('Output language')
+      .setDesc('Language for AI feedback, suggestions and dimension labels')
+      .addDropdown((dropdown) => {
+        (Object.keys(OUTPUT_LANGUAGE_LABELS) as OutputLanguage[]).forEach((language) => {
+          dropdown.addOption(language, OUTPUT_LANGUAGE_LABELS[language]);
+        });
+        dropdown.setValue(this.plugin.settings.ai.outputLanguage);
+        dropdown.onChange(async (value) => {
+          this.plugin.settings.ai.outputLanguage = value as OutputLanguage;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    // Budget Limit
+    new Setting(containerEl)
+      .setName('Budget Limit (USD)')
+      .setDesc('Set monthly API usage budget limit (optional)')
+      .addText((text) => {
+        text
+          .setPlaceholder('e.g., 10.00')
+          .setValue(
+            this.plugin.settings.ai.budgetLimit?.toString() ?? ''
+          )
+          .onChange(async (value) => {
+            const numValue = parseFloat(value);
+            this.plugin.settings.ai.budgetLimit = isNaN(numValue)
+              ? undefined
+              : numValue;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Budget warnings (%)')
+      .setDesc('Show a warning when monthly spend crosses these percentages of the budget (comma-separated)')
+      .addText((text) => {
+        text
+          .setPlaceholder('50, 80, 90')
+          .setValue(this.plugin.settings.ai.budgetWarningThresholds.join(', '))
+          .onChange(async (value) => {
+            this.plugin.settings.ai.budgetWarningThresholds = value
+              .split(',')
+              .map((v) => parseFloat(v.trim()))
+              .filter((v) => !isNaN(v) && v > 0 && v <= 100)
+              .sort((a, b) => a - b);
+            await this.plugin.saveSettings();
+          });
+      });
+
+    this.renderReliabilitySettings(containerEl);
+    this.renderUsageSummary(containerEl);
+  }
+
+  private renderReliabilitySettings(containerEl: HTMLElement): void {
+    const { retry } = this.plugin.settings.ai;
+    const fallbacks = this.plugin.settings.ai.fallbacks;
+
+    containerEl.createEl('h3', { text: 'Retries & Fallbacks' });
+
+    new Setting(containerEl)
+      .setName('Retries')
+      .setDesc('Retry rate limits, timeouts and server errors with exponential backoff before giving up on a provider')
+      .addSlider((slider) => {
+        slider
+          .setLimits(0, 5, 1)
+          .setValue(retry.maxRetries)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            retry.maxRetries = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Maximum wait (seconds)')
+      .setDesc('Longest pause between retries. If the server asks to wait longer (Retry-After), the next fallback is tried instead')
+      .addSlider((slider) => {
+        slider
+          .setLimits(5, 120, 5)
+          .setValue(Math.round(retry.maxDelayMs / 1000))
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            retry.maxDelayMs = value * 1000;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    containerEl.createEl('p', {
+      cls: 'setting-item-description',
+      text: 'When the selected provider keeps failing, these providers/models are tried in order. Providers without an API key (or server) are skipped.',
+    });
+
+    fallbacks.forEach((target, index) => {
+      const setting = new Setting(containerEl)
+        .setName(`Fallback ${index + 1}`)
+        .addDropdown((dropdown) => {
+          [...Object.keys(AI_PROVIDERS), LOCAL_PROVIDER_TYPE].forEach((type) => {
+            dropdown.addOption(type, getProviderDisplayName(type as LLMProviderType));
+          });
+          dropdown.setValue(target.provider);
+          dropdown.onChange(async (value) => {
+            target.provider = value as LLMProviderType;
+            target.model = this.plugin.settings.ai.models[target.provider] ?? getDefaultModelId(target.provider);
+            await this.plugin.saveSettings();
+            this.display();
+          });
+        });
+
+      if (target.provider === LOCAL_PROVIDER_TYPE) {
+        setting.addText((text) => {
+          text
+            .setPlaceholder('e.g. llama3.1:8b')
+            .setValue(target.model)
+            .onChange(async (value) => {
+              target.model = value.trim();
+              await this.plugin.saveSettings();
+            });
+        });
+      } else {
+        setting.addDropdown((dropdown) => {
+          this.populateModelDropdown(dropdown, target.provider);
+          dropdown.setValue(target.model);
+          dropdown.onChange(async (value) => {
+            target.model = value;
+            await this.plugin.saveSettings();
+          });
+        });
+      }
+
+      if (index > 0) {
+        setting.addExtraButton((button) => {
+          button.setIcon('arrow-up').setTooltip('Move up').onClick(async () => {
+            fallbacks.splice(index - 1, 0, fallbacks.splice(index, 1)[0]);
+            await this.plugin.saveSettings();
+            this.display();
+          });
+        });
+      }
+      setting.addExtraButton((button) => {
+        button.setIcon('trash').setTooltip('Remove fallback').onClick(async () => {
+          fallbacks.splice(index, 1);
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+    });
+
+    new Setting(containerEl)
+      .addButton((button) => {
+        button
+          .setButtonText('Add fallback')
+          .onClick(async () => {
+            const provider = (Object.keys(AI_PROVIDERS) as LLMProviderType[])
+              .find((type) => type !== this.plugin.settings.ai.provider) ?? LOCAL_PROVIDER_TYPE;
+            fallbacks.push({
+              provider,
+              model: this.plugin.settings.ai.models[provider] ?? getDefaultModelId(provider),
+            });
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
+  }
+
+  private renderCloudProviderSettings(containerEl: HTMLElement, currentProvider: LLMProviderType): void {
+    // API Key
     new Setting(containerEl)
-      .setName(`${AI_PROVIDERS[currentProvider].displayName} API Key`)
+      .setName(`${getProviderDisplayName(currentProvider)} API Key`)
       .setDesc('Enter your API key')
       .addText((text) => {
         text
@@ -109,32 +329,189 @@ export class CultivatorSettingTab extends PluginSettingTab {
         this.populateModelDropdown(dropdown, currentProvider);
         dropdown.setValue(
           this.plugin.settings.ai.models[currentProvider] ??
-            AI_PROVIDERS[currentProvider].defaultModel
+            getDefaultModelId(currentProvider)
         );
         dropdown.onChange(async (value) => {
           this.plugin.settings.ai.models[currentProvider] = value;
           await this.plugin.saveSettings();
         });
       });
+  }
+
+  private renderLocalProviderSettings(containerEl: HTMLElement): void {
+    const local = this.plugin.settings.ai.local;
 
-    // Budget Limit
     new Setting(containerEl)
-      .setName('Budget Limit (USD)')
-      .setDesc('Set monthly API usage budget limit (optional)')
+      .setName('Server URL')
+      .setDesc('Base URL of an OpenAI-compatible server, e.g. Ollama (http://localhost:11434/v1), LM Studio (http://localhost:1234/v1) or llama.cpp (http://localhost:8080/v1)')
       .addText((text) => {
         text
-          .setPlaceholder('e.g., 10.00')
-          .setValue(
-            this.plugin.settings.ai.budgetLimit?.toString() ?? ''
-          )
+          .setPlaceholder(DEFAULT_LOCAL_BASE_URL)
+          .setValue(local.baseUrl)
           .onChange(async (value) => {
-            const numValue = parseFloat(value);
-            this.plugin.settings.ai.budgetLimit = isNaN(numValue)
-              ? undefined
-              : numValue;
+            local.baseUrl = value.trim() || DEFAULT_LOCAL_BASE_URL;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('API Key (optional)')
+      .setDesc('Only needed if the server requires one')
+      .addText((text) => {
+        text
+          .setPlaceholder('Leave empty for no key')
+          .setValue(this.plugin.settings.ai.apiKeys[LOCAL_PROVIDER_TYPE] ?? '')
+          .onChange(async (value) => {
+            this.plugin.settings.ai.apiKeys[LOCAL_PROVIDER_TYPE] = value;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = 'password';
+      });
+
+    const modelSetting = new Setting(containerEl)
+      .setName('Model')
+      .setDesc('Model id served by the server (use Detect to list them)');
+    const modelList = modelSetting.controlEl.createEl('datalist', {
+      attr: { id: 'cultivator-local-models' },
+    });
+    modelSetting
+      .addText((text) => {
+        text
+          .setPlaceholder('e.g. llama3.1:8b')
+          .setValue(this.plugin.settings.ai.models[LOCAL_PROVIDER_TYPE] ?? '')
+          .onChange(async (value) => {
+            this.plugin.settings.ai.models[LOCAL_PROVIDER_TYPE] = value.trim();
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.setAttr('list', 'cultivator-local-models');
+      })
+      .addButton((button) => {
+        button
+          .setButtonText('Detect')
+          .onClick(async () => {
+            const provider = this.plugin.getLocalProvider();
+            if (!provider) {
+              new Notice('Provider not found.');
+              return;
+            }
+
+            button.setDisabled(true);
+            button.setButtonText('Detecting...');
+
+            try {
+              const models = await provider.listModels();
+              modelList.empty();
+              models.forEach((id) => modelList.createEl('option', { attr: { value: id } }));
+              modelSetting.setDesc(models.length > 0
+                ? `Available: ${models.join(', ')}`
+                : 'The server reported no models.');
+              new Notice(`✅ Found ${models.length} model(s).`);
+            } catch (error) {
+              const message = error instanceof Error ? error.message : 'Unknown error';
+              new Notice(`❌ Could not reach the server: ${message}`);
+            } finally {
+              button.setDisabled(false);
+              button.setButtonText('Detect');
+            }
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Send instructions as user message')
+      .setDesc('Enable for models that ignore system prompts; instructions are prepended to the request instead')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(local.systemPromptAsUser)
+          .onChange(async (value) => {
+            local.systemPromptAsUser = value;
             await this.plugin.saveSettings();
           });
       });
+
+    new Setting(containerEl)
+      .setName('Context window')
+      .setDesc('Context length the server runs the model with (e.g. Ollama num_ctx). Notes are condensed to fit half of it.')
+      .addText((text) => {
+        text
+          .setPlaceholder('8192')
+          .setValue(local.contextWindow.toString())
+          .onChange(async (value) => {
+            const numValue = parseInt(value);
+            if (!isNaN(numValue) && numValue >= 1024) {
+              local.contextWindow = numValue;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+  }
+
+  private renderUsageSummary(containerEl: HTMLElement): void {
+    const ledger = this.plugin.getUsageLedger();
+    const months = ledger.getRecordedMonths();
+    const currentMonth = getUsageMonthKey(Date.now());
+    if (!months.includes(currentMonth)) months.unshift(currentMonth);
+
+    containerEl.createEl('h3', { text: 'Monthly Spend' });
+    const summaryEl = containerEl.createDiv({ cls: 'cultivator-usage-summary' });
+
+    const renderMonth = (month: string) => {
+      summaryEl.empty();
+      const [year, monthIndex] = month.split('-').map(Number);
+      const summary = ledger.getMonthlySummary(new Date(year, monthIndex - 1, 1).getTime());
+      const budget = this.plugin.getAIService()?.getBudgetStatus();
+
+      const totalEl = summaryEl.createDiv({ cls: 'cultivator-usage-total' });
+      totalEl.createEl('span', { text: `$${summary.totalCost.toFixed(4)}` });
+      if (month === currentMonth && budget && budget.limit !== null) {
+        totalEl.createEl('span', {
+          cls: 'cultivator-usage-budget',
+          text: ` of $${budget.limit.toFixed(2)} (${Math.round(budget.percentUsed ?? 0)}%)`,
+        });
+      }
+      summaryEl.createEl('p', {
+        cls: 'setting-item-description',
+        text: `${summary.requestCount} requests · ${summary.inputTokens.toLocaleString()} input / ${summary.outputTokens.toLocaleString()} output tokens`,
+      });
+
+      const renderBreakdown = (title: string, rows: UsageBreakdown[]) => {
+        if (rows.length === 0) return;
+        summaryEl.createEl('h4', { text: title });
+        const listEl = summaryEl.createDiv({ cls: 'cultivator-usage-breakdown' });
+        rows.forEach((row) => {
+          const rowEl = listEl.createDiv({ cls: 'cultivator-usage-row' });
+          rowEl.createEl('span', { text: row.key });
+          rowEl.createEl('span', {
+            text: `${row.requestCount} · ${(row.inputTokens + row.outputTokens).toLocaleString()} tokens · $${row.cost.toFixed(4)}`,
+          });
+        });
+      };
+
+      renderBreakdown('By use case', summary.byPurpose);
+      renderBreakdown('By model', summary.byModel);
+    };
+
+    new Setting(containerEl)
+      .setName('Usage month')
+      .setDesc('Token and cost ledger of AI requests')
+      .addDropdown((dropdown) => {
+        months.forEach((month) => dropdown.addOption(month, month));
+        dropdown.setValue(currentMonth);
+        dropdown.onChange((value) => renderMonth(value));
+      })
+      .addButton((button) => {
+        button
+          .setButtonText('Clear ledger')
+          .setWarning()
+          .onClick(async () => {
+            await ledger.clear();
+            new Notice('Usage ledger cleared.');
+            this.display();
+          });
+      });
+
+    // Keep the summary below its month selector
+    containerEl.appendChild(summaryEl);
+    renderMonth(currentMonth);
   }
 
   private renderDisplaySettings(containerEl: HTMLElement): void {
@@ -142,7 +519,7 @@ export class CultivatorSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName('Show maturity in explorer')
-      .setDesc('Display note maturity icons in file explorer')
+      .setDesc('Display note maturity icons in file explorer, tab headers and link previews')
       .addToggle((toggle) => {
         toggle
           .setValue(this.plugin.settings.display.showMaturityInExplorer)
@@ -152,6 +529,18 @@ export class CultivatorSettingTab extends PluginSettingTab {
           });
       });
 
+    new Setting(containerEl)
+      .setName('Show last score in badges')
+      .setDesc('Append the latest total score to maturity badges')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.display.showScoreInBadges)
+          .onChange(async (value) => {
+            this.plugin.settings.display.showScoreInBadges = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
     new Setting(containerEl)
       .setName('Show score in sidebar')
       .setDesc('Display quality score in sidebar')
@@ -182,7 +571,7 @@ export class CultivatorSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName('Auto-assess on note open')
-      .setDesc('Automatically run quality assessment when opening a note')
+      .setDesc('Automatically run quality assessment when opening a note in the sidebar (skipped if unchanged since the last assessment)')
       .addToggle((toggle) => {
         toggle
           .setValue(this.plugin.settings.assessment.autoAssessOnOpen)
@@ -192,6 +581,48 @@ export class CultivatorSettingTab extends PluginSettingTab {
           });
       });
 
+    new Setting(containerEl)
+      .setName('Auto-assess after editing')
+      .setDesc('Reassess the open note once you stop editing it')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.assessment.autoAssessAfterEdit)
+          .onChange(async (value) => {
+            this.plugin.settings.assessment.autoAssessAfterEdit = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Idle time before assessing (seconds)')
+      .setDesc('How long the note must go without changes before it is reassessed')
+      .addSlider((slider) => {
+        slider
+          .setLimits(10, 300, 10)
+          .setValue(this.plugin.settings.assessment.autoAssessIdleSeconds)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.assessment.autoAssessIdleSeconds = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Excluded folders')
+      .setDesc('Notes in these folders (one per line, subfolders included) are never assessed automatically')
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('Templates\nDaily Notes')
+          .setValue(this.plugin.settings.assessment.autoAssessExcludedFolders.join('\n'))
+          .onChange(async (value) => {
+            this.plugin.settings.assessment.autoAssessExcludedFolders = value
+              .split('\n')
+              .map((line) => line.trim())
+              .filter((line) => line.length > 0);
+            await this.plugin.saveSettings();
+          });
+      });
+
     new Setting(containerEl)
       .setName('Show detailed feedback')
       .setDesc('Display detailed feedback for each assessment dimension')
@@ -227,55 +658,994 @@ export class CultivatorSettingTab extends PluginSettingTab {
             await this.plugin.saveSettings();
           });
       });
-  }
 
-  private renderAdvancedSettings(containerEl: HTMLElement): void {
-    containerEl.createEl('h2', { text: 'Advanced Settings' });
+    new Setting(containerEl)
+      .setName('Connection candidates')
+      .setDesc('Number of most related notes (ranked locally) sent to AI for connection suggestions')
+      .addSlider((slider) => {
+        slider
+          .setLimits(5, 50, 5)
+          .setValue(this.plugin.settings.assessment.connectionCandidateLimit)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.assessment.connectionCandidateLimit = value;
+            await this.plugin.saveSettings();
+          });
+      });
 
     new Setting(containerEl)
-      .setName('Frontmatter key')
-      .setDesc('Frontmatter key name to store maturity level')
-      .addText((text) => {
-        text
-          .setPlaceholder('growth-stage')
-          .setValue(this.plugin.settings.frontmatterKey)
+      .setName('Batch concurrency')
+      .setDesc('Number of notes assessed in parallel during batch assessment')
+      .addSlider((slider) => {
+        slider
+          .setLimits(1, 5, 1)
+          .setValue(this.plugin.settings.assessment.batchConcurrency)
+          .setDynamicTooltip()
           .onChange(async (value) => {
-            this.plugin.settings.frontmatterKey = value || 'growth-stage';
+            this.plugin.settings.assessment.batchConcurrency = value;
             await this.plugin.saveSettings();
           });
       });
+  }
+
+  private renderHeuristicSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: 'Offline Pre-assessment' });
+    const heuristics = this.plugin.settings.heuristics;
 
     new Setting(containerEl)
-      .setName('Max tokens')
-      .setDesc('Maximum tokens for AI response')
-      .addText((text) => {
-        text
-          .setPlaceholder('4096')
-          .setValue(this.plugin.settings.ai.maxTokens.toString())
+      .setName('Show provisional score')
+      .setDesc('Estimate quality locally from structure, links and sources (no API call) and show it in the sidebar')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(heuristics.showInSidebar)
           .onChange(async (value) => {
-            const numValue = parseInt(value);
-            if (!isNaN(numValue) && numValue > 0) {
-              this.plugin.settings.ai.maxTokens = numValue;
-              await this.plugin.saveSettings();
-            }
+            heuristics.showInSidebar = value;
+            await this.plugin.saveSettings();
           });
       });
 
     new Setting(containerEl)
-      .setName('Temperature')
-      .setDesc('AI response creativity level (0.0 - 1.0)')
+      .setName('Blend into AI scores (%)')
+      .setDesc('Share of the offline estimate in each dimension score of an AI assessment (0 = AI score only)')
       .addSlider((slider) => {
         slider
-          .setLimits(0, 1, 0.1)
-          .setValue(this.plugin.settings.ai.temperature)
+          .setLimits(0, 100, 5)
+          .setValue(Math.round(heuristics.blendWeight * 100))
           .setDynamicTooltip()
           .onChange(async (value) => {
-            this.plugin.settings.ai.temperature = value;
+            heuristics.blendWeight = value / 100;
             await this.plugin.saveSettings();
           });
       });
   }
 
+  private renderRubricSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: 'Quality Rubric' });
+    containerEl.createEl('p', {
+      cls: 'setting-item-description',
+      text: 'Dimensions used to score notes. Weights must sum to 1; scoring anchors (one per line) describe what each score means.',
+    });
+
+    const rubricEl = containerEl.createDiv({ cls: 'cultivator-rubric' });
+    this.renderRubricEditor(
+      rubricEl,
+      () => this.plugin.settings.rubric,
+      () => { this.plugin.settings.rubric = QualityRubric.defaultData(); },
+      'the default rubric is used until fixed.'
+    );
+  }
+
+  private renderRubricEditor(
+    rubricEl: HTMLElement,
+    getRubric: () => QualityRubricData,
+    resetRubric: () => void,
+    fallbackText: string
+  ): void {
+    rubricEl.empty();
+    const rubric = getRubric();
+    const rerender = () => this.renderRubricEditor(rubricEl, getRubric, resetRubric, fallbackText);
+
+    const statusEl = rubricEl.createDiv({ cls: 'cultivator-rubric-status' });
+    const updateStatus = () => {
+      statusEl.empty();
+      const errors = QualityRubric.validate(rubric);
+      const sum = Math.round(QualityRubric.getWeightSum(rubric) * 1000) / 1000;
+      if (errors.length === 0) {
+        statusEl.removeClass('is-invalid');
+        statusEl.createEl('span', { text: `✓ ${rubric.dimensions.length} dimension(s), weights sum to ${sum}` });
+        return;
+      }
+      statusEl.addClass('is-invalid');
+      statusEl.createEl('span', { text: `⚠️ Invalid rubric — ${fallbackText}` });
+      const listEl = statusEl.createEl('ul');
+      errors.forEach((error) => listEl.createEl('li', { text: error }));
+    };
+
+    const save = async () => {
+      updateStatus();
+      await this.plugin.saveSettings();
+    };
+
+    rubric.dimensions.forEach((dimension, index) => {
+      this.renderRubricDimension(rubricEl, dimension, save, async () => {
+        rubric.dimensions.splice(index, 1);
+        await save();
+        rerender();
+      });
+    });
+
+    new Setting(rubricEl)
+      .addButton((button) => {
+        button
+          .setButtonText('Add dimension')
+          .onClick(async () => {
+            rubric.dimensions.push(this.createRubricDimension(rubric.dimensions));
+            await save();
+            rerender();
+          });
+      })
+      .addButton((button) => {
+        button
+          .setButtonText('Reset to default')
+          .onClick(async () => {
+            resetRubric();
+            await this.plugin.saveSettings();
+            rerender();
+          });
+      });
+
+    updateStatus();
+  }
+
+  private renderMaturitySettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: 'Maturity Stages' });
+    containerEl.createEl('p', {
+      cls: 'setting-item-description',
+      text: `Stages from first to last with the minimum quality score recommended for each. Stage ids are written to the "${this.plugin.settings.frontmatterKey}" frontmatter field.`,
+    });
+
+    const stagesEl = containerEl.createDiv({ cls: 'cultivator-maturity-stages' });
+    this.renderMaturityStages(stagesEl);
+  }
+
+  private renderMaturityStages(stagesEl: HTMLElement): void {
+    stagesEl.empty();
+    const maturity = this.plugin.settings.maturity;
+    const stages = maturity.stages;
+    const rerender = () => this.renderMaturityStages(stagesEl);
+
+    const statusEl = stagesEl.createDiv({ cls: 'cultivator-rubric-status' });
+    const updateStatus = () => {
+      statusEl.empty();
+      const errors = MaturityLevel.validateStages(maturity);
+      if (errors.length === 0) {
+        statusEl.removeClass('is-invalid');
+        statusEl.createEl('span', { text: `✓ ${stages.length} stage(s)` });
+        return;
+      }
+      statusEl.addClass('is-invalid');
+      statusEl.createEl('span', { text: '⚠️ Invalid stages — the default stages are used until fixed.' });
+      const listEl = statusEl.createEl('ul');
+      errors.forEach((error) => listEl.createEl('li', { text: error }));
+    };
+
+    const save = async () => {
+      updateStatus();
+      await this.plugin.saveSettings();
+    };
+
+    const move = async (from: number, to: number) => {
+      const [stage] = stages.splice(from, 1);
+      stages.splice(to, 0, stage);
+      await save();
+      rerender();
+    };
+
+    stages.forEach((stage, index) => {
+      this.renderMaturityStage(stagesEl, stage, save, {
+        moveUp: index > 0 ? () => move(index, index - 1) : null,
+        moveDown: index < stages.length - 1 ? () => move(index, index + 1) : null,
+        remove: async () => {
+          this.removeMaturityStage(index);
+          await save();
+          rerender();
+        },
+      });
+    });
+
+    new Setting(stagesEl)
+      .addButton((button) => {
+        button
+          .setButtonText('Add stage')
+          .onClick(async () => {
+            stages.push(this.createMaturityStage(stages));
+            await save();
+            rerender();
+          });
+      })
+      .addButton((button) => {
+        button
+          .setButtonText('Reset to default')
+          .onClick(async () => {
+            this.plugin.settings.maturity = MaturityLevel.defaultStagesData();
+            await this.plugin.saveSettings();
+            rerender();
+          });
+      });
+
+    stagesEl.createEl('h3', { text: 'Obsolete Stage Mappings' });
+    stagesEl.createEl('p', {
+      cls: 'setting-item-description',
+      text: 'Notes carrying a stage that no longer exists are treated as the mapped stage (or the first stage when unmapped). Removing a stage maps it to its neighbour.',
+    });
+
+    Object.keys(maturity.mappings).forEach((from) => {
+      new Setting(stagesEl)
+        .setName(from)
+        .addDropdown((dropdown) => {
+          stages.forEach((stage) => {
+            dropdown.addOption(stage.level, `${stage.icon} ${stage.displayName}`);
+          });
+          dropdown
+            .setValue(maturity.mappings[from])
+            .onChange(async (value) => {
+              maturity.mappings[from] = value;
+              await save();
+            });
+        })
+        .addExtraButton((button) => {
+          button
+            .setIcon('trash')
+            .setTooltip('Remove mapping')
+            .onClick(async () => {
+              delete maturity.mappings[from];
+              await save();
+              rerender();
+            });
+        });
+    });
+
+    let newMappingId = '';
+    new Setting(stagesEl)
+      .setName('Add mapping')
+      .setDesc('Obsolete stage id found in your notes')
+      .addText((text) => {
+        text
+          .setPlaceholder('budding')
+          .onChange((value) => {
+            newMappingId = value.toLowerCase().trim();
+          });
+      })
+      .addButton((button) => {
+        button
+          .setButtonText('Add')
+          .onClick(async () => {
+            if (!newMappingId || stages.length === 0) return;
+            maturity.mappings[newMappingId] = stages[0].level;
+            await save();
+            rerender();
+          });
+      });
+
+    new Setting(stagesEl)
+      .setName('Remap notes')
+      .setDesc('Rewrite the frontmatter of notes carrying an obsolete stage')
+      .addButton((button) => {
+        button
+          .setButtonText('Remap...')
+          .onClick(() => new MaturityStageRemapModal(this.app, this.plugin).open());
+      });
+
+    updateStatus();
+  }
+
+  private renderMaturityStage(
+    stagesEl: HTMLElement,
+    stage: MaturityStageConfig,
+    save: () => Promise<void>,
+    actions: {
+      moveUp: (() => Promise<void>) | null;
+      moveDown: (() => Promise<void>) | null;
+      remove: () => Promise<void>;
+    }
+  ): void {
+    const stageEl = stagesEl.createDiv({ cls: 'cultivator-maturity-stage' });
+    const mappings = this.plugin.settings.maturity.mappings;
+
+    const headerSetting = new Setting(stageEl)
+      .setName(`${stage.icon} ${stage.displayName}`)
+      .setDesc(`Minimum score: ${stage.minQualityScore}`)
+      .addText((text) => {
+        text.inputEl.addClass('cultivator-rubric-icon');
+        text
+          .setPlaceholder('🌱')
+          .setValue(stage.icon)
+          .onChange(async (value) => {
+            stage.icon = value.trim();
+            headerSetting.setName(`${stage.icon} ${stage.displayName}`);
+            await save();
+          });
+      })
+      .addText((text) => {
+        text
+          .setPlaceholder('Name')
+          .setValue(stage.displayName)
+          .onChange(async (value) => {
+            stage.displayName = value.trim();
+            headerSetting.setName(`${stage.icon} ${stage.displayName}`);
+            await save();
+          });
+      })
+      .addText((text) => {
+        text.inputEl.addClass('cultivator-rubric-weight');
+        text
+          .setPlaceholder('40')
+          .setValue(String(stage.minQualityScore))
+          .onChange(async (value) => {
+            stage.minQualityScore = parseFloat(value);
+            headerSetting.setDesc(`Minimum score: ${value}`);
+            await save();
+          });
+      });
+
+    if (actions.moveUp) {
+      const moveUp = actions.moveUp;
+      headerSetting.addExtraButton((button) => {
+        button.setIcon('arrow-up').setTooltip('Move up').onClick(moveUp);
+      });
+    }
+    if (actions.moveDown) {
+      const moveDown = actions.moveDown;
+      headerSetting.addExtraButton((button) => {
+        button.setIcon('arrow-down').setTooltip('Move down').onClick(moveDown);
+      });
+    }
+    headerSetting.addExtraButton((button) => {
+      button.setIcon('trash').setTooltip('Remove stage').onClick(actions.remove);
+    });
+
+    new Setting(stageEl)
+      .setName('Id')
+      .setDesc('Value stored in frontmatter')
+      .addText((text) => {
+        text
+          .setPlaceholder('sprout')
+          .setValue(stage.level)
+          .onChange(async (value) => {
+            const id = value.toLowerCase().trim();
+            // Keep mappings pointing at this stage
+            Object.keys(mappings).forEach((from) => {
+              if (mappings[from] === stage.level) mappings[from] = id;
+            });
+            stage.level = id;
+            await save();
+          });
+      });
+
+    new Setting(stageEl)
+      .setName('Description')
+      .addText((text) => {
+        text
+          .setPlaceholder('What does a note at this stage look like?')
+          .setValue(stage.description)
+          .onChange(async (value) => {
+            stage.description = value;
+            await save();
+          });
+      });
+  }
+
+  /**
+   * Remove a stage and map it (and mappings targeting it) to a neighbouring stage
+   */
+  private removeMaturityStage(index: number): void {
+    const { stages, mappings } = this.plugin.settings.maturity;
+    const [removed] = stages.splice(index, 1);
+    const target = stages[Math.max(0, index - 1)];
+    if (!removed || !target) return;
+
+    Object.keys(mappings).forEach((from) => {
+      if (mappings[from] === removed.level) mappings[from] = target.level;
+    });
+    if (removed.level) {
+      mappings[removed.level] = target.level;
+    }
+  }
+
+  private createMaturityStage(existing: MaturityStageConfig[]): MaturityStageConfig {
+    const ids = new Set(existing.map((s) => s.level));
+    let n = existing.length + 1;
+    while (ids.has(`stage-${n}`)) n++;
+
+    const last = existing[existing.length - 1];
+    return {
+      level: `stage-${n}`,
+      icon: '🌱',
+      displayName: `Stage ${n}`,
+      description: '',
+      minQualityScore: last ? Math.min(100, last.minQualityScore + 5) : 0,
+    };
+  }
+
+  private renderDecaySettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: 'Maturity Decay' });
+    const decay = this.plugin.settings.decay;
+
+    new Setting(containerEl)
+      .setName('Flag wilting notes')
+      .setDesc('List stale or low-scoring notes in a review queue where they can be downgraded. Nothing is downgraded automatically.')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(decay.enabled)
+          .onChange(async (value) => {
+            decay.enabled = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Stale after (days)')
+      .setDesc('Flag notes not modified or reassessed for this many days (they drop one stage)')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(decay.checkStaleness)
+          .onChange(async (value) => {
+            decay.checkStaleness = value;
+            await this.plugin.saveSettings();
+          });
+      })
+      .addText((text) => {
+        text
+          .setPlaceholder('180')
+          .setValue(String(decay.staleAfterDays))
+          .onChange(async (value) => {
+            const days = parseInt(value);
+            if (!isNaN(days) && days > 0) {
+              decay.staleAfterDays = days;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Score margin')
+      .setDesc('Flag notes whose latest score is below their stage threshold by more than this many points (they drop to the stage the score supports)')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(decay.checkScore)
+          .onChange(async (value) => {
+            decay.checkScore = value;
+            await this.plugin.saveSettings();
+          });
+      })
+      .addText((text) => {
+        text
+          .setPlaceholder('10')
+          .setValue(String(decay.scoreMargin))
+          .onChange(async (value) => {
+            const margin = parseFloat(value);
+            if (!isNaN(margin) && margin >= 0) {
+              decay.scoreMargin = margin;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Review wilting notes')
+      .setDesc('Open the review queue and the log of past downgrades')
+      .addButton((button) => {
+        button
+          .setButtonText('Review...')
+          .onClick(() => new WiltingReviewModal(this.app, this.plugin).open());
+      });
+  }
+
+  private renderReviewSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: 'Cultivation Queue' });
+    const review = this.plugin.settings.review;
+
+    new Setting(containerEl)
+      .setName("Show today's cultivation")
+      .setDesc('List notes due for a revisit in the sidebar')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(review.showInSidebar)
+          .onChange(async (value) => {
+            review.showInSidebar = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Base review interval (days)')
+      .setDesc('Interval for the first maturity stage; it doubles with each stage, shrinks when scores fall and grows with each review')
+      .addText((text) => {
+        text
+          .setPlaceholder('3')
+          .setValue(String(review.baseIntervalDays))
+          .onChange(async (value) => {
+            const days = parseFloat(value);
+            if (!isNaN(days) && days > 0) {
+              review.baseIntervalDays = days;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Snooze (days)')
+      .setDesc('How long 💤 postpones a review')
+      .addText((text) => {
+        text
+          .setPlaceholder('3')
+          .setValue(String(review.snoozeDays))
+          .onChange(async (value) => {
+            const days = parseInt(value);
+            if (!isNaN(days) && days > 0) {
+              review.snoozeDays = days;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+  }
+
+  private renderCoachingSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: 'Coaching' });
+    const coaching = this.plugin.settings.coaching;
+
+    new Setting(containerEl)
+      .setName('Transcript folder')
+      .setDesc('Where coaching sessions saved as notes are created (empty: next to the coached note)')
+      .addText((text) => {
+        text
+          .setPlaceholder('Coaching')
+          .setValue(coaching.transcriptFolder)
+          .onChange(async (value) => {
+            coaching.transcriptFolder = value.trim();
+            await this.plugin.saveSettings();
+          });
+      });
+  }
+
+  private renderProfileSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: 'Assessment Profiles' });
+    containerEl.createEl('p', {
+      cls: 'setting-item-description',
+      text: `Profiles adjust the rubric, prompt and maturity thresholds for kinds of notes. A profile is selected by the "${NOTE_TYPE_KEY}" frontmatter field first, then by tag, then by the most specific folder.`,
+    });
+
+    const profilesEl = containerEl.createDiv({ cls: 'cultivator-profiles' });
+    this.renderProfileList(profilesEl);
+  }
+
+  private renderProfileList(profilesEl: HTMLElement): void {
+    profilesEl.empty();
+    const profiles = this.plugin.settings.profiles;
+
+    profiles.forEach((profile, index) => {
+      this.renderProfile(profilesEl, profile, async () => {
+        profiles.splice(index, 1);
+        await this.plugin.saveSettings();
+        this.renderProfileList(profilesEl);
+      });
+    });
+
+    new Setting(profilesEl)
+      .addButton((button) => {
+        button
+          .setButtonText('Add profile')
+          .onClick(async () => {
+            profiles.push(this.createProfile(profiles));
+            await this.plugin.saveSettings();
+            this.renderProfileList(profilesEl);
+          });
+      });
+  }
+
+  private renderProfile(
+    profilesEl: HTMLElement,
+    profile: AssessmentProfile,
+    remove: () => Promise<void>
+  ): void {
+    const profileEl = profilesEl.createDiv({ cls: 'cultivator-profile' });
+    const parseList = (value: string) =>
+      value.split(',').map((v) => v.trim()).filter((v) => v.length > 0);
+
+    const headerSetting = new Setting(profileEl)
+      .setName(`📋 ${profile.name}`)
+      .setDesc(describeProfileMatch(profile.match))
+      .addText((text) => {
+        text
+          .setPlaceholder('Profile name')
+          .setValue(profile.name)
+          .onChange(async (value) => {
+            profile.name = value.trim() || profile.id;
+            headerSetting.setName(`📋 ${profile.name}`);
+            await this.plugin.saveSettings();
+          });
+      })
+      .addExtraButton((button) => {
+        button
+          .setIcon('trash')
+          .setTooltip('Remove profile')
+          .onClick(remove);
+      });
+
+    const matchSetting = (
+      name: string,
+      placeholder: string,
+      key: keyof AssessmentProfile['match']
+    ) => {
+      new Setting(profileEl)
+        .setName(name)
+        .addText((text) => {
+          text
+            .setPlaceholder(placeholder)
+            .setValue(profile.match[key].join(', '))
+            .onChange(async (value) => {
+              profile.match[key] = parseList(value);
+              headerSetting.setDesc(describeProfileMatch(profile.match));
+              await this.plugin.saveSettings();
+            });
+        });
+    };
+
+    matchSetting(`Note types (${NOTE_TYPE_KEY})`, 'literature, moc', 'noteTypes');
+    matchSetting('Tags', 'literature, source/book', 'tags');
+    matchSetting('Folders', 'Sources, Maps', 'folders');
+
+    new Setting(profileEl)
+      .setName('Prompt instructions')
+      .setDesc('Extra guidance added to the assessment prompt for these notes')
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('e.g., Judge Evidence by citation accuracy; do not expect original insight.')
+          .setValue(profile.promptText)
+          .onChange(async (value) => {
+            profile.promptText = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // The first stage always starts at 0
+    const thresholdLevels = MaturityLevel.getAllLevels().slice(1);
+    new Setting(profileEl)
+      .setName('Maturity thresholds')
+      .setDesc(`Minimum scores for ${thresholdLevels.map((l) => l.displayName).join(', ')} (comma-separated). Leave empty for defaults.`)
+      .addText((text) => {
+        const t = profile.maturityThresholds;
+        text
+          .setPlaceholder(thresholdLevels.map((l) => l.minQualityScore).join(', '))
+          .setValue(t ? thresholdLevels.map((l) => t[l.level] ?? '').join(', ') : '')
+          .onChange(async (value) => {
+            const scores = value.split(',').map((v) => parseFloat(v.trim()));
+            const thresholds: MaturityThresholds = {};
+            thresholdLevels.forEach((level, idx) => {
+              if (!isNaN(scores[idx])) thresholds[level.level] = scores[idx];
+            });
+            profile.maturityThresholds = Object.keys(thresholds).length > 0 ? thresholds : null;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    const rubricEl = profileEl.createDiv({ cls: 'cultivator-rubric' });
+    const renderProfileRubric = () => {
+      if (!profile.rubric) {
+        rubricEl.empty();
+        return;
+      }
+      this.renderRubricEditor(
+        rubricEl,
+        () => profile.rubric ?? QualityRubric.defaultData(),
+        () => { profile.rubric = QualityRubric.defaultData(); },
+        'the global rubric is used until fixed.'
+      );
+    };
+
+    new Setting(profileEl)
+      .setName('Custom rubric')
+      .setDesc('Use a rubric of its own instead of the global rubric')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(profile.rubric !== null)
+          .onChange(async (value) => {
+            profile.rubric = value
+              ? { dimensions: this.plugin.getQualityRubric().dimensions }
+              : null;
+            await this.plugin.saveSettings();
+            renderProfileRubric();
+          });
+      });
+
+    // Keep the rubric editor below its toggle
+    profileEl.appendChild(rubricEl);
+    renderProfileRubric();
+  }
+
+  private createProfile(existing: AssessmentProfile[]): AssessmentProfile {
+    const ids = new Set(existing.map((p) => p.id));
+    let n = existing.length + 1;
+    while (ids.has(`profile-${n}`)) n++;
+
+    return {
+      id: `profile-${n}`,
+      name: `Profile ${n}`,
+      match: { folders: [], tags: [], noteTypes: [] },
+      rubric: null,
+      promptText: '',
+      maturityThresholds: null,
+    };
+  }
+
+  private renderRubricDimension(
+    rubricEl: HTMLElement,
+    dimension: QualityDimensionConfig,
+    save: () => Promise<void>,
+    remove: () => Promise<void>
+  ): void {
+    const dimensionEl = rubricEl.createDiv({ cls: 'cultivator-rubric-dimension' });
+
+    new Setting(dimensionEl)
+      .setName(`${dimension.icon} ${dimension.displayName}`)
+      .setDesc(`id: ${dimension.type}`)
+      .addText((text) => {
+        text.inputEl.addClass('cultivator-rubric-icon');
+        text
+          .setPlaceholder(DEFAULT_DIMENSION_ICON)
+          .setValue(dimension.icon)
+          .onChange(async (value) => {
+            dimension.icon = value.trim() || DEFAULT_DIMENSION_ICON;
+            await save();
+          });
+      })
+      .addText((text) => {
+        text
+          .setPlaceholder('Name')
+          .setValue(dimension.displayName)
+          .onChange(async (value) => {
+            dimension.displayName = value.trim();
+            await save();
+          });
+      })
+      .addText((text) => {
+        text.inputEl.addClass('cultivator-rubric-weight');
+        text
+          .setPlaceholder('0.2')
+          .setValue(String(dimension.weight))
+          .onChange(async (value) => {
+            dimension.weight = parseFloat(value);
+            await save();
+          });
+      })
+      .addExtraButton((button) => {
+        button
+          .setIcon('trash')
+          .setTooltip('Remove dimension')
+          .onClick(remove);
+      });
+
+    new Setting(dimensionEl)
+      .setName('Description')
+      .addText((text) => {
+        text
+          .setPlaceholder('What does this dimension measure?')
+          .setValue(dimension.description)
+          .onChange(async (value) => {
+            dimension.description = value;
+            await save();
+          });
+      });
+
+    new Setting(dimensionEl)
+      .setName('Scoring anchors')
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('100: ...\n70: ...\n40: ...\n0: ...')
+          .setValue(dimension.anchors.join('\n'))
+          .onChange(async (value) => {
+            dimension.anchors = value
+              .split('\n')
+              .map((line) => line.trim())
+              .filter((line) => line.length > 0);
+            await save();
+          });
+      });
+  }
+
+  private createRubricDimension(existing: QualityDimensionConfig[]): QualityDimensionConfig {
+    const ids = new Set(existing.map((d) => d.type));
+    let n = existing.length + 1;
+    while (ids.has(`custom-${n}`)) n++;
+
+    return {
+      type: `custom-${n}`,
+      displayName: `Custom ${n}`,
+      description: '',
+      weight: 0,
+      icon: DEFAULT_DIMENSION_ICON,
+      anchors: [],
+    };
+  }
+
+  private renderAdvancedSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: 'Advanced Settings' });
+
+    new Setting(containerEl)
+      .setName('Frontmatter key')
+      .setDesc('Frontmatter key name to store maturity level')
+      .addText((text) => {
+        text
+          .setPlaceholder('growth-stage')
+          .setValue(this.plugin.settings.frontmatterKey)
+          .onChange(async (value) => {
+            this.plugin.settings.frontmatterKey = value || 'growth-stage';
+            await this.plugin.saveSettings();
+          });
+      })
+      .addButton((button) => {
+        button
+          .setButtonText('Migrate...')
+          .setTooltip('Rename an existing key to this key across all notes')
+          .onClick(() => {
+            new FrontmatterMigrationModal(this.app, this.plugin).open();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Cache AI responses')
+      .setDesc('Reuse previous results when the note content, prompt and model are unchanged')
+      .addToggle((toggle) => {
+        toggle
+          .setValue(this.plugin.settings.cache.enabled)
+          .onChange(async (value) => {
+            this.plugin.settings.cache.enabled = value;
+            await this.plugin.saveSettings();
+          });
+      })
+      .addButton((button) => {
+        button
+          .setButtonText('Clear cache')
+          .onClick(async () => {
+            await this.plugin.clearResponseCache();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Cache lifetime (days)')
+      .setDesc('Cached responses older than this are discarded')
+      .addSlider((slider) => {
+        slider
+          .setLimits(1, 90, 1)
+          .setValue(this.plugin.settings.cache.ttlDays)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.cache.ttlDays = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Cache size')
+      .setDesc('Maximum number of cached responses (least recently used are removed first)')
+      .addSlider((slider) => {
+        slider
+          .setLimits(50, 1000, 50)
+          .setValue(this.plugin.settings.cache.maxEntries)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.cache.maxEntries = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Max tokens')
+      .setDesc('Maximum tokens for AI responses (capped at the model\'s output limit)')
+      .addText((text) => {
+        text
+          .setPlaceholder('4096')
+          .setValue(this.plugin.settings.ai.maxTokens.toString())
+          .onChange(async (value) => {
+            const numValue = parseInt(value);
+            if (!isNaN(numValue) && numValue > 0) {
+              this.plugin.settings.ai.maxTokens = numValue;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Temperature')
+      .setDesc('AI response creativity level (0.0 - 1.0, not sent to reasoning models)')
+      .addSlider((slider) => {
+        slider
+          .setLimits(0, 1, 0.1)
+          .setValue(this.plugin.settings.ai.temperature)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.ai.temperature = value;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Note token budget')
+      .setDesc('Estimated tokens of note content sent to AI. Longer notes are summarized section by section first, and results say when that happened.')
+      .addText((text) => {
+        text
+          .setPlaceholder(String(DEFAULT_NOTE_TOKEN_BUDGET))
+          .setValue(this.plugin.settings.ai.noteTokenBudget.toString())
+          .onChange(async (value) => {
+            const numValue = parseInt(value);
+            if (!isNaN(numValue) && numValue >= 500) {
+              this.plugin.settings.ai.noteTokenBudget = numValue;
+              await this.plugin.saveSettings();
+            }
+          });
+      });
+
+    this.renderGenerationOverrides(containerEl);
+  }
+
+  private renderGenerationOverrides(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Per-feature Overrides' });
+    containerEl.createEl('p', {
+      cls: 'setting-item-description',
+      text: 'Max tokens and temperature for individual features. Leave empty to use the values above.',
+    });
+
+    const overrides = this.plugin.settings.ai.generationOverrides;
+
+    const update = async (purpose: GenerationPurpose, key: 'maxTokens' | 'temperature', value: number | undefined) => {
+      const override = { ...overrides[purpose] };
+      if (value === undefined) {
+        delete override[key];
+      } else {
+        override[key] = value;
+      }
+
+      if (override.maxTokens === undefined && override.temperature === undefined) {
+        delete overrides[purpose];
+      } else {
+        overrides[purpose] = override;
+      }
+      await this.plugin.saveSettings();
+    };
+
+    GENERATION_PURPOSES.forEach((purpose) => {
+      new Setting(containerEl)
+        .setName(GENERATION_PURPOSE_LABELS[purpose])
+        .addText((text) => {
+          text.inputEl.type = 'number';
+          text
+            .setPlaceholder(`Max tokens (${this.plugin.settings.ai.maxTokens})`)
+            .setValue(overrides[purpose]?.maxTokens?.toString() ?? '')
+            .onChange(async (value) => {
+              const numValue = parseInt(value);
+              if (value.trim() === '') {
+                await update(purpose, 'maxTokens', undefined);
+              } else if (!isNaN(numValue) && numValue > 0) {
+                await update(purpose, 'maxTokens', numValue);
+              }
+            });
+        })
+        .addText((text) => {
+          text
+            .setPlaceholder(`Temperature (${this.plugin.settings.ai.temperature})`)
+            .setValue(overrides[purpose]?.temperature?.toString() ?? '')
+            .onChange(async (value) => {
+              const numValue = parseFloat(value);
+              if (value.trim() === '') {
+                await update(purpose, 'temperature', undefined);
+              } else if (!isNaN(numValue) && numValue >= 0 && numValue <= 1) {
+                await update(purpose, 'temperature', numValue);
+              }
+            });
+        });
+    });
+  }
+
   private populateModelDropdown(
     dropdown: DropdownComponent,
     provider: LLMProviderType
@@ -300,7 +1670,7 @@ export class CultivatorSettingTab extends PluginSettingTab {
     // Set default value
     this.modelDropdown.setValue(
       this.plugin.settings.ai.models[provider] ??
-        AI_PROVIDERS[provider].defaultModel
+        getDefaultModelId(provider)
     );
   }
 }
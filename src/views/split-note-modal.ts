@@ -0,0 +1,247 @@
+/**
+ * Split Note Modal
+ * Plans how a note's content is partitioned among suggested notes,
+ * previews the result and performs the split (undoable as one operation)
+ */
+
+import { App, Modal, Notice, TFile } from 'obsidian';
+import type EvergreenNoteCultivatorPlugin from '../main';
+import { MaturityLevel, type SplitSuggestion } from '../core/domain';
+import {
+  PlanNoteSplitUseCase,
+  PerformNoteSplitUseCase,
+  buildSplitParentContent,
+  sanitizeNoteTitle,
+  type NoteSplitPlan,
+  type NoteSplitOperation,
+} from '../core/application';
+
+export class SplitNoteModal extends Modal {
+  private plugin: EvergreenNoteCultivatorPlugin;
+  private file: TFile;
+  private splitSuggestion: SplitSuggestion;
+  private plan: NoteSplitPlan | null = null;
+  private titles: string[] = [];
+  private parentPreviewEl: HTMLElement | null = null;
+  private isWorking: boolean = false;
+  // Aborted when the modal closes; stops the planning request
+  private abortController: AbortController = new AbortController();
+
+  constructor(
+    app: App,
+    plugin: EvergreenNoteCultivatorPlugin,
+    file: TFile,
+    splitSuggestion: SplitSuggestion
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.file = file;
+    this.splitSuggestion = splitSuggestion;
+  }
+
+  async onOpen(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.addClass('assessment-modal');
+    contentEl.addClass('split-note-modal');
+
+    const headerEl = contentEl.createDiv({ cls: 'assessment-modal-header' });
+    headerEl.createEl('h2', { text: '✂️ Split Note' });
+    headerEl.createEl('p', { cls: 'assessment-modal-subtitle', text: this.file.basename });
+
+    this.abortController = new AbortController();
+    await this.runPlan();
+  }
+
+  onClose(): void {
+    this.abortController.abort();
+    this.contentEl.empty();
+    this.plan = null;
+    this.parentPreviewEl = null;
+  }
+
+  private async runPlan(): Promise<void> {
+    const { contentEl } = this;
+
+    const loadingEl = contentEl.createDiv({ cls: 'assessment-loading' });
+    loadingEl.createEl('div', { cls: 'assessment-spinner' });
+    loadingEl.createEl('p', { text: 'Partitioning note content...' });
+    const cancelBtn = loadingEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: 'Cancel',
+    });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const { signal } = this.abortController;
+
+    const provider = this.plugin.getAIService()?.getCurrentProvider();
+    if (!provider) {
+      loadingEl.remove();
+      this.renderError('AI provider not found.');
+      return;
+    }
+
+    try {
+      const note = await this.plugin.getNoteRepository().getByPath(this.file.path);
+      if (!note) {
+        loadingEl.remove();
+        this.renderError('Unable to read note.');
+        return;
+      }
+
+      const useCase = new PlanNoteSplitUseCase(provider);
+      const result = await useCase.execute({
+        note,
+        splitSuggestion: this.splitSuggestion,
+        language: this.plugin.settings.ai.outputLanguage,
+        signal,
+      });
+      if (signal.aborted) return;
+
+      loadingEl.remove();
+
+      if (!result.plan) {
+        this.renderError(result.error ?? 'Unknown error');
+        return;
+      }
+
+      this.plan = result.plan;
+      this.titles = result.plan.parts.map((part) => part.title);
+      this.renderPreview();
+    } catch (error) {
+      if (signal.aborted) return;
+      loadingEl.remove();
+      this.renderError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private renderPreview(): void {
+    if (!this.plan) return;
+    const plan = this.plan;
+    const previewEl = this.contentEl.createDiv({ cls: 'split-note-preview' });
+
+    previewEl.createEl('h4', { text: `New Notes (${plan.parts.length})` });
+
+    plan.parts.forEach((part, idx) => {
+      const card = previewEl.createDiv({ cls: 'assessment-suggestion-card' });
+
+      const titleInput = card.createEl('input', {
+        cls: 'split-note-title-input',
+        attr: { type: 'text', 'aria-label': 'Note title' },
+      });
+      titleInput.value = this.titles[idx];
+      titleInput.addEventListener('input', () => {
+        this.titles[idx] = titleInput.value;
+        this.renderParentPreview();
+      });
+
+      card.createEl('p', {
+        cls: 'assessment-dimension-feedback',
+        text: `${MaturityLevel.default().getDisplayText()} · ${part.paragraphIndexes.length} paragraph(s)${part.summary ? ` · ${part.summary}` : ''}`,
+      });
+      card.createEl('pre', { cls: 'split-note-content', text: part.content });
+    });
+
+    previewEl.createEl('h4', { text: `Updated "${this.file.basename}"` });
+    this.parentPreviewEl = previewEl.createEl('pre', { cls: 'split-note-content' });
+    this.renderParentPreview();
+
+    const actionsEl = this.contentEl.createDiv({ cls: 'cultivator-actions' });
+    const performBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-primary',
+      text: `✂️ Create ${plan.parts.length} note(s)`,
+    });
+    performBtn.addEventListener('click', async () => {
+      performBtn.disabled = true;
+      const performed = await this.performSplit();
+      if (!performed) performBtn.disabled = false;
+    });
+
+    const cancelBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: 'Cancel',
+    });
+    cancelBtn.addEventListener('click', () => this.close());
+  }
+
+  private renderParentPreview(): void {
+    if (!this.plan || !this.parentPreviewEl) return;
+    const titles = this.titles.map((t) => sanitizeNoteTitle(t) || '(untitled)');
+    this.parentPreviewEl.setText(buildSplitParentContent(this.plan, titles));
+  }
+
+  private async performSplit(): Promise<boolean> {
+    if (!this.plan || this.isWorking) return false;
+    this.isWorking = true;
+
+    try {
+      const plan: NoteSplitPlan = {
+        ...this.plan,
+        parts: this.plan.parts.map((part, idx) => ({ ...part, title: this.titles[idx] })),
+      };
+
+      const useCase = new PerformNoteSplitUseCase(this.plugin.getNoteRepository());
+      const result = await useCase.execute({ plan });
+
+      if (!result.operation) {
+        new Notice(`❌ Split failed: ${result.error ?? 'Unknown error'}`);
+        return false;
+      }
+
+      this.plugin.setLastSplitOperation(result.operation);
+      new Notice(`✂️ Created ${result.operation.createdPaths.length} note(s).`);
+      this.renderDone(result.operation);
+      return true;
+    } finally {
+      this.isWorking = false;
+    }
+  }
+
+  private renderDone(operation: NoteSplitOperation): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const headerEl = contentEl.createDiv({ cls: 'assessment-modal-header' });
+    headerEl.createEl('h2', { text: '✅ Split Complete' });
+    headerEl.createEl('p', { cls: 'assessment-modal-subtitle', text: this.file.basename });
+
+    const listCard = contentEl.createDiv({ cls: 'assessment-suggestion-card' });
+    listCard.createEl('h4', { text: 'Created Notes' });
+    operation.createdPaths.forEach((path) => {
+      const linkEl = listCard.createEl('a', {
+        cls: 'split-note-created-link',
+        text: path.replace(/\.md$/, ''),
+      });
+      linkEl.addEventListener('click', (e) => {
+        e.preventDefault();
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) {
+          this.app.workspace.getLeaf().openFile(file);
+          this.close();
+        }
+      });
+    });
+
+    const actionsEl = contentEl.createDiv({ cls: 'cultivator-actions' });
+    const undoBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-secondary',
+      text: '↩️ Undo split',
+    });
+    undoBtn.addEventListener('click', async () => {
+      undoBtn.disabled = true;
+      const undone = await this.plugin.undoLastSplit();
+      if (undone) this.close();
+      else undoBtn.disabled = false;
+    });
+
+    const closeBtn = actionsEl.createEl('button', {
+      cls: 'cultivator-btn cultivator-btn-primary',
+      text: 'Done',
+    });
+    closeBtn.addEventListener('click', () => this.close());
+  }
+
+  private renderError(message: string): void {
+    const errorEl = this.contentEl.createDiv({ cls: 'assessment-error' });
+    errorEl.createEl('p', { text: `❌ ${message}` });
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Wilting Review Modal
+ * Review queue of notes flagged by the maturity decay policy,
+ * with bulk downgrade and the recent audit trail
+ */
+
+import { App, Modal, Notice, TFile } from 'obsidian';
+import type EvergreenNoteCultivatorPlugin from '../main';
+import { MaturityLevel } from '../core/domain';
+import {
+  GetWiltingNotesUseCase,
+  DowngradeWiltingNotesUseCase,
+  type WiltingNoteEntry,
+} from '../core/application';
+
+// Audit entries listed below the queue
+const AUDIT_LIMIT = 10;
+
+export class WiltingReviewModal extends Modal {
+  private plugin: EvergreenNoteCultivatorPlugin;
+  private onDone: (() => void) | null;
+  private entries: WiltingNoteEntry[] = [];
+  private selected: Set<string> = new Set();
+  private isWorking: boolean = false;
+
+  constructor(app: App, plugin: EvergreenNoteCultivatorPlugin, onDone?: () => void) {
+    super(app);
+    this.plugin = plugin;
+    this.onDone = onDone ?? null;
+  }
+
+  async onOpen(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.addClass('assessment-modal');
+    contentEl.addClass('wilting-review-modal');
+
+    const headerEl = contentEl.createDiv({ cls: 'assessment-modal-header' });
+    headerEl.createEl('h2', { text: '🍂 Wilting Notes' });
+    headerEl.createEl('p', {
+      cls: 'assessment-modal-subtitle',
+      text: 'Notes that went stale or fell below their stage threshold',
+    });
+
+    if (!this.plugin.settings.decay.enabled) {
+      contentEl.createEl('p', {
+        cls: 'cultivator-tip',
+        text: 'Maturity decay is disabled. Enable it in Settings → Maturity Decay.',
+      });
+      this.renderAuditTrail();
+      return;
+    }
+
+    const loadingEl = contentEl.createDiv({ cls: 'assessment-loading' });
+    loadingEl.createEl('div', { cls: 'assessment-spinner' });
+    loadingEl.createEl('p', { text: 'Checking the garden...' });
+
+    try {
+      const useCase = new GetWiltingNotesUseCase(
+        this.plugin.getNoteRepository(),
+        this.plugin.getHistoryService(),
+      );
+      this.entries = await useCase.execute({
+        policy: this.plugin.settings.decay,
+        profiles: this.plugin.settings.profiles,
+      });
+      this.selected = new Set(this.entries.map((e) => e.note.path));
+      loadingEl.remove();
+      this.renderQueue();
+    } catch (error) {
+      loadingEl.remove();
+      const errorEl = contentEl.createDiv({ cls: 'assessment-error' });
+      errorEl.createEl('p', { text: `❌ ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+
+    this.renderAuditTrail();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.entries = [];
+    this.selected.clear();
+  }
+
+  private renderQueue(): void {
+    const queueEl = this.contentEl.createDiv({ cls: 'wilting-review-queue' });
+
+    if (this.entries.length === 0) {
+      queueEl.createEl('p', { cls: 'cultivator-tip', text: '✅ No wilting notes.' });
+      return;
+    }
+
+    queueEl.createEl('h4', { text: `Review Queue (${this.entries.length})` });
+
+    const actionsEl = this.contentEl.createDiv({ cls: 'cultivator-actions' });
+    const downgradeBtn = actionsEl.createEl('button', { cls: 'cultivator-btn cultivator-btn-primary' });
+    const updateButton = () => {
+      downgradeBtn.setText(`⬇️ Downgrade ${this.selected.size} note(s)`);
+      downgradeBtn.disabled = this.selected.size === 0;
+    };
+
+    this.entries.forEach((entry) => {
+      const itemEl = queueEl.createDiv({ cls: 'assessment-suggestion-card wilting-review-item' });
+      const rowEl = itemEl.createDiv({ cls: 'garden-dashboard-note' });
+
+      const checkbox = rowEl.createEl('input', { attr: { type: 'checkbox' } });
+      checkbox.checked = this.selected.has(entry.note.path);
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) this.selected.add(entry.note.path);
+        else this.selected.delete(entry.note.path);
+        updateButton();
+      });
+
+      const linkEl = rowEl.createEl('a', { cls: 'garden-dashboard-note-title', text: entry.note.basename });
+      linkEl.addEventListener('click', (e) => {
+        e.preventDefault();
+        const file = this.app.vault.getAbstractFileByPath(entry.note.path);
+        if (file instanceof TFile) {
+          this.app.workspace.getLeaf().openFile(file);
+          this.close();
+        }
+      });
+
+      const scoreText = entry.record ? ` · ${entry.record.totalScore}pts` : '';
+      rowEl.createEl('span', {
+        cls: 'garden-dashboard-note-detail',
+        text: `${entry.note.maturityLevel.icon} → ${entry.suggested.icon}${scoreText}`,
+      });
+
+      const reasonsEl = itemEl.createEl('ul', { cls: 'wilting-review-reasons' });
+      entry.reasons.forEach((reason) => reasonsEl.createEl('li', { text: reason.description }));
+    });
+
+    downgradeBtn.addEventListener('click', () => this.runDowngrade());
+    updateButton();
+  }
+
+  private async runDowngrade(): Promise<void> {
+    if (this.isWorking || this.selected.size === 0) return;
+    this.isWorking = true;
+
+    try {
+      const useCase = new DowngradeWiltingNotesUseCase(
+        this.plugin.getNoteRepository(),
+        this.plugin.getMaturityAuditService(),
+      );
+      const result = await useCase.execute({
+        entries: this.entries.filter((e) => this.selected.has(e.note.path)),
+      });
+
+      const failedText = result.failed.length > 0 ? `, ${result.failed.length} failed` : '';
+      new Notice(`✅ Downgraded ${result.downgradedCount} note(s)${failedText}.`);
+      if (result.failed.length > 0) {
+        console.error('Wilting downgrade failures:', result.failed);
+      }
+
+      this.onDone?.();
+      this.close();
+    } finally {
+      this.isWorking = false;
+    }
+  }
+
+  private renderAuditTrail(): void {
+    const entries = this.plugin.getMaturityAuditService().getEntries().slice(0, AUDIT_LIMIT);
+    if (entries.length === 0) return;
+
+    const auditEl = this.contentEl.createDiv({ cls: 'assessment-suggestion-card wilting-review-audit' });
+    auditEl.createEl('h4', { text: '📜 Recent Downgrades' });
+    const listEl = auditEl.createEl('ul', { cls: 'wilting-review-reasons' });
+    entries.forEach((entry) => {
+      const from = MaturityLevel.fromFrontmatter(entry.from).getDisplayText();
+      const to = MaturityLevel.fromFrontmatter(entry.to).getDisplayText();
+      const date = new Date(entry.changedAt).toLocaleDateString();
+      listEl.createEl('li', {
+        text: `${date} · ${entry.notePath.replace(/\.md$/, '')}: ${from} → ${to} (${entry.reasons.map((r) => r.description).join('; ')})`,
+      });
+    });
+  }
+}